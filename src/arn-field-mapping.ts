@@ -1,13 +1,16 @@
-
 /**
  * Comprehensive mapping of Amazon Connect flow action types to their ARN-containing fields.
  * Based on AWS documentation and actual flow analysis.
  *
  * Note: AWS inconsistently names ARN fields - many fields ending in "Id" actually contain ARNs.
+ *
+ * Every flow language action type is listed, including those with no reference fields: an action
+ * type missing here has not been reviewed, which --strict-references treats like an unmapped field.
+ * test-utils/fixtures/actions holds a flow per action type with each field below populated.
  */
 
 export interface ArnFieldPath {
-  /** JSON path to the field within Parameters (e.g., "LambdaFunctionARN" or "EventHooks.CustomerQueue") */
+  /** JSON path to the field within Parameters (e.g., "LambdaFunctionARN", "EventHooks.CustomerQueue", or "Messages[].PromptId" for every array element) */
   path: string;
   /** Description of what this ARN references */
   description: string;
@@ -21,17 +24,69 @@ export interface ActionTypeMapping {
   actionType: string;
   /** Human-readable name from Admin Guide */
   adminGuideName: string;
-  /** List of ARN-containing field paths within Parameters */
+  /** List of ARN-containing field paths within Parameters (empty when the action references nothing) */
   arnFields: ArnFieldPath[];
 }
 
 
 export const ARN_FIELD_MAPPINGS: ActionTypeMapping[] = [
   {
-    actionType: "InvokeLambdaFunction",
-    adminGuideName: "AWS Lambda function",
+    actionType: "AssociateContactToCustomerProfile",
+    adminGuideName: "Customer profiles",
+    arnFields: []
+  },
+  {
+    actionType: "AuthenticateParticipant",
+    adminGuideName: "Authenticate Customer",
     arnFields: [
-      { path: "LambdaFunctionARN", description: "Lambda function ARN", confirmed: true }
+      { path: "CognitoConfiguration.UserPoolId", description: "Cognito User Pool ARN", confirmed: false },
+      { path: "CognitoConfiguration.AppClientId", description: "Cognito App Client ID", confirmed: false }
+    ]
+  },
+  {
+    actionType: "CheckCallProgress",
+    adminGuideName: "Check call progress",
+    arnFields: []
+  },
+  {
+    actionType: "CheckHoursOfOperation",
+    adminGuideName: "Check hours of operation",
+    arnFields: [
+      // Absent when the block checks the working queue's hours
+      { path: "HoursOfOperationId", description: "Hours of operation ARN", confirmed: true }
+    ]
+  },
+  {
+    actionType: "CheckMetricData",
+    adminGuideName: "Check queue status / Check staffing",
+    arnFields: [
+      // Absent when the block checks the working queue
+      { path: "QueueId", description: "Queue ARN", confirmed: false }
+    ]
+  },
+  {
+    actionType: "CheckVoiceId",
+    adminGuideName: "Check Voice ID",
+    arnFields: []
+  },
+  {
+    actionType: "Compare",
+    adminGuideName: "Check contact attributes",
+    arnFields: []
+  },
+  {
+    actionType: "ConnectParticipantWithLexBot",
+    adminGuideName: "Get customer input (Amazon Lex)",
+    arnFields: [
+      { path: "LexV2Bot.AliasArn", description: "Lex V2 bot alias ARN", confirmed: true },
+      { path: "PromptId", description: "Prompt ARN played before the bot", confirmed: false }
+    ]
+  },
+  {
+    actionType: "CreateCallbackContact",
+    adminGuideName: "Transfer to queue (callback)",
+    arnFields: [
+      { path: "QueueId", description: "Queue ARN the callback waits in", confirmed: false }
     ]
   },
   {
@@ -41,14 +96,90 @@ export const ARN_FIELD_MAPPINGS: ActionTypeMapping[] = [
       { path: "CaseTemplateId", description: "Case template ID (not ARN)", confirmed: true }
     ]
   },
+  {
+    actionType: "CreateContact",
+    adminGuideName: "Create contact",
+    arnFields: [
+      { path: "ContactFlowId", description: "Flow ARN the new contact runs", confirmed: false }
+    ]
+  },
+  {
+    actionType: "CreatePersistentContactAssociation",
+    adminGuideName: "Create persistent contact association",
+    arnFields: []
+  },
+  {
+    actionType: "CreateTask",
+    adminGuideName: "Create task",
+    arnFields: [
+      { path: "ContactFlowId", description: "Flow ARN the task runs", confirmed: true },
+      { path: "TaskTemplateId", description: "Task template ID (not ARN, not copied)", confirmed: false }
+    ]
+  },
+  {
+    actionType: "CreateWisdomSession",
+    adminGuideName: "Amazon Q in Connect",
+    arnFields: [
+      { path: "WisdomAssistantArn", description: "Amazon Q assistant ARN", confirmed: false }
+    ]
+  },
+  {
+    actionType: "DisconnectParticipant",
+    adminGuideName: "Disconnect / hang up",
+    arnFields: []
+  },
+  {
+    actionType: "DistributeByPercentage",
+    adminGuideName: "Distribute by percentage",
+    arnFields: []
+  },
+  {
+    actionType: "EndFlowExecution",
+    adminGuideName: "End flow / Resume",
+    arnFields: []
+  },
+  {
+    actionType: "EndFlowModuleExecution",
+    adminGuideName: "Return (from module)",
+    arnFields: []
+  },
+  {
+    actionType: "GetMetricData",
+    adminGuideName: "Get queue metrics",
+    arnFields: [
+      { path: "QueueId", description: "Queue ARN", confirmed: false },
+      { path: "AgentId", description: "Agent (user) ARN", confirmed: false }
+    ]
+  },
   {
     actionType: "GetParticipantInput",
     adminGuideName: "Get customer input",
     arnFields: [
       { path: "PromptId", description: "Prompt ARN for audio playback", confirmed: true },
-      { path: "LexBot", description: "Lex bot ARN (field name unconfirmed)", confirmed: false }
+      { path: "Media.Uri", description: "S3 URI for audio files", confirmed: false },
+      { path: "LexV2Bot.AliasArn", description: "Lex V2 bot alias ARN", confirmed: false }
+    ]
+  },
+  {
+    actionType: "InvokeFlowModule",
+    adminGuideName: "Invoke module",
+    arnFields: [
+      { path: "FlowModuleId", description: "Flow module ID (not ARN)", confirmed: false },
+      { path: "ContactFlowModuleId", description: "Flow module ARN", confirmed: false }
     ]
   },
+  {
+    actionType: "InvokeLambdaFunction",
+    adminGuideName: "AWS Lambda function",
+    arnFields: [
+      { path: "LambdaFunctionARN", description: "Lambda function ARN", confirmed: true }
+    ]
+  },
+  {
+    actionType: "Loop",
+    adminGuideName: "Loop",
+    arnFields: []
+  },
   {
     actionType: "MessageParticipant",
     adminGuideName: "Play prompt",
@@ -58,21 +189,17 @@ export const ARN_FIELD_MAPPINGS: ActionTypeMapping[] = [
     ]
   },
   {
-    actionType: "UpdateContactEventHooks",
-    adminGuideName: "Set customer queue flow / Set disconnect flow / Set whisper flow",
+    actionType: "MessageParticipantIteratively",
+    adminGuideName: "Loop prompts",
     arnFields: [
-      { path: "EventHooks.CustomerQueue", description: "Customer queue flow ARN", confirmed: true },
-      { path: "EventHooks.CustomerRemaining", description: "Customer remaining flow ARN", confirmed: true },
-      { path: "EventHooks.AgentWhisper", description: "Agent whisper flow ARN", confirmed: true },
-      { path: "EventHooks.DisconnectFlow", description: "Disconnect flow ARN", confirmed: false }
+      { path: "Messages[].PromptId", description: "Prompt ARN", confirmed: true },
+      { path: "Messages[].Media.Uri", description: "S3 URI for audio files", confirmed: false }
     ]
   },
   {
-    actionType: "UpdateContactTargetQueue",
-    adminGuideName: "Set working queue",
-    arnFields: [
-      { path: "QueueId", description: "Queue ARN", confirmed: true }
-    ]
+    actionType: "ResumeContact",
+    adminGuideName: "Resume contact",
+    arnFields: []
   },
   {
     actionType: "ShowView",
@@ -82,12 +209,33 @@ export const ARN_FIELD_MAPPINGS: ActionTypeMapping[] = [
     ]
   },
   {
-    actionType: "TransferToFlow",
-    adminGuideName: "Transfer to flow",
+    actionType: "StartMediaStreaming",
+    adminGuideName: "Start media streaming",
+    arnFields: []
+  },
+  {
+    actionType: "StartOutboundEmailContact",
+    adminGuideName: "Send message",
     arnFields: [
-      { path: "ContactFlowId", description: "Contact flow ARN", confirmed: true }
+      // Email addresses are present but phone number ARN field name is unknown
+      // Flow ARN reference field is also unknown
     ]
   },
+  {
+    actionType: "StopMediaStreaming",
+    adminGuideName: "Stop media streaming",
+    arnFields: []
+  },
+  {
+    actionType: "TagContact",
+    adminGuideName: "Tag contact",
+    arnFields: []
+  },
+  {
+    actionType: "TransferContactToAgent",
+    adminGuideName: "Transfer to agent",
+    arnFields: []
+  },
   {
     actionType: "TransferContactToQueue",
     adminGuideName: "Transfer to queue",
@@ -96,34 +244,90 @@ export const ARN_FIELD_MAPPINGS: ActionTypeMapping[] = [
     ]
   },
   {
-    actionType: "InvokeFlowModule",
-    adminGuideName: "Invoke module",
+    actionType: "TransferParticipantToThirdParty",
+    adminGuideName: "Transfer to phone number",
     arnFields: [
-      { path: "ContactFlowModuleId", description: "Flow module ARN", confirmed: false }
+      // ThirdPartyPhoneNumber and CallerId.Number are literal E.164 numbers, not references
     ]
   },
   {
-    actionType: "CreateWisdomSession",
-    adminGuideName: "Amazon Q in Connect",
+    actionType: "TransferToFlow",
+    adminGuideName: "Transfer to flow",
     arnFields: [
-      { path: "WisdomDomainArn", description: "Amazon Q domain ARN (field name unconfirmed)", confirmed: false }
+      { path: "ContactFlowId", description: "Contact flow ARN", confirmed: true }
     ]
   },
   {
-    actionType: "AuthenticateParticipant",
-    adminGuideName: "Authenticate Customer",
+    actionType: "UpdateContactAttributes",
+    adminGuideName: "Set contact attributes",
+    arnFields: []
+  },
+  {
+    actionType: "UpdateContactCallbackNumber",
+    adminGuideName: "Set callback number",
+    arnFields: []
+  },
+  {
+    actionType: "UpdateContactData",
+    adminGuideName: "Set contact data",
+    arnFields: []
+  },
+  {
+    actionType: "UpdateContactEventHooks",
+    adminGuideName: "Set customer queue flow / Set disconnect flow / Set whisper flow / Set hold flow / Set event flow",
     arnFields: [
-      { path: "CognitoConfiguration.UserPoolId", description: "Cognito User Pool ARN", confirmed: false },
-      { path: "CognitoConfiguration.AppClientId", description: "Cognito App Client ID", confirmed: false }
+      { path: "EventHooks.CustomerQueue", description: "Customer queue flow ARN", confirmed: true },
+      { path: "EventHooks.CustomerRemaining", description: "Customer remaining flow ARN", confirmed: true },
+      { path: "EventHooks.AgentWhisper", description: "Agent whisper flow ARN", confirmed: true },
+      { path: "EventHooks.CustomerWhisper", description: "Customer whisper flow ARN", confirmed: false },
+      { path: "EventHooks.AgentHold", description: "Agent hold flow ARN", confirmed: false },
+      { path: "EventHooks.CustomerHold", description: "Customer hold flow ARN", confirmed: false },
+      { path: "EventHooks.DisconnectFlow", description: "Disconnect flow ARN", confirmed: false },
+      { path: "EventHooks.DefaultAgentUI", description: "Default agent UI flow ARN", confirmed: false },
+      { path: "EventHooks.DisconnectAgentUI", description: "Disconnect agent UI flow ARN", confirmed: false },
+      { path: "EventHooks.PauseContact", description: "Pause contact flow ARN", confirmed: false },
+      { path: "EventHooks.ResumeContact", description: "Resume contact flow ARN", confirmed: false }
     ]
   },
   {
-    actionType: "StartOutboundEmailContact",
-    adminGuideName: "Send message",
+    actionType: "UpdateContactMediaProcessing",
+    adminGuideName: "Set media processing",
+    arnFields: []
+  },
+  {
+    actionType: "UpdateContactRecordingBehavior",
+    adminGuideName: "Set recording and analytics behavior",
+    arnFields: []
+  },
+  {
+    actionType: "UpdateContactRoutingBehavior",
+    adminGuideName: "Set routing criteria",
     arnFields: [
-      // Email addresses are present but phone number ARN field name is unknown
-      // Flow ARN reference field is also unknown
+      // Routing steps match predefined attributes by name, not by reference
+    ]
+  },
+  {
+    actionType: "UpdateContactTargetQueue",
+    adminGuideName: "Set working queue",
+    arnFields: [
+      { path: "QueueId", description: "Queue ARN", confirmed: true },
+      { path: "AgentId", description: "Agent (user) ARN, for the agent's personal queue", confirmed: true }
     ]
+  },
+  {
+    actionType: "UpdateContactTextToSpeechVoice",
+    adminGuideName: "Set voice",
+    arnFields: []
+  },
+  {
+    actionType: "UpdateFlowLoggingBehavior",
+    adminGuideName: "Set logging behavior",
+    arnFields: []
+  },
+  {
+    actionType: "Wait",
+    adminGuideName: "Wait",
+    arnFields: []
   }
 ];
 
@@ -144,3 +348,29 @@ export function actionTypeContainsArns(actionType: string): boolean {
   const fields = getArnFieldsForActionType(actionType);
   return fields.length > 0;
 }
+
+
+/**
+ * Check if an action type has been catalogued at all (with or without ARN fields)
+ */
+export function isCatalogedActionType(actionType: string): boolean {
+  return ARN_FIELD_MAPPINGS.some(m => m.actionType === actionType);
+}
+
+
+/**
+ * Convert a concrete path below Parameters to its catalog form.
+ * Example: toCatalogPath("Messages.1.PromptId") returns "Messages[].PromptId"
+ */
+export function toCatalogPath(path: string): string {
+  return path.replace(/\.\d+(?=\.|$)/g, "[]");
+}
+
+
+/**
+ * Check if a concrete path below an action's Parameters is a catalogued ARN field
+ */
+export function isCatalogedArnField(actionType: string, path: string): boolean {
+  const catalogPath = toCatalogPath(path);
+  return getArnFieldsForActionType(actionType).some(field => field.path === catalogPath);
+}
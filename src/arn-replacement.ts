@@ -1,18 +1,100 @@
 
+import { isCatalogedArnField } from "./arn-field-mapping.js";
+import { isResourceId, resourceIdFromArn, splitArnQualifier } from "./arn-utils.js";
+
 import type { ArnPattern } from "./validation.js";
 
 
 const EXTERNAL_ARN_PATTERN = /arn:aws:(lambda|lex):[a-z0-9-]*:\d*:[^\s,"]+|s3:\/\/[^\s,"]+/g;
 
 
+export interface ArnSubstitution {
+  // Dot path from the content root, e.g. Actions.3.Parameters.QueueId
+  path: string;
+  from: string;
+  to: string;
+  // Whether the path is a reference field listed in ARN_FIELD_MAPPINGS; other values were rewritten because they are a mapped ARN in full
+  knownField: boolean;
+}
+
+
+/**
+ * Rewrite source ARNs in flow or module content for target. The content is parsed and walked, and
+ * only a string value that is a mapped ARN in full - or a flow/view ARN whose unqualified part is
+ * mapped, keeping its alias or $SAVED qualifier - is replaced, so one ARN that is a prefix of another
+ * (<view arn> and <view arn>:$LATEST, a Lambda and its versions) never corrupts the other, and
+ * text that merely mentions an ARN is left alone. A value that is a bare resource ID (some blocks
+ * hold IDs, not ARNs) is replaced with the ID of the target resource its ARN maps to. Returns the
+ * content unchanged (same string) when nothing was rewritten, with every substitution made.
+ */
+export function rewriteArnsInContent(contentString: string, arnMappings: Map<string, string>): { content: string; substitutions: ArnSubstitution[] } {
+  if (arnMappings.size === 0) return { content: contentString, substitutions: [] };
+
+  const parsed = JSON.parse(contentString) as unknown;
+  const substitutions: ArnSubstitution[] = [];
+  const idMappings = buildIdMappings(arnMappings);
+
+  const actions = (parsed as { Actions?: unknown }).Actions;
+  const isKnownField = (path: string): boolean => {
+    const match = /^Actions\.(\d+)\.Parameters\.(.+)$/.exec(path);
+    const type = match && Array.isArray(actions) ? (actions[Number(match[1])] as { Type?: unknown } | null)?.Type : undefined;
+    return typeof type === "string" && isCatalogedArnField(type, match![2]!);
+  };
+
+  const visit = (value: unknown, path: string): unknown => {
+    if (typeof value === "string") {
+      const to = isResourceId(value) ? idMappings.get(value) : resolveArn(value, arnMappings);
+      if (to === undefined || to === value) return value;
+
+      substitutions.push({ path, from: value, to, knownField: isKnownField(path) });
+      return to;
+    }
+
+    if (Array.isArray(value)) return value.map((item, index) => visit(item, `${path}${path ? "." : ""}${index}`));
+
+    if (typeof value === "object" && value !== null) {
+      return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, visit(entry, `${path}${path ? "." : ""}${key}`)]));
+    }
+
+    return value;
+  };
+
+  const rewritten = visit(parsed, "");
+  return substitutions.length > 0 ? { content: JSON.stringify(rewritten), substitutions } : { content: contentString, substitutions };
+}
+
+
 export function replaceArnsInContent(contentString: string, arnMappings: Map<string, string>): string {
-  let updatedContent = contentString;
+  return rewriteArnsInContent(contentString, arnMappings).content;
+}
+
+
+// Source resource ID → target resource ID, from the Connect resource ARNs mapped
+function buildIdMappings(arnMappings: Map<string, string>): Map<string, string> {
+  const idMappings = new Map<string, string>();
 
   for (const [sourceArn, targetArn] of arnMappings) {
-    updatedContent = updatedContent.replaceAll(sourceArn, targetArn);
+    // Versioned flow references are mapped by ARN only; their IDs are the unqualified flow's
+    if (splitArnQualifier(sourceArn).qualifier !== undefined) continue;
+
+    const sourceId = resourceIdFromArn(sourceArn);
+    const targetId = resourceIdFromArn(targetArn);
+    if (sourceId && targetId) idMappings.set(sourceId, targetId);
   }
 
-  return updatedContent;
+  return idMappings;
+}
+
+
+function resolveArn(value: string, arnMappings: Map<string, string>): string | undefined {
+  // A versioned reference (<flow arn>:3) has its own entry (see flow-versions.ts)
+  const mapped = arnMappings.get(value);
+  if (mapped !== undefined) return mapped;
+
+  // Alias and $LATEST/$SAVED qualifiers keep their meaning in target and carry over onto the mapped ARN
+  const { baseArn, qualifier } = splitArnQualifier(value);
+  const mappedBase = qualifier === undefined ? undefined : arnMappings.get(baseArn);
+  return mappedBase === undefined ? undefined : `${mappedBase}:${qualifier}`;
 }
 
 
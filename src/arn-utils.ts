@@ -1,24 +1,15 @@
 
 import type { ContactFlow, ContactFlowModule } from "@aws-sdk/client-connect";
-import { getArnFieldsForActionType } from "./arn-field-mapping.js";
+import { getArnFieldsForActionType, isCatalogedArnField } from "./arn-field-mapping.js";
 
 
-const ARN_PATTERN = /arn:aws:connect:[a-z0-9-]+:\d+:instance\/[a-f0-9-]+(?:\/[a-z-]+\/[a-f0-9-]+|:view\/[a-f0-9-]+(?::(?:\d+|\$LATEST|\$SAVED))?)/g;
+const ARN_PATTERN = /arn:aws:connect:[a-z0-9-]+:\d+:instance\/[a-f0-9-]+(?:\/contact-flow\/[a-f0-9-]+(?::(?:\d+|\$LATEST|\$SAVED|[A-Za-z][\w-]*))?|\/[a-z-]+\/[a-f0-9-]+|:view\/[a-f0-9-]+(?::(?:\d+|\$LATEST|\$SAVED))?)/g;
 
+// Some block parameters hold a resource's bare ID rather than its ARN
+const RESOURCE_ID_PATTERN = /^[a-f0-9]{8}-[a-f0-9]{4}-[a-f0-9]{4}-[a-f0-9]{4}-[a-f0-9]{12}$/i;
 
-type TypeofResult = 'string' | 'number' | 'bigint' | 'boolean' | 'symbol' | 'undefined' | 'object' | 'function';
-
-
-type TypeofResultToType = {
-  'string': string;
-  'number': number;
-  'bigint': bigint;
-  'boolean': boolean;
-  'symbol': symbol;
-  'undefined': undefined;
-  'object': object;
-  'function': Function;
-};
+// Flow and view ARNs may carry a version or alias qualifier: <arn>:3, <arn>:$SAVED, <arn>:live
+const QUALIFIED_ARN = /^(arn:aws:connect:[a-z0-9-]+:\d+:instance\/[a-f0-9-]+(?:\/contact-flow\/|:view\/)[a-f0-9-]+):(\d+|\$LATEST|\$SAVED|[A-Za-z][\w-]*)$/;
 
 
 export type ArnCategory = 'flow' | 'module' | 'queue' | 'prompt' | 'lambda' |
@@ -29,24 +20,43 @@ export type ArnCategory = 'flow' | 'module' | 'queue' | 'prompt' | 'lambda' |
 
 export function categorizeArn(arn: string): ArnCategory {
   if (arn.includes('/contact-flow/')) return 'flow';
-  if (arn.includes('/contact-flow-module/')) return 'module';
+  if (arn.includes('/flow-module/') || arn.includes('/contact-flow-module/')) return 'module';
   if (arn.includes(':lambda:')) return 'lambda';
   if (arn.includes(':lex:')) return 'lex';
   if (arn.startsWith('s3://')) return 's3';
-  if (arn.includes(':view/')) return 'view';
+  // AWS managed views are not under an instance (arn:aws:connect:<region>:aws:view/<id>)
+  if (arn.includes(':view/') || arn.includes('/view/')) return 'view';
   if (arn.includes('/queue/')) return 'queue';
   if (arn.includes('/prompt/')) return 'prompt';
   if (arn.includes('/routing-profile/')) return 'routing-profile';
-  if (arn.includes('/hours-of-operation/')) return 'hours-of-operation';
-  if (arn.includes('/quick-connect/')) return 'quick-connect';
+  if (arn.includes('/operating-hours/')) return 'hours-of-operation';
+  if (arn.includes('/transfer-destination/')) return 'quick-connect';
   if (arn.includes('/security-profile/')) return 'security-profile';
-  if (arn.includes('/hierarchy-group/')) return 'hierarchy-group';
-  if (arn.includes('/agent-status/')) return 'agent-status';
+  if (arn.includes('/agent-group/')) return 'hierarchy-group';
+  if (arn.includes('/agent-state/')) return 'agent-status';
 
   return 'unknown';
 }
 
 
+export function splitArnQualifier(arn: string): { baseArn: string; qualifier?: string } {
+  const match = QUALIFIED_ARN.exec(arn);
+  return match ? { baseArn: match[1]!, qualifier: match[2]! } : { baseArn: arn };
+}
+
+
+export function isResourceId(value: string): boolean {
+  return RESOURCE_ID_PATTERN.test(value);
+}
+
+
+// The resource ID a Connect ARN ends in, or undefined for other ARNs (Lambda, Lex, S3)
+export function resourceIdFromArn(arn: string): string | undefined {
+  const id = splitArnQualifier(arn).baseArn.split('/').pop()!;
+  return arn.startsWith('arn:aws:connect:') && isResourceId(id) ? id : undefined;
+}
+
+
 /**
  * Extract ARNs from flow content string using regex pattern matching.
  * This is a fallback method for catching ARNs we might have missed.
@@ -58,22 +68,24 @@ export function extractArnsFromFlowContent(content: string): string[] {
 
 
 /**
- * Get a value from a nested object using a dot-notation path.
- * Example: getNestedValue({a: {b: "value"}}, "a.b") returns "value"
+ * Get the string values at a dot-notation path, where a "[]" suffix steps into every array element.
+ * Example: getValuesAtPath({a: [{b: "x"}, {b: "y"}]}, "a[].b") returns ["x", "y"]
  */
-function getNestedValue<T extends TypeofResult = 'string'>(obj: unknown, path: string, expectedType: T = 'string' as T /* Default 'string' matches T's default; when T specified explicitly, expectedType must be provided */): TypeofResultToType[T] | undefined {
-  const parts = path.split('.');
-  let current: unknown = obj;
+function getValuesAtPath(obj: unknown, path: string): string[] {
+  let current: unknown[] = [obj];
+
+  for (const part of path.split('.')) {
+    const key = part.endsWith('[]') ? part.slice(0, -2) : part;
 
-  for (const part of parts) {
-    if (current == null || typeof current !== 'object') return undefined;
     // All non-null objects in JavaScript are string-indexable
-    current = (current as Record<string, unknown>)[part];
+    current = current
+      .filter(value => value != null && typeof value === 'object')
+      .map(value => (value as Record<string, unknown>)[key]);
+
+    if (part.endsWith('[]')) current = current.flatMap(value => Array.isArray(value) ? value : []);
   }
 
-  if (typeof current !== expectedType) return undefined;
-  // typeof check validated current's type; assertion bridges runtime check to compile-time mapped type
-  return current as TypeofResultToType[T];
+  return current.filter((value): value is string => typeof value === 'string');
 }
 
 
@@ -97,7 +109,7 @@ function isArnOrResourceId(value: string): boolean {
   if (value.startsWith('s3://')) return true;
 
   // Match UUID-like resource IDs (36 characters with dashes)
-  if (/^[a-f0-9]{8}-[a-f0-9]{4}-[a-f0-9]{4}-[a-f0-9]{4}-[a-f0-9]{12}$/i.test(value)) return true;
+  if (isResourceId(value)) return true;
 
   return false;
 }
@@ -138,10 +150,8 @@ export function extractDependencyArnsFromFlow(resource: ContactFlow | ContactFlo
 
     // Extract ARNs from known field paths
     for (const field of arnFields) {
-      const value = getNestedValue(parameters, field.path);
-
-      if (value && isArnOrResourceId(value)) {
-        arns.add(value);
+      for (const value of getValuesAtPath(parameters, field.path)) {
+        if (isArnOrResourceId(value)) arns.add(value);
       }
     }
 
@@ -154,3 +164,58 @@ export function extractDependencyArnsFromFlow(resource: ContactFlow | ContactFlo
 
   return Array.from(arns);
 }
+
+
+export interface UnmappedReference {
+  actionId: string;
+  actionType: string;
+  // Dot path below the action's Parameters
+  path: string;
+  value: string;
+}
+
+
+/**
+ * Find reference-like parameter values (ARNs, S3 URIs, resource IDs) that are not in a catalogued
+ * field of their action type. They are still rewritten when they are a mapped ARN or ID in full,
+ * but a reference the catalog does not know is never validated against target.
+ */
+export function findUnmappedReferences(resource: ContactFlow | ContactFlowModule): UnmappedReference[] {
+  let flowContent: unknown;
+  try {
+    flowContent = JSON.parse(resource.Content ?? "");
+  } catch {
+    return [];
+  }
+
+  const unmapped: UnmappedReference[] = [];
+  const actions = (flowContent as { Actions?: unknown[] }).Actions ?? [];
+
+  for (const action of actions) {
+    const actionObj = action as { Identifier?: unknown; Type?: unknown; Parameters?: unknown };
+    if (typeof actionObj.Type !== 'string') continue;
+
+    const actionType = actionObj.Type;
+    const actionId = typeof actionObj.Identifier === 'string' ? actionObj.Identifier : "";
+
+    const visit = (value: unknown, path: string): void => {
+      if (typeof value === 'string') {
+        if (isArnOrResourceId(value) && !isCatalogedArnField(actionType, path)) unmapped.push({ actionId, actionType, path, value });
+        return;
+      }
+
+      if (Array.isArray(value)) {
+        value.forEach((item, index) => visit(item, `${path}${path ? "." : ""}${index}`));
+        return;
+      }
+
+      if (value != null && typeof value === 'object') {
+        for (const [key, entry] of Object.entries(value)) visit(entry, `${path}${path ? "." : ""}${key}`);
+      }
+    };
+
+    visit(actionObj.Parameters, "");
+  }
+
+  return unmapped;
+}
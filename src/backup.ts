@@ -1,109 +1,290 @@
-
-import { mkdir, writeFile } from "fs/promises";
+import { mkdir, readFile, writeFile } from "fs/promises";
 import { join } from "path";
 import { describeContactFlow, describeContactFlowModule } from "./connect/flows.js";
+import { mapConcurrent } from "./utils/concurrency-utils.js";
+import { getActiveJournal, recordJournalBackupDir } from "./journal.js";
+
+import type { ConnectClient, ContactFlow, ContactFlowSummary, ContactFlowModuleSummary, ContactFlowType, ContactFlowStatus, ContactFlowState } from "@aws-sdk/client-connect";
+import type { ReportResourceSection } from "./report-output.js";
+
 
-import type { ConnectClient, ContactFlowSummary, ContactFlowModuleSummary } from "@aws-sdk/client-connect";
+/**
+ * Version of manifest.json in a backup directory. Version 1 (flows and modules only, as
+ * top-level `flows`/`modules` lists) is still read by loadBackupManifest.
+ */
+export const BACKUP_FORMAT_VERSION = 2;
+
+
+export interface BackupEntry {
+  name: string;
+  id: string;
+  arn: string;
+}
 
 
-interface BackupMetadata {
+export type BackupFileEntry = BackupEntry & { file: string };
+
+
+export interface BackupMetadata {
+  formatVersion: number;
   timestamp: string;
   targetInstance: {
     instanceId: string;
     region: string;
   };
-  flowsBackedUp: number;
-  modulesBackedUp: number;
-  flows: { name: string; id: string; arn: string; file: string }[];
-  modules: { name: string; id: string; arn: string; file: string }[];
+  // Keyed by resource type as used by --skip (flows, modules, queues, routing-profiles, ...)
+  resources: Record<string, BackupFileEntry[]>;
+  hierarchyStructure?: string;
+  // Resources the copy run created; absent in backups written before creation was recorded
+  created?: {
+    flows: BackupEntry[];
+    modules: BackupEntry[];
+  };
+}
+
+
+export interface BackedUpFlow {
+  Name?: string | undefined;
+  Type?: ContactFlowType | undefined;
+  Description?: string | undefined;
+  Content?: string | undefined;
+  Tags?: Record<string, string> | undefined;
+  Status?: ContactFlowStatus | undefined;
+  State?: ContactFlowState | undefined;
+  // Pending $SAVED draft of a published flow, when the copy run knew about it (--include-saved, or any updated flow with --atomic)
+  DraftContent?: string | undefined;
+}
+
+
+export interface BackedUpModule {
+  Name?: string | undefined;
+  Description?: string | undefined;
+  Content?: string | undefined;
+  Tags?: Record<string, string> | undefined;
 }
 
 
+interface ActiveBackup {
+  dir: string;
+  metadata: BackupMetadata;
+}
+
+
+// One directory per process, so every resource type a `copy` run modifies is backed up together
+let activeBackup: ActiveBackup | undefined;
+
+
 function sanitizeFileName(filename: string): string {
   return filename.replace(/[^a-zA-Z0-9._-]+/g, '-').replace(/^-+|-+$/g, '');
 }
 
 
-export async function createBackup(client: ConnectClient, instanceId: string, region: string, flowsToUpdate: ContactFlowSummary[], modulesToUpdate: ContactFlowModuleSummary[]): Promise<string> {
+async function openBackup(instanceId: string, region: string): Promise<ActiveBackup> {
+  if (activeBackup?.metadata.targetInstance.instanceId === instanceId) return activeBackup;
+
+  // A resumed run keeps writing to the interrupted run's backup, which holds the pre-run state
+  const journal = getActiveJournal();
+  if (journal?.backupDir && journal.target.instanceId === instanceId) {
+    activeBackup = { dir: journal.backupDir, metadata: await loadBackupManifest(journal.backupDir) };
+    activeBackup.metadata.created = mergeCreated(activeBackup.metadata.created, createdInJournal());
+
+    await writeManifest(activeBackup);
+    console.log(`Backup directory (resumed): ${activeBackup.dir}`);
+    return activeBackup;
+  }
+
   const timestamp = sanitizeFileName(new Date().toISOString().split('.')[0] + 'Z');
   const backupDir = join('backups', `backup-${timestamp}`);
-  const flowsDir = join(backupDir, 'flows');
-  const modulesDir = join(backupDir, 'modules');
 
   await mkdir(backupDir, { recursive: true });
-  await mkdir(flowsDir, { recursive: true });
-  await mkdir(modulesDir, { recursive: true });
-
-  const metadata: BackupMetadata = {
-    timestamp,
-    targetInstance: {
-      instanceId,
-      region
-    },
-    flowsBackedUp: flowsToUpdate.length,
-    modulesBackedUp: modulesToUpdate.length,
-    flows: [],
-    modules: []
+
+  activeBackup = {
+    dir: backupDir,
+    metadata: {
+      formatVersion: BACKUP_FORMAT_VERSION,
+      timestamp,
+      targetInstance: {
+        instanceId,
+        region
+      },
+      resources: {}
+    }
   };
 
+  await writeManifest(activeBackup);
+  await writeFile(join(backupDir, 'restore.sh'), generateRestoreScript(activeBackup.metadata, region));
+  await recordJournalBackupDir(backupDir);
+
+  console.log(`Backup directory: ${backupDir}`);
+  return activeBackup;
+}
+
+
+async function writeManifest(backup: ActiveBackup) {
+  await writeFile(join(backup.dir, 'manifest.json'), JSON.stringify(backup.metadata, null, 2));
+}
+
+
+// Flows and modules the interrupted run created, which it may not have lived to record in the manifest
+function createdInJournal(): { flows: BackupEntry[]; modules: BackupEntry[] } {
+  const writes = getActiveJournal()?.writes ?? [];
+  const entries = (command: string) => writes
+    .filter(w => w.command === command && w.arn)
+    .map(w => ({ name: w.resource ?? "", id: w.arn!.split('/').pop()!, arn: w.arn! }));
+
+  return { flows: entries("CreateContactFlowCommand"), modules: entries("CreateContactFlowModuleCommand") };
+}
+
+
+function mergeCreated(existing: BackupMetadata["created"], added: { flows: BackupEntry[]; modules: BackupEntry[] }): { flows: BackupEntry[]; modules: BackupEntry[] } {
+  const merge = (a: BackupEntry[], b: BackupEntry[]) => [...a, ...b.filter(entry => !a.some(e => e.arn === entry.arn))];
+  return { flows: merge(existing?.flows ?? [], added.flows), modules: merge(existing?.modules ?? [], added.modules) };
+}
+
+
+export function modifiesTarget(action: string): boolean {
+  return action.startsWith("update_") || action === "recreate";
+}
+
+
+/**
+ * Save the current target state of resources that are about to be modified. Each resource is
+ * written to <resourceType>/<name>-<id>.json and listed in the manifest under its type.
+ */
+export async function backupResources(instanceId: string, region: string, resourceType: string, resources: (BackupEntry & { data: unknown })[]): Promise<string | undefined> {
+  if (resources.length === 0) return undefined;
+
+  const backup = await openBackup(instanceId, region);
+  await mkdir(join(backup.dir, resourceType), { recursive: true });
+
+  const entries = backup.metadata.resources[resourceType] ??= [];
+  const created = [...backup.metadata.created?.flows ?? [], ...backup.metadata.created?.modules ?? []];
+
+  // A resource already backed up by this run keeps its first (pre-run) version, and one the run
+  // created has no pre-run version (restore --delete-created removes it instead)
+  const toBackUp = resources.filter(r => !entries.some(e => e.id === r.id) && !created.some(e => e.arn === r.arn));
+  if (toBackUp.length === 0) return backup.dir;
+
+  for (const resource of toBackUp) {
+    const file = `${resourceType}/${sanitizeFileName(`${resource.name}-${resource.id}.json`)}`;
+    await writeFile(join(backup.dir, file), JSON.stringify(resource.data, null, 2));
+    entries.push({ name: resource.name, id: resource.id, arn: resource.arn, file });
+  }
+
+  await writeManifest(backup);
+  console.log(`Backed up ${toBackUp.length} ${resourceType} to ${backup.dir}`);
+
+  return backup.dir;
+}
+
+
+/**
+ * Back up every target resource a comparison section is about to update or recreate, using the
+ * same normalized { name, target, targetId, targetArn } shape as the JSON report.
+ */
+export async function backupSection(target: { instanceId: string; region: string }, resourceType: string, section: ReportResourceSection): Promise<void> {
+  const resources = section.actions
+    .filter(a => modifiesTarget(a.action) && a.target !== undefined)
+    .map(a => ({ name: a.name, id: a.targetId ?? a.name, arn: a.targetArn ?? "", data: a.target }));
+
+  await backupResources(target.instanceId, target.region, resourceType, resources);
+
+  const structure = section.hierarchyStructure;
+  if (structure?.action === "update") {
+    const backup = await openBackup(target.instanceId, target.region);
+    backup.metadata.hierarchyStructure ??= "hierarchy-structure.json";
+
+    await writeFile(join(backup.dir, backup.metadata.hierarchyStructure), JSON.stringify(structure.target, null, 2));
+    await writeManifest(backup);
+    console.log(`Backed up hierarchy structure to ${backup.dir}`);
+  }
+}
+
+
+export async function createBackup(client: ConnectClient, instanceId: string, region: string, flowsToUpdate: ContactFlowSummary[], modulesToUpdate: ContactFlowModuleSummary[], flowDrafts: Map<string, ContactFlow> = new Map()): Promise<string> {
+  // Opened even with nothing to update, so the flows and modules this run creates can be recorded
+  const backup = await openBackup(instanceId, region);
+  backup.metadata.created ??= { flows: [], modules: [] };
+
   console.log(`Creating backup of ${flowsToUpdate.length} flows and ${modulesToUpdate.length} modules...`);
 
-  for (const moduleSummary of modulesToUpdate) {
+  const modules = await mapConcurrent(modulesToUpdate, async (moduleSummary): Promise<BackupEntry & { data: BackedUpModule }> => {
     const fullModule = await describeContactFlowModule(client, instanceId, moduleSummary.Id!);
-    const fileName = sanitizeFileName(`${moduleSummary.Name!}-${moduleSummary.Id!}.json`);
-    const filePath = join(modulesDir, fileName);
-
-    const moduleData = {
-      Name: fullModule.Name,
-      Description: fullModule.Description,
-      Content: fullModule.Content,
-      Tags: fullModule.Tags
-    };
 
-    await writeFile(filePath, JSON.stringify(moduleData, null, 2));
-
-    metadata.modules.push({
+    return {
       name: moduleSummary.Name!,
       id: moduleSummary.Id!,
       arn: moduleSummary.Arn!,
-      file: `modules/${fileName}`
-    });
-
-    console.log(`  Backed up module: ${moduleSummary.Name}`);
-  }
-
-  for (const flowSummary of flowsToUpdate) {
-    const fullFlow = await describeContactFlow(client, instanceId, flowSummary.Id!);
-    const fileName = sanitizeFileName(`${flowSummary.Name!}-${flowSummary.Id!}.json`);
-    const filePath = join(flowsDir, fileName);
-
-    const flowData = {
-      Name: fullFlow.Name,
-      Type: fullFlow.Type,
-      Description: fullFlow.Description,
-      Content: fullFlow.Content,
-      Tags: fullFlow.Tags
+      data: {
+        Name: fullModule.Name,
+        Description: fullModule.Description,
+        Content: fullModule.Content,
+        Tags: fullModule.Tags
+      }
     };
+  }, "Backing up modules");
 
-    await writeFile(filePath, JSON.stringify(flowData, null, 2));
+  const flows = await mapConcurrent(flowsToUpdate, async (flowSummary): Promise<BackupEntry & { data: BackedUpFlow }> => {
+    const fullFlow = await describeContactFlow(client, instanceId, flowSummary.Id!);
 
-    metadata.flows.push({
+    return {
       name: flowSummary.Name!,
       id: flowSummary.Id!,
       arn: flowSummary.Arn!,
-      file: `flows/${fileName}`
-    });
+      data: {
+        Name: fullFlow.Name,
+        Type: fullFlow.Type,
+        Description: fullFlow.Description,
+        Content: fullFlow.Content,
+        Tags: fullFlow.Tags,
+        Status: fullFlow.Status,
+        State: fullFlow.State,
+        DraftContent: flowDrafts.get(flowSummary.Id!)?.Content
+      }
+    };
+  }, "Backing up flows");
+
+  await backupResources(instanceId, region, "modules", modules);
+  await backupResources(instanceId, region, "flows", flows);
+  await writeManifest(backup);
+
+  console.log(`Backup created: ${backup.dir}\n`);
+  return backup.dir;
+}
+
+
+/**
+ * Record resources created by the copy run so `restore --delete-created` can remove them.
+ * Called after creation, so the manifest always reflects what exists in target. Adds to what is
+ * already recorded, since a resumed run shares the interrupted run's backup.
+ */
+export async function recordCreatedResources(backupDir: string, created: { flows: BackupEntry[]; modules: BackupEntry[] }) {
+  const backup = activeBackup?.dir === backupDir ? activeBackup : { dir: backupDir, metadata: await loadBackupManifest(backupDir) };
+  backup.metadata.created = mergeCreated(backup.metadata.created, created);
+  await writeManifest(backup);
+}
 
-    console.log(`  Backed up flow: ${flowSummary.Name}`);
+
+export async function loadBackupManifest(backupDir: string): Promise<BackupMetadata> {
+  let manifest: BackupMetadata & { flows?: BackupFileEntry[]; modules?: BackupFileEntry[] };
+
+  try {
+    manifest = JSON.parse(await readFile(join(backupDir, 'manifest.json'), 'utf-8'));
+  } catch (error) {
+    throw new Error(`Not a backup directory (missing or unreadable manifest.json): ${backupDir}`);
   }
 
-  await writeFile(join(backupDir, 'manifest.json'), JSON.stringify(metadata, null, 2));
+  // Version 1 manifests only held flows and modules, as top-level lists
+  if (manifest.formatVersion === undefined) {
+    const { flows = [], modules = [], timestamp, targetInstance, created } = manifest;
+    return { formatVersion: 1, timestamp, targetInstance, resources: { flows, modules }, ...(created && { created }) };
+  }
 
-  const restoreScript = generateRestoreScript(metadata, region);
-  await writeFile(join(backupDir, 'restore.sh'), restoreScript);
+  if (manifest.formatVersion !== BACKUP_FORMAT_VERSION) {
+    throw new Error(`Unsupported backup format version ${manifest.formatVersion} in ${backupDir} (expected ${BACKUP_FORMAT_VERSION})`);
+  }
 
-  console.log(`Backup created: ${backupDir}\n`);
-  return backupDir;
+  return manifest;
 }
 
 
@@ -113,31 +294,10 @@ function generateRestoreScript(metadata: BackupMetadata, region: string): string
   lines.push('#!/bin/bash');
   lines.push(`# Restore backup created: ${metadata.timestamp}`);
   lines.push(`# Target: ${metadata.targetInstance.instanceId} (${region})`);
+  lines.push('# Usage: ./restore.sh <target-profile> [--delete-created] [-y]');
   lines.push('');
-  lines.push(`INSTANCE_ID="${metadata.targetInstance.instanceId}"`);
+  lines.push('connect-copy restore --backup "$(dirname "$0")" --target-profile "$@"');
   lines.push('');
 
-  if (metadata.modules.length > 0) {
-    lines.push('# Modules');
-    for (const module of metadata.modules) {
-      lines.push(`aws connect create-contact-flow-module \\`);
-      lines.push(`  --instance-id $INSTANCE_ID \\`);
-      lines.push(`  --cli-input-json file://${module.file} \\`);
-      lines.push(`  --region ${region}`);
-      lines.push('');
-    }
-  }
-
-  if (metadata.flows.length > 0) {
-    lines.push('# Flows');
-    for (const flow of metadata.flows) {
-      lines.push(`aws connect create-contact-flow \\`);
-      lines.push(`  --instance-id $INSTANCE_ID \\`);
-      lines.push(`  --cli-input-json file://${flow.file} \\`);
-      lines.push(`  --region ${region}`);
-      lines.push('');
-    }
-  }
-
   return lines.join('\n');
 }
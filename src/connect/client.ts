@@ -1,13 +1,91 @@
 
 import { ConnectClient } from "@aws-sdk/client-connect";
+import { S3Client } from "@aws-sdk/client-s3";
 import { fromIni } from "@aws-sdk/credential-providers";
 
+import * as ConcurrencyUtil from "../utils/concurrency-utils.js";
+import { recordJournalWrite } from "../journal.js";
+
+
+type ConnectClientFactory = (region: string, profile: string) => ConnectClient;
+type S3ClientFactory = (region: string, profile: string) => S3Client;
+
+let clientFactory: ConnectClientFactory | undefined;
+let s3ClientFactory: S3ClientFactory | undefined;
+
+
+/**
+ * Route every client the CLI creates through a custom factory, e.g. the in-process
+ * emulator in test-utils/connect-emulator.ts. Pass undefined to restore the default.
+ */
+export function setConnectClientFactory(factory: ConnectClientFactory | undefined) {
+  clientFactory = factory;
+}
+
 
 export function createConnectClient(region: string, profile: string) {
-  return new ConnectClient({
+  const client = clientFactory ? clientFactory(region, profile) : createAwsClient(region, profile);
+
+  // Wraps every other middleware (including a factory's own handler), so only calls that succeeded are journaled
+  client.middlewareStack.add(
+    (next, context) => async (args) => {
+      const result = await next(args);
+      await recordJournalWrite(context.commandName ?? "UnknownCommand", args.input as Record<string, unknown>, result.output);
+      return result;
+    },
+    { step: "initialize", name: "runJournal", priority: "high" }
+  );
+
+  return client;
+}
+
+
+/**
+ * Like setConnectClientFactory, for the S3 client prompt audio is staged with.
+ */
+export function setS3ClientFactory(factory: S3ClientFactory | undefined) {
+  s3ClientFactory = factory;
+}
+
+
+export function createS3Client(region: string, profile: string) {
+  if (s3ClientFactory) return s3ClientFactory(region, profile);
+
+  return new S3Client({
+    region,
+    credentials: fromIni({ profile })
+  });
+}
+
+
+function createAwsClient(region: string, profile: string) {
+  const client = new ConnectClient({
     region,
     credentials: fromIni({ profile }),
     retryMode: "adaptive",
     maxAttempts: 10
   });
+
+  // Outside the retry middleware, so a request holds its slot through its own retries
+  client.middlewareStack.add(
+    (next, context) => async (args) => {
+      const release = await ConcurrencyUtil.acquireOperationSlot(context.commandName ?? "UnknownCommand");
+      let throttled = false;
+
+      try {
+        const result = await next(args);
+        // Retries are almost always throttling; treat them as a signal to back off either way
+        throttled = (result.output.$metadata.attempts ?? 1) > 1;
+        return result;
+      } catch (error) {
+        throttled = ConcurrencyUtil.isThrottlingError(error);
+        throw error;
+      } finally {
+        release(throttled);
+      }
+    },
+    { step: "initialize", name: "operationConcurrencyLimit" }
+  );
+
+  return client;
 }
@@ -3,7 +3,9 @@ import {
   ListContactFlowsCommand,
   ListContactFlowModulesCommand,
   DescribeContactFlowCommand,
-  DescribeContactFlowModuleCommand
+  DescribeContactFlowModuleCommand,
+  ListContactFlowVersionsCommand,
+  ResourceNotFoundException
 } from "@aws-sdk/client-connect";
 
 import type {
@@ -11,7 +13,8 @@ import type {
   ContactFlowSummary,
   ContactFlowModuleSummary,
   ContactFlow,
-  ContactFlowModule
+  ContactFlowModule,
+  ContactFlowVersionSummary
 } from "@aws-sdk/client-connect";
 
 import type { FlowInventory } from "../mapping.js";
@@ -53,6 +56,25 @@ export async function listContactFlowModules(client: ConnectClient, instanceId:
 }
 
 
+export async function listContactFlowVersions(client: ConnectClient, instanceId: string, contactFlowId: string): Promise<ContactFlowVersionSummary[]> {
+  const versions: ContactFlowVersionSummary[] = [];
+  let nextToken: string | undefined;
+
+  do {
+    const response = await client.send(new ListContactFlowVersionsCommand({
+      InstanceId: instanceId,
+      ContactFlowId: contactFlowId,
+      NextToken: nextToken
+    }));
+
+    versions.push(...response.ContactFlowVersionSummaryList ?? []);
+    nextToken = response.NextToken;
+  } while (nextToken);
+
+  return versions;
+}
+
+
 export async function describeContactFlow(client: ConnectClient, instanceId: string, contactFlowId: string): Promise<ContactFlow> {
   const response = await client.send(new DescribeContactFlowCommand({
     InstanceId: instanceId,
@@ -63,6 +85,24 @@ export async function describeContactFlow(client: ConnectClient, instanceId: str
 }
 
 
+/**
+ * Describe the pending draft ("id:$SAVED") of a published flow. Returns undefined when there is
+ * none, i.e. the saved content is the published content.
+ */
+export async function describeContactFlowDraft(client: ConnectClient, instanceId: string, publishedFlow: ContactFlow): Promise<ContactFlow | undefined> {
+  let draft: ContactFlow;
+
+  try {
+    draft = await describeContactFlow(client, instanceId, `${publishedFlow.Id!}:$SAVED`);
+  } catch (error) {
+    if (error instanceof ResourceNotFoundException) return undefined;
+    throw error;
+  }
+
+  return draft.Content !== publishedFlow.Content ? draft : undefined;
+}
+
+
 export async function describeContactFlowModule(client: ConnectClient, instanceId: string, contactFlowModuleId: string): Promise<ContactFlowModule> {
   const response = await client.send(new DescribeContactFlowModuleCommand({
     InstanceId: instanceId,
@@ -74,8 +114,10 @@ export async function describeContactFlowModule(client: ConnectClient, instanceI
 
 
 export async function gatherFlowInventory(client: ConnectClient, instanceId: string): Promise<FlowInventory> {
-  return {
-    flows: await listContactFlows(client, instanceId),
-    modules: await listContactFlowModules(client, instanceId)
-  };
+  const [flows, modules] = await Promise.all([
+    listContactFlows(client, instanceId),
+    listContactFlowModules(client, instanceId)
+  ]);
+
+  return { flows, modules };
 }
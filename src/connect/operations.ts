@@ -1,5 +1,5 @@
 
-import { CreateContactFlowCommand, CreateContactFlowModuleCommand, UpdateContactFlowContentCommand, UpdateContactFlowModuleContentCommand, UpdateContactFlowMetadataCommand, UpdateContactFlowModuleMetadataCommand, TagResourceCommand, UntagResourceCommand } from "@aws-sdk/client-connect";
+import { CreateContactFlowCommand, CreateContactFlowVersionCommand, CreateContactFlowModuleCommand, UpdateContactFlowContentCommand, UpdateContactFlowModuleContentCommand, UpdateContactFlowMetadataCommand, UpdateContactFlowModuleMetadataCommand, DeleteContactFlowCommand, DeleteContactFlowModuleCommand, TagResourceCommand, UntagResourceCommand } from "@aws-sdk/client-connect";
 
 import type { ConnectClient, ContactFlowType, ContactFlowStatus, ContactFlowState } from "@aws-sdk/client-connect";
 
@@ -56,21 +56,53 @@ export async function updateContactFlowContent(client: ConnectClient, instanceId
 }
 
 
-export async function updateContactFlowMetadata(client: ConnectClient, instanceId: string, contactFlowId: string, state?: ContactFlowState, description?: string) {
+export async function createContactFlowVersion(client: ConnectClient, instanceId: string, contactFlowId: string, description: string) {
+  const response = await client.send(new CreateContactFlowVersionCommand({
+    InstanceId: instanceId,
+    ContactFlowId: contactFlowId,
+    Description: description
+  }));
+
+  return {
+    arn: response.ContactFlowArn!,
+    version: response.Version!
+  };
+}
+
+
+export async function updateContactFlowMetadata(client: ConnectClient, instanceId: string, contactFlowId: string, state?: ContactFlowState, description?: string, name?: string) {
   await client.send(new UpdateContactFlowMetadataCommand({
     InstanceId: instanceId,
     ContactFlowId: contactFlowId,
     ContactFlowState: state,
-    Description: description
+    Description: description,
+    Name: name
   }));
 }
 
 
-export async function updateContactFlowModuleMetadata(client: ConnectClient, instanceId: string, contactFlowModuleId: string, description?: string) {
+export async function updateContactFlowModuleMetadata(client: ConnectClient, instanceId: string, contactFlowModuleId: string, description?: string, name?: string) {
   await client.send(new UpdateContactFlowModuleMetadataCommand({
     InstanceId: instanceId,
     ContactFlowModuleId: contactFlowModuleId,
-    Description: description
+    Description: description,
+    Name: name
+  }));
+}
+
+
+export async function deleteContactFlow(client: ConnectClient, instanceId: string, contactFlowId: string) {
+  await client.send(new DeleteContactFlowCommand({
+    InstanceId: instanceId,
+    ContactFlowId: contactFlowId
+  }));
+}
+
+
+export async function deleteContactFlowModule(client: ConnectClient, instanceId: string, contactFlowModuleId: string) {
+  await client.send(new DeleteContactFlowModuleCommand({
+    InstanceId: instanceId,
+    ContactFlowModuleId: contactFlowModuleId
   }));
 }
 
@@ -8,7 +8,8 @@ import {
   ListSecurityProfilesCommand,
   ListUserHierarchyGroupsCommand,
   ListAgentStatusesCommand,
-  ListViewsCommand
+  ListViewsCommand,
+  ListUsersCommand
 } from "@aws-sdk/client-connect";
 
 import type {
@@ -21,7 +22,8 @@ import type {
   SecurityProfileSummary,
   HierarchyGroupSummary,
   AgentStatusSummary,
-  ViewSummary
+  ViewSummary,
+  UserSummary
 } from "@aws-sdk/client-connect";
 
 import type { ResourceInventory } from "../mapping.js";
@@ -234,16 +236,42 @@ export async function listViews(client: ConnectClient, instanceId: string): Prom
 }
 
 
+export async function listUsers(client: ConnectClient, instanceId: string): Promise<UserSummary[]> {
+  const users: UserSummary[] = [];
+  let nextToken: string | undefined;
+
+  do {
+    const response = await client.send(
+      new ListUsersCommand({
+        InstanceId: instanceId,
+        NextToken: nextToken
+      })
+    );
+
+    if (response.UserSummaryList) {
+      users.push(...response.UserSummaryList);
+    }
+
+    nextToken = response.NextToken;
+  } while (nextToken);
+
+  return users;
+}
+
+
 export async function gatherResourceInventory(client: ConnectClient, instanceId: string): Promise<ResourceInventory> {
-  return {
-    queues: await listQueues(client, instanceId),
-    prompts: await listPrompts(client, instanceId),
-    routingProfiles: await listRoutingProfiles(client, instanceId),
-    hoursOfOperations: await listHoursOfOperations(client, instanceId),
-    quickConnects: await listQuickConnects(client, instanceId),
-    securityProfiles: await listSecurityProfiles(client, instanceId),
-    hierarchyGroups: await listUserHierarchyGroups(client, instanceId),
-    agentStatuses: await listAgentStatuses(client, instanceId),
-    views: await listViews(client, instanceId)
-  };
+  // Each list is a different operation, so they do not compete for the same throttling limit
+  const [queues, prompts, routingProfiles, hoursOfOperations, quickConnects, securityProfiles, hierarchyGroups, agentStatuses, views] = await Promise.all([
+    listQueues(client, instanceId),
+    listPrompts(client, instanceId),
+    listRoutingProfiles(client, instanceId),
+    listHoursOfOperations(client, instanceId),
+    listQuickConnects(client, instanceId),
+    listSecurityProfiles(client, instanceId),
+    listUserHierarchyGroups(client, instanceId),
+    listAgentStatuses(client, instanceId),
+    listViews(client, instanceId)
+  ]);
+
+  return { queues, prompts, routingProfiles, hoursOfOperations, quickConnects, securityProfiles, hierarchyGroups, agentStatuses, views };
 }
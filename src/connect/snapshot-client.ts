@@ -0,0 +1,144 @@
+
+import { ConnectClient, ResourceNotFoundException } from "@aws-sdk/client-connect";
+
+import type { ServiceOutputTypes } from "@aws-sdk/client-connect";
+import type { InitializeHandlerOutput } from "@smithy/types";
+import type { InstanceSnapshot } from "../snapshot.js";
+
+
+type SnapshotHandler = (snapshot: InstanceSnapshot, input: Record<string, unknown>) => Record<string, unknown>;
+
+
+function stringInput(input: Record<string, unknown>, key: string): string | undefined {
+  const value = input[key];
+  return typeof value === "string" ? value : undefined;
+}
+
+
+// An absent filter matches everything, as it does in the API
+function matchesFilter(input: Record<string, unknown>, key: string, value: string | undefined): boolean {
+  const filter = input[key];
+  return !Array.isArray(filter) || filter.includes(value);
+}
+
+
+function findEntry<T extends { Summary: { Id?: string | undefined; Arn?: string | undefined } }>(entries: T[], identifier: string | undefined, label: string): T {
+  const entry = entries.find(e => e.Summary.Id === identifier || e.Summary.Arn === identifier);
+
+  if (entry) return entry;
+
+  // Snapshots hold published content only, so a qualified flow or module id ("id:$SAVED", "id:3")
+  // must fail rather than quietly answer with the published content
+  const qualified = identifier !== undefined && identifier.includes(":") && !identifier.startsWith("arn:");
+  const reason = qualified ? " (snapshots hold published content only - no drafts, versions or aliases)" : "";
+
+  throw new ResourceNotFoundException({ message: `${label} not found in snapshot: ${identifier}${reason}`, $metadata: {} });
+}
+
+
+const HANDLERS: Record<string, SnapshotHandler> = {
+  ListContactFlowsCommand: (s, input) => ({
+    ContactFlowSummaryList: s.flows.map(e => e.Summary).filter(f => matchesFilter(input, "ContactFlowTypes", f.ContactFlowType))
+  }),
+  ListContactFlowModulesCommand: s => ({ ContactFlowModulesSummaryList: s.modules.map(e => e.Summary) }),
+  DescribeContactFlowCommand: (s, input) => ({ ContactFlow: findEntry(s.flows, stringInput(input, "ContactFlowId"), "Flow").ContactFlow }),
+  DescribeContactFlowModuleCommand: (s, input) => ({ ContactFlowModule: findEntry(s.modules, stringInput(input, "ContactFlowModuleId"), "Module").ContactFlowModule }),
+
+  ListQueuesCommand: (s, input) => ({
+    QueueSummaryList: s.queues.map(e => e.Summary).filter(q => matchesFilter(input, "QueueTypes", q.QueueType))
+  }),
+  DescribeQueueCommand: (s, input) => ({ Queue: findEntry(s.queues, stringInput(input, "QueueId"), "Queue").Queue }),
+  ListQueueQuickConnectsCommand: (s, input) => ({ QuickConnectSummaryList: findEntry(s.queues, stringInput(input, "QueueId"), "Queue").QuickConnects }),
+  ListPhoneNumbersV2Command: s => ({ ListPhoneNumbersSummaryList: s.phoneNumbers }),
+
+  ListRoutingProfilesCommand: s => ({ RoutingProfileSummaryList: s.routingProfiles.map(e => e.Summary) }),
+  DescribeRoutingProfileCommand: (s, input) => ({ RoutingProfile: findEntry(s.routingProfiles, stringInput(input, "RoutingProfileId"), "Routing profile").RoutingProfile }),
+  ListRoutingProfileQueuesCommand: (s, input) => ({ RoutingProfileQueueConfigSummaryList: findEntry(s.routingProfiles, stringInput(input, "RoutingProfileId"), "Routing profile").Queues }),
+
+  ListQuickConnectsCommand: (s, input) => ({
+    QuickConnectSummaryList: s.quickConnects.map(e => e.Summary).filter(q => matchesFilter(input, "QuickConnectTypes", q.QuickConnectType))
+  }),
+  DescribeQuickConnectCommand: (s, input) => ({ QuickConnect: findEntry(s.quickConnects, stringInput(input, "QuickConnectId"), "Quick connect").QuickConnect }),
+
+  ListUserHierarchyGroupsCommand: s => ({ UserHierarchyGroupSummaryList: s.hierarchyGroups.map(e => e.Summary) }),
+  DescribeUserHierarchyGroupCommand: (s, input) => ({ HierarchyGroup: findEntry(s.hierarchyGroups, stringInput(input, "HierarchyGroupId"), "Hierarchy group").HierarchyGroup }),
+  DescribeUserHierarchyStructureCommand: s => ({ HierarchyStructure: s.hierarchyStructure }),
+
+  ListSecurityProfilesCommand: s => ({ SecurityProfileSummaryList: s.securityProfiles.map(e => e.Summary) }),
+  DescribeSecurityProfileCommand: (s, input) => ({ SecurityProfile: findEntry(s.securityProfiles, stringInput(input, "SecurityProfileId"), "Security profile").SecurityProfile }),
+  ListSecurityProfilePermissionsCommand: (s, input) => ({ Permissions: findEntry(s.securityProfiles, stringInput(input, "SecurityProfileId"), "Security profile").Permissions }),
+
+  ListHoursOfOperationsCommand: s => ({ HoursOfOperationSummaryList: s.hoursOfOperations.map(e => e.Summary) }),
+  DescribeHoursOfOperationCommand: (s, input) => ({ HoursOfOperation: findEntry(s.hoursOfOperations, stringInput(input, "HoursOfOperationId"), "Hours of operation").HoursOfOperation }),
+
+  ListAgentStatusesCommand: s => ({ AgentStatusSummaryList: s.agentStatuses.map(e => e.Summary) }),
+  DescribeAgentStatusCommand: (s, input) => ({ AgentStatus: findEntry(s.agentStatuses, stringInput(input, "AgentStatusId"), "Agent status").AgentStatus }),
+
+  ListViewsCommand: (s, input) => ({
+    ViewsSummaryList: s.views.map(e => e.Summary).filter(v => !input["Type"] || v.Type === input["Type"])
+  }),
+  DescribeViewCommand: (s, input) => ({ View: findEntry(s.views, stringInput(input, "ViewId"), "View").View }),
+
+  ListPromptsCommand: s => ({ PromptSummaryList: s.prompts }),
+  ListUsersCommand: s => ({ UserSummaryList: s.users }),
+
+  ListTagsForResourceCommand: (s, input) => ({ tags: findTags(s, stringInput(input, "resourceArn")) })
+};
+
+
+// Tags live on each entry's described resource; prompts are exported as summaries only, so have none
+function findTags(snapshot: InstanceSnapshot, resourceArn: string | undefined): Record<string, string> {
+  const described: (readonly [{ Arn?: string | undefined }, { Tags?: Record<string, string> | undefined } | undefined])[] = [
+    ...snapshot.flows.map(e => [e.Summary, e.ContactFlow] as const),
+    ...snapshot.modules.map(e => [e.Summary, e.ContactFlowModule] as const),
+    ...snapshot.queues.map(e => [e.Summary, e.Queue] as const),
+    ...snapshot.routingProfiles.map(e => [e.Summary, e.RoutingProfile] as const),
+    ...snapshot.quickConnects.map(e => [e.Summary, e.QuickConnect] as const),
+    ...snapshot.hierarchyGroups.map(e => [e.Summary, e.HierarchyGroup] as const),
+    ...snapshot.securityProfiles.map(e => [e.Summary, e.SecurityProfile] as const),
+    ...snapshot.hoursOfOperations.map(e => [e.Summary, e.HoursOfOperation] as const),
+    ...snapshot.agentStatuses.map(e => [e.Summary, e.AgentStatus] as const),
+    ...snapshot.views.map(e => [e.Summary, e.View] as const)
+  ];
+
+  return described.find(([summary]) => summary.Arn === resourceArn)?.[1]?.Tags ?? {};
+}
+
+
+/**
+ * Answer a read command from snapshot data. Returns undefined for commands that have no
+ * snapshot equivalent (including every write), leaving the caller to decide how to fail.
+ */
+export function answerFromSnapshot(snapshot: InstanceSnapshot, commandName: string, input: Record<string, unknown>): Record<string, unknown> | undefined {
+  const handler = HANDLERS[commandName];
+  return handler ? handler(snapshot, input) : undefined;
+}
+
+
+/**
+ * Build a ConnectClient that answers read calls from an exported snapshot instead of AWS.
+ * Lists return everything in one page; any command without a handler (including all writes) fails,
+ * so a snapshot can only ever be used as a copy source.
+ */
+export function createSnapshotClient(snapshot: InstanceSnapshot) {
+  const client = new ConnectClient({
+    region: snapshot.manifest.region,
+    credentials: { accessKeyId: "snapshot", secretAccessKey: "snapshot" }
+  });
+
+  client.middlewareStack.add(
+    (_next, context) => async (args) => {
+      const commandName = context.commandName ?? "UnknownCommand";
+      const output = answerFromSnapshot(snapshot, commandName, args.input as Record<string, unknown>);
+
+      if (!output) {
+        throw new Error(`${commandName} is not supported against a snapshot source (snapshots are read-only)`);
+      }
+
+      return { output: { $metadata: {}, ...output }, response: {} } as InitializeHandlerOutput<ServiceOutputTypes>;
+    },
+    { step: "initialize", name: "snapshotSource" }
+  );
+
+  return client;
+}
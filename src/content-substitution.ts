@@ -0,0 +1,136 @@
+import type { ContentSubstitution } from "./validation.js";
+
+
+/**
+ * Environment values in flow and module content that are not ARNs (API URLs, feature flags, bucket
+ * names in prompt text) are rewritten by the source config's `contentSubstitutions`. Each entry
+ * selects string values inside Actions[].Parameters - by dot path below Parameters, or by key
+ * anywhere beneath it - and replaces them whole, or only the part its `match` regex matches.
+ * Nothing outside action parameters is touched.
+ */
+export interface AppliedSubstitution {
+  actionId: string;
+  actionType: string;
+  // Dot path below the action's Parameters
+  path: string;
+  from: string;
+  to: string;
+}
+
+
+interface FlowAction {
+  Identifier?: string;
+  Type?: string;
+  Parameters?: unknown;
+}
+
+
+interface SubstitutionTarget {
+  container: Record<string, unknown>;
+  key: string;
+  path: string;
+}
+
+
+export function validateContentSubstitutions(substitutions: ContentSubstitution[]): string[] {
+  const errors: string[] = [];
+
+  for (const [index, substitution] of substitutions.entries()) {
+    if ((substitution.path === undefined) === (substitution.key === undefined)) {
+      errors.push(`contentSubstitutions[${index}]: set exactly one of path or key`);
+    }
+
+    if (substitution.match !== undefined) {
+      try {
+        new RegExp(substitution.match);
+      } catch (error) {
+        errors.push(`contentSubstitutions[${index}].match: invalid regex "${substitution.match}": ${(error as Error).message}`);
+      }
+    }
+  }
+
+  return errors;
+}
+
+
+/**
+ * Apply every substitution to one flow or module's content. Returns the content unchanged (same
+ * string) when nothing was substituted.
+ */
+export function applyContentSubstitutions(content: string, substitutions: ContentSubstitution[] | undefined): { content: string; applied: AppliedSubstitution[] } {
+  if (!substitutions?.length) return { content, applied: [] };
+
+  const parsed = JSON.parse(content) as { Actions?: FlowAction[] };
+  const applied: AppliedSubstitution[] = [];
+
+  for (const action of parsed.Actions ?? []) {
+    if (!isRecord(action.Parameters)) continue;
+
+    for (const substitution of substitutions) {
+      if (substitution.actionTypes && !substitution.actionTypes.includes(action.Type ?? "")) continue;
+
+      const targets = substitution.path !== undefined
+        ? findByPath(action.Parameters, substitution.path)
+        : findByKey(action.Parameters, substitution.key!, "");
+
+      for (const { container, key, path } of targets) {
+        const from = container[key];
+        if (typeof from !== "string") continue;
+
+        const to = substitution.match !== undefined
+          ? from.replace(new RegExp(substitution.match, "g"), substitution.replace)
+          : substitution.replace;
+
+        if (to === from) continue;
+
+        container[key] = to;
+        applied.push({ actionId: action.Identifier ?? "", actionType: action.Type ?? "", path, from, to });
+      }
+    }
+  }
+
+  return applied.length > 0 ? { content: JSON.stringify(parsed), applied } : { content, applied };
+}
+
+
+export function formatSubstitution(substitution: AppliedSubstitution): string {
+  return `${substitution.actionType} ${substitution.actionId.slice(0, 8)} ${substitution.path}: "${substitution.from}" → "${substitution.to}"`;
+}
+
+
+function findByPath(parameters: Record<string, unknown>, path: string): SubstitutionTarget[] {
+  const segments = path.split(".");
+  const key = segments.pop()!;
+
+  // Arrays are stepped through by index ("Attributes.0.Value")
+  let container: unknown = parameters;
+  for (const segment of segments) {
+    if (typeof container !== "object" || container === null) return [];
+    container = (container as Record<string, unknown>)[segment];
+  }
+
+  return typeof container === "object" && container !== null && key in container ? [{ container: container as Record<string, unknown>, key, path }] : [];
+}
+
+
+// Every occurrence of the key, however deep (e.g. a SetAttributes key or a Lambda input parameter)
+function findByKey(value: unknown, key: string, path: string): SubstitutionTarget[] {
+  if (Array.isArray(value)) {
+    return value.flatMap((item, index) => findByKey(item, key, `${path}${path ? "." : ""}${index}`));
+  }
+
+  if (!isRecord(value)) return [];
+
+  return Object.entries(value).flatMap(([entryKey, entryValue]) => {
+    const entryPath = `${path}${path ? "." : ""}${entryKey}`;
+    return [
+      ...(entryKey === key ? [{ container: value, key: entryKey, path: entryPath }] : []),
+      ...findByKey(entryValue, key, entryPath)
+    ];
+  });
+}
+
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -1,4 +1,5 @@
 
+import { readFile } from "fs/promises";
 import { copyHoursOfOperations } from "./resources/hours-of-operation/copy.js";
 import { copyAgentStatuses } from "./resources/agent-statuses/copy.js";
 import { copyHierarchyGroups } from "./resources/hierarchy-groups/copy.js";
@@ -7,21 +8,41 @@ import { copyQueues } from "./resources/queues/copy.js";
 import { copyRoutingProfiles } from "./resources/routing-profiles/copy.js";
 import { copyQuickConnects } from "./resources/quick-connects/copy.js";
 import { copyViews } from "./resources/views/copy.js";
+import { copyPrompts } from "./resources/prompts/copy.js";
+import { copyPhoneNumbers } from "./resources/phone-numbers/copy.js";
 import { copyFlows } from "./copy-flows.js";
+import { parsePruneList, pruneResources } from "./prune.js";
+import { loadPlan, verifyPlan } from "./plan.js";
+import { buildCurrentPlan } from "./report.js";
+import { openJournal, beginJournalStep, completeJournalStep, finishJournal, isResumedStepComplete } from "./journal.js";
+import { validateTargetConfig } from "./validation.js";
+
+import type { CopyPlan } from "./plan.js";
+import type { FlowComparisonMode } from "./validation.js";
 
 
 export interface CopyAllOptions {
   sourceConfig: string;
   targetConfig: string;
-  sourceProfile: string;
+  sourceProfile?: string | undefined;
+  sourceSnapshot?: string | undefined;
   targetProfile: string;
   verbose: boolean;
   skip: string;
   skipOutboundFlow: boolean;
   forceHierarchyRecreate: boolean;
   forceStructureUpdate: boolean;
+  flowComparison?: FlowComparisonMode | undefined;
+  includeSaved?: boolean | undefined;
+  strictReferences?: boolean | undefined;
+  createVersion?: boolean | undefined;
+  atomic?: boolean | undefined;
+  prune?: string | boolean | undefined;
+  resume?: string | undefined;
   publish: boolean;
   yes: boolean;
+  plan?: string | undefined;
+  approvedPlan?: CopyPlan | undefined;
 }
 
 
@@ -58,9 +79,17 @@ const RESOURCE_STEPS: { name: string; run: (options: CopyAllOptions) => Promise<
     name: "views",
     run: (o) => copyViews(o)
   },
+  {
+    name: "prompts",
+    run: (o) => copyPrompts(o)
+  },
   {
     name: "flows",
     run: (o) => copyFlows(o)
+  },
+  {
+    name: "phone-numbers",
+    run: (o) => copyPhoneNumbers(o)
   }
 ];
 
@@ -69,7 +98,30 @@ const VALID_RESOURCE_NAMES = RESOURCE_STEPS.map(s => s.name);
 
 
 export async function copyAll(options: CopyAllOptions) {
+  if (options.plan) {
+    const approvedPlan = await loadPlan(options.plan);
+
+    console.log(`Applying plan ${options.plan} (created ${approvedPlan.createdAt})`);
+    console.log("Every resource type is re-compared and must match the plan exactly before anything is changed; only the planned actions are applied");
+
+    // The plan's comparison options win so the re-comparison is made on the same terms as the review
+    options = { ...options, ...approvedPlan.options, approvedPlan };
+
+    const current = await buildCurrentPlan(options);
+    verifyPlan(approvedPlan, current.plan, { source: current.sourceConfig, target: current.targetConfig });
+
+    // A plan with validation failures would stop partway through, after earlier resource types were written
+    if (!current.valid) {
+      console.error("\n❌ The plan contains validation failures (see report) - nothing was changed");
+      process.exit(1);
+    }
+  }
+
   const skipSet = parseSkipList(options.skip);
+  const pruneList = parsePruneList(options.prune, skipSet);
+
+  const targetConfig = validateTargetConfig(JSON.parse(await readFile(options.targetConfig, "utf-8")));
+  await openJournal("copy", targetConfig, options.resume);
 
   const steps = RESOURCE_STEPS.filter(s => !skipSet.has(s.name));
 
@@ -79,14 +131,33 @@ export async function copyAll(options: CopyAllOptions) {
     console.log(`Skipping: ${[...skipSet].join(", ")}`);
   }
 
-  for (const step of steps) {
+  if (pruneList.length > 0) {
+    console.log(`Pruning (after copying): ${pruneList.join(", ")}`);
+  }
+
+  // Pruning comes last, once everything that replaces a stale resource exists in target
+  const allSteps = [
+    ...steps,
+    ...pruneList.map(name => ({ name: `prune ${name}`, run: (o: CopyAllOptions) => pruneResources(name, o) }))
+  ];
+
+  for (const step of allSteps) {
     console.log(`\n${"=".repeat(60)}`);
     console.log(`  ${step.name}`);
     console.log(`${"=".repeat(60)}`);
 
+    if (isResumedStepComplete(step.name)) {
+      console.log(`\nAlready completed before the run was interrupted - skipping`);
+      continue;
+    }
+
+    beginJournalStep(step.name);
     await step.run(options);
+    await completeJournalStep(step.name);
   }
 
+  await finishJournal("copy");
+
   console.log(`\n${"=".repeat(60)}`);
   console.log("  copy complete");
   console.log(`${"=".repeat(60)}`);
@@ -4,13 +4,26 @@ import { fileURLToPath } from "url";
 import { dirname, join } from "path";
 import { cliFlags } from "./cli-flags.js";
 import { reportResourceDifferences, compareAndValidateFlows, setupInstanceComparison } from "./report.js";
-import { createBackup } from "./backup.js";
-import { createContactFlow, createContactFlowModule, updateContactFlowModuleContent, updateContactFlowContent, updateContactFlowMetadata, updateContactFlowModuleMetadata, updateResourceTags } from "./connect/operations.js";
-import { replaceArnsInContent, buildExternalArnMappings } from "./arn-replacement.js";
+import { createBackup, recordCreatedResources, loadBackupManifest } from "./backup.js";
+import { applyBackup } from "./restore.js";
+import { createContactFlow, createContactFlowVersion, createContactFlowModule, updateContactFlowModuleContent, updateContactFlowContent, updateContactFlowMetadata, updateContactFlowModuleMetadata, updateResourceTags } from "./connect/operations.js";
+import { rewriteArnsInContent, buildExternalArnMappings } from "./arn-replacement.js";
+import { splitArnQualifier } from "./arn-utils.js";
+import { buildAllResourceMappings } from "./mapping.js";
+import { buildCreatedFlowVersionMappings, versionDescription } from "./flow-versions.js";
+import { formatSubstitution } from "./content-substitution.js";
+import { orderForCreation } from "./create-order.js";
+import { applyFlowPlanStep } from "./plan.js";
+import { openJournal, finishJournal, addPendingStub, resolvePendingStub, recordArnSubstitutions } from "./journal.js";
+import { describeContactFlowDraft } from "./connect/flows.js";
+import { mapConcurrent } from "./utils/concurrency-utils.js";
 import * as CliUtil from "./utils/cli-utils.js";
 
 import type { ConnectClient, ContactFlowType, ContactFlowSummary, ContactFlowModuleSummary, ContactFlow, ContactFlowModule } from "@aws-sdk/client-connect";
 import type { FlowComparisonResult } from "./report.js";
+import type { CopyPlan } from "./plan.js";
+import type { BackupEntry } from "./backup.js";
+import type { FlowComparisonMode } from "./validation.js";
 
 
 const __filename = fileURLToPath(import.meta.url);
@@ -21,16 +34,19 @@ const PROJECT_ROOT = join(__dirname, '..');
 export interface CopyFlowsOptions {
   sourceConfig: string;
   targetConfig: string;
-  sourceProfile: string;
+  sourceProfile?: string | undefined;
+  sourceSnapshot?: string | undefined;
   targetProfile: string;
+  flowComparison?: FlowComparisonMode | undefined;
+  includeSaved?: boolean | undefined;
+  strictReferences?: boolean | undefined;
+  createVersion?: boolean | undefined;
+  atomic?: boolean | undefined;
+  resume?: string | undefined;
+  approvedPlan?: CopyPlan | undefined;
 }
 
 
-// CAMPAIGN flow type is not supported - requires Outbound Campaigns feature
-// which needs KMS setup, dedicated queues, and special phone numbers.
-// Template: templates/flows/default-campaign-content.json (does not exist)
-// TODO: Add CAMPAIGN support when Outbound Campaigns are enabled in test instance
-// @ts-expect-error - CAMPAIGN type intentionally omitted until needed
 const FLOW_TYPE_TO_TEMPLATE: Record<ContactFlowType, string> = {
   'CONTACT_FLOW': 'templates/flows/default-inbound-content.json',
   'CUSTOMER_QUEUE': 'templates/flows/default-customer-queue-content.json',
@@ -40,111 +56,152 @@ const FLOW_TYPE_TO_TEMPLATE: Record<ContactFlowType, string> = {
   'AGENT_WHISPER': 'templates/flows/default-agent-whisper-content.json',
   'OUTBOUND_WHISPER': 'templates/flows/default-outbound-content.json',
   'AGENT_TRANSFER': 'templates/flows/default-agent-transfer-content.json',
-  'QUEUE_TRANSFER': 'templates/flows/default-queue-transfer-content.json'
+  'QUEUE_TRANSFER': 'templates/flows/default-queue-transfer-content.json',
+  'CAMPAIGN': 'templates/flows/default-campaign-content.json'
 };
 
+// Flow types newer than this table (the API returns them as plain strings) get a single
+// EndFlowExecution block, which Connect accepts in every non-inbound flow type
+const GENERIC_FLOW_TEMPLATE = 'templates/flows/default-campaign-content.json';
+
 
 function generateModuleStubContent(): Promise<string> {
   return readFile(join(PROJECT_ROOT, 'templates/modules/default-module-content.json'), 'utf-8');
 }
 
 
-function generateFlowStubContent(flowType: ContactFlowType): Promise<string> {
-  const templateRelativePath = FLOW_TYPE_TO_TEMPLATE[flowType];
+function generateFlowStubContent(flowType: string, flowName: string): Promise<string> {
+  const templateRelativePath = FLOW_TYPE_TO_TEMPLATE[flowType as ContactFlowType];
 
   if (!templateRelativePath) {
-    throw new Error(`Unsupported flow type: ${flowType}`);
+    console.log(`  [WARNING] No stub template for flow type ${flowType} - using a generic stub for ${flowName}`);
+    return readFile(join(PROJECT_ROOT, GENERIC_FLOW_TEMPLATE), 'utf-8');
   }
 
   return readFile(join(PROJECT_ROOT, templateRelativePath), 'utf-8');
 }
 
 
-async function createStubResources(targetClient: ConnectClient, targetInstanceId: string, modulesToCreate: ContactFlowModuleSummary[], flowsToCreate: ContactFlowSummary[], sourceModuleDetails: Map<string, ContactFlowModule>, sourceFlowDetails: Map<string, ContactFlow>): Promise<Map<string, string>> {
-  const arnMapping = new Map<string, string>();
+/**
+ * Create new modules and flows with their real content, dependencies first (see create-order.ts).
+ * Created ARNs are added to createdArnMappings as they are created, so the caller can record what
+ * exists even when a creation fails partway.
+ */
+async function createResources(targetClient: ConnectClient, targetInstanceId: string, modulesToCreate: ContactFlowModuleSummary[], flowsToCreate: ContactFlowSummary[], sourceModuleDetails: Map<string, ContactFlowModule>, sourceFlowDetails: Map<string, ContactFlow>, sourceFlowDrafts: Map<string, ContactFlow>, mappings: Map<string, string>, createdArnMappings: Map<string, string>, atomic: boolean) {
+  // AWS SDK guarantees Id/Name/Arn/Content/Status exist on successfully returned resources
+  const sourceModules = modulesToCreate.map(m => sourceModuleDetails.get(m.Id!)).filter(m => m !== undefined);
+  const sourceFlows = flowsToCreate.map(f => sourceFlowDetails.get(f.Id!)).filter(f => f !== undefined);
 
-  console.log("\nPass 1: Creating stub resources...");
+  const moduleArns = new Set(sourceModules.map(m => m.Arn!));
 
-  for (const moduleSummary of modulesToCreate) {
-    // AWS SDK guarantees Id/Name/Arn exist on successfully returned resources
-    const sourceModule = sourceModuleDetails.get(moduleSummary.Id!);
-    if (!sourceModule) continue;
+  const steps = orderForCreation<ContactFlow | ContactFlowModule>([...sourceModules, ...sourceFlows]);
+  const stubs = steps.filter(s => s.stub).map(s => s.resource);
 
-    const stubContent = await generateModuleStubContent();
+  // Versioned references to created flows can only be mapped once those flows exist
+  const contentFor = (resource: ContactFlow | ContactFlowModule, content: string) => targetContent(resource.Name!, content, new Map([
+    ...mappings,
+    ...createdArnMappings,
+    ...buildCreatedFlowVersionMappings([content], createdArnMappings)
+  ]));
 
-    const result = await createContactFlowModule(
-      targetClient,
-      targetInstanceId,
-      sourceModule.Name!,
-      stubContent,
-      sourceModule.Description,
-      sourceModule.Tags
-    );
+  // With --atomic everything stays SAVED here; publishCreatedFlows publishes and writes drafts later
+  const shouldPublish = (flow: ContactFlow) => !atomic && flow.Status === "PUBLISHED" && cliFlags.publish;
+
+  console.log("\nCreating modules and flows...");
+
+  for (const { resource, stub } of steps) {
+    const label = stub ? " (stub - reference cycle)" : "";
 
-    arnMapping.set(sourceModule.Arn!, result.arn);
-    console.log(`  Created stub module: ${sourceModule.Name}`);
+    if (moduleArns.has(resource.Arn!)) {
+      const content = stub ? await generateModuleStubContent() : await contentFor(resource, resource.Content!);
+      const result = await createContactFlowModule(targetClient, targetInstanceId, resource.Name!, content, resource.Description, resource.Tags);
+
+      createdArnMappings.set(resource.Arn!, result.arn);
+      console.log(`  Created module: ${resource.Name}${label}`);
+      continue;
+    }
+
+    const flow = resource as ContactFlow;
+    const content = stub ? await generateFlowStubContent(flow.Type!, flow.Name!) : await contentFor(flow, flow.Content!);
+    const status = !stub && shouldPublish(flow) ? "PUBLISHED" : "SAVED";
+    const result = await createContactFlow(targetClient, targetInstanceId, flow.Name!, content, flow.Type!, flow.Description, flow.Tags, status);
+
+    createdArnMappings.set(flow.Arn!, result.arn);
+    if (stub) await addPendingStub({ name: flow.Name!, id: result.id, arn: result.arn });
+    console.log(`  Created flow: ${flow.Name}${label}`);
   }
 
-  for (const flowSummary of flowsToCreate) {
-    const sourceFlow = sourceFlowDetails.get(flowSummary.Id!);
-    if (!sourceFlow) continue;
+  if (stubs.length > 0) {
+    console.log(`\nUpdating content of ${stubs.length} stubs created to break reference cycles...`);
+  }
 
-    const stubContent = await generateFlowStubContent(sourceFlow.Type!);
+  for (const resource of stubs) {
+    const targetArn = createdArnMappings.get(resource.Arn!)!;
+    const targetId = targetArn.split('/').pop()!;
 
-    const result = await createContactFlow(
-      targetClient,
-      targetInstanceId,
-      sourceFlow.Name!,
-      stubContent,
-      sourceFlow.Type!,
-      sourceFlow.Description,
-      sourceFlow.Tags,
-      "SAVED"
-    );
+    if (moduleArns.has(resource.Arn!)) {
+      await updateContactFlowModuleContent(targetClient, targetInstanceId, targetId, await contentFor(resource, resource.Content!));
+      await resolvePendingStub(targetArn);
+      console.log(`  Updated content for created module: ${resource.Name}`);
+      continue;
+    }
 
-    arnMapping.set(sourceFlow.Arn!, result.arn);
-    console.log(`  Created stub flow: ${sourceFlow.Name}`);
+    const flow = resource as ContactFlow;
+    await updateContactFlowContent(targetClient, targetInstanceId, shouldPublish(flow) ? targetId : targetId + ':$SAVED', await contentFor(flow, flow.Content!));
+    await resolvePendingStub(targetArn);
+    console.log(`  Updated content for created flow: ${flow.Name}`);
   }
 
-  console.log(`\nCreated ${modulesToCreate.length} modules and ${flowsToCreate.length} flows`);
+  // Drafts go on last, over the published content, and may reference any created flow
+  for (const flow of atomic ? [] : sourceFlows) {
+    const draft = sourceFlowDrafts.get(flow.Id!);
+    if (!draft) continue;
+
+    const targetId = createdArnMappings.get(flow.Arn!)!.split('/').pop()!;
+    await updateContactFlowContent(targetClient, targetInstanceId, targetId + ':$SAVED', await contentFor(flow, draft.Content!));
+    console.log(`  Updated pending draft for flow: ${flow.Name}`);
+  }
 
-  return arnMapping;
+  console.log(`\nCreated ${sourceModules.length} modules and ${sourceFlows.length} flows (${stubs.length} via stub)`);
 }
 
 
-async function updateModuleContents(targetClient: ConnectClient, targetInstanceId: string, modulesToCreate: ContactFlowModuleSummary[], modulesToUpdate: ContactFlowModuleSummary[], sourceModuleDetails: Map<string, ContactFlowModule>, targetModuleDetails: Map<string, ContactFlowModule>, createdArnMappings: Map<string, string>, completeMappings: Map<string, string>) {
-  console.log("\nPass 2: Updating module content...");
+// Source content as written to target; every ARN rewritten is recorded in the run journal, unless
+// --atomic staging already wrote (and recorded) the same content
+async function targetContent(resourceName: string, content: string, mappings: Map<string, string>, staged = false): Promise<string> {
+  const { content: rewritten, substitutions } = rewriteArnsInContent(content, mappings);
+  if (!staged) await recordArnSubstitutions(resourceName, substitutions);
+  return rewritten;
+}
 
-  for (const moduleSummary of modulesToCreate) {
-    // AWS SDK guarantees Id/Name/Arn/Content exist on successfully returned resources
-    const sourceModule = sourceModuleDetails.get(moduleSummary.Id!);
-    if (!sourceModule) continue;
 
-    const updatedContent = replaceArnsInContent(sourceModule.Content!, completeMappings);
-    const targetArn = createdArnMappings.get(sourceModule.Arn!);
-    if (!targetArn) continue;
+function toCreatedEntries(sourceSummaries: (ContactFlowSummary | ContactFlowModuleSummary)[], createdArnMappings: Map<string, string>): BackupEntry[] {
+  return sourceSummaries
+    .filter(summary => createdArnMappings.has(summary.Arn!))
+    .map(summary => {
+      const arn = createdArnMappings.get(summary.Arn!)!;
+      return { name: summary.Name!, id: arn.split('/').pop()!, arn };
+    });
+}
 
-    const targetModuleId = targetArn.split('/').pop()!;
 
-    await updateContactFlowModuleContent(
-      targetClient,
-      targetInstanceId,
-      targetModuleId,
-      updatedContent
-    );
+// Update lists hold target summaries; the source paired with each is the one whose ARN maps onto it (see identity.ts)
+function findSourceFor<T extends { Arn?: string | undefined }>(sourceDetails: Map<string, T>, targetArn: string, arnMap: Map<string, string>): T | undefined {
+  return Array.from(sourceDetails.values()).find(resource => arnMap.get(splitArnQualifier(resource.Arn!).baseArn) === targetArn);
+}
 
-    console.log(`  Updated content for created module: ${sourceModule.Name}`);
-  }
+
+async function updateModuleContents(targetClient: ConnectClient, targetInstanceId: string, modulesToUpdate: ContactFlowModuleSummary[], sourceModuleDetails: Map<string, ContactFlowModule>, targetModuleDetails: Map<string, ContactFlowModule>, completeMappings: Map<string, string>) {
+  console.log("\nUpdating module content...");
 
   for (const targetModuleSummary of modulesToUpdate) {
-    const moduleName = targetModuleSummary.Name!;
-    const sourceModule = Array.from(sourceModuleDetails.values()).find(m => m.Name === moduleName);
+    const sourceModule = findSourceFor(sourceModuleDetails, targetModuleSummary.Arn!, completeMappings);
     if (!sourceModule) continue;
 
     const targetModule = targetModuleDetails.get(targetModuleSummary.Id!);
     if (!targetModule) continue;
 
-    const updatedContent = replaceArnsInContent(sourceModule.Content!, completeMappings);
+    const updatedContent = await targetContent(sourceModule.Name!, sourceModule.Content!, completeMappings);
 
     await updateContactFlowModuleContent(
       targetClient,
@@ -153,12 +210,15 @@ async function updateModuleContents(targetClient: ConnectClient, targetInstanceI
       updatedContent
     );
 
-    if (sourceModule.Description !== targetModule.Description) {
+    if (sourceModule.Description !== targetModule.Description || sourceModule.Name !== targetModule.Name) {
+      if (sourceModule.Name !== targetModule.Name) console.log(`  Renaming module: ${targetModule.Name} → ${sourceModule.Name}`);
+
       await updateContactFlowModuleMetadata(
         targetClient,
         targetInstanceId,
         targetModuleSummary.Id!,
-        sourceModule.Description
+        sourceModule.Description,
+        sourceModule.Name
       );
     }
 
@@ -167,48 +227,35 @@ async function updateModuleContents(targetClient: ConnectClient, targetInstanceI
       await updateResourceTags(targetClient, targetModuleSummary.Arn!, toAdd, toRemove);
     }
 
+    // A stub the interrupted run created is an existing module with stub content by now
+    await resolvePendingStub(targetModuleSummary.Arn!);
     console.log(`  Updated content for existing module: ${sourceModule.Name}`);
   }
 
-  console.log(`\nUpdated ${modulesToCreate.length + modulesToUpdate.length} modules`);
+  console.log(`\nUpdated ${modulesToUpdate.length} modules`);
 }
 
 
-async function updateFlowContents(targetClient: ConnectClient, targetInstanceId: string, flowsToCreate: ContactFlowSummary[], flowsToUpdate: ContactFlowSummary[], sourceFlowDetails: Map<string, ContactFlow>, targetFlowDetails: Map<string, ContactFlow>, createdArnMappings: Map<string, string>, completeMappings: Map<string, string>) {
-  console.log("\nPass 2: Updating flow content...");
-
-  for (const flowSummary of flowsToCreate) {
-    // AWS SDK guarantees Id/Name/Arn/Content/Status exist on successfully returned resources
-    const sourceFlow = sourceFlowDetails.get(flowSummary.Id!);
-    if (!sourceFlow) continue;
-
-    const updatedContent = replaceArnsInContent(sourceFlow.Content!, completeMappings);
-    const targetArn = createdArnMappings.get(sourceFlow.Arn!);
-    if (!targetArn) continue;
-
-    const targetFlowId = targetArn.split('/').pop()!;
-    const shouldPublish = sourceFlow.Status === "PUBLISHED" && cliFlags.publish;
-    const flowIdToUpdate = shouldPublish ? targetFlowId : targetFlowId + ':$SAVED';
+async function updateFlowContents(targetClient: ConnectClient, targetInstanceId: string, flowsToUpdate: ContactFlowSummary[], sourceFlowDetails: Map<string, ContactFlow>, targetFlowDetails: Map<string, ContactFlow>, sourceFlowDrafts: Map<string, ContactFlow>, completeMappings: Map<string, string>, staged: boolean) {
+  console.log("\nUpdating flow content...");
 
-    await updateContactFlowContent(
-      targetClient,
-      targetInstanceId,
-      flowIdToUpdate,
-      updatedContent
-    );
+  // Written after the published content, so the draft is what target shows as pending in the flow designer
+  const updateDraft = async (sourceFlow: ContactFlow, targetFlowId: string) => {
+    const draft = sourceFlowDrafts.get(sourceFlow.Id!);
+    if (!draft) return;
 
-    console.log(`  Updated content for created flow: ${sourceFlow.Name}`);
-  }
+    await updateContactFlowContent(targetClient, targetInstanceId, targetFlowId + ':$SAVED', await targetContent(sourceFlow.Name!, draft.Content!, completeMappings));
+    console.log(`  Updated pending draft for flow: ${sourceFlow.Name}`);
+  };
 
   for (const targetFlowSummary of flowsToUpdate) {
-    const flowName = targetFlowSummary.Name!;
-    const sourceFlow = Array.from(sourceFlowDetails.values()).find(f => f.Name === flowName);
+    const sourceFlow = findSourceFor(sourceFlowDetails, targetFlowSummary.Arn!, completeMappings);
     if (!sourceFlow) continue;
 
     const targetFlow = targetFlowDetails.get(targetFlowSummary.Id!);
     if (!targetFlow) continue;
 
-    const updatedContent = replaceArnsInContent(sourceFlow.Content!, completeMappings);
+    const updatedContent = await targetContent(sourceFlow.Name!, sourceFlow.Content!, completeMappings, staged);
     const shouldPublish = sourceFlow.Status === "PUBLISHED" && cliFlags.publish;
     const flowIdToUpdate = shouldPublish ? targetFlowSummary.Id! : targetFlowSummary.Id! + ':$SAVED';
 
@@ -219,13 +266,16 @@ async function updateFlowContents(targetClient: ConnectClient, targetInstanceId:
       updatedContent
     );
 
-    if (sourceFlow.Description !== targetFlow.Description) {
+    if (sourceFlow.Description !== targetFlow.Description || sourceFlow.Name !== targetFlow.Name) {
+      if (sourceFlow.Name !== targetFlow.Name) console.log(`  Renaming flow: ${targetFlow.Name} → ${sourceFlow.Name}`);
+
       await updateContactFlowMetadata(
         targetClient,
         targetInstanceId,
         targetFlowSummary.Id!,
         undefined,
-        sourceFlow.Description
+        sourceFlow.Description,
+        sourceFlow.Name
       );
     }
 
@@ -234,10 +284,133 @@ async function updateFlowContents(targetClient: ConnectClient, targetInstanceId:
       await updateResourceTags(targetClient, targetFlowSummary.Arn!, toAdd, toRemove);
     }
 
+    await resolvePendingStub(targetFlowSummary.Arn!);
     console.log(`  Updated content for existing flow: ${sourceFlow.Name}`);
+    await updateDraft(sourceFlow, targetFlowSummary.Id!);
+  }
+
+  console.log(`\nUpdated ${flowsToUpdate.length} flows`);
+}
+
+
+/**
+ * --atomic staging: write the new content of every flow being updated as a $SAVED draft, which
+ * leaves what target is running untouched. Connect validates content when it is saved, so a flow
+ * it rejects fails the copy before anything is published.
+ */
+async function stageFlowContents(targetClient: ConnectClient, targetInstanceId: string, flowsToUpdate: ContactFlowSummary[], sourceFlowDetails: Map<string, ContactFlow>, completeMappings: Map<string, string>) {
+  console.log("\nStaging flow content as SAVED...");
+
+  for (const targetFlowSummary of flowsToUpdate) {
+    const sourceFlow = findSourceFor(sourceFlowDetails, targetFlowSummary.Arn!, completeMappings);
+    if (!sourceFlow) continue;
+
+    await updateContactFlowContent(targetClient, targetInstanceId, targetFlowSummary.Id! + ':$SAVED', await targetContent(sourceFlow.Name!, sourceFlow.Content!, completeMappings));
+    console.log(`  Staged content for existing flow: ${sourceFlow.Name}`);
   }
 
-  console.log(`\nUpdated ${flowsToCreate.length + flowsToUpdate.length} flows`);
+  console.log(`\nStaged ${flowsToUpdate.length} flows`);
+}
+
+
+/**
+ * Target drafts to back up before writing. --atomic stages every updated flow through its $SAVED
+ * draft, so the existing drafts of all of them are read, not only those --include-saved compared;
+ * otherwise a rollback could not put them back.
+ */
+async function draftsToBackUp(targetClient: ConnectClient, targetInstanceId: string, flowsToUpdate: ContactFlowSummary[], targetFlowDetails: Map<string, ContactFlow>, targetFlowDrafts: Map<string, ContactFlow>, atomic: boolean): Promise<Map<string, ContactFlow>> {
+  if (!atomic) return targetFlowDrafts;
+
+  const drafts = new Map(targetFlowDrafts);
+  const unread = flowsToUpdate.filter(f => !drafts.has(f.Id!) && targetFlowDetails.get(f.Id!)?.Status === "PUBLISHED");
+
+  await mapConcurrent(unread, async flowSummary => {
+    const draft = await describeContactFlowDraft(targetClient, targetInstanceId, targetFlowDetails.get(flowSummary.Id!)!);
+    if (draft) drafts.set(flowSummary.Id!, draft);
+  }, "Reading target drafts");
+
+  return drafts;
+}
+
+
+/**
+ * --atomic publish phase for the flows createResources left SAVED.
+ */
+async function publishCreatedFlows(targetClient: ConnectClient, targetInstanceId: string, flowsToCreate: ContactFlowSummary[], sourceFlowDetails: Map<string, ContactFlow>, sourceFlowDrafts: Map<string, ContactFlow>, createdArnMappings: Map<string, string>, completeMappings: Map<string, string>) {
+  console.log("\nPublishing created flows...");
+
+  for (const flowSummary of flowsToCreate) {
+    const sourceFlow = sourceFlowDetails.get(flowSummary.Id!);
+    const targetArn = createdArnMappings.get(flowSummary.Arn!);
+    if (!sourceFlow || !targetArn) continue;
+
+    const targetFlowId = targetArn.split('/').pop()!;
+
+    if (sourceFlow.Status === "PUBLISHED" && cliFlags.publish) {
+      await updateContactFlowContent(targetClient, targetInstanceId, targetFlowId, await targetContent(sourceFlow.Name!, sourceFlow.Content!, completeMappings, true));
+      console.log(`  Published created flow: ${sourceFlow.Name}`);
+    }
+
+    const draft = sourceFlowDrafts.get(sourceFlow.Id!);
+    if (draft) {
+      await updateContactFlowContent(targetClient, targetInstanceId, targetFlowId + ':$SAVED', await targetContent(sourceFlow.Name!, draft.Content!, completeMappings));
+      console.log(`  Updated pending draft for flow: ${sourceFlow.Name}`);
+    }
+  }
+}
+
+
+/**
+ * Undo a failed --atomic copy with the backup createBackup wrote: backed-up flows and modules get
+ * their pre-copy content back (discarding staged drafts, then re-saving any draft target had) and
+ * created ones are deleted.
+ */
+async function rollbackAtomicCopy(targetClient: ConnectClient, backupDir: string, error: unknown, publishing: boolean) {
+  console.error(`\n${publishing ? "Publishing" : "Staging"} failed: ${(error as Error).message}`);
+  console.log(publishing ? `Restoring target from backup ${backupDir}...` : `Nothing was published - removing staged changes using backup ${backupDir}...`);
+
+  try {
+    const manifest = await loadBackupManifest(backupDir);
+    const failedDeletes = await applyBackup(targetClient, backupDir, manifest, true, cliFlags.verbose);
+
+    if (failedDeletes > 0) {
+      console.error(`${failedDeletes} created resources could not be deleted (see above) - remove them manually`);
+    } else {
+      console.log("\nRollback complete - target flows and modules are back to their pre-copy state");
+    }
+  } catch (rollbackError) {
+    console.error(`\nRollback failed: ${(rollbackError as Error).message}`);
+    console.error(`Restore manually: connect-copy restore --backup ${backupDir} --target-profile <profile> --delete-created`);
+  }
+}
+
+
+async function createFlowVersions(targetClient: ConnectClient, targetInstanceId: string, flowsToCreate: ContactFlowSummary[], flowsToUpdate: ContactFlowSummary[], sourceFlowDetails: Map<string, ContactFlow>, createdArnMappings: Map<string, string>, arnMap: Map<string, string>, sourceFlowVersions: Record<string, string> | undefined) {
+  console.log("\nCreating flow versions...");
+
+  const copiedFlows = [
+    ...flowsToCreate.map(summary => ({ sourceFlow: sourceFlowDetails.get(summary.Id!), targetFlowId: createdArnMappings.get(summary.Arn!)?.split('/').pop() })),
+    ...flowsToUpdate.map(summary => ({ sourceFlow: findSourceFor(sourceFlowDetails, summary.Arn!, arnMap), targetFlowId: summary.Id }))
+  ];
+
+  let created = 0;
+
+  for (const { sourceFlow, targetFlowId } of copiedFlows) {
+    if (!sourceFlow || !targetFlowId) continue;
+
+    // A version snapshots published content; flows kept SAVED have nothing new to version
+    if (sourceFlow.Status !== "PUBLISHED" || !cliFlags.publish) continue;
+
+    // Only a pinned version number identifies the source version; current content and aliases do not
+    const qualifier = sourceFlowVersions?.[sourceFlow.Name!];
+    const sourceVersion = qualifier && /^\d+$/.test(qualifier) ? Number(qualifier) : undefined;
+
+    const { version } = await createContactFlowVersion(targetClient, targetInstanceId, targetFlowId, versionDescription(sourceVersion));
+    console.log(`  Created version ${version} of flow: ${sourceFlow.Name}`);
+    created++;
+  }
+
+  console.log(`\nCreated ${created} flow versions`);
 }
 
 
@@ -278,6 +451,29 @@ function displayCopyPlan(comparisonResult: FlowComparisonResult) {
     console.log();
   }
 
+  const substitutions = [...Object.entries(comparisonResult.moduleSubstitutions), ...Object.entries(comparisonResult.flowSubstitutions)];
+  if (substitutions.length > 0) {
+    console.log(`Content substitutions (${substitutions.reduce((sum, [, applied]) => sum + applied.length, 0)}):`);
+    for (const [name, applied] of substitutions) {
+      console.log(`  ${name}:`);
+      for (const substitution of applied) console.log(`    - ${formatSubstitution(substitution)}`);
+    }
+    console.log();
+  }
+
+  // Counts by default, since nearly every flow references something; --verbose lists each value
+  const arnSubstitutions = [...Object.entries(comparisonResult.moduleArnSubstitutions), ...Object.entries(comparisonResult.flowArnSubstitutions)];
+  if (arnSubstitutions.length > 0) {
+    console.log(`ARN and ID references to rewrite (${arnSubstitutions.reduce((sum, [, substitutions]) => sum + substitutions.length, 0)}; references to resources created by this run are added when written):`);
+    for (const [name, substitutions] of arnSubstitutions) {
+      console.log(`  ${name}: ${substitutions.length}`);
+      if (cliFlags.verbose) {
+        for (const substitution of substitutions) console.log(`    - ${substitution.path}: ${substitution.from} → ${substitution.to}`);
+      }
+    }
+    console.log();
+  }
+
   const totalCreates = comparisonResult.flowsToCreateList.length + comparisonResult.modulesToCreateList.length;
   const totalUpdates = comparisonResult.flowsToUpdateList.length + comparisonResult.modulesToUpdateList.length;
 
@@ -292,10 +488,13 @@ export async function copyFlows(options: CopyFlowsOptions) {
     options.sourceConfig,
     options.targetConfig,
     options.sourceProfile,
-    options.targetProfile
+    options.targetProfile,
+    options.sourceSnapshot
   );
 
-  const hasMissingResources = reportResourceDifferences(sourceInventory, targetInventory);
+  await openJournal("copy-flows", targetConfig, options.resume);
+
+  const hasMissingResources = reportResourceDifferences(await buildAllResourceMappings({ sourceClient, targetClient, identity: sourceConfig.identity, nameRules: sourceConfig.nameRules }, sourceInventory, targetInventory));
 
   if (hasMissingResources) {
     const shouldContinue = await CliUtil.promptContinue("Continue to flow validation?");
@@ -311,15 +510,19 @@ export async function copyFlows(options: CopyFlowsOptions) {
     sourceConfig,
     targetConfig,
     sourceInventory,
-    targetInventory
+    targetInventory,
+    { flowComparison: options.flowComparison, includeSaved: options.includeSaved, strictReferences: options.strictReferences }
   );
 
+  if (options.approvedPlan) applyFlowPlanStep(options.approvedPlan, comparisonResult, { source: sourceConfig, target: targetConfig });
+
   if (!comparisonResult.valid) {
     process.exit(1);
   }
 
   if (comparisonResult.flowsToCreateList.length === 0 && comparisonResult.flowsToUpdateList.length === 0 && comparisonResult.modulesToCreateList.length === 0 && comparisonResult.modulesToUpdateList.length === 0) {
     console.log("\nNo flows or modules need to be copied - all content matches");
+    await finishJournal("copy-flows");
     return;
   }
 
@@ -332,26 +535,26 @@ export async function copyFlows(options: CopyFlowsOptions) {
   }
 
   console.log("\nPhase 3: Creating backup...");
-  await createBackup(
+  const backupDir = await createBackup(
     targetClient,
     targetConfig.instanceId,
     targetConfig.region,
     comparisonResult.flowsToUpdateList,
-    comparisonResult.modulesToUpdateList
-  );
-
-  const createdArnMappings = await createStubResources(
-    targetClient,
-    targetConfig.instanceId,
-    comparisonResult.modulesToCreateList,
-    comparisonResult.flowsToCreateList,
-    comparisonResult.validationResult.sourceModuleDetails,
-    comparisonResult.validationResult.sourceFlowDetails
+    comparisonResult.modulesToUpdateList,
+    await draftsToBackUp(
+      targetClient,
+      targetConfig.instanceId,
+      comparisonResult.flowsToUpdateList,
+      comparisonResult.validationResult.targetFlowDetails,
+      comparisonResult.validationResult.targetFlowDrafts,
+      !!options.atomic
+    )
   );
 
   // Build external ARN mappings (Lambda, Lex, S3) from flow/module content
   const allContents = [
     ...[...comparisonResult.validationResult.sourceFlowDetails.values()].map(f => f.Content ?? ""),
+    ...[...comparisonResult.validationResult.sourceFlowDrafts.values()].map(f => f.Content ?? ""),
     ...[...comparisonResult.validationResult.sourceModuleDetails.values()].map(m => m.Content ?? "")
   ];
   const externalArnMappings = buildExternalArnMappings(
@@ -368,36 +571,126 @@ export async function copyFlows(options: CopyFlowsOptions) {
     }
   }
 
-  const completeMappings = new Map([
+  const existingMappings = new Map([
     ...comparisonResult.validationResult.resourceMappings.arnMap,
-    ...createdArnMappings,
-    ...externalArnMappings
+    ...externalArnMappings,
+    ...comparisonResult.flowVersionMappings
   ]);
 
-  console.log(`\nComplete ARN mappings: ${completeMappings.size} total (${comparisonResult.validationResult.resourceMappings.arnMap.size} existing + ${createdArnMappings.size} created + ${externalArnMappings.size} external)`);
+  const createdArnMappings = new Map<string, string>();
 
-  await updateModuleContents(
-    targetClient,
-    targetConfig.instanceId,
-    comparisonResult.modulesToCreateList,
-    comparisonResult.modulesToUpdateList,
-    comparisonResult.validationResult.sourceModuleDetails,
-    comparisonResult.validationResult.targetModuleDetails,
-    createdArnMappings,
-    completeMappings
-  );
+  // Only consulted by --atomic, to tell a staging failure (nothing live changed) from a publish failure
+  let publishing = false;
 
-  await updateFlowContents(
-    targetClient,
-    targetConfig.instanceId,
-    comparisonResult.flowsToCreateList,
-    comparisonResult.flowsToUpdateList,
-    comparisonResult.validationResult.sourceFlowDetails,
-    comparisonResult.validationResult.targetFlowDetails,
-    createdArnMappings,
-    completeMappings
-  );
+  try {
+    try {
+      await createResources(
+        targetClient,
+        targetConfig.instanceId,
+        comparisonResult.modulesToCreateList,
+        comparisonResult.flowsToCreateList,
+        comparisonResult.validationResult.sourceModuleDetails,
+        comparisonResult.validationResult.sourceFlowDetails,
+        comparisonResult.validationResult.sourceFlowDrafts,
+        existingMappings,
+        createdArnMappings,
+        !!options.atomic
+      );
+    } finally {
+      // Also after a failed creation, so restore --delete-created can remove what was created
+      await recordCreatedResources(backupDir, {
+        flows: toCreatedEntries(comparisonResult.flowsToCreateList, createdArnMappings),
+        modules: toCreatedEntries(comparisonResult.modulesToCreateList, createdArnMappings)
+      });
+    }
+
+    const flowVersionMappings = new Map([
+      ...comparisonResult.flowVersionMappings,
+      ...buildCreatedFlowVersionMappings(allContents, createdArnMappings)
+    ]);
+
+    if (flowVersionMappings.size > 0) {
+      console.log(`\nFlow version mappings: ${flowVersionMappings.size}`);
+      for (const [source, target] of flowVersionMappings) {
+        console.log(`  ${source}`);
+        console.log(`    → ${target}`);
+      }
+    }
+
+    const completeMappings = new Map([
+      ...comparisonResult.validationResult.resourceMappings.arnMap,
+      ...createdArnMappings,
+      ...externalArnMappings,
+      ...flowVersionMappings
+    ]);
+
+    console.log(`\nComplete ARN mappings: ${completeMappings.size} total (${comparisonResult.validationResult.resourceMappings.arnMap.size} existing + ${createdArnMappings.size} created + ${externalArnMappings.size} external + ${flowVersionMappings.size} versioned)`);
+
+    if (options.atomic) {
+      await stageFlowContents(
+        targetClient,
+        targetConfig.instanceId,
+        comparisonResult.flowsToUpdateList,
+        comparisonResult.validationResult.sourceFlowDetails,
+        completeMappings
+      );
+
+      console.log("\nAll content staged and accepted by Connect - publishing");
+      publishing = true;
+    }
+
+    await updateModuleContents(
+      targetClient,
+      targetConfig.instanceId,
+      comparisonResult.modulesToUpdateList,
+      comparisonResult.validationResult.sourceModuleDetails,
+      comparisonResult.validationResult.targetModuleDetails,
+      completeMappings
+    );
+
+    if (options.atomic) {
+      await publishCreatedFlows(
+        targetClient,
+        targetConfig.instanceId,
+        comparisonResult.flowsToCreateList,
+        comparisonResult.validationResult.sourceFlowDetails,
+        comparisonResult.validationResult.sourceFlowDrafts,
+        createdArnMappings,
+        completeMappings
+      );
+    }
+
+    await updateFlowContents(
+      targetClient,
+      targetConfig.instanceId,
+      comparisonResult.flowsToUpdateList,
+      comparisonResult.validationResult.sourceFlowDetails,
+      comparisonResult.validationResult.targetFlowDetails,
+      comparisonResult.validationResult.sourceFlowDrafts,
+      completeMappings,
+      !!options.atomic
+    );
+  } catch (error) {
+    if (!options.atomic) throw error;
+
+    await rollbackAtomicCopy(targetClient, backupDir, error, publishing);
+    process.exit(1);
+  }
+
+  if (options.createVersion) {
+    await createFlowVersions(
+      targetClient,
+      targetConfig.instanceId,
+      comparisonResult.flowsToCreateList,
+      comparisonResult.flowsToUpdateList,
+      comparisonResult.validationResult.sourceFlowDetails,
+      createdArnMappings,
+      comparisonResult.validationResult.resourceMappings.arnMap,
+      sourceConfig.sourceFlowVersions
+    );
+  }
 
+  await finishJournal("copy-flows");
   console.log("\nCopy complete!");
 }
 
@@ -0,0 +1,75 @@
+import { extractDependencyArnsFromFlow, splitArnQualifier } from "./arn-utils.js";
+
+import type { ContactFlow, ContactFlowModule } from "@aws-sdk/client-connect";
+
+
+/**
+ * Order in which copy creates new flows and modules. Connect only accepts content whose
+ * references exist, so a resource is created with its real content once everything it references
+ * (among the resources being created) exists in target. Reference cycles, including a flow that
+ * transfers to itself, cannot be ordered: one resource per cycle is created as a stub instead and
+ * gets its content after the rest.
+ */
+export interface CreateStep<T extends ContactFlow | ContactFlowModule> {
+  resource: T;
+  stub: boolean;
+}
+
+
+export function orderForCreation<T extends ContactFlow | ContactFlowModule>(resources: T[]): CreateStep<T>[] {
+  const byArn = new Map(resources.map(r => [r.Arn!, r]));
+  // References by bare ID count the same as references by ARN
+  const arnById = new Map(resources.map(r => [r.Id!, r.Arn!]));
+
+  // Only references to resources being created constrain the order; everything else already exists
+  const dependencies = new Map(resources.map(r => [
+    r.Arn!,
+    new Set(extractDependencyArnsFromFlow(r).map(reference => arnById.get(reference) ?? splitArnQualifier(reference).baseArn).filter(arn => byArn.has(arn)))
+  ]));
+
+  const steps: CreateStep<T>[] = [];
+  const created = new Set<string>();
+  let pending = [...byArn.keys()];
+
+  const isReady = (arn: string) => [...dependencies.get(arn)!].every(dep => created.has(dep));
+
+  while (pending.length > 0) {
+    const ready = pending.filter(isReady);
+
+    for (const arn of ready) {
+      steps.push({ resource: byArn.get(arn)!, stub: false });
+      created.add(arn);
+    }
+
+    if (ready.length === 0) {
+      // Everything left is on a cycle or waits on one; stubbing the cycle member most others wait on unblocks the most
+      const candidates = pending.filter(arn => isOnCycle(arn, dependencies, created));
+      const waitingOn = (arn: string) => pending.filter(other => dependencies.get(other)!.has(arn)).length;
+      const stub = candidates.reduce((best, arn) => waitingOn(arn) > waitingOn(best) ? arn : best);
+
+      steps.push({ resource: byArn.get(stub)!, stub: true });
+      created.add(stub);
+    }
+
+    pending = pending.filter(arn => !created.has(arn));
+  }
+
+  return steps;
+}
+
+
+function isOnCycle(start: string, dependencies: Map<string, Set<string>>, created: Set<string>): boolean {
+  const visited = new Set<string>();
+  const stack = [...dependencies.get(start)!];
+
+  while (stack.length > 0) {
+    const arn = stack.pop()!;
+    if (arn === start) return true;
+    if (created.has(arn) || visited.has(arn)) continue;
+
+    visited.add(arn);
+    stack.push(...dependencies.get(arn)!);
+  }
+
+  return false;
+}
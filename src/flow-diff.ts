@@ -0,0 +1,240 @@
+
+/**
+ * Semantic diff of Connect flow language JSON (flows and modules). Actions are matched by
+ * Identifier, so reordering the Actions array is not a change. Changes read target → source,
+ * i.e. what copy would change the target to, like the other resource diffs.
+ */
+
+// Longer values are cut in the text tree; the JSON report keeps them whole
+const MAX_VALUE_LENGTH = 80;
+
+
+export interface FlowValueChange {
+  path: string;
+  target?: unknown;
+  source?: unknown;
+}
+
+
+export interface FlowActionDiff {
+  identifier: string;
+  type: string;
+  change: "added" | "removed" | "changed";
+  parameters: FlowValueChange[];
+  transitions: FlowValueChange[];
+  // Any other action field, e.g. Type when an identifier was reused for a different block
+  other: FlowValueChange[];
+}
+
+
+export interface FlowContentDiff {
+  actions: FlowActionDiff[];
+  startAction?: FlowValueChange;
+  // Identifiers of blocks whose only metadata change is their canvas position
+  moved: string[];
+  metadata: FlowValueChange[];
+  // Top-level fields besides Actions, Metadata and StartAction (Version, Settings, ...)
+  other: FlowValueChange[];
+  // True when nothing the flow does changed: only Metadata (positions, annotations) or Actions order
+  cosmeticOnly: boolean;
+}
+
+
+interface FlowAction {
+  Identifier: string;
+  Type?: string;
+  Parameters?: unknown;
+  Transitions?: unknown;
+  [key: string]: unknown;
+}
+
+
+interface FlowDocument {
+  StartAction?: string;
+  Actions?: FlowAction[];
+  Metadata?: Record<string, unknown>;
+  [key: string]: unknown;
+}
+
+
+/**
+ * Diff two flow contents. The source should already have its ARNs replaced with target
+ * ARNs, so only differences copy would actually write show up.
+ */
+export function diffFlowContent(normalizedSourceContent: string, targetContent: string): FlowContentDiff {
+  const source = JSON.parse(normalizedSourceContent) as FlowDocument;
+  const target = JSON.parse(targetContent) as FlowDocument;
+
+  const actions = diffActions(source.Actions ?? [], target.Actions ?? []);
+
+  const startAction = source.StartAction !== target.StartAction
+    ? { path: "StartAction", target: target.StartAction, source: source.StartAction }
+    : undefined;
+
+  const { moved, changes: metadata } = diffMetadata(source.Metadata ?? {}, target.Metadata ?? {});
+
+  const other: FlowValueChange[] = [];
+  for (const key of unionKeys(source, target)) {
+    if (key === "Actions" || key === "Metadata" || key === "StartAction") continue;
+    diffValues(key, target[key], source[key], other);
+  }
+
+  const cosmeticOnly = actions.length === 0 && !startAction && other.length === 0;
+
+  return { actions, ...(startAction && { startAction }), moved, metadata, other, cosmeticOnly };
+}
+
+
+function diffActions(sourceActions: FlowAction[], targetActions: FlowAction[]): FlowActionDiff[] {
+  const targetById = new Map(targetActions.map(a => [a.Identifier, a]));
+  const sourceIds = new Set(sourceActions.map(a => a.Identifier));
+  const diffs: FlowActionDiff[] = [];
+
+  for (const sourceAction of sourceActions) {
+    const targetAction = targetById.get(sourceAction.Identifier);
+
+    if (!targetAction) {
+      diffs.push({ identifier: sourceAction.Identifier, type: sourceAction.Type ?? "", change: "added", parameters: [], transitions: [], other: [] });
+      continue;
+    }
+
+    const parameters: FlowValueChange[] = [];
+    const transitions: FlowValueChange[] = [];
+    const other: FlowValueChange[] = [];
+
+    diffValues("Parameters", targetAction.Parameters, sourceAction.Parameters, parameters);
+    diffValues("Transitions", targetAction.Transitions, sourceAction.Transitions, transitions);
+
+    for (const key of unionKeys(sourceAction, targetAction)) {
+      if (key === "Identifier" || key === "Parameters" || key === "Transitions") continue;
+      diffValues(key, targetAction[key], sourceAction[key], other);
+    }
+
+    if (parameters.length + transitions.length + other.length > 0) {
+      diffs.push({ identifier: sourceAction.Identifier, type: sourceAction.Type ?? "", change: "changed", parameters, transitions, other });
+    }
+  }
+
+  for (const targetAction of targetActions) {
+    if (sourceIds.has(targetAction.Identifier)) continue;
+    diffs.push({ identifier: targetAction.Identifier, type: targetAction.Type ?? "", change: "removed", parameters: [], transitions: [], other: [] });
+  }
+
+  return diffs;
+}
+
+
+function diffMetadata(source: Record<string, unknown>, target: Record<string, unknown>): { moved: string[]; changes: FlowValueChange[] } {
+  const moved: string[] = [];
+  const changes: FlowValueChange[] = [];
+
+  for (const key of unionKeys(source, target)) {
+    if (key !== "ActionMetadata") {
+      diffValues(`Metadata.${key}`, target[key], source[key], changes);
+      continue;
+    }
+
+    const sourceActions = (source[key] ?? {}) as Record<string, Record<string, unknown> | undefined>;
+    const targetActions = (target[key] ?? {}) as Record<string, Record<string, unknown> | undefined>;
+
+    for (const identifier of unionKeys(sourceActions, targetActions)) {
+      const sourceMeta = sourceActions[identifier];
+      const targetMeta = targetActions[identifier];
+
+      // Metadata for added/removed blocks is implied by the action change itself
+      if (!sourceMeta || !targetMeta) continue;
+
+      const { position: sourcePosition, ...sourceRest } = sourceMeta;
+      const { position: targetPosition, ...targetRest } = targetMeta;
+
+      if (!valuesEqual(sourcePosition, targetPosition)) moved.push(identifier);
+      diffValues(`Metadata.ActionMetadata.${identifier}`, targetRest, sourceRest, changes);
+    }
+  }
+
+  return { moved, changes };
+}
+
+
+function diffValues(path: string, target: unknown, source: unknown, changes: FlowValueChange[]) {
+  if (valuesEqual(source, target)) return;
+
+  if (isPlainObject(source) && isPlainObject(target)) {
+    for (const key of unionKeys(source, target)) {
+      diffValues(`${path}.${key}`, target[key], source[key], changes);
+    }
+    return;
+  }
+
+  if (Array.isArray(source) && Array.isArray(target)) {
+    for (let i = 0; i < Math.max(source.length, target.length); i++) {
+      diffValues(`${path}[${i}]`, target[i], source[i], changes);
+    }
+    return;
+  }
+
+  changes.push({
+    path,
+    ...(target !== undefined && { target }),
+    ...(source !== undefined && { source })
+  });
+}
+
+
+function valuesEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+
+function unionKeys(a: object, b: object): string[] {
+  return [...new Set([...Object.keys(a), ...Object.keys(b)])];
+}
+
+
+/**
+ * Render a diff as indented lines for --verbose output: + added, - removed, ~ changed.
+ */
+export function formatFlowContentDiff(diff: FlowContentDiff, indent = "    "): string[] {
+  const lines: string[] = [];
+
+  if (diff.startAction) lines.push(`${indent}${formatChange(diff.startAction)}`);
+
+  for (const action of diff.actions) {
+    const marker = action.change === "added" ? "+" : action.change === "removed" ? "-" : "~";
+    lines.push(`${indent}${marker} ${action.type || "Action"} ${action.identifier}`);
+
+    for (const change of [...action.parameters, ...action.transitions, ...action.other]) {
+      lines.push(`${indent}    ${formatChange(change)}`);
+    }
+  }
+
+  for (const change of diff.other) lines.push(`${indent}${formatChange(change)}`);
+  for (const change of diff.metadata) lines.push(`${indent}${formatChange(change)}`);
+
+  if (diff.moved.length > 0) {
+    lines.push(`${indent}Layout: ${diff.moved.length} block${diff.moved.length === 1 ? "" : "s"} moved`);
+  }
+
+  if (diff.moved.length + diff.metadata.length === 0 && diff.cosmeticOnly) lines.push(`${indent}Actions reordered`);
+  if (diff.cosmeticOnly) lines.push(`${indent}(cosmetic changes only - flow behavior is identical)`);
+
+  return lines;
+}
+
+
+function formatChange(change: FlowValueChange): string {
+  return `${change.path}: ${formatValue(change.target)} → ${formatValue(change.source)}`;
+}
+
+
+function formatValue(value: unknown): string {
+  if (value === undefined) return "(none)";
+
+  const json = JSON.stringify(value);
+  return json.length > MAX_VALUE_LENGTH ? `${json.slice(0, MAX_VALUE_LENGTH - 3)}...` : json;
+}
@@ -0,0 +1,95 @@
+import { listContactFlowVersions } from "./connect/flows.js";
+import { splitArnQualifier } from "./arn-utils.js";
+
+import type { ConnectClient, ContactFlowVersionSummary } from "@aws-sdk/client-connect";
+import type { ValidationWarning } from "./validation.js";
+
+
+/**
+ * Versions created in target by `--create-version` record the source version they were copied
+ * from in their description. That is the only link between source and target version numbers,
+ * so versioned references (<flow arn>:<n>) in content are mapped through it.
+ */
+const VERSION_DESCRIPTION_PATTERN = /^Copied by connect-copy from source version (\d+)/;
+
+// Alias and $LATEST/$SAVED qualifiers need no mapping; they keep their meaning in target
+const VERSIONED_FLOW_ARN_PATTERN = /arn:aws:connect:[a-z0-9-]+:\d+:instance\/[a-f0-9-]+\/contact-flow\/[a-f0-9-]+:\d+(?![\w$-])/g;
+
+
+export interface FlowVersionMappings {
+  mappings: Map<string, string>;
+  warnings: ValidationWarning[];
+}
+
+
+export function versionDescription(sourceVersion: number | undefined): string {
+  return sourceVersion === undefined ? "Copied by connect-copy" : `Copied by connect-copy from source version ${sourceVersion}`;
+}
+
+
+/**
+ * Map every versioned source flow reference in the given contents to the target version copied
+ * from it. References without one point at the unqualified target flow instead (the content copy
+ * writes), rather than at whatever unrelated version has the same number in target.
+ */
+export async function buildFlowVersionMappings(targetClient: ConnectClient, targetInstanceId: string, contents: string[], arnMap: Map<string, string>): Promise<FlowVersionMappings> {
+  const references = findVersionedFlowReferences(contents);
+  const versionsByTargetArn = new Map<string, ContactFlowVersionSummary[]>();
+  const mappings = new Map<string, string>();
+  const warnings: ValidationWarning[] = [];
+
+  for (const reference of references) {
+    const { baseArn, qualifier } = splitArnQualifier(reference);
+    const targetArn = arnMap.get(baseArn);
+
+    // Flows missing from target are reported by dependency validation, or created by the copy (see below)
+    if (!targetArn) continue;
+
+    let versions = versionsByTargetArn.get(targetArn);
+    if (!versions) {
+      versions = await listContactFlowVersions(targetClient, targetInstanceId, targetArn.split('/').pop()!);
+      versionsByTargetArn.set(targetArn, versions);
+    }
+
+    // The newest copy wins when the same source version was copied more than once
+    const match = versions
+      .filter(v => VERSION_DESCRIPTION_PATTERN.exec(v.VersionDescription ?? "")?.[1] === qualifier)
+      .sort((a, b) => (b.Version ?? 0) - (a.Version ?? 0))[0];
+
+    if (match) {
+      mappings.set(reference, `${targetArn}:${match.Version}`);
+      continue;
+    }
+
+    mappings.set(reference, targetArn);
+    warnings.push({
+      severity: 'warning',
+      category: 'unmapped_version',
+      message: `No target version was copied from source version ${qualifier}: ${reference}`,
+      details: `The reference will point at the unqualified target flow ${targetArn}`
+    });
+  }
+
+  return { mappings, warnings };
+}
+
+
+/**
+ * Flows created by the copy have no versions yet, so versioned references to them point at the
+ * new flow itself.
+ */
+export function buildCreatedFlowVersionMappings(contents: string[], createdArnMappings: Map<string, string>): Map<string, string> {
+  const mappings = new Map<string, string>();
+
+  for (const reference of findVersionedFlowReferences(contents)) {
+    const targetArn = createdArnMappings.get(splitArnQualifier(reference).baseArn);
+    if (targetArn) mappings.set(reference, targetArn);
+  }
+
+  return mappings;
+}
+
+
+function findVersionedFlowReferences(contents: string[]): Set<string> {
+  return new Set(contents.flatMap(content => content.match(VERSIONED_FLOW_ARN_PATTERN) ?? []));
+}
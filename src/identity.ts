@@ -0,0 +1,181 @@
+import { listResourceTags } from "./utils/aws-utils.js";
+import { mapConcurrent } from "./utils/concurrency-utils.js";
+import { log } from "./utils/log-utils.js";
+
+import type { ConnectClient } from "@aws-sdk/client-connect";
+import type { NameRule, ResourceIdentity } from "./validation.js";
+
+
+/**
+ * Which target resource a source resource is copied onto. By default it is the target resource
+ * with the same name. The source config's `identity` section changes that per resource type (keyed
+ * as for --skip): `matchBy: "tag:<key>"` pairs resources carrying the same value of that tag, so a
+ * resource renamed in source is renamed in target instead of created again, and `idMappings` pins
+ * source IDs to target IDs outright.
+ */
+export const IDENTITY_RESOURCE_TYPES = [
+  "flows", "modules", "hours-of-operation", "agent-statuses", "hierarchy-groups", "security-profiles",
+  "queues", "routing-profiles", "quick-connects", "views", "prompts"
+];
+
+
+interface IdentifiedResource {
+  Id?: string | undefined;
+  Arn?: string | undefined;
+  Name?: string | undefined;
+}
+
+
+export interface IdentityContext {
+  sourceClient: ConnectClient;
+  targetClient: ConnectClient;
+  identity?: Record<string, ResourceIdentity> | undefined;
+  nameRules?: NameRule[] | undefined;
+}
+
+
+export function validateIdentityConfig(identity: Record<string, ResourceIdentity>): string[] {
+  return Object.keys(identity)
+    .filter(type => !IDENTITY_RESOURCE_TYPES.includes(type))
+    .map(type => `identity.${type}: unknown resource type (valid values: ${IDENTITY_RESOURCE_TYPES.join(", ")})`);
+}
+
+
+export function validateNameRules(nameRules: NameRule[]): string[] {
+  const errors: string[] = [];
+
+  for (const [index, rule] of nameRules.entries()) {
+    try {
+      new RegExp(rule.match);
+    } catch (error) {
+      errors.push(`nameRules[${index}].match: invalid regex "${rule.match}": ${(error as Error).message}`);
+    }
+
+    for (const type of rule.resourceTypes ?? []) {
+      if (!IDENTITY_RESOURCE_TYPES.includes(type)) {
+        errors.push(`nameRules[${index}].resourceTypes: unknown resource type ${type} (valid values: ${IDENTITY_RESOURCE_TYPES.join(", ")})`);
+      }
+    }
+  }
+
+  return errors;
+}
+
+
+/**
+ * The name a source resource has in target. The source config's `nameRules` are tried in order and
+ * the first one that applies to the resource type and matches rewrites the name (like arnPatterns),
+ * so `DEV_Sales` in source is matched with, created as and referenced as `PROD_Sales` in target.
+ */
+export function applyNameRules(nameRules: NameRule[] | undefined, resourceType: string, name: string): string {
+  const rule = nameRules?.find(r => (!r.resourceTypes || r.resourceTypes.includes(resourceType)) && new RegExp(r.match).test(name));
+  return rule ? name.replace(new RegExp(rule.match), rule.replace) : name;
+}
+
+
+/**
+ * A described source resource under its target name (see applyNameRules), which is what copy
+ * compares with target and writes.
+ */
+export function withTargetName<T extends { Name?: string | undefined }>(context: IdentityContext, resourceType: string, resource: T): T {
+  if (!context.nameRules || resource.Name === undefined) return resource;
+  return { ...resource, Name: applyNameRules(context.nameRules, resourceType, resource.Name) };
+}
+
+
+/**
+ * Pair the source resources of one type with target resources. Returns the matched target
+ * resource keyed by source resource ID; a source resource without an entry has no counterpart.
+ *
+ * idMappings wins, then the matchBy tag, then the name (after nameRules). Under a tag strategy a source resource
+ * without a tag match still falls back to its name, but only onto a target resource that has no
+ * value for the tag - that is how existing target resources are adopted on the first copy, which
+ * then copies the tag onto them.
+ */
+export async function matchResources<T extends IdentifiedResource>(context: IdentityContext, resourceType: string, sources: IdentifiedResource[], targets: T[]): Promise<Map<string, T>> {
+  const { matchBy = "name", idMappings = {} } = context.identity?.[resourceType] ?? {};
+
+  const matches = new Map<string, T>();
+  const claimed = new Set<T>();
+
+  const claim = (source: IdentifiedResource, target: T) => {
+    matches.set(source.Id!, target);
+    claimed.add(target);
+  };
+
+  const targetsById = new Map(targets.map(t => [t.Id, t]));
+
+  for (const source of sources) {
+    const targetId = idMappings[source.Id!];
+    if (!targetId) continue;
+
+    const target = targetsById.get(targetId);
+    if (!target) {
+      log(`[WARNING] identity.${resourceType}.idMappings maps ${source.Name} to ${targetId}, which does not exist in target`);
+      continue;
+    }
+
+    claim(source, target);
+  }
+
+  const taggedTargets = new Set<T>();
+
+  if (matchBy.startsWith("tag:")) {
+    const tagKey = matchBy.slice("tag:".length);
+    const unmatched = sources.filter(s => !matches.has(s.Id!));
+
+    const sourceValues = await readTagValues(context.sourceClient, unmatched, tagKey);
+    const targetValues = await readTagValues(context.targetClient, targets, tagKey);
+
+    const targetsByValue = new Map<string, T[]>();
+    for (const [index, target] of targets.entries()) {
+      const value = targetValues[index];
+      if (value === undefined) continue;
+
+      taggedTargets.add(target);
+      targetsByValue.set(value, [...targetsByValue.get(value) ?? [], target]);
+    }
+
+    for (const [index, source] of unmatched.entries()) {
+      const value = sourceValues[index];
+      if (value === undefined) continue;
+
+      const candidates = (targetsByValue.get(value) ?? []).filter(t => !claimed.has(t));
+      if (candidates.length > 1) {
+        log(`[WARNING] ${candidates.length} target ${resourceType} have ${tagKey}=${value} - ${source.Name} is not matched by tag`);
+        continue;
+      }
+
+      if (candidates[0]) claim(source, candidates[0]);
+    }
+  }
+
+  const targetsByName = new Map(targets.filter(t => !claimed.has(t) && !taggedTargets.has(t)).map(t => [t.Name, t]));
+
+  for (const source of sources) {
+    if (matches.has(source.Id!)) continue;
+
+    const target = targetsByName.get(source.Name === undefined ? undefined : applyNameRules(context.nameRules, resourceType, source.Name));
+    if (target && !claimed.has(target)) claim(source, target);
+  }
+
+  return matches;
+}
+
+
+/**
+ * matchResources as a plain source → target lookup of Id or Arn, for the dependency mappings a
+ * resource comparison needs (queue → hours of operation, routing profile → queues, ...).
+ */
+export async function buildIdentityMapping(context: IdentityContext, resourceType: string, sources: IdentifiedResource[], targets: IdentifiedResource[], field: "Id" | "Arn"): Promise<Record<string, string>> {
+  const matches = await matchResources(context, resourceType, sources, targets);
+
+  return Object.fromEntries(sources
+    .filter(source => matches.get(source.Id!)?.[field])
+    .map(source => [source[field]!, matches.get(source.Id!)![field]!]));
+}
+
+
+async function readTagValues(client: ConnectClient, resources: IdentifiedResource[], tagKey: string): Promise<(string | undefined)[]> {
+  return mapConcurrent(resources, async resource => (await listResourceTags(client, resource.Arn!))[tagKey], "Reading identity tags");
+}
@@ -2,6 +2,7 @@
 
 import { Command } from "commander";
 import { setCliFlags } from "./cli-flags.js";
+import { DEFAULT_CONCURRENCY, DEFAULT_RATE_LIMIT, setConcurrency, setRateLimit } from "./utils/concurrency-utils.js";
 import { copyFlows } from "./copy-flows.js";
 import { copyViews } from "./resources/views/copy.js";
 import { copyAgentStatuses } from "./resources/agent-statuses/copy.js";
@@ -11,8 +12,13 @@ import { copySecurityProfiles } from "./resources/security-profiles/copy.js";
 import { copyQueues } from "./resources/queues/copy.js";
 import { copyRoutingProfiles } from "./resources/routing-profiles/copy.js";
 import { copyQuickConnects } from "./resources/quick-connects/copy.js";
+import { copyPrompts } from "./resources/prompts/copy.js";
+import { copyPhoneNumbers } from "./resources/phone-numbers/copy.js";
+import { copyUsers } from "./resources/users/copy.js";
 import { copyAll } from "./copy-all.js";
 import { runReport } from "./report.js";
+import { runExport } from "./snapshot.js";
+import { restoreBackup } from "./restore.js";
 
 const program = new Command();
 
@@ -21,15 +27,103 @@ program
   .description("Copy contact flows and supporting resources between Amazon Connect instances")
   .version("0.4.0");
 
+program.hook("preAction", (_program, actionCommand) => {
+  if (!actionCommand.options.some(o => o.long === "--source-snapshot")) return;
+
+  const options = actionCommand.opts();
+  if (!options["sourceProfile"] && !options["sourceSnapshot"]) {
+    actionCommand.error("error: one of --source-profile or --source-snapshot is required");
+  }
+
+  // Snapshots hold published content only, so there would be no drafts to copy
+  if (options["sourceSnapshot"] && options["includeSaved"]) {
+    actionCommand.error("error: --include-saved cannot be used with --source-snapshot (snapshots hold published content only)");
+  }
+});
+
+program.hook("preAction", (_program, actionCommand) => {
+  const concurrency = actionCommand.opts()["concurrency"];
+  if (concurrency === undefined) return;
+
+  const limit = Number(concurrency);
+  if (!Number.isInteger(limit) || limit < 1) {
+    actionCommand.error("error: --concurrency must be a positive integer");
+  }
+
+  setConcurrency(limit);
+});
+
+program.hook("preAction", (_program, actionCommand) => {
+  const rateLimit = actionCommand.opts()["rateLimit"];
+  if (rateLimit === undefined) return;
+
+  const limit = Number(rateLimit);
+  if (!Number.isFinite(limit) || limit <= 0) {
+    actionCommand.error("error: --rate-limit must be a positive number");
+  }
+
+  setRateLimit(limit);
+});
+
+program.hook("preAction", (_program, actionCommand) => {
+  const flowComparison = actionCommand.opts()["flowComparison"];
+  if (flowComparison !== undefined && flowComparison !== "exact" && flowComparison !== "behavioral") {
+    actionCommand.error("error: --flow-comparison must be exact or behavioral");
+  }
+});
+
+program.hook("preAction", (_program, actionCommand) => {
+  const options = actionCommand.opts();
+  if (options["resume"] && options["plan"]) {
+    actionCommand.error("error: --resume cannot be combined with --plan (the interrupted run already changed the target the plan was made against)");
+  }
+});
+
+program
+  .command("export")
+  .description("Export a read-only snapshot of a source instance to a directory")
+  .requiredOption("--source-config <path>", "Path to source configuration file")
+  .requiredOption("--source-profile <profile>", "AWS profile for source account")
+  .requiredOption("--output <dir>", "Directory to write the snapshot to")
+  .option("--concurrency <n>", "Maximum concurrent Connect API requests per operation", String(DEFAULT_CONCURRENCY))
+  .option("--rate-limit <n>", "Maximum Connect API requests per second per operation", String(DEFAULT_RATE_LIMIT))
+  .action((options) => {
+    runExport(options);
+  });
+
+program
+  .command("restore")
+  .description("Restore target flows and modules from a backup written by a copy run")
+  .requiredOption("--backup <dir>", "Backup directory (backups/backup-<timestamp>)")
+  .requiredOption("--target-profile <profile>", "AWS profile for target account")
+  .option("--delete-created", "Also delete flows and modules the copy run created", false)
+  .option("-y, --yes", "Auto-confirm all prompts", false)
+  .option("--concurrency <n>", "Maximum concurrent Connect API requests per operation", String(DEFAULT_CONCURRENCY))
+  .option("--rate-limit <n>", "Maximum Connect API requests per second per operation", String(DEFAULT_RATE_LIMIT))
+  .option("--verbose", "Enable detailed logging", false)
+  .action((options) => {
+    setCliFlags({ publish: true, yes: options.yes, verbose: options.verbose });
+    restoreBackup(options);
+  });
+
 program
   .command("copy-flows")
   .description("Copy contact flows and flow modules between instances")
   .requiredOption("--source-config <path>", "Path to source configuration file")
   .requiredOption("--target-config <path>", "Path to target configuration file")
-  .requiredOption("--source-profile <profile>", "AWS profile for source account")
+  .option("--source-profile <profile>", "AWS profile for source account")
+  .option("--source-snapshot <dir>", "Read source from an exported snapshot instead of AWS")
   .requiredOption("--target-profile <profile>", "AWS profile for target account")
   .option("--no-publish", "Keep all flows as SAVED regardless of source state")
+  .option("--flow-comparison <mode>", "Flow content comparison: exact or behavioral (skips layout-only changes); overrides flowComparison in source config")
+  .option("--include-saved", "Also copy SAVED-only flows (as SAVED) and pending drafts of published flows", false)
+  .option("--strict-references", "Fail flow validation when an action has a reference-like parameter outside the action catalog", false)
+  .option("--create-version", "Create a new flow version in target for every published flow the copy creates or updates", false)
+  .option("--atomic", "Stage all flow content as SAVED before publishing anything (module updates are not staged); restore the backup if publishing fails", false)
+  .option("--resume <journal>", "Continue an interrupted run from its journal (backups/journal-<timestamp>.jsonl)")
   .option("-y, --yes", "Auto-confirm all prompts", false)
+  .option("--concurrency <n>", "Maximum concurrent Connect API requests per operation", String(DEFAULT_CONCURRENCY))
+  .option("--rate-limit <n>", "Maximum Connect API requests per second per operation", String(DEFAULT_RATE_LIMIT))
   .option("--verbose", "Enable detailed logging", false)
   .action((options) => {
     setCliFlags({ publish: options.publish, yes: options.yes, verbose: options.verbose });
@@ -41,13 +135,23 @@ program
   .description("Report full change set between source and target instances")
   .requiredOption("--source-config <path>", "Path to source configuration file")
   .requiredOption("--target-config <path>", "Path to target configuration file")
-  .requiredOption("--source-profile <profile>", "AWS profile for source account")
+  .option("--source-profile <profile>", "AWS profile for source account")
+  .option("--source-snapshot <dir>", "Read source from an exported snapshot instead of AWS")
   .requiredOption("--target-profile <profile>", "AWS profile for target account")
   .option("--resources-only", "Only report resource presence, skip content comparison", false)
   .option("--skip <resources>", "Comma-separated resource types to skip (e.g. flows,queues)", "")
   .option("--skip-outbound-flow", "Skip outbound whisper flow configuration for queues", false)
   .option("--force-hierarchy-recreate", "Allow deleting and recreating hierarchy groups with parent mismatches", false)
   .option("--force-structure-update", "Allow overwriting target hierarchy structure if it differs from source", false)
+  .option("--flow-comparison <mode>", "Flow content comparison: exact or behavioral (skips layout-only changes); overrides flowComparison in source config")
+  .option("--include-saved", "Also copy SAVED-only flows (as SAVED) and pending drafts of published flows", false)
+  .option("--strict-references", "Fail flow validation when an action has a reference-like parameter outside the action catalog", false)
+  .option("--prune [types]", "Also plan deleting (or disabling) target resources not in source: every copied type, or a comma-separated list")
+  .option("--output <format>", "Output format: text or json", "text")
+  .option("--output-file <path>", "Write the JSON report to a file instead of stdout (requires --output json)")
+  .option("--save-plan <path>", "Write a plan file that copy --plan can apply")
+  .option("--concurrency <n>", "Maximum concurrent Connect API requests per operation", String(DEFAULT_CONCURRENCY))
+  .option("--rate-limit <n>", "Maximum Connect API requests per second per operation", String(DEFAULT_RATE_LIMIT))
   .option("--verbose", "Enable detailed logging", false)
   .action((options) => {
     setCliFlags({ publish: true, yes: false, verbose: options.verbose });
@@ -59,14 +163,25 @@ program
   .description("Copy all resource types between instances in dependency order")
   .requiredOption("--source-config <path>", "Path to source configuration file")
   .requiredOption("--target-config <path>", "Path to target configuration file")
-  .requiredOption("--source-profile <profile>", "AWS profile for source account")
+  .option("--source-profile <profile>", "AWS profile for source account")
+  .option("--source-snapshot <dir>", "Read source from an exported snapshot instead of AWS")
   .requiredOption("--target-profile <profile>", "AWS profile for target account")
   .option("--skip <resources>", "Comma-separated resource types to skip (e.g. flows,queues)", "")
   .option("--skip-outbound-flow", "Skip outbound whisper flow configuration for queues", false)
   .option("--force-hierarchy-recreate", "Allow deleting and recreating hierarchy groups with parent mismatches", false)
   .option("--force-structure-update", "Allow overwriting target hierarchy structure if it differs from source", false)
   .option("--no-publish", "Keep all flows as SAVED regardless of source state")
+  .option("--flow-comparison <mode>", "Flow content comparison: exact or behavioral (skips layout-only changes); overrides flowComparison in source config")
+  .option("--include-saved", "Also copy SAVED-only flows (as SAVED) and pending drafts of published flows", false)
+  .option("--strict-references", "Fail flow validation when an action has a reference-like parameter outside the action catalog", false)
+  .option("--create-version", "Create a new flow version in target for every published flow the copy creates or updates", false)
+  .option("--atomic", "Stage all flow content as SAVED before publishing anything (module updates are not staged); restore the backup if publishing fails", false)
+  .option("--prune [types]", "After copying, delete (or disable) target resources not in source: every copied type, or a comma-separated list")
+  .option("--resume <journal>", "Continue an interrupted run from its journal (backups/journal-<timestamp>.jsonl)")
+  .option("--plan <path>", "Apply a plan saved by report --save-plan; refuses to run if source or target drifted")
   .option("-y, --yes", "Auto-confirm all prompts", false)
+  .option("--concurrency <n>", "Maximum concurrent Connect API requests per operation", String(DEFAULT_CONCURRENCY))
+  .option("--rate-limit <n>", "Maximum Connect API requests per second per operation", String(DEFAULT_RATE_LIMIT))
   .option("--verbose", "Enable detailed logging", false)
   .action((options) => {
     setCliFlags({ publish: options.publish, yes: options.yes, verbose: options.verbose });
@@ -78,9 +193,12 @@ program
   .description("Copy views between instances")
   .requiredOption("--source-config <path>", "Path to source configuration file")
   .requiredOption("--target-config <path>", "Path to target configuration file")
-  .requiredOption("--source-profile <profile>", "AWS profile for source account")
+  .option("--source-profile <profile>", "AWS profile for source account")
+  .option("--source-snapshot <dir>", "Read source from an exported snapshot instead of AWS")
   .requiredOption("--target-profile <profile>", "AWS profile for target account")
   .option("-y, --yes", "Auto-confirm all prompts", false)
+  .option("--concurrency <n>", "Maximum concurrent Connect API requests per operation", String(DEFAULT_CONCURRENCY))
+  .option("--rate-limit <n>", "Maximum Connect API requests per second per operation", String(DEFAULT_RATE_LIMIT))
   .option("--verbose", "Enable detailed logging", false)
   .action((options) => {
     setCliFlags({ publish: true, yes: options.yes, verbose: options.verbose });
@@ -92,9 +210,12 @@ program
   .description("Copy agent statuses between instances")
   .requiredOption("--source-config <path>", "Path to source configuration file")
   .requiredOption("--target-config <path>", "Path to target configuration file")
-  .requiredOption("--source-profile <profile>", "AWS profile for source account")
+  .option("--source-profile <profile>", "AWS profile for source account")
+  .option("--source-snapshot <dir>", "Read source from an exported snapshot instead of AWS")
   .requiredOption("--target-profile <profile>", "AWS profile for target account")
   .option("-y, --yes", "Auto-confirm all prompts", false)
+  .option("--concurrency <n>", "Maximum concurrent Connect API requests per operation", String(DEFAULT_CONCURRENCY))
+  .option("--rate-limit <n>", "Maximum Connect API requests per second per operation", String(DEFAULT_RATE_LIMIT))
   .option("--verbose", "Enable detailed logging", false)
   .action((options) => {
     setCliFlags({ publish: true, yes: options.yes, verbose: options.verbose });
@@ -106,9 +227,12 @@ program
   .description("Copy hours of operation between instances")
   .requiredOption("--source-config <path>", "Path to source configuration file")
   .requiredOption("--target-config <path>", "Path to target configuration file")
-  .requiredOption("--source-profile <profile>", "AWS profile for source account")
+  .option("--source-profile <profile>", "AWS profile for source account")
+  .option("--source-snapshot <dir>", "Read source from an exported snapshot instead of AWS")
   .requiredOption("--target-profile <profile>", "AWS profile for target account")
   .option("-y, --yes", "Auto-confirm all prompts", false)
+  .option("--concurrency <n>", "Maximum concurrent Connect API requests per operation", String(DEFAULT_CONCURRENCY))
+  .option("--rate-limit <n>", "Maximum Connect API requests per second per operation", String(DEFAULT_RATE_LIMIT))
   .option("--verbose", "Enable detailed logging", false)
   .action((options) => {
     setCliFlags({ publish: true, yes: options.yes, verbose: options.verbose });
@@ -120,11 +244,14 @@ program
   .description("Copy user hierarchy groups between instances")
   .requiredOption("--source-config <path>", "Path to source configuration file")
   .requiredOption("--target-config <path>", "Path to target configuration file")
-  .requiredOption("--source-profile <profile>", "AWS profile for source account")
+  .option("--source-profile <profile>", "AWS profile for source account")
+  .option("--source-snapshot <dir>", "Read source from an exported snapshot instead of AWS")
   .requiredOption("--target-profile <profile>", "AWS profile for target account")
   .option("--force-hierarchy-recreate", "Allow deleting and recreating groups with parent mismatches", false)
   .option("--force-structure-update", "Allow overwriting target hierarchy structure if it differs from source", false)
   .option("-y, --yes", "Auto-confirm all prompts", false)
+  .option("--concurrency <n>", "Maximum concurrent Connect API requests per operation", String(DEFAULT_CONCURRENCY))
+  .option("--rate-limit <n>", "Maximum Connect API requests per second per operation", String(DEFAULT_RATE_LIMIT))
   .option("--verbose", "Enable detailed logging", false)
   .action((options) => {
     setCliFlags({ publish: true, yes: options.yes, verbose: options.verbose });
@@ -136,9 +263,12 @@ program
   .description("Copy security profiles between instances")
   .requiredOption("--source-config <path>", "Path to source configuration file")
   .requiredOption("--target-config <path>", "Path to target configuration file")
-  .requiredOption("--source-profile <profile>", "AWS profile for source account")
+  .option("--source-profile <profile>", "AWS profile for source account")
+  .option("--source-snapshot <dir>", "Read source from an exported snapshot instead of AWS")
   .requiredOption("--target-profile <profile>", "AWS profile for target account")
   .option("-y, --yes", "Auto-confirm all prompts", false)
+  .option("--concurrency <n>", "Maximum concurrent Connect API requests per operation", String(DEFAULT_CONCURRENCY))
+  .option("--rate-limit <n>", "Maximum Connect API requests per second per operation", String(DEFAULT_RATE_LIMIT))
   .option("--verbose", "Enable detailed logging", false)
   .action((options) => {
     setCliFlags({ publish: true, yes: options.yes, verbose: options.verbose });
@@ -150,10 +280,13 @@ program
   .description("Copy queues between instances")
   .requiredOption("--source-config <path>", "Path to source configuration file")
   .requiredOption("--target-config <path>", "Path to target configuration file")
-  .requiredOption("--source-profile <profile>", "AWS profile for source account")
+  .option("--source-profile <profile>", "AWS profile for source account")
+  .option("--source-snapshot <dir>", "Read source from an exported snapshot instead of AWS")
   .requiredOption("--target-profile <profile>", "AWS profile for target account")
   .option("--skip-outbound-flow", "Skip outbound whisper flow configuration", false)
   .option("-y, --yes", "Auto-confirm all prompts", false)
+  .option("--concurrency <n>", "Maximum concurrent Connect API requests per operation", String(DEFAULT_CONCURRENCY))
+  .option("--rate-limit <n>", "Maximum Connect API requests per second per operation", String(DEFAULT_RATE_LIMIT))
   .option("--verbose", "Enable detailed logging", false)
   .action((options) => {
     setCliFlags({ publish: true, yes: options.yes, verbose: options.verbose });
@@ -165,9 +298,12 @@ program
   .description("Copy routing profiles between instances")
   .requiredOption("--source-config <path>", "Path to source configuration file")
   .requiredOption("--target-config <path>", "Path to target configuration file")
-  .requiredOption("--source-profile <profile>", "AWS profile for source account")
+  .option("--source-profile <profile>", "AWS profile for source account")
+  .option("--source-snapshot <dir>", "Read source from an exported snapshot instead of AWS")
   .requiredOption("--target-profile <profile>", "AWS profile for target account")
   .option("-y, --yes", "Auto-confirm all prompts", false)
+  .option("--concurrency <n>", "Maximum concurrent Connect API requests per operation", String(DEFAULT_CONCURRENCY))
+  .option("--rate-limit <n>", "Maximum Connect API requests per second per operation", String(DEFAULT_RATE_LIMIT))
   .option("--verbose", "Enable detailed logging", false)
   .action((options) => {
     setCliFlags({ publish: true, yes: options.yes, verbose: options.verbose });
@@ -179,14 +315,69 @@ program
   .description("Copy quick connects between instances")
   .requiredOption("--source-config <path>", "Path to source configuration file")
   .requiredOption("--target-config <path>", "Path to target configuration file")
-  .requiredOption("--source-profile <profile>", "AWS profile for source account")
+  .option("--source-profile <profile>", "AWS profile for source account")
+  .option("--source-snapshot <dir>", "Read source from an exported snapshot instead of AWS")
   .requiredOption("--target-profile <profile>", "AWS profile for target account")
   .option("-y, --yes", "Auto-confirm all prompts", false)
+  .option("--concurrency <n>", "Maximum concurrent Connect API requests per operation", String(DEFAULT_CONCURRENCY))
+  .option("--rate-limit <n>", "Maximum Connect API requests per second per operation", String(DEFAULT_RATE_LIMIT))
   .option("--verbose", "Enable detailed logging", false)
   .action((options) => {
     setCliFlags({ publish: true, yes: options.yes, verbose: options.verbose });
     copyQuickConnects(options);
   });
 
+program
+  .command("copy-prompts")
+  .description("Copy prompts (including audio) between instances")
+  .requiredOption("--source-config <path>", "Path to source configuration file")
+  .requiredOption("--target-config <path>", "Path to target configuration file")
+  .option("--source-profile <profile>", "AWS profile for source account")
+  .option("--source-snapshot <dir>", "Read source from an exported snapshot instead of AWS")
+  .requiredOption("--target-profile <profile>", "AWS profile for target account")
+  .option("-y, --yes", "Auto-confirm all prompts", false)
+  .option("--concurrency <n>", "Maximum concurrent Connect API requests per operation", String(DEFAULT_CONCURRENCY))
+  .option("--rate-limit <n>", "Maximum Connect API requests per second per operation", String(DEFAULT_RATE_LIMIT))
+  .option("--verbose", "Enable detailed logging", false)
+  .action((options) => {
+    setCliFlags({ publish: true, yes: options.yes, verbose: options.verbose });
+    copyPrompts(options);
+  });
+
+program
+  .command("copy-phone-numbers")
+  .description("Associate target phone numbers with the flows their source numbers use")
+  .requiredOption("--source-config <path>", "Path to source configuration file")
+  .requiredOption("--target-config <path>", "Path to target configuration file")
+  .option("--source-profile <profile>", "AWS profile for source account")
+  .option("--source-snapshot <dir>", "Read source from an exported snapshot instead of AWS")
+  .requiredOption("--target-profile <profile>", "AWS profile for target account")
+  .option("-y, --yes", "Auto-confirm all prompts", false)
+  .option("--concurrency <n>", "Maximum concurrent Connect API requests per operation", String(DEFAULT_CONCURRENCY))
+  .option("--rate-limit <n>", "Maximum Connect API requests per second per operation", String(DEFAULT_RATE_LIMIT))
+  .option("--verbose", "Enable detailed logging", false)
+  .action((options) => {
+    setCliFlags({ publish: true, yes: options.yes, verbose: options.verbose });
+    copyPhoneNumbers(options);
+  });
+
+program
+  .command("copy-users")
+  .description("Copy users (agents) between instances")
+  .requiredOption("--source-config <path>", "Path to source configuration file")
+  .requiredOption("--target-config <path>", "Path to target configuration file")
+  .option("--source-profile <profile>", "AWS profile for source account")
+  .option("--source-snapshot <dir>", "Read source from an exported snapshot instead of AWS")
+  .requiredOption("--target-profile <profile>", "AWS profile for target account")
+  .option("--password-file <path>", "Write generated passwords for new users here (required for Connect-managed targets)")
+  .option("-y, --yes", "Auto-confirm all prompts", false)
+  .option("--concurrency <n>", "Maximum concurrent Connect API requests per operation", String(DEFAULT_CONCURRENCY))
+  .option("--rate-limit <n>", "Maximum Connect API requests per second per operation", String(DEFAULT_RATE_LIMIT))
+  .option("--verbose", "Enable detailed logging", false)
+  .action((options) => {
+    setCliFlags({ publish: true, yes: options.yes, verbose: options.verbose });
+    copyUsers(options);
+  });
+
 program.parse();
 
@@ -0,0 +1,281 @@
+import { appendFile, mkdir, readFile, truncate, writeFile } from "fs/promises";
+import { join } from "path";
+
+import type { BackupEntry } from "./backup.js";
+import type { ArnSubstitution } from "./arn-replacement.js";
+
+
+/**
+ * Run journal for `copy` and `copy-flows`. The journal is a JSON Lines file: a header line, then
+ * one record appended per change as soon as it happens (a Connect write succeeding, a step
+ * completing, a stub created or completed, the ARN references rewritten in a flow), so a run that
+ * dies partway leaves an accurate record of what it changed without the file being rewritten on
+ * every call. `--resume <journal>` replays the records and continues that run: completed resource
+ * types are skipped, the run's backup directory is reused so restore still returns to the pre-run
+ * state, and flow stubs whose content was never written are completed.
+ */
+export const JOURNAL_FORMAT_VERSION = 2;
+
+// Reads never change the target, so they are not journaled
+const READ_COMMAND_PATTERN = /^(Describe|List|Search|Get)/;
+
+
+export interface JournalWrite {
+  step: string;
+  command: string;
+  // Name, id or ARN the call was about, for reading the journal
+  resource?: string;
+  // ARN of the resource a create call made
+  arn?: string;
+  timestamp: string;
+}
+
+
+export interface RunJournal {
+  formatVersion: number;
+  command: string;
+  startedAt: string;
+  target: { instanceId: string; region: string };
+  backupDir?: string;
+  completedSteps: string[];
+  // Flows and modules created with stub content whose real content has not been written yet
+  pendingStubs: BackupEntry[];
+  writes: JournalWrite[];
+  // Source ARNs rewritten in each flow/module content written, in write order
+  arnSubstitutions: { resource: string; substitutions: ArnSubstitution[] }[];
+  finished: boolean;
+}
+
+
+type JournalHeader = Pick<RunJournal, "formatVersion" | "command" | "startedAt" | "target">;
+
+// One line of the journal after the header
+type JournalRecord =
+  | { record: "write"; write: JournalWrite }
+  | { record: "stepCompleted"; step: string }
+  | { record: "backupDir"; backupDir: string }
+  | { record: "stubCreated"; stub: BackupEntry }
+  | { record: "stubCompleted"; arn: string }
+  | { record: "arnSubstitutions"; resource: string; substitutions: ArnSubstitution[] }
+  | { record: "finished" };
+
+
+interface ActiveJournal {
+  file: string;
+  journal: RunJournal;
+  step: string;
+  resumed: boolean;
+}
+
+
+let activeJournal: ActiveJournal | undefined;
+// Appends are chained so concurrent calls never interleave in the file
+let journalWrites: Promise<void> = Promise.resolve();
+
+
+/**
+ * Start a journal for this run, or continue the one given with --resume. A `copy-flows` step
+ * inside `copy` shares the run's journal.
+ */
+export async function openJournal(command: string, target: { instanceId: string; region: string }, resumeFile?: string): Promise<void> {
+  if (activeJournal) return;
+
+  if (resumeFile) {
+    const journal = await loadJournal(resumeFile);
+
+    if (journal.target.instanceId !== target.instanceId) {
+      throw new Error(`Journal ${resumeFile} is for target instance ${journal.target.instanceId}, not ${target.instanceId}`);
+    }
+
+    if (journal.command !== command) {
+      throw new Error(`Journal ${resumeFile} was written by connect-copy ${journal.command}; resume it with the same command`);
+    }
+
+    if (journal.finished) {
+      throw new Error(`The run recorded in ${resumeFile} already finished - nothing to resume`);
+    }
+
+    activeJournal = { file: resumeFile, journal, step: command, resumed: true };
+
+    console.log(`Resuming run started ${journal.startedAt} (journal: ${resumeFile})`);
+    console.log(`  Writes already made: ${journal.writes.length}`);
+    if (journal.completedSteps.length > 0) console.log(`  Completed: ${journal.completedSteps.join(", ")}`);
+    if (journal.pendingStubs.length > 0) console.log(`  Stubs to complete: ${journal.pendingStubs.map(s => s.name).join(", ")}`);
+
+    return;
+  }
+
+  const startedAt = new Date().toISOString().split('.')[0] + 'Z';
+  const file = join('backups', `journal-${startedAt.replace(/:/g, '-')}.jsonl`);
+  const header: JournalHeader = { formatVersion: JOURNAL_FORMAT_VERSION, command, startedAt, target };
+
+  await mkdir('backups', { recursive: true });
+  await writeFile(file, JSON.stringify(header) + '\n');
+
+  activeJournal = {
+    file,
+    journal: { ...header, completedSteps: [], pendingStubs: [], writes: [], arnSubstitutions: [], finished: false },
+    step: command,
+    resumed: false
+  };
+
+  console.log(`Run journal: ${file} (if this run is interrupted, continue it with --resume ${file})`);
+}
+
+
+async function loadJournal(file: string): Promise<RunJournal> {
+  let content: string;
+  let header: JournalHeader;
+
+  try {
+    content = await readFile(file, 'utf-8');
+    header = JSON.parse(content.split('\n')[0] ?? '');
+  } catch (error) {
+    throw new Error(`Not a run journal (missing or unreadable): ${file}`);
+  }
+
+  if (header.formatVersion !== JOURNAL_FORMAT_VERSION) {
+    throw new Error(`Unsupported journal format version ${header.formatVersion} in ${file} (expected ${JOURNAL_FORMAT_VERSION})`);
+  }
+
+  // A run killed mid-append leaves a last record without its newline. That change was never
+  // recorded, so drop it rather than append the resumed run's records onto it
+  const recorded = content.slice(0, content.lastIndexOf('\n') + 1);
+  if (recorded.length < content.length) await truncate(file, Buffer.byteLength(recorded));
+
+  const journal: RunJournal = { ...header, completedSteps: [], pendingStubs: [], writes: [], arnSubstitutions: [], finished: false };
+
+  for (const [index, line] of recorded.split('\n').entries()) {
+    if (index === 0 || line.trim() === '') continue;
+
+    try {
+      applyRecord(journal, JSON.parse(line));
+    } catch (error) {
+      throw new Error(`Corrupt record on line ${index + 1} of journal ${file}`);
+    }
+  }
+
+  return journal;
+}
+
+
+function applyRecord(journal: RunJournal, record: JournalRecord) {
+  switch (record.record) {
+    case "write":
+      journal.writes.push(record.write);
+      break;
+    case "stepCompleted":
+      if (!journal.completedSteps.includes(record.step)) journal.completedSteps.push(record.step);
+      break;
+    case "backupDir":
+      journal.backupDir = record.backupDir;
+      break;
+    case "stubCreated":
+      journal.pendingStubs.push(record.stub);
+      break;
+    case "stubCompleted":
+      journal.pendingStubs = journal.pendingStubs.filter(s => s.arn !== record.arn);
+      break;
+    case "arnSubstitutions":
+      journal.arnSubstitutions.push({ resource: record.resource, substitutions: record.substitutions });
+      break;
+    case "finished":
+      journal.finished = true;
+      break;
+  }
+}
+
+
+// Apply the record to the in-memory journal and append it to the file, so a resume replays the same state
+function appendRecord(active: ActiveJournal, record: JournalRecord): Promise<void> {
+  applyRecord(active.journal, record);
+
+  const line = JSON.stringify(record) + '\n';
+  journalWrites = journalWrites.then(() => appendFile(active.file, line));
+  return journalWrites;
+}
+
+
+export function getActiveJournal(): RunJournal | undefined {
+  return activeJournal?.journal;
+}
+
+
+export function isResumedStepComplete(step: string): boolean {
+  return !!activeJournal?.resumed && activeJournal.journal.completedSteps.includes(step);
+}
+
+
+export function beginJournalStep(step: string) {
+  if (activeJournal) activeJournal.step = step;
+}
+
+
+export async function completeJournalStep(step: string) {
+  if (!activeJournal || activeJournal.journal.completedSteps.includes(step)) return;
+
+  await appendRecord(activeJournal, { record: "stepCompleted", step });
+}
+
+
+// Only the command that opened the journal finishes it, so `copy` outlives its copy-flows step
+export async function finishJournal(command: string) {
+  if (activeJournal?.journal.command !== command) return;
+
+  await appendRecord(activeJournal, { record: "finished" });
+  activeJournal = undefined;
+}
+
+
+export async function recordJournalBackupDir(backupDir: string) {
+  if (!activeJournal || activeJournal.journal.backupDir === backupDir) return;
+
+  await appendRecord(activeJournal, { record: "backupDir", backupDir });
+}
+
+
+export async function addPendingStub(entry: BackupEntry) {
+  if (!activeJournal) return;
+
+  await appendRecord(activeJournal, { record: "stubCreated", stub: entry });
+}
+
+
+export async function resolvePendingStub(arn: string) {
+  if (!activeJournal?.journal.pendingStubs.some(s => s.arn === arn)) return;
+
+  await appendRecord(activeJournal, { record: "stubCompleted", arn });
+}
+
+
+export async function recordArnSubstitutions(resource: string, substitutions: ArnSubstitution[]) {
+  if (!activeJournal || substitutions.length === 0) return;
+
+  await appendRecord(activeJournal, { record: "arnSubstitutions", resource, substitutions });
+}
+
+
+/**
+ * Record one successful Connect call. Installed as client middleware (see connect/client.ts), so
+ * every create/update/tag/associate call from any copy command is covered without each caller
+ * having to remember to journal it.
+ */
+export async function recordJournalWrite(command: string, input: Record<string, unknown>, output: object) {
+  if (!activeJournal || READ_COMMAND_PATTERN.test(command)) return;
+
+  const resource = [input["Name"], input["ContactFlowId"], input["ContactFlowModuleId"], input["resourceArn"], input["PhoneNumberId"]]
+    .find(value => typeof value === "string") as string | undefined;
+  // Output keys vary in case: ContactFlowArn, AgentStatusARN, PromptARN
+  const arn = Object.entries(output).find(([key, value]) => /arn$/i.test(key) && typeof value === "string")?.[1] as string | undefined;
+
+  await appendRecord(activeJournal, {
+    record: "write",
+    write: {
+      step: activeJournal.step,
+      command,
+      ...(resource && { resource }),
+      ...(arn && command.startsWith("Create") && { arn }),
+      timestamp: new Date().toISOString()
+    }
+  });
+}
@@ -13,12 +13,17 @@ import type {
   ViewSummary
 } from "@aws-sdk/client-connect";
 
-import { categorizeArn } from "./arn-utils.js";
+import { categorizeArn, isResourceId, splitArnQualifier } from "./arn-utils.js";
+import { matchResources } from "./identity.js";
+
+import type { IdentityContext } from "./identity.js";
 import type { ValidationError, ValidationWarning } from "./validation.js";
 
 
 export interface ResourceMappings {
   arnMap: Map<string, string>;
+  // Source resource ID → source ARN, for content that references a resource by bare ID
+  sourceIdArns: Map<string, string>;
   missingResources: MissingResource[];
 }
 
@@ -64,21 +69,24 @@ export interface InstanceInventory {
 }
 
 
+interface NamedResource {
+  Id?: string | undefined;
+  Name?: string | undefined;
+  Arn?: string | undefined;
+}
+
+
 interface ResourceMapResult {
   mappings: Map<string, string>;
   missing: MissingResource[];
 }
 
 
-function buildResourceMap<T extends { Name?: string | undefined; Arn?: string | undefined }>(sourceResources: T[], targetResources: T[], resourceType: string): ResourceMapResult {
+async function buildResourceMap(context: IdentityContext, sourceResources: NamedResource[], targetResources: NamedResource[], resourceType: string, identityType: string): Promise<ResourceMapResult> {
   const mappings = new Map<string, string>();
   const missing: MissingResource[] = [];
 
-  const targetByName = new Map<string, T>();
-  for (const resource of targetResources) {
-    if (!resource.Name || !resource.Arn) continue;
-    targetByName.set(resource.Name, resource);
-  }
+  const targetMatches = await matchResources(context, identityType, sourceResources, targetResources.filter(r => r.Name && r.Arn));
 
   for (const sourceResource of sourceResources) {
     const name = sourceResource.Name;
@@ -86,7 +94,7 @@ function buildResourceMap<T extends { Name?: string | undefined; Arn?: string |
 
     if (!name || !sourceArn) continue;
 
-    const targetResource = targetByName.get(name);
+    const targetResource = targetMatches.get(sourceResource.Id!);
 
     if (!targetResource?.Arn) {
       missing.push({
@@ -105,44 +113,44 @@ function buildResourceMap<T extends { Name?: string | undefined; Arn?: string |
 }
 
 
-export function buildAllResourceMappings(source: InstanceInventory, target: InstanceInventory): ResourceMappings {
+/**
+ * Map every source resource ARN to its target counterpart, paired as identity.ts describes (by
+ * name unless the source config's `identity` section says otherwise).
+ */
+export async function buildAllResourceMappings(context: IdentityContext, source: InstanceInventory, target: InstanceInventory): Promise<ResourceMappings> {
   const arnMap = new Map<string, string>();
+  const sourceIdArns = new Map<string, string>();
   const missingResources: MissingResource[] = [];
 
   const resourcePairs = [
-    { source: source.flows, target: target.flows, type: "Flow" },
-    { source: source.modules, target: target.modules, type: "Module" },
-    { source: source.queues, target: target.queues, type: "Queue" },
-    { source: source.prompts, target: target.prompts, type: "Prompt" },
-    { source: source.routingProfiles, target: target.routingProfiles, type: "Routing Profile" },
-    { source: source.hoursOfOperations, target: target.hoursOfOperations, type: "Hours of Operation" },
-    { source: source.quickConnects, target: target.quickConnects, type: "Quick Connect" },
-    { source: source.securityProfiles, target: target.securityProfiles, type: "Security Profile" },
-    { source: source.hierarchyGroups, target: target.hierarchyGroups, type: "Hierarchy Group" },
-    { source: source.agentStatuses, target: target.agentStatuses, type: "Agent Status" },
-    { source: source.views, target: target.views, type: "View" }
+    { source: source.flows, target: target.flows, type: "Flow", identityType: "flows" },
+    { source: source.modules, target: target.modules, type: "Module", identityType: "modules" },
+    { source: source.queues, target: target.queues, type: "Queue", identityType: "queues" },
+    { source: source.prompts, target: target.prompts, type: "Prompt", identityType: "prompts" },
+    { source: source.routingProfiles, target: target.routingProfiles, type: "Routing Profile", identityType: "routing-profiles" },
+    { source: source.hoursOfOperations, target: target.hoursOfOperations, type: "Hours of Operation", identityType: "hours-of-operation" },
+    { source: source.quickConnects, target: target.quickConnects, type: "Quick Connect", identityType: "quick-connects" },
+    { source: source.securityProfiles, target: target.securityProfiles, type: "Security Profile", identityType: "security-profiles" },
+    { source: source.hierarchyGroups, target: target.hierarchyGroups, type: "Hierarchy Group", identityType: "hierarchy-groups" },
+    { source: source.agentStatuses, target: target.agentStatuses, type: "Agent Status", identityType: "agent-statuses" },
+    { source: source.views, target: target.views, type: "View", identityType: "views" }
   ];
 
   for (const resourcePair of resourcePairs) {
-    const result = buildResourceMap(resourcePair.source, resourcePair.target, resourcePair.type);
+    const result = await buildResourceMap(context, resourcePair.source, resourcePair.target, resourcePair.type, resourcePair.identityType);
 
     for (const [sourceArn, targetArn] of result.mappings) {
       arnMap.set(sourceArn, targetArn);
     }
 
     missingResources.push(...result.missing);
-  }
-
-  return { arnMap, missingResources };
-}
-
 
-function normalizeViewArn(arn: string): string {
-  if (arn.includes(':view/')) {
-    return arn.replace(/:(\d+|\$LATEST|\$SAVED)$/, '');
+    for (const sourceResource of resourcePair.source) {
+      if (sourceResource.Id && sourceResource.Arn) sourceIdArns.set(sourceResource.Id, sourceResource.Arn);
+    }
   }
 
-  return arn;
+  return { arnMap, sourceIdArns, missingResources };
 }
 
 
@@ -152,12 +160,13 @@ export function validateDependencies(extractedArns: string[], resourceMappings:
 
   for (const arn of extractedArns) {
     const category = categorizeArn(arn);
-    const normalizedArn = normalizeViewArn(arn);
+    // Versioned or aliased references resolve through their unqualified resource
+    const normalizedArn = splitArnQualifier(arn).baseArn;
 
     if (resourceMappings.arnMap.has(normalizedArn)) continue;
 
     if (category === 'flow') {
-      if (flowsWillCreate.has(arn)) continue;
+      if (flowsWillCreate.has(normalizedArn)) continue;
 
       errors.push({
         severity: 'error',
@@ -197,6 +206,17 @@ export function validateDependencies(extractedArns: string[], resourceMappings:
       continue;
     }
 
+    if (category === 'unknown' && isResourceId(arn)) {
+      warnings.push({
+        severity: 'warning',
+        category: 'unknown_reference',
+        message: `Resource ID not found in source instance: ${arn}`,
+        details: `Referenced by ${referencedByName} - copied unchanged, so it only resolves if target has a resource with the same ID`
+      });
+
+      continue;
+    }
+
     if (category === 'unknown') {
       warnings.push({
         severity: 'warning',
@@ -0,0 +1,407 @@
+
+import { createHash } from "crypto";
+import { readFile, writeFile } from "fs/promises";
+import { log } from "./utils/log-utils.js";
+
+import type { ContactFlow, ContactFlowSummary, ContactFlowModuleSummary } from "@aws-sdk/client-connect";
+import type { SourceConfig, TargetConfig, FlowComparisonMode } from "./validation.js";
+import type { FlowComparisonResult } from "./report.js";
+import type { ReportDocument, ReportResourceSection } from "./report-output.js";
+import type { PruneAction } from "./prune.js";
+
+
+export const PLAN_FORMAT_VERSION = 1;
+
+
+export interface PlannedAction {
+  action: string;
+  name: string;
+  sourceHash: string;
+  targetHash: string | null;
+}
+
+
+export interface PlanStep {
+  actions: PlannedAction[];
+  mappings: Record<string, Record<string, string>>;
+  // Covers everything in the section besides actions and mappings (queue associations, hierarchy structure, ...)
+  extrasHash: string;
+}
+
+
+export interface FlowPlanStep {
+  flows: PlannedAction[];
+  modules: PlannedAction[];
+  arnMappings: Record<string, string>;
+}
+
+
+export interface PlanOptions {
+  skip: string;
+  skipOutboundFlow: boolean;
+  forceHierarchyRecreate: boolean;
+  forceStructureUpdate: boolean;
+  flowComparison?: FlowComparisonMode | undefined;
+  includeSaved?: boolean | undefined;
+  strictReferences?: boolean | undefined;
+  prune?: string | boolean | undefined;
+}
+
+
+export interface CopyPlan {
+  planVersion: number;
+  createdAt: string;
+  source: { instanceId: string; region: string };
+  target: { instanceId: string; region: string };
+  options: PlanOptions;
+  steps: Record<string, PlanStep>;
+  flows?: FlowPlanStep;
+  // Keyed like the report's prune section (flows and modules separately)
+  prune?: Record<string, PlannedAction[]>;
+}
+
+
+function stableStringify(value: unknown): string {
+  if (value === null || typeof value !== "object") return JSON.stringify(value) ?? "null";
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+
+  const entries = Object.entries(value as Record<string, unknown>)
+    .filter(([, v]) => v !== undefined)
+    .sort(([a], [b]) => a < b ? -1 : a > b ? 1 : 0);
+
+  return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(",")}}`;
+}
+
+
+function hashContent(value: unknown): string {
+  return createHash("sha256").update(stableStringify(value)).digest("hex");
+}
+
+
+export function buildPlanStep(section: ReportResourceSection): PlanStep {
+  const { actions, mappings, ...extras } = section;
+
+  return {
+    actions: actions.map(a => ({
+      action: a.action,
+      name: a.name,
+      sourceHash: hashContent(a.source),
+      targetHash: a.target === undefined ? null : hashContent(a.target)
+    })),
+    mappings: mappings ?? {},
+    extrasHash: hashContent(extras)
+  };
+}
+
+
+export function buildFlowPlanStep(result: FlowComparisonResult): FlowPlanStep {
+  const validation = result.validationResult;
+  // Update and skip lists hold target summaries; key the source ones by the target ARN they map to
+  const arnMap = validation.resourceMappings.arnMap;
+  const sourceFlowsByTargetArn = new Map(validation.sourceFlowsToCopy.map(f => [arnMap.get(f.Arn!), f]));
+  const sourceModulesByTargetArn = new Map(validation.sourceModulesToCopy.map(m => [arnMap.get(m.Arn!), m]));
+
+  // Only the fields copy actually writes are hashed, so LastModifiedTime churn is not reported as drift
+  const flowHash = (summary: ContactFlowSummary, details: Map<string, { Content?: string | undefined; Description?: string | undefined; Tags?: Record<string, string> | undefined; Status?: string | undefined }>, drafts?: Map<string, ContactFlow>) => {
+    const flow = details.get(summary.Id!);
+    const draft = drafts?.get(summary.Id!);
+    return hashContent(flow ? { Content: flow.Content, Description: flow.Description, Tags: flow.Tags, Status: flow.Status, ...(draft && { DraftContent: draft.Content }) } : summary);
+  };
+
+  const plannedFlow = (action: string, summary: ContactFlowSummary | ContactFlowModuleSummary, isModule: boolean): PlannedAction => {
+    const sourceDetails = isModule ? validation.sourceModuleDetails : validation.sourceFlowDetails;
+    const targetDetails = isModule ? validation.targetModuleDetails : validation.targetFlowDetails;
+    const sourceSummary = (isModule ? sourceModulesByTargetArn : sourceFlowsByTargetArn).get(summary.Arn!) ?? summary;
+
+    return {
+      action,
+      name: summary.Name!,
+      sourceHash: flowHash(sourceSummary, sourceDetails, isModule ? undefined : validation.sourceFlowDrafts),
+      targetHash: action === "create" ? null : flowHash(summary, targetDetails, isModule ? undefined : validation.targetFlowDrafts)
+    };
+  };
+
+  return {
+    flows: [
+      ...result.flowsToCreateList.map(f => plannedFlow("create", f, false)),
+      ...result.flowsToUpdateList.map(f => plannedFlow("update", f, false)),
+      ...result.flowsToSkipList.map(f => plannedFlow("skip", f, false))
+    ],
+    modules: [
+      ...result.modulesToCreateList.map(m => plannedFlow("create", m, true)),
+      ...result.modulesToUpdateList.map(m => plannedFlow("update", m, true)),
+      ...result.modulesToSkipList.map(m => plannedFlow("skip", m, true))
+    ],
+    arnMappings: Object.fromEntries(validation.resourceMappings.arnMap)
+  };
+}
+
+
+// A prune action has no source; the target it would delete or disable is what must not drift
+export function buildPrunePlanActions(actions: PruneAction[]): PlannedAction[] {
+  return actions.map(a => ({
+    action: a.action,
+    name: a.name,
+    sourceHash: hashContent(null),
+    targetHash: hashContent(a.target)
+  }));
+}
+
+
+export function createPlan(document: ReportDocument, options: PlanOptions): CopyPlan {
+  return {
+    planVersion: PLAN_FORMAT_VERSION,
+    createdAt: document.generatedAt,
+    source: document.source,
+    target: document.target,
+    options,
+    steps: Object.fromEntries(Object.entries(document.resources).map(([name, section]) => [name, buildPlanStep(section)])),
+    ...(document.prune && { prune: Object.fromEntries(Object.entries(document.prune).map(([name, section]) => [name, buildPrunePlanActions(section.actions)])) })
+  };
+}
+
+
+export async function writePlan(plan: CopyPlan, planFile: string) {
+  await writeFile(planFile, JSON.stringify(plan, null, 2) + "\n");
+  log(`\nPlan written: ${planFile}`);
+}
+
+
+export async function loadPlan(planFile: string): Promise<CopyPlan> {
+  const plan = JSON.parse(await readFile(planFile, "utf-8")) as CopyPlan;
+
+  if (plan.planVersion !== PLAN_FORMAT_VERSION) {
+    throw new Error(`Unsupported plan version ${plan.planVersion} in ${planFile} (expected ${PLAN_FORMAT_VERSION})`);
+  }
+
+  return plan;
+}
+
+
+function diffPlannedActions(label: string, planned: PlannedAction[], current: PlannedAction[]): string[] {
+  const problems: string[] = [];
+  const currentByName = new Map(current.map(a => [a.name, a]));
+  const plannedNames = new Set(planned.map(a => a.name));
+
+  for (const plannedAction of planned) {
+    const currentAction = currentByName.get(plannedAction.name);
+
+    if (!currentAction) {
+      problems.push(`${label} "${plannedAction.name}": planned ${plannedAction.action}, no longer in scope`);
+    } else if (currentAction.action !== plannedAction.action) {
+      problems.push(`${label} "${plannedAction.name}": planned ${plannedAction.action}, would now ${currentAction.action}`);
+    } else if (currentAction.targetHash !== plannedAction.targetHash) {
+      problems.push(`${label} "${plannedAction.name}": target changed since plan was made`);
+    } else if (currentAction.sourceHash !== plannedAction.sourceHash) {
+      problems.push(`${label} "${plannedAction.name}": source changed since plan was made`);
+    }
+  }
+
+  for (const currentAction of current) {
+    if (!plannedNames.has(currentAction.name)) {
+      problems.push(`${label} "${currentAction.name}": not in plan (would ${currentAction.action})`);
+    }
+  }
+
+  return problems;
+}
+
+
+function diffMappings(label: string, planned: Record<string, Record<string, string>>, current: Record<string, Record<string, string>>): string[] {
+  const problems: string[] = [];
+
+  // New entries are expected when earlier steps of the same run create dependencies; only changed or vanished ones are drift
+  for (const [kind, plannedMapping] of Object.entries(planned)) {
+    const changed = Object.entries(plannedMapping).filter(([from, to]) => current[kind]?.[from] !== to);
+
+    if (changed.length > 0) {
+      problems.push(`${label}: resolved ${kind} mapping changed since plan was made (${changed.map(([from]) => from).join(", ")})`);
+    }
+  }
+
+  return problems;
+}
+
+
+function checkPlanInstances(plan: CopyPlan, config: { source: SourceConfig; target: TargetConfig }) {
+  if (plan.source.instanceId !== config.source.instanceId || plan.target.instanceId !== config.target.instanceId) {
+    console.error(`\nPlan was made for ${plan.source.instanceId} -> ${plan.target.instanceId}, but configs are ${config.source.instanceId} -> ${config.target.instanceId}`);
+    process.exit(1);
+  }
+}
+
+
+function refuseIfDrifted(resourceName: string, problems: string[]) {
+  if (problems.length === 0) {
+    log(`\n✓ ${resourceName} matches approved plan`);
+    return;
+  }
+
+  console.error(`\n❌ ${resourceName} has drifted from the approved plan:`);
+  for (const problem of problems) {
+    console.error(`  - ${problem}`);
+  }
+  console.error("\nRe-run report --save-plan and review the new plan before copying.");
+  process.exit(1);
+}
+
+
+// Only reached once verifyPlan has passed, so a change here was made by someone else while the run was going
+function refuseIfChangedDuringRun(resourceName: string, problems: string[]) {
+  if (problems.length === 0) return;
+
+  console.error(`\n❌ ${resourceName} changed while the plan was being applied:`);
+  for (const problem of problems) {
+    console.error(`  - ${problem}`);
+  }
+  console.error("\nResource types before this one were applied as planned; nothing from here on was changed. Re-run report --save-plan and review the plan for the rest.");
+  process.exit(1);
+}
+
+
+function isWrite(action: string): boolean {
+  return action !== "skip" && !action.startsWith("skip_");
+}
+
+
+/**
+ * Which current actions the approved plan contains unchanged. Anything else is left alone: an action
+ * an earlier step of this run made possible (a queue whose hours it just created) was never reviewed,
+ * so it waits for the next plan instead of being applied.
+ */
+function plannedActions(label: string, planned: PlannedAction[], current: PlannedAction[]): boolean[] {
+  const plannedByName = new Map(planned.map(a => [a.name, a]));
+  const unplanned: string[] = [];
+
+  const keep = current.map(currentAction => {
+    const plannedAction = plannedByName.get(currentAction.name);
+    const matches = !!plannedAction && plannedAction.action === currentAction.action &&
+      plannedAction.sourceHash === currentAction.sourceHash && plannedAction.targetHash === currentAction.targetHash;
+
+    if (!matches && isWrite(currentAction.action)) {
+      unplanned.push(`${label} "${currentAction.name}": would ${currentAction.action}, ${plannedAction ? `planned ${plannedAction.action}` : "not in plan"}`);
+    }
+
+    return matches;
+  });
+
+  if (unplanned.length > 0) {
+    log(`\n⚠️  Not in the approved plan, so left unchanged (re-run report --save-plan to review them):`);
+    for (const line of unplanned) log(`  - ${line}`);
+  }
+
+  return keep;
+}
+
+
+function planStepProblems(plan: CopyPlan, resourceName: string, currentStep: PlanStep): string[] {
+  const plannedStep = plan.steps[resourceName];
+  if (!plannedStep) return [`${resourceName} is not part of the plan`];
+
+  const problems = [
+    ...diffPlannedActions(resourceName, plannedStep.actions, currentStep.actions),
+    ...diffMappings(resourceName, plannedStep.mappings, currentStep.mappings)
+  ];
+
+  if (plannedStep.extrasHash !== currentStep.extrasHash) {
+    problems.push(`${resourceName}: associations or structure changed since plan was made`);
+  }
+
+  return problems;
+}
+
+
+function flowPlanStepProblems(plan: CopyPlan, currentStep: FlowPlanStep): string[] {
+  if (!plan.flows) return ["flows are not part of the plan"];
+
+  return [
+    ...diffPlannedActions("Flow", plan.flows.flows, currentStep.flows),
+    ...diffPlannedActions("Module", plan.flows.modules, currentStep.modules),
+    ...diffMappings("flows", { arns: plan.flows.arnMappings }, { arns: currentStep.arnMappings })
+  ];
+}
+
+
+function prunePlanStepProblems(plan: CopyPlan, sectionName: string, currentActions: PlannedAction[]): string[] {
+  const plannedActions = plan.prune?.[sectionName];
+  if (!plannedActions) return [`pruning ${sectionName} is not part of the plan`];
+
+  return diffPlannedActions(`prune ${sectionName}`, plannedActions, currentActions);
+}
+
+
+/**
+ * Check a plan re-computed from the instances as they are now against the approved one, every step
+ * at once, so drift anywhere stops the copy before its first write.
+ */
+export function verifyPlan(plan: CopyPlan, current: CopyPlan, config: { source: SourceConfig; target: TargetConfig }) {
+  checkPlanInstances(plan, config);
+
+  const problems = [
+    ...Object.entries(current.steps).flatMap(([resourceName, step]) => planStepProblems(plan, resourceName, step)),
+    ...(current.flows ? flowPlanStepProblems(plan, current.flows) : []),
+    ...Object.entries(current.prune ?? {}).flatMap(([sectionName, actions]) => prunePlanStepProblems(plan, sectionName, actions))
+  ];
+
+  refuseIfDrifted("Every resource type", problems);
+}
+
+
+/**
+ * Narrow one step's actions, just before it runs, to the ones the approved plan contains. `actions` are
+ * the comparison's own actions, in the order `section` (built from the same comparison) lists them.
+ */
+export function planStepActions<A>(plan: CopyPlan, resourceName: string, actions: A[], section: ReportResourceSection, config: { source: SourceConfig; target: TargetConfig }): A[] {
+  checkPlanInstances(plan, config);
+
+  const plannedStep = plan.steps[resourceName];
+  const currentStep = buildPlanStep(section);
+  if (!plannedStep) return [];
+
+  const problems = diffMappings(resourceName, plannedStep.mappings, currentStep.mappings);
+  if (plannedStep.extrasHash !== currentStep.extrasHash) {
+    problems.push(`${resourceName}: associations or structure changed since plan was made`);
+  }
+  refuseIfChangedDuringRun(resourceName, problems);
+
+  const keep = plannedActions(resourceName, plannedStep.actions, currentStep.actions);
+  return actions.filter((_, index) => keep[index]);
+}
+
+
+/**
+ * Narrow the flow and module lists to the creates and updates the approved plan contains, in place.
+ */
+export function applyFlowPlanStep(plan: CopyPlan, result: FlowComparisonResult, config: { source: SourceConfig; target: TargetConfig }) {
+  checkPlanInstances(plan, config);
+
+  const currentStep = buildFlowPlanStep(result);
+  if (!plan.flows) {
+    result.flowsToCreateList = [];
+    result.flowsToUpdateList = [];
+    result.modulesToCreateList = [];
+    result.modulesToUpdateList = [];
+    return;
+  }
+
+  refuseIfChangedDuringRun("flows", diffMappings("flows", { arns: plan.flows.arnMappings }, { arns: currentStep.arnMappings }));
+
+  // buildFlowPlanStep lists creates, then updates, then skips
+  const keepFlows = plannedActions("Flow", plan.flows.flows, currentStep.flows);
+  const keepModules = plannedActions("Module", plan.flows.modules, currentStep.modules);
+  const flowCreates = result.flowsToCreateList.length;
+  const moduleCreates = result.modulesToCreateList.length;
+
+  result.flowsToCreateList = result.flowsToCreateList.filter((_, index) => keepFlows[index]);
+  result.flowsToUpdateList = result.flowsToUpdateList.filter((_, index) => keepFlows[flowCreates + index]);
+  result.modulesToCreateList = result.modulesToCreateList.filter((_, index) => keepModules[index]);
+  result.modulesToUpdateList = result.modulesToUpdateList.filter((_, index) => keepModules[moduleCreates + index]);
+}
+
+
+export function planPruneActions(plan: CopyPlan, sectionName: string, actions: PruneAction[], config: { source: SourceConfig; target: TargetConfig }): PruneAction[] {
+  checkPlanInstances(plan, config);
+
+  const keep = plannedActions(`prune ${sectionName}`, plan.prune?.[sectionName] ?? [], buildPrunePlanActions(actions));
+  return actions.filter((_, index) => keep[index]);
+}
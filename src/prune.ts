@@ -0,0 +1,374 @@
+import * as CliUtil from "./utils/cli-utils.js";
+import { createConnectClient } from "./connect/client.js";
+import { listContactFlows, listContactFlowModules, describeContactFlow, describeContactFlowModule } from "./connect/flows.js";
+import { listHoursOfOperations, listAgentStatuses, listUserHierarchyGroups, listSecurityProfiles, listRoutingProfiles, listQuickConnects, listViews, listPrompts } from "./connect/resources.js";
+import { deleteContactFlow, deleteContactFlowModule } from "./connect/operations.js";
+import { mapConcurrent } from "./utils/concurrency-utils.js";
+import { matchesFlowFilters } from "./filters.js";
+import { matchResources, applyNameRules } from "./identity.js";
+import { backupResources } from "./backup.js";
+import { planPruneActions } from "./plan.js";
+import { describeHoursOfOperation, deleteHoursOfOperation } from "./resources/hours-of-operation/operations.js";
+import { describeAgentStatus, updateAgentStatus } from "./resources/agent-statuses/operations.js";
+import { describeHierarchyGroup, deleteHierarchyGroup } from "./resources/hierarchy-groups/operations.js";
+import { describeSecurityProfile, deleteSecurityProfile } from "./resources/security-profiles/operations.js";
+import { listStandardQueues, describeQueue, updateQueueStatus } from "./resources/queues/operations.js";
+import { describeRoutingProfile, deleteRoutingProfile } from "./resources/routing-profiles/operations.js";
+import { describeQuickConnect, deleteQuickConnect } from "./resources/quick-connects/operations.js";
+import { describeView, deleteView } from "./resources/views/operations.js";
+import { describePrompt, deletePrompt } from "./resources/prompts/operations.js";
+import { log } from "./utils/log-utils.js";
+
+import type { AgentStatus, ConnectClient, HierarchyGroup, Queue } from "@aws-sdk/client-connect";
+import type { SourceConfig, FilterConfig } from "./validation.js";
+import type { CopyPlan } from "./plan.js";
+
+
+/**
+ * --prune: remove target resources that have no source counterpart, matched the way copy matches
+ * them (by name, or through identity tags and nameRules - see identity.ts).
+ * Only target names the type's source filter matches (with its patterns rewritten by nameRules, as
+ * source names are) are considered, so excluded resources are never touched. Resources Connect cannot delete are disabled instead.
+ */
+export type PruneActionType = "delete" | "disable";
+
+
+export interface PruneAction {
+  action: PruneActionType;
+  name: string;
+  target: unknown;
+  targetId: string;
+  targetArn: string;
+}
+
+
+interface PruneCandidate {
+  Name?: string | undefined;
+  Id?: string | undefined;
+  Arn?: string | undefined;
+}
+
+
+interface PruneSpec<T = unknown> {
+  singular: string;
+  plural: string;
+  action: PruneActionType;
+  filters: (config: SourceConfig) => FilterConfig | undefined;
+  // Only resources copy itself manages (no system statuses, agent queues or AWS managed views)
+  list: (client: ConnectClient, instanceId: string) => Promise<PruneCandidate[]>;
+  describe: (client: ConnectClient, instanceId: string, id: string) => Promise<T>;
+  apply: (client: ConnectClient, instanceId: string, id: string) => Promise<void>;
+  // Already in the pruned state (e.g. a disabled queue), so nothing to do
+  isPruned?: (described: T) => boolean;
+  // Sort key for execution, lowest first
+  order?: (described: T) => number;
+}
+
+
+// Specs describe different resources; comparePrune only hands a spec's hooks what its own describe returned
+function pruneSpec<T>({ isPruned, order, ...spec }: PruneSpec<T>): PruneSpec {
+  return {
+    ...spec,
+    ...(isPruned && { isPruned: (described: unknown) => isPruned(described as T) }),
+    ...(order && { order: (described: unknown) => order(described as T) })
+  };
+}
+
+
+const PRUNE_SPECS: Record<string, PruneSpec> = {
+  "hours-of-operation": {
+    singular: "hours of operation",
+    plural: "hours of operation",
+    action: "delete",
+    filters: config => config.hoursFilters,
+    list: listHoursOfOperations,
+    describe: describeHoursOfOperation,
+    apply: deleteHoursOfOperation
+  },
+  "agent-statuses": pruneSpec<AgentStatus>({
+    singular: "agent status",
+    plural: "agent statuses",
+    action: "disable",
+    filters: config => config.agentStatusFilters,
+    list: async (client, instanceId) => (await listAgentStatuses(client, instanceId)).filter(s => s.Type === "CUSTOM"),
+    describe: describeAgentStatus,
+    apply: (client, instanceId, id) => updateAgentStatus(client, instanceId, id, { State: "DISABLED" }),
+    isPruned: status => status.State === "DISABLED"
+  }),
+  "hierarchy-groups": pruneSpec<HierarchyGroup>({
+    singular: "hierarchy group",
+    plural: "hierarchy groups",
+    action: "delete",
+    filters: config => config.hierarchyGroupFilters,
+    list: listUserHierarchyGroups,
+    describe: describeHierarchyGroup,
+    apply: deleteHierarchyGroup,
+    // A group with children cannot be deleted, so the deepest levels go first
+    order: group => -Number(group.LevelId)
+  }),
+  "security-profiles": {
+    singular: "security profile",
+    plural: "security profiles",
+    action: "delete",
+    filters: config => config.securityProfileFilters,
+    list: listSecurityProfiles,
+    describe: describeSecurityProfile,
+    apply: deleteSecurityProfile
+  },
+  "queues": pruneSpec<Queue>({
+    singular: "queue",
+    plural: "queues",
+    action: "disable",
+    filters: config => config.queueFilters,
+    list: listStandardQueues,
+    describe: describeQueue,
+    apply: (client, instanceId, id) => updateQueueStatus(client, instanceId, id, "DISABLED"),
+    isPruned: queue => queue.Status === "DISABLED"
+  }),
+  "routing-profiles": {
+    singular: "routing profile",
+    plural: "routing profiles",
+    action: "delete",
+    filters: config => config.routingProfileFilters,
+    list: listRoutingProfiles,
+    describe: describeRoutingProfile,
+    apply: deleteRoutingProfile
+  },
+  "quick-connects": {
+    singular: "quick connect",
+    plural: "quick connects",
+    action: "delete",
+    filters: config => config.quickConnectFilters,
+    list: listQuickConnects,
+    describe: describeQuickConnect,
+    apply: deleteQuickConnect
+  },
+  "views": {
+    singular: "view",
+    plural: "views",
+    action: "delete",
+    filters: config => config.viewFilters,
+    list: async (client, instanceId) => (await listViews(client, instanceId)).filter(v => v.Type === "CUSTOMER_MANAGED"),
+    describe: describeView,
+    apply: deleteView
+  },
+  "prompts": {
+    singular: "prompt",
+    plural: "prompts",
+    action: "delete",
+    filters: config => config.promptFilters,
+    list: listPrompts,
+    describe: describePrompt,
+    apply: deletePrompt
+  },
+  "flows": {
+    singular: "flow",
+    plural: "flows",
+    action: "delete",
+    filters: config => config.flowFilters,
+    list: listContactFlows,
+    describe: describeContactFlow,
+    apply: deleteContactFlow
+  },
+  "modules": {
+    singular: "module",
+    plural: "modules",
+    action: "delete",
+    filters: config => config.moduleFilters,
+    list: listContactFlowModules,
+    describe: describeContactFlowModule,
+    apply: deleteContactFlowModule
+  }
+};
+
+
+/**
+ * Resource types --prune accepts, in the order they are pruned: the reverse of the copy order, so
+ * a stale resource is removed before the stale resources it references. Phone numbers and users
+ * are never pruned.
+ */
+export const PRUNABLE_RESOURCE_NAMES = [
+  "flows", "prompts", "views", "quick-connects", "routing-profiles", "queues",
+  "security-profiles", "hierarchy-groups", "agent-statuses", "hours-of-operation"
+];
+
+
+/**
+ * Resolve --prune against the resource types being copied: bare --prune prunes every prunable
+ * type that is not skipped, a list prunes just those (which must not be skipped).
+ */
+export function parsePruneList(prune: string | boolean | undefined, skipSet: Set<string>): string[] {
+  if (!prune) return [];
+
+  if (prune === true) return PRUNABLE_RESOURCE_NAMES.filter(name => !skipSet.has(name));
+
+  const names = prune.split(",").map(s => s.trim()).filter(s => s.length > 0);
+  const invalid = names.filter(n => !PRUNABLE_RESOURCE_NAMES.includes(n));
+
+  if (invalid.length > 0) {
+    console.error(`Unknown or unprunable resource types in --prune: ${invalid.join(", ")}`);
+    console.error(`Valid values: ${PRUNABLE_RESOURCE_NAMES.join(", ")}`);
+    process.exit(1);
+  }
+
+  const skipped = names.filter(n => skipSet.has(n));
+  if (skipped.length > 0) {
+    console.error(`Cannot prune resource types that are skipped: ${skipped.join(", ")}`);
+    process.exit(1);
+  }
+
+  return PRUNABLE_RESOURCE_NAMES.filter(name => names.includes(name));
+}
+
+
+// Flows and modules are one --prune type but separate Connect resources; flows go first since they invoke modules
+export function pruneSectionNames(resourceName: string): string[] {
+  return resourceName === "flows" ? ["flows", "modules"] : [resourceName];
+}
+
+
+export async function comparePrune(sectionName: string, config: Omit<CliUtil.ResourceComparisonConfig, "filterConfig">, sourceConfig: SourceConfig): Promise<PruneAction[]> {
+  const spec = PRUNE_SPECS[sectionName]!;
+  const filters = targetNameFilters(spec.filters(sourceConfig), sourceConfig, sectionName);
+
+  const sourceResources = await spec.list(config.sourceClient, config.sourceInstanceId);
+  const targetResources = await spec.list(config.targetClient, config.targetInstanceId);
+
+  // A target resource matched to a source one under another name (see identity.ts) is renamed by copy, not pruned
+  const matchedTargets = new Set((await matchResources(config, sectionName, sourceResources, targetResources)).values());
+
+  const candidates = targetResources.filter(r => !matchedTargets.has(r) && matchesFlowFilters(r.Name!, filters));
+
+  const described = await mapConcurrent(candidates, async candidate => ({
+    candidate,
+    target: await spec.describe(config.targetClient, config.targetInstanceId, candidate.Id!)
+  }), `Describing ${spec.plural} to prune`);
+
+  return described
+    .filter(({ target }) => !spec.isPruned?.(target))
+    .sort((a, b) => (spec.order?.(a.target) ?? 0) - (spec.order?.(b.target) ?? 0))
+    .map(({ candidate, target }) => ({
+      action: spec.action,
+      name: candidate.Name!,
+      target,
+      targetId: candidate.Id!,
+      targetArn: candidate.Arn!
+    }));
+}
+
+
+/**
+ * Source filters are written against source names; prune checks target names, so each pattern is
+ * rewritten by nameRules like a source name would be (`DEV_Legacy*` protects `PROD_Legacy*`).
+ */
+function targetNameFilters(filters: FilterConfig | undefined, sourceConfig: SourceConfig, resourceType: string): FilterConfig | undefined {
+  if (!filters || !sourceConfig.nameRules) return filters;
+
+  const rewrite = (patterns: string[]) => patterns.map(pattern => applyNameRules(sourceConfig.nameRules, resourceType, pattern));
+
+  return {
+    ...filters,
+    ...(filters.include && { include: rewrite(filters.include) }),
+    ...(filters.exclude && { exclude: rewrite(filters.exclude) })
+  };
+}
+
+
+export function displayPrunePlan(sectionName: string, actions: PruneAction[], verbose: boolean) {
+  const spec = PRUNE_SPECS[sectionName]!;
+  const verb = spec.action === "delete" ? "delete" : "disable";
+
+  log(`\nSummary:`);
+  log(`  ${capitalize(spec.plural)} to ${verb} (not in source): ${actions.length}`);
+
+  if (actions.length === 0) return;
+
+  log(`\n${capitalize(spec.plural)} to ${verb}:`);
+  for (const action of actions) {
+    log(`  - ${action.name}${verbose ? ` (${action.targetId})` : ""}`);
+  }
+}
+
+
+export interface PruneOptions extends CliUtil.EnvOptions {
+  verbose: boolean;
+  approvedPlan?: CopyPlan | undefined;
+}
+
+
+/**
+ * Prune one --prune resource type: compare, show the plan, confirm, back up, then delete or
+ * disable. A resource Connect refuses to remove (e.g. still referenced) is reported and the rest
+ * continue.
+ */
+export async function pruneResources(resourceName: string, options: PruneOptions) {
+  const config = await CliUtil.loadConfigs(options);
+
+  const sourceClient = await CliUtil.createSourceClient(config.source, options);
+  const targetClient = createConnectClient(config.target.region, options.targetProfile);
+
+  const comparisonConfig = {
+    sourceClient,
+    targetClient,
+    sourceInstanceId: config.source.instanceId,
+    targetInstanceId: config.target.instanceId,
+    identity: config.source.identity,
+    nameRules: config.source.nameRules
+  };
+
+  for (const sectionName of pruneSectionNames(resourceName)) {
+    const spec = PRUNE_SPECS[sectionName]!;
+
+    log(`\nFinding target ${spec.plural} with no source counterpart...`);
+    const compared = await comparePrune(sectionName, comparisonConfig, config.source);
+    const actions = options.approvedPlan ? planPruneActions(options.approvedPlan, sectionName, compared, config) : compared;
+
+    displayPrunePlan(sectionName, actions, options.verbose);
+
+    if (actions.length === 0) {
+      log(`\nNo ${spec.plural} to prune`);
+      continue;
+    }
+
+    const verb = spec.action === "delete" ? "deleting" : "disabling";
+    const shouldContinue = await CliUtil.promptContinue(`Proceed with ${verb} ${actions.length} ${spec.plural}?`);
+    if (!shouldContinue) {
+      log("Prune cancelled by user");
+      continue;
+    }
+
+    // Kept apart from the flows/modules restore applies, which only updates resources that still exist
+    await backupResources(config.target.instanceId, config.target.region, `pruned-${sectionName}`, actions.map(a => ({ name: a.name, id: a.targetId, arn: a.targetArn, data: a.target })));
+
+    await executePrune(targetClient, config.target.instanceId, spec, actions);
+  }
+}
+
+
+async function executePrune(targetClient: ConnectClient, targetInstanceId: string, spec: PruneSpec, actions: PruneAction[]) {
+  const past = spec.action === "delete" ? "Deleted" : "Disabled";
+  let pruned = 0;
+  let failed = 0;
+
+  for (const action of actions) {
+    try {
+      await spec.apply(targetClient, targetInstanceId, action.targetId);
+      log(`${past} ${spec.singular}: ${action.name}`);
+      pruned++;
+    } catch (error) {
+      console.error(`Failed to ${spec.action} ${spec.singular} ${action.name}: ${(error as Error).message}`);
+      failed++;
+    }
+  }
+
+  log(`\nPrune complete: ${pruned} ${spec.plural} ${past.toLowerCase()}${failed > 0 ? `, ${failed} failed` : ""}`);
+
+  if (failed > 0) {
+    log(`[WARNING] ${failed} ${spec.plural} could not be ${past.toLowerCase()} (see above) - they are probably still in use`);
+  }
+}
+
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
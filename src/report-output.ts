@@ -0,0 +1,402 @@
+
+import { writeFile } from "fs/promises";
+import { log } from "./utils/log-utils.js";
+
+import type { ContactFlowSummary, ContactFlowModuleSummary } from "@aws-sdk/client-connect";
+import type { SourceConfig, TargetConfig, ValidationError, ValidationWarning } from "./validation.js";
+import type { MissingResource } from "./mapping.js";
+import type { FlowComparisonResult } from "./report.js";
+import type { FlowContentDiff } from "./flow-diff.js";
+import type { AppliedSubstitution } from "./content-substitution.js";
+import type { ArnSubstitution } from "./arn-replacement.js";
+import type { HoursOfOperationComparisonResult } from "./resources/hours-of-operation/report.js";
+import type { AgentStatusComparisonResult } from "./resources/agent-statuses/report.js";
+import type { HierarchyGroupComparisonResult } from "./resources/hierarchy-groups/report.js";
+import type { SecurityProfileComparisonResult } from "./resources/security-profiles/report.js";
+import type { QueueComparisonResult } from "./resources/queues/report.js";
+import type { RoutingProfileComparisonResult } from "./resources/routing-profiles/report.js";
+import type { QuickConnectComparisonResult, QueueAssociationAction } from "./resources/quick-connects/report.js";
+import type { ViewComparisonResult } from "./resources/views/report.js";
+import type { PromptComparisonResult } from "./resources/prompts/report.js";
+import type { PhoneNumberComparisonResult } from "./resources/phone-numbers/report.js";
+import type { PruneAction } from "./prune.js";
+
+
+/**
+ * Version of the JSON report document (schemas/report.schema.json).
+ * Bump on any change that is not purely additive.
+ */
+export const REPORT_SCHEMA_VERSION = 2;
+
+
+export type ReportOutputFormat = "text" | "json";
+
+
+export interface ReportResourceAction {
+  action: string;
+  name: string;
+  source: unknown;
+  target?: unknown;
+  targetId?: string;
+  targetArn?: string;
+  missingDeps?: string[];
+}
+
+
+export interface ReportResourceSection {
+  actions: ReportResourceAction[];
+  queueAssociations?: QueueAssociationAction[];
+  queuesWithUnmappedPhones?: string[];
+  unresolvedPhoneNumbers?: string[];
+  awsManagedSkipped?: number;
+  hierarchyStructure?: { action: string; source: unknown; target: unknown };
+  mappings?: Record<string, Record<string, string>>;
+}
+
+
+export interface ReportFlowEntry {
+  name: string;
+  id?: string;
+  arn?: string;
+  type?: string;
+  contentDiff?: FlowContentDiff;
+  // Set on created/updated flows whose pending draft is copied too (--include-saved)
+  draft?: boolean;
+  // contentSubstitutions applied to the copied content
+  substitutions?: AppliedSubstitution[];
+  // Source ARNs rewritten to existing target resources in the copied content
+  arnSubstitutions?: ArnSubstitution[];
+}
+
+
+export interface ReportFlowSection {
+  flows: { create: ReportFlowEntry[]; update: ReportFlowEntry[]; skip: ReportFlowEntry[] };
+  modules: { create: ReportFlowEntry[]; update: ReportFlowEntry[]; skip: ReportFlowEntry[] };
+  validation: {
+    valid: boolean;
+    errors: ValidationError[];
+    warnings: ValidationWarning[];
+  };
+}
+
+
+export interface ReportDocument {
+  schemaVersion: number;
+  generatedAt: string;
+  source: { instanceId: string; region: string };
+  target: { instanceId: string; region: string };
+  summary: {
+    hasChanges: boolean;
+    valid: boolean;
+    counts: Record<string, Record<string, number>>;
+  };
+  missingResources: MissingResource[];
+  resources: Record<string, ReportResourceSection>;
+  flows?: ReportFlowSection;
+  // Present with --prune; keyed by resource type, with flows and modules separate
+  prune?: Record<string, { actions: PruneAction[] }>;
+}
+
+
+export function createReportDocument(sourceConfig: SourceConfig, targetConfig: TargetConfig, missingResources: MissingResource[]): ReportDocument {
+  return {
+    schemaVersion: REPORT_SCHEMA_VERSION,
+    generatedAt: new Date().toISOString(),
+    source: { instanceId: sourceConfig.instanceId, region: sourceConfig.region },
+    target: { instanceId: targetConfig.instanceId, region: targetConfig.region },
+    summary: { hasChanges: false, valid: true, counts: {} },
+    missingResources,
+    resources: {}
+  };
+}
+
+
+export function addResourceSection(document: ReportDocument, resourceName: string, section: ReportResourceSection) {
+  document.resources[resourceName] = section;
+
+  const counts: Record<string, number> = {};
+  for (const action of section.actions) {
+    counts[action.action] = (counts[action.action] ?? 0) + 1;
+  }
+
+  document.summary.counts[resourceName] = counts;
+
+  const structureAction = section.hierarchyStructure?.action;
+
+  if (section.actions.some(a => a.action !== "skip" && a.action !== "skip_missing_deps") || (section.queueAssociations?.length ?? 0) > 0 || structureAction === "create" || structureAction === "update") {
+    document.summary.hasChanges = true;
+  }
+
+  if (structureAction === "abort") document.summary.valid = false;
+}
+
+
+export function addFlowSection(document: ReportDocument, result: FlowComparisonResult) {
+  const toFlowEntry = (summary: ContactFlowSummary): ReportFlowEntry => ({
+    name: summary.Name!,
+    ...(summary.Id && { id: summary.Id }),
+    ...(summary.Arn && { arn: summary.Arn }),
+    ...(summary.ContactFlowType && { type: summary.ContactFlowType })
+  });
+
+  const toModuleEntry = (summary: ContactFlowModuleSummary): ReportFlowEntry => ({
+    name: summary.Name!,
+    ...(summary.Id && { id: summary.Id }),
+    ...(summary.Arn && { arn: summary.Arn })
+  });
+
+  // Updates carry the structured content diff when their content (not just metadata) differs
+  const withContentDiff = (diffs: Record<string, FlowContentDiff>) => (entry: ReportFlowEntry): ReportFlowEntry => ({
+    ...entry,
+    ...(diffs[entry.name] && { contentDiff: diffs[entry.name] })
+  });
+
+  const withSubstitutions = (substitutions: Record<string, AppliedSubstitution[]>) => (entry: ReportFlowEntry): ReportFlowEntry => ({
+    ...entry,
+    ...(substitutions[entry.name] && { substitutions: substitutions[entry.name] })
+  });
+
+  const withArnSubstitutions = (substitutions: Record<string, ArnSubstitution[]>) => (entry: ReportFlowEntry): ReportFlowEntry => ({
+    ...entry,
+    ...(substitutions[entry.name] && { arnSubstitutions: substitutions[entry.name] })
+  });
+
+  // Drafts are keyed by source flow ID; create entries carry the source ARN and update entries the target ARN it maps to
+  const { sourceFlowsToCopy, sourceFlowDrafts, resourceMappings } = result.validationResult;
+  const draftArns = new Set(sourceFlowsToCopy
+    .filter(flow => sourceFlowDrafts.has(flow.Id!))
+    .flatMap(flow => [flow.Arn!, resourceMappings.arnMap.get(flow.Arn!)].filter((arn): arn is string => arn !== undefined)));
+  const withDraft = (entry: ReportFlowEntry): ReportFlowEntry => entry.arn && draftArns.has(entry.arn) ? { ...entry, draft: true } : entry;
+
+  document.flows = {
+    flows: {
+      create: result.flowsToCreateList.map(toFlowEntry).map(withSubstitutions(result.flowSubstitutions)).map(withArnSubstitutions(result.flowArnSubstitutions)).map(withDraft),
+      update: result.flowsToUpdateList.map(toFlowEntry).map(withContentDiff(result.flowContentDiffs)).map(withSubstitutions(result.flowSubstitutions)).map(withArnSubstitutions(result.flowArnSubstitutions)).map(withDraft),
+      skip: result.flowsToSkipList.map(toFlowEntry)
+    },
+    modules: {
+      create: result.modulesToCreateList.map(toModuleEntry).map(withSubstitutions(result.moduleSubstitutions)).map(withArnSubstitutions(result.moduleArnSubstitutions)),
+      update: result.modulesToUpdateList.map(toModuleEntry).map(withContentDiff(result.moduleContentDiffs)).map(withSubstitutions(result.moduleSubstitutions)).map(withArnSubstitutions(result.moduleArnSubstitutions)),
+      skip: result.modulesToSkipList.map(toModuleEntry)
+    },
+    validation: {
+      valid: result.validationResult.valid,
+      errors: result.validationResult.errors,
+      warnings: result.validationResult.warnings
+    }
+  };
+
+  document.summary.counts["flows"] = { create: result.flowsToCreateList.length, update: result.flowsToUpdateList.length, skip: result.flowsToSkipList.length };
+  document.summary.counts["modules"] = { create: result.modulesToCreateList.length, update: result.modulesToUpdateList.length, skip: result.modulesToSkipList.length };
+
+  if (result.flowsToCreateList.length + result.flowsToUpdateList.length + result.modulesToCreateList.length + result.modulesToUpdateList.length > 0) {
+    document.summary.hasChanges = true;
+  }
+
+  if (!result.valid) document.summary.valid = false;
+}
+
+
+export function addPruneSection(document: ReportDocument, sectionName: string, actions: PruneAction[]) {
+  document.prune ??= {};
+  document.prune[sectionName] = { actions };
+
+  const counts = document.summary.counts[sectionName] ??= {};
+  for (const action of actions) {
+    counts[action.action] = (counts[action.action] ?? 0) + 1;
+  }
+
+  if (actions.length > 0) document.summary.hasChanges = true;
+}
+
+
+// Section builders normalize each resource's action type to { action, name, source, target } so the
+// document shape does not depend on per-resource field names like queueName/sourceQueue
+
+export function hoursOfOperationSection(result: HoursOfOperationComparisonResult): ReportResourceSection {
+  return {
+    actions: result.actions.map(a => ({
+      action: a.action,
+      name: a.hoursName,
+      source: a.sourceHours,
+      ...(a.targetHours && { target: a.targetHours }),
+      ...(a.targetHoursId && { targetId: a.targetHoursId }),
+      ...(a.targetHoursArn && { targetArn: a.targetHoursArn })
+    }))
+  };
+}
+
+
+export function agentStatusSection(result: AgentStatusComparisonResult): ReportResourceSection {
+  return {
+    actions: result.actions.map(a => ({
+      action: a.action,
+      name: a.statusName,
+      source: a.sourceStatus,
+      ...(a.targetStatus && { target: a.targetStatus }),
+      ...(a.targetStatusId && { targetId: a.targetStatusId }),
+      ...(a.targetStatusArn && { targetArn: a.targetStatusArn })
+    }))
+  };
+}
+
+
+export function hierarchyGroupSection(result: HierarchyGroupComparisonResult): ReportResourceSection {
+  const structure = result.hierarchyStructure;
+
+  return {
+    actions: result.actions.map(a => ({
+      action: a.action,
+      name: a.sourceGroup.Name!,
+      source: a.sourceGroup,
+      ...(a.targetGroup && { target: a.targetGroup }),
+      ...(a.targetGroup?.Id && { targetId: a.targetGroup.Id }),
+      ...(a.targetGroup?.Arn && { targetArn: a.targetGroup.Arn })
+    })),
+    hierarchyStructure: {
+      action: structure.action,
+      source: structure.sourceStructure,
+      target: structure.targetStructure
+    },
+    mappings: {
+      groups: Object.fromEntries(Object.entries(result.groupMapping)
+        .filter(([, mapping]) => mapping.targetId)
+        .map(([sourceId, mapping]) => [sourceId, mapping.targetId!]))
+    }
+  };
+}
+
+
+export function securityProfileSection(result: SecurityProfileComparisonResult): ReportResourceSection {
+  return {
+    actions: result.actions.map(a => ({
+      action: a.action,
+      name: a.profileName,
+      source: a.sourceProfile,
+      ...(a.targetProfile && { target: a.targetProfile }),
+      ...(a.targetProfile?.Id && { targetId: a.targetProfile.Id }),
+      ...(a.targetProfile?.Arn && { targetArn: a.targetProfile.Arn })
+    }))
+  };
+}
+
+
+export function queueSection(result: QueueComparisonResult): ReportResourceSection {
+  return {
+    actions: result.actions.map(a => ({
+      action: a.action,
+      name: a.queueName,
+      source: a.sourceQueue,
+      ...(a.targetQueue && { target: a.targetQueue }),
+      ...(a.targetQueueId && { targetId: a.targetQueueId }),
+      ...(a.targetQueueArn && { targetArn: a.targetQueueArn })
+    })),
+    queuesWithUnmappedPhones: result.queuesWithUnmappedPhones,
+    mappings: {
+      hoursOfOperation: result.hooMapping,
+      flows: result.flowMapping,
+      phoneNumbers: result.phoneMapping
+    }
+  };
+}
+
+
+export function routingProfileSection(result: RoutingProfileComparisonResult): ReportResourceSection {
+  return {
+    actions: result.actions.map(a => ({
+      action: a.action,
+      name: a.profileName,
+      source: a.sourceProfile,
+      ...(a.targetProfile && { target: a.targetProfile }),
+      ...(a.targetProfileId && { targetId: a.targetProfileId }),
+      ...(a.targetProfileArn && { targetArn: a.targetProfileArn })
+    })),
+    mappings: {
+      queues: result.queueMapping
+    }
+  };
+}
+
+
+export function quickConnectSection(result: QuickConnectComparisonResult): ReportResourceSection {
+  return {
+    actions: result.actions.map(a => ({
+      action: a.action,
+      name: a.quickConnectName,
+      source: a.sourceQuickConnect,
+      ...(a.targetQuickConnect && { target: a.targetQuickConnect }),
+      ...(a.targetQuickConnectId && { targetId: a.targetQuickConnectId }),
+      ...(a.targetQuickConnectArn && { targetArn: a.targetQuickConnectArn }),
+      ...(a.missingDeps && { missingDeps: a.missingDeps })
+    })),
+    queueAssociations: result.queueAssociationActions.filter(a => a.toAssociate.length > 0 || a.toDisassociate.length > 0),
+    mappings: {
+      users: result.userMapping,
+      queues: result.queueMapping,
+      flows: result.flowMapping
+    }
+  };
+}
+
+
+export function viewSection(result: ViewComparisonResult): ReportResourceSection {
+  return {
+    actions: result.actions.map(a => ({
+      action: a.action,
+      name: a.viewName,
+      source: a.sourceView,
+      ...(a.targetView && { target: a.targetView }),
+      ...(a.targetViewId && { targetId: a.targetViewId }),
+      ...(a.targetViewArn && { targetArn: a.targetViewArn })
+    })),
+    awsManagedSkipped: result.awsManagedSkipped
+  };
+}
+
+
+export function promptSection(result: PromptComparisonResult): ReportResourceSection {
+  return {
+    actions: result.actions.map(a => ({
+      action: a.action,
+      name: a.promptName,
+      // Audio bytes stay out of the document; the hash is what comparison (and plan drift) is based on
+      source: { ...a.sourcePrompt, AudioSha256: a.sourceAudioHash },
+      ...(a.targetPrompt && { target: { ...a.targetPrompt, AudioSha256: a.targetAudioHash } }),
+      ...(a.targetPromptId && { targetId: a.targetPromptId }),
+      ...(a.targetPromptArn && { targetArn: a.targetPromptArn })
+    }))
+  };
+}
+
+
+export function phoneNumberSection(result: PhoneNumberComparisonResult): ReportResourceSection {
+  return {
+    actions: result.actions.map(a => ({
+      action: a.action,
+      name: a.phoneNumber,
+      source: { ...a.sourcePhoneNumber, ContactFlowName: a.sourceFlowName },
+      ...(a.targetPhoneNumber && { target: { ...a.targetPhoneNumber, ContactFlowName: a.targetFlowName } }),
+      ...(a.targetPhoneNumber?.PhoneNumberId && { targetId: a.targetPhoneNumber.PhoneNumberId }),
+      ...(a.targetPhoneNumber?.PhoneNumberArn && { targetArn: a.targetPhoneNumber.PhoneNumberArn }),
+      ...(a.missingDeps && { missingDeps: a.missingDeps })
+    })),
+    unresolvedPhoneNumbers: result.unresolvedNumbers,
+    mappings: {
+      phoneNumbers: result.phoneMapping,
+      flows: result.flowMapping
+    }
+  };
+}
+
+
+export async function writeReportDocument(document: ReportDocument, outputFile: string | undefined) {
+  const json = JSON.stringify(document, null, 2);
+
+  if (!outputFile) {
+    process.stdout.write(json + "\n");
+    return;
+  }
+
+  await writeFile(outputFile, json + "\n");
+  log(`\nReport written: ${outputFile}`);
+}
@@ -3,12 +3,16 @@ import { readFile } from "fs/promises";
 import type { ConnectClient, ContactFlow, ContactFlowModule, ContactFlowSummary, ContactFlowModuleSummary } from "@aws-sdk/client-connect";
 import { cliFlags } from "./cli-flags.js";
 import { createConnectClient } from "./connect/client.js";
-import { gatherFlowInventory, describeContactFlow, describeContactFlowModule } from "./connect/flows.js";
+import { gatherFlowInventory, describeContactFlow, describeContactFlowDraft, describeContactFlowModule } from "./connect/flows.js";
 import { gatherResourceInventory } from "./connect/resources.js";
 import { buildAllResourceMappings } from "./mapping.js";
+import { withTargetName } from "./identity.js";
 import { matchesFlowFilters, matchesFlowFiltersWithReason } from "./filters.js";
 import { validateFlowDependencies, validateSourceConfig, validateTargetConfig } from "./validation.js";
-import { replaceArnsInContent } from "./arn-replacement.js";
+import { replaceArnsInContent, rewriteArnsInContent } from "./arn-replacement.js";
+import { diffFlowContent, formatFlowContentDiff } from "./flow-diff.js";
+import { buildFlowVersionMappings } from "./flow-versions.js";
+import { applyContentSubstitutions } from "./content-substitution.js";
 import { compareHoursOfOperations, displayHoursOfOperationPlan } from "./resources/hours-of-operation/report.js";
 import { compareAgentStatuses, displayAgentStatusPlan } from "./resources/agent-statuses/report.js";
 import { compareHierarchyGroups, displayHierarchyGroupPlan } from "./resources/hierarchy-groups/report.js";
@@ -17,21 +21,55 @@ import { compareQueues, displayQueuePlan } from "./resources/queues/report.js";
 import { compareRoutingProfiles, displayRoutingProfilePlan } from "./resources/routing-profiles/report.js";
 import { compareQuickConnects, displayQuickConnectPlan } from "./resources/quick-connects/report.js";
 import { compareViews, displayViewPlan } from "./resources/views/report.js";
-import type { SourceConfig, TargetConfig, ValidationResult } from "./validation.js";
-import type { InstanceInventory } from "./mapping.js";
+import { comparePrompts, displayPromptPlan } from "./resources/prompts/report.js";
+import { comparePhoneNumbers, displayPhoneNumberPlan } from "./resources/phone-numbers/report.js";
+import type { SourceConfig, TargetConfig, ValidationResult, FlowComparisonMode } from "./validation.js";
+import type { InstanceInventory, ResourceMappings } from "./mapping.js";
+import type { FlowContentDiff } from "./flow-diff.js";
+import type { AppliedSubstitution } from "./content-substitution.js";
+import type { ArnSubstitution } from "./arn-replacement.js";
+import { createSourceClient } from "./utils/cli-utils.js";
+import { mapConcurrent } from "./utils/concurrency-utils.js";
+import { comparePrune, displayPrunePlan, parsePruneList, pruneSectionNames } from "./prune.js";
+import { createReportDocument, addResourceSection, addFlowSection, addPruneSection, writeReportDocument, hoursOfOperationSection, agentStatusSection, hierarchyGroupSection, securityProfileSection, queueSection, routingProfileSection, quickConnectSection, viewSection, promptSection, phoneNumberSection } from "./report-output.js";
 import type { ResourceComparisonConfig } from "./utils/cli-utils.js";
+import { createPlan, buildFlowPlanStep, writePlan } from "./plan.js";
+import { log, setLogToStderr } from "./utils/log-utils.js";
+import type { CopyPlan, PlanOptions } from "./plan.js";
+import type { ReportDocument, ReportOutputFormat } from "./report-output.js";
 
 
 export interface ReportOptions {
   sourceConfig: string;
   targetConfig: string;
-  sourceProfile: string;
+  sourceProfile?: string | undefined;
+  sourceSnapshot?: string | undefined;
   targetProfile: string;
   resourcesOnly: boolean;
   skip: string;
   skipOutboundFlow: boolean;
   forceHierarchyRecreate: boolean;
   forceStructureUpdate: boolean;
+  output: ReportOutputFormat;
+  outputFile?: string | undefined;
+  savePlan?: string | undefined;
+  flowComparison?: FlowComparisonMode | undefined;
+  includeSaved?: boolean | undefined;
+  strictReferences?: boolean | undefined;
+  prune?: string | boolean | undefined;
+}
+
+
+// What the comparisons themselves depend on; shared by report and copy --plan's up-front check
+type ReportComparisonOptions = Pick<ReportOptions, "sourceSnapshot" | "skipOutboundFlow" | "forceHierarchyRecreate" | "forceStructureUpdate" | "flowComparison" | "includeSaved" | "strictReferences">;
+
+
+export interface FlowCompareOptions {
+  flowComparison?: FlowComparisonMode | undefined;
+  // Also copy SAVED-only flows (kept SAVED in target) and pending drafts of published flows
+  includeSaved?: boolean | undefined;
+  // Fail validation on reference-like parameter values outside the action catalog
+  strictReferences?: boolean | undefined;
 }
 
 
@@ -43,6 +81,18 @@ export interface FlowComparisonResult {
   modulesToCreateList: ContactFlowModuleSummary[];
   modulesToUpdateList: ContactFlowModuleSummary[];
   modulesToSkipList: ContactFlowModuleSummary[];
+  // Structured content diffs for updates whose content differs, keyed by the target name in the update list
+  flowContentDiffs: Record<string, FlowContentDiff>;
+  moduleContentDiffs: Record<string, FlowContentDiff>;
+  // contentSubstitutions applied to flows/modules being created or updated, keyed by the name in the create/update list
+  flowSubstitutions: Record<string, AppliedSubstitution[]>;
+  moduleSubstitutions: Record<string, AppliedSubstitution[]>;
+  // Source ARNs rewritten to existing target resources, keyed the same way; references to resources
+  // this run creates are only known when the content is written (see the run journal)
+  flowArnSubstitutions: Record<string, ArnSubstitution[]>;
+  moduleArnSubstitutions: Record<string, ArnSubstitution[]>;
+  // Versioned source flow references (<flow arn>:<n>) to their target counterparts
+  flowVersionMappings: Map<string, string>;
   validationResult: ValidationResult;
 }
 
@@ -57,27 +107,31 @@ export interface SetupResult {
 }
 
 
-export async function setupInstanceComparison(sourceConfigPath: string, targetConfigPath: string, sourceProfile: string, targetProfile: string): Promise<SetupResult> {
+export async function setupInstanceComparison(sourceConfigPath: string, targetConfigPath: string, sourceProfile: string | undefined, targetProfile: string, sourceSnapshot?: string): Promise<SetupResult> {
   const sourceConfigData = await readFile(sourceConfigPath, "utf-8");
   const targetConfigData = await readFile(targetConfigPath, "utf-8");
 
   const sourceConfig = validateSourceConfig(JSON.parse(sourceConfigData));
   const targetConfig = validateTargetConfig(JSON.parse(targetConfigData));
 
-  console.log("Source: " + sourceConfigPath);
-  console.log(`  Instance ID: ${sourceConfig.instanceId}`);
-  console.log(`  Region: ${sourceConfig.region}`);
-  console.log(`  Profile: ${sourceProfile}`);
+  log("Source: " + sourceConfigPath);
+  log(`  Instance ID: ${sourceConfig.instanceId}`);
+  log(`  Region: ${sourceConfig.region}`);
+  if (sourceSnapshot) {
+    log(`  Snapshot: ${sourceSnapshot}`);
+  } else {
+    log(`  Profile: ${sourceProfile}`);
+  }
 
-  console.log("\nTarget: " + targetConfigPath);
-  console.log(`  Instance ID: ${targetConfig.instanceId}`);
-  console.log(`  Region: ${targetConfig.region}`);
-  console.log(`  Profile: ${targetProfile}`);
+  log("\nTarget: " + targetConfigPath);
+  log(`  Instance ID: ${targetConfig.instanceId}`);
+  log(`  Region: ${targetConfig.region}`);
+  log(`  Profile: ${targetProfile}`);
 
-  const sourceClient = createConnectClient(sourceConfig.region, sourceProfile);
+  const sourceClient = await createSourceClient(sourceConfig, { sourceProfile, sourceSnapshot });
   const targetClient = createConnectClient(targetConfig.region, targetProfile);
 
-  console.log("\nGathering resource inventories...");
+  log("\nGathering resource inventories...");
 
   const sourceFlows = await gatherFlowInventory(sourceClient, sourceConfig.instanceId);
   const sourceResources = await gatherResourceInventory(sourceClient, sourceConfig.instanceId);
@@ -136,28 +190,35 @@ function jsonSemanticallyEqual(sourceContent: string, targetContent: string, arn
 }
 
 
-export async function compareAndValidateFlows(sourceClient: any, targetClient: any, sourceConfig: SourceConfig, targetConfig: TargetConfig, sourceInventory: InstanceInventory, targetInventory: InstanceInventory): Promise<FlowComparisonResult> {
-    console.log("\n" + "=".repeat(50));
-    console.log("Flow Content Comparison");
-    console.log("=".repeat(50) + "\n");
+export async function compareAndValidateFlows(sourceClient: any, targetClient: any, sourceConfig: SourceConfig, targetConfig: TargetConfig, sourceInventory: InstanceInventory, targetInventory: InstanceInventory, options: FlowCompareOptions = {}): Promise<FlowComparisonResult> {
+    log("\n" + "=".repeat(50));
+    log("Flow Content Comparison");
+    log("=".repeat(50) + "\n");
+
+    // The CLI flag wins over the source config; exact keeps the original any-difference behavior
+    const comparisonMode = options.flowComparison ?? sourceConfig.flowComparison ?? "exact";
+    if (comparisonMode === "behavioral") log("Comparison mode: behavioral (layout and Metadata-only differences are skipped)");
+
+    const includeSaved = options.includeSaved ?? false;
+    if (includeSaved) log("Including SAVED flows and pending drafts of published flows");
 
-    console.log("Applying filters...");
+    log("Applying filters...");
 
     if (cliFlags.verbose) {
       if (sourceConfig.flowFilters) {
-        console.log("  Flow filters:");
-        console.log(`    Include: ${JSON.stringify(sourceConfig.flowFilters.include ?? ["*"])}`);
-        console.log(`    Exclude: ${JSON.stringify(sourceConfig.flowFilters.exclude ?? [])}`);
+        log("  Flow filters:");
+        log(`    Include: ${JSON.stringify(sourceConfig.flowFilters.include ?? ["*"])}`);
+        log(`    Exclude: ${JSON.stringify(sourceConfig.flowFilters.exclude ?? [])}`);
       } else {
-        console.log("  Flow filters: none (include all)");
+        log("  Flow filters: none (include all)");
       }
 
       if (sourceConfig.moduleFilters) {
-        console.log("  Module filters:");
-        console.log(`    Include: ${JSON.stringify(sourceConfig.moduleFilters.include ?? ["*"])}`);
-        console.log(`    Exclude: ${JSON.stringify(sourceConfig.moduleFilters.exclude ?? [])}`);
+        log("  Module filters:");
+        log(`    Include: ${JSON.stringify(sourceConfig.moduleFilters.include ?? ["*"])}`);
+        log(`    Exclude: ${JSON.stringify(sourceConfig.moduleFilters.exclude ?? [])}`);
       } else {
-        console.log("  Module filters: none (include all)");
+        log("  Module filters: none (include all)");
       }
     }
 
@@ -173,32 +234,38 @@ export async function compareAndValidateFlows(sourceClient: any, targetClient: a
       const excludedFlows = sourceInventory.flows.filter(flow => !matchesFlowFilters(flow.Name ?? "", sourceConfig.flowFilters));
 
       if (excludedFlows.length > 0) {
-        console.log(`\nExcluded flows (${excludedFlows.length}):`);
+        log(`\nExcluded flows (${excludedFlows.length}):`);
         for (const flow of excludedFlows) {
           const result = matchesFlowFiltersWithReason(flow.Name ?? "", sourceConfig.flowFilters) as { matches: false; reason: string };
-          console.log(`  - ${flow.Name} (${result.reason})`);
+          log(`  - ${flow.Name} (${result.reason})`);
         }
       }
 
       const excludedModules = sourceInventory.modules.filter(module => !matchesFlowFilters(module.Name ?? "", sourceConfig.moduleFilters));
 
       if (excludedModules.length > 0) {
-        console.log(`\nExcluded modules (${excludedModules.length}):`);
+        log(`\nExcluded modules (${excludedModules.length}):`);
         for (const module of excludedModules) {
           const result = matchesFlowFiltersWithReason(module.Name ?? "", sourceConfig.moduleFilters) as { matches: false; reason: string };
-          console.log(`  - ${module.Name} (${result.reason})`);
+          log(`  - ${module.Name} (${result.reason})`);
         }
       }
 
-      console.log();
+      log();
     }
 
-    console.log(`Filtered: ${sourceFlowsToCopy.length} flows (${sourceInventory.flows.length} total), ${sourceModulesToCopy.length} modules (${sourceInventory.modules.length} total)`);
+    log(`Filtered: ${sourceFlowsToCopy.length} flows (${sourceInventory.flows.length} total), ${sourceModulesToCopy.length} modules (${sourceInventory.modules.length} total)`);
 
-    console.log("Describing flows and modules...");
+    log("Describing flows and modules...");
 
-    const targetFlowsByName = new Map(targetInventory.flows.map(f => [f.Name!, f]));
-    const targetModulesByName = new Map(targetInventory.modules.map(m => [m.Name!, m]));
+    // Source flows and modules are paired with target ones the same way their references are (see identity.ts)
+    const identityContext = { sourceClient, targetClient, identity: sourceConfig.identity, nameRules: sourceConfig.nameRules };
+    const resourceMappings = await buildAllResourceMappings(identityContext, sourceInventory, targetInventory);
+
+    const targetFlowsByArn = new Map(targetInventory.flows.map(f => [f.Arn!, f]));
+    const targetModulesByArn = new Map(targetInventory.modules.map(m => [m.Arn!, m]));
+    const targetFlowFor = (flowSummary: ContactFlowSummary) => targetFlowsByArn.get(resourceMappings.arnMap.get(flowSummary.Arn!) ?? "");
+    const targetModuleFor = (moduleSummary: ContactFlowModuleSummary) => targetModulesByArn.get(resourceMappings.arnMap.get(moduleSummary.Arn!) ?? "");
 
     const sourceFlowDetails = new Map<string, ContactFlow>();
     const sourceModuleDetails = new Map<string, ContactFlowModule>();
@@ -207,135 +274,242 @@ export async function compareAndValidateFlows(sourceClient: any, targetClient: a
     const flowsToValidate: ContactFlowSummary[] = [];
     const modulesToValidate: ContactFlowModuleSummary[] = [];
 
-    const resourceMappings = buildAllResourceMappings(sourceInventory, targetInventory);
-    const arnMap = resourceMappings.arnMap;
+    const sourceFlowDrafts = new Map<string, ContactFlow>();
+    const targetFlowDrafts = new Map<string, ContactFlow>();
 
     const flowsToCreateList: ContactFlowSummary[] = [];
     const flowsToUpdateList: ContactFlowSummary[] = [];
     const flowsToSkipList: ContactFlowSummary[] = [];
+    const flowContentDiffs: Record<string, FlowContentDiff> = {};
+    const flowSubstitutions: Record<string, AppliedSubstitution[]> = {};
+    const flowArnSubstitutions: Record<string, ArnSubstitution[]> = {};
     let flowStatusExcluded = 0;
 
-    for (const flowSummary of sourceFlowsToCopy) {
+    // Substituted content is what gets compared, validated and written
+    const substituted = <T extends { Content?: string | undefined }>(resource: T) => {
+      const { content, applied } = applyContentSubstitutions(resource.Content!, sourceConfig.contentSubstitutions);
+      return { resource: { ...resource, Content: content }, applied };
+    };
+
+    // Describe concurrently, then classify in source order so output stays deterministic
+    const describedFlows = await mapConcurrent(sourceFlowsToCopy, async flowSummary => {
+      // A version or alias pinned in sourceFlowVersions is read instead of the current content
+      const sourceQualifier = sourceConfig.sourceFlowVersions?.[flowSummary.Name!];
+      const { resource: sourceFlowFull, applied } = substituted(withTargetName(identityContext, "flows", await describeContactFlow(sourceClient, sourceConfig.instanceId, sourceQualifier ? `${flowSummary.Id!}:${sourceQualifier}` : flowSummary.Id!)));
+      const targetFlow = targetFlowFor(flowSummary);
+
+      if (sourceFlowFull.Status !== "PUBLISHED" && !includeSaved) return { sourceFlowFull, applied };
+
+      const describedDraft = includeSaved && !sourceQualifier && sourceFlowFull.Status === "PUBLISHED" ? await describeContactFlowDraft(sourceClient, sourceConfig.instanceId, sourceFlowFull) : undefined;
+      const draft = describedDraft && substituted(describedDraft);
+      const sourceDraft = draft?.resource;
+
+      // A substitution made in both the published content and the draft is listed once
+      const draftApplied = (draft?.applied ?? []).filter(d => !applied.some(a => a.actionId === d.actionId && a.path === d.path && a.to === d.to));
+      if (!targetFlow) return { sourceFlowFull, sourceDraft, applied: [...applied, ...draftApplied] };
+
+      const targetFlowFull = await describeContactFlow(targetClient, targetConfig.instanceId, targetFlow.Id!);
+      const targetDraft = includeSaved && targetFlowFull.Status === "PUBLISHED" ? await describeContactFlowDraft(targetClient, targetConfig.instanceId, targetFlowFull) : undefined;
+
+      return { sourceFlowFull, sourceDraft, targetFlowFull, targetDraft, applied: [...applied, ...draftApplied] };
+    }, "Describing flows");
+
+    const describedModules = await mapConcurrent(sourceModulesToCopy, async moduleSummary => {
+      const { resource: sourceModuleFull, applied } = substituted(withTargetName(identityContext, "modules", await describeContactFlowModule(sourceClient, sourceConfig.instanceId, moduleSummary.Id!)));
+      const targetModule = targetModuleFor(moduleSummary);
+
+      if (!targetModule) return { sourceModuleFull, applied };
+      return { sourceModuleFull, targetModuleFull: await describeContactFlowModule(targetClient, targetConfig.instanceId, targetModule.Id!), applied };
+    }, "Describing modules");
+
+    // Versioned flow references map to the target version copied from the same source version
+    const flowVersions = await buildFlowVersionMappings(targetClient, targetConfig.instanceId, [
+      ...describedFlows.flatMap(({ sourceFlowFull, sourceDraft }) => [sourceFlowFull.Content ?? "", sourceDraft?.Content ?? ""]),
+      ...describedModules.map(({ sourceModuleFull }) => sourceModuleFull.Content ?? "")
+    ], resourceMappings.arnMap);
+    const arnMap = new Map([...resourceMappings.arnMap, ...flowVersions.mappings]);
+
+    const compareContent = (sourceContent: string, targetContent: string) => {
+      const contentDiff = jsonSemanticallyEqual(sourceContent, targetContent, arnMap)
+        ? undefined
+        : diffFlowContent(replaceArnsInContent(sourceContent, arnMap), targetContent);
+      const cosmeticOnly = comparisonMode === "behavioral" && contentDiff?.cosmeticOnly === true;
+
+      return { contentDiff, cosmeticOnly, contentDiffers: contentDiff !== undefined && !cosmeticOnly };
+    };
+
+    const recordArnSubstitutions = (substitutions: Record<string, ArnSubstitution[]>, name: string, content: string) => {
+      const rewritten = rewriteArnsInContent(content, arnMap).substitutions;
+      if (rewritten.length > 0) substitutions[name] = rewritten;
+    };
+
+    for (const [index, flowSummary] of sourceFlowsToCopy.entries()) {
       const flowName = flowSummary.Name!;
-      const sourceFlowFull = await describeContactFlow(sourceClient, sourceConfig.instanceId, flowSummary.Id!);
+      const { sourceFlowFull, sourceDraft, targetFlowFull: describedTargetFlow, targetDraft, applied } = describedFlows[index]!;
+      const savedOnly = sourceFlowFull.Status !== "PUBLISHED";
 
-      if (sourceFlowFull.Status !== "PUBLISHED") {
+      if (savedOnly && !includeSaved) {
         flowStatusExcluded++;
         if (cliFlags.verbose) {
-          console.log(`  ${flowName}: Skip (source Status=${sourceFlowFull.Status}, only PUBLISHED flows are copied)`);
+          log(`  ${flowName}: Skip (source Status=${sourceFlowFull.Status}, only PUBLISHED flows are copied)`);
         }
         continue;
       }
 
-      const targetFlow = targetFlowsByName.get(flowName);
+      const targetFlow = targetFlowFor(flowSummary);
+      const sourceQualifier = sourceConfig.sourceFlowVersions?.[flowName];
+      const savedNote = `${sourceQualifier ? ` from source version ${sourceQualifier}` : ""}${savedOnly ? " as SAVED" : sourceDraft ? " with pending draft" : ""}`;
 
       if (!targetFlow) {
         sourceFlowDetails.set(flowSummary.Id!, sourceFlowFull);
+        if (sourceDraft) sourceFlowDrafts.set(flowSummary.Id!, sourceDraft);
         flowsToValidate.push(flowSummary);
         flowsToCreateList.push(flowSummary);
+        if (applied.length > 0) flowSubstitutions[flowName] = applied;
+        recordArnSubstitutions(flowArnSubstitutions, flowName, sourceFlowFull.Content!);
         if (cliFlags.verbose) {
-          console.log(`  ${flowName}: Create (does not exist in target)`);
+          log(`  ${flowName}: Create${savedNote} (does not exist in target)`);
         }
         continue;
       }
 
-      const targetFlowFull = await describeContactFlow(targetClient, targetConfig.instanceId, targetFlow.Id!);
+      const targetFlowFull = describedTargetFlow!;
+      // What target holds as saved content: its draft if it has one, otherwise the published content
+      const targetSaved = targetDraft ?? targetFlowFull;
 
-      const contentDiffers = !jsonSemanticallyEqual(sourceFlowFull.Content!, targetFlowFull.Content!, arnMap);
+      // A SAVED-only source is written to target's saved content, so that is what it is compared with
+      const { contentDiff, cosmeticOnly, contentDiffers } = compareContent(sourceFlowFull.Content!, savedOnly ? targetSaved.Content! : targetFlowFull.Content!);
+      const draftDiffers = sourceDraft !== undefined && compareContent(sourceDraft.Content!, targetSaved.Content!).contentDiffers;
+      const nameDiffers = sourceFlowFull.Name !== targetFlowFull.Name;
       const descriptionDiffers = sourceFlowFull.Description !== targetFlowFull.Description;
       const tagsDiffer = !tagsEqual(sourceFlowFull.Tags, targetFlowFull.Tags);
       const statusDiffers = sourceFlowFull.Status === "PUBLISHED" && targetFlowFull.Status === "SAVED" && cliFlags.publish;
 
-      if (contentDiffers || descriptionDiffers || tagsDiffer || statusDiffers) {
+      if (contentDiffers || draftDiffers || nameDiffers || descriptionDiffers || tagsDiffer || statusDiffers) {
         sourceFlowDetails.set(flowSummary.Id!, sourceFlowFull);
         targetFlowDetails.set(targetFlow.Id!, targetFlowFull);
+        if (sourceDraft) sourceFlowDrafts.set(flowSummary.Id!, sourceDraft);
+        if (targetDraft) targetFlowDrafts.set(targetFlow.Id!, targetDraft);
         flowsToValidate.push(flowSummary);
         flowsToUpdateList.push(targetFlow);
+        if (contentDiffers) flowContentDiffs[targetFlow.Name!] = contentDiff!;
+        if (applied.length > 0) flowSubstitutions[targetFlow.Name!] = applied;
+        recordArnSubstitutions(flowArnSubstitutions, targetFlow.Name!, sourceFlowFull.Content!);
         if (cliFlags.verbose) {
           const reasons = [];
           if (contentDiffers) reasons.push("content");
+          if (draftDiffers) reasons.push("draft");
+          if (nameDiffers) reasons.push("name");
           if (descriptionDiffers) reasons.push("description");
           if (tagsDiffer) reasons.push("tags");
           if (statusDiffers) reasons.push("status");
-          console.log(`  ${flowName}: Update (${reasons.join(", ")} differs)`);
+          log(`  ${flowName}: Update${savedNote} (${reasons.join(", ")} differs)`);
+          if (contentDiffers) formatFlowContentDiff(flowContentDiffs[targetFlow.Name!]!).forEach(line => log(line));
         }
       } else {
         flowsToSkipList.push(targetFlow);
         if (cliFlags.verbose) {
-          console.log(`  ${flowName}: Skip (content matches)`);
+          log(`  ${flowName}: Skip (${cosmeticOnly ? "cosmetic changes only" : "content matches"})`);
         }
       }
     }
 
     if (flowStatusExcluded > 0) {
-      console.log(`\nExcluded ${flowStatusExcluded} flow${flowStatusExcluded === 1 ? '' : 's'} (source Status≠PUBLISHED)`);
+      log(`\nExcluded ${flowStatusExcluded} flow${flowStatusExcluded === 1 ? '' : 's'} (source Status≠PUBLISHED; use --include-saved to copy them)`);
     }
 
     const modulesToCreateList: ContactFlowModuleSummary[] = [];
     const modulesToUpdateList: ContactFlowModuleSummary[] = [];
     const modulesToSkipList: ContactFlowModuleSummary[] = [];
+    const moduleContentDiffs: Record<string, FlowContentDiff> = {};
+    const moduleSubstitutions: Record<string, AppliedSubstitution[]> = {};
+    const moduleArnSubstitutions: Record<string, ArnSubstitution[]> = {};
 
-    for (const moduleSummary of sourceModulesToCopy) {
+    for (const [index, moduleSummary] of sourceModulesToCopy.entries()) {
       const moduleName = moduleSummary.Name!;
-      const sourceModuleFull = await describeContactFlowModule(sourceClient, sourceConfig.instanceId, moduleSummary.Id!);
-      const targetModule = targetModulesByName.get(moduleName);
+      const { sourceModuleFull, targetModuleFull: describedTargetModule, applied } = describedModules[index]!;
+      const targetModule = targetModuleFor(moduleSummary);
 
       if (!targetModule) {
         sourceModuleDetails.set(moduleSummary.Id!, sourceModuleFull);
         modulesToValidate.push(moduleSummary);
         modulesToCreateList.push(moduleSummary);
+        if (applied.length > 0) moduleSubstitutions[moduleName] = applied;
+        recordArnSubstitutions(moduleArnSubstitutions, moduleName, sourceModuleFull.Content!);
         if (cliFlags.verbose) {
-          console.log(`  ${moduleName}: Create (does not exist in target)`);
+          log(`  ${moduleName}: Create (does not exist in target)`);
         }
         continue;
       }
 
-      const targetModuleFull = await describeContactFlowModule(targetClient, targetConfig.instanceId, targetModule.Id!);
+      const targetModuleFull = describedTargetModule!;
 
-      const contentDiffers = !jsonSemanticallyEqual(sourceModuleFull.Content!, targetModuleFull.Content!, arnMap);
+      const { contentDiff, cosmeticOnly, contentDiffers } = compareContent(sourceModuleFull.Content!, targetModuleFull.Content!);
+      const nameDiffers = sourceModuleFull.Name !== targetModuleFull.Name;
       const descriptionDiffers = sourceModuleFull.Description !== targetModuleFull.Description;
       const tagsDiffer = !tagsEqual(sourceModuleFull.Tags, targetModuleFull.Tags);
 
-      if (contentDiffers || descriptionDiffers || tagsDiffer) {
+      if (contentDiffers || nameDiffers || descriptionDiffers || tagsDiffer) {
         sourceModuleDetails.set(moduleSummary.Id!, sourceModuleFull);
         targetModuleDetails.set(targetModule.Id!, targetModuleFull);
         modulesToValidate.push(moduleSummary);
         modulesToUpdateList.push(targetModule);
+        if (contentDiffers) moduleContentDiffs[targetModule.Name!] = contentDiff!;
+        if (applied.length > 0) moduleSubstitutions[targetModule.Name!] = applied;
+        recordArnSubstitutions(moduleArnSubstitutions, targetModule.Name!, sourceModuleFull.Content!);
         if (cliFlags.verbose) {
           const reasons = [];
           if (contentDiffers) reasons.push("content");
+          if (nameDiffers) reasons.push("name");
           if (descriptionDiffers) reasons.push("description");
           if (tagsDiffer) reasons.push("tags");
-          console.log(`  ${moduleName}: Update (${reasons.join(", ")} differs)`);
+          log(`  ${moduleName}: Update (${reasons.join(", ")} differs)`);
+          if (contentDiffers) formatFlowContentDiff(moduleContentDiffs[targetModule.Name!]!).forEach(line => log(line));
         }
       } else {
         modulesToSkipList.push(targetModule);
         if (cliFlags.verbose) {
-          console.log(`  ${moduleName}: Skip (content matches)`);
+          log(`  ${moduleName}: Skip (${cosmeticOnly ? "cosmetic changes only" : "content matches"})`);
         }
       }
     }
 
-    console.log(`\nComparison summary:`);
-    console.log(`  Flows: ${flowsToCreateList.length} create, ${flowsToUpdateList.length} update, ${flowsToSkipList.length} skip`);
-    console.log(`  Modules: ${modulesToCreateList.length} create, ${modulesToUpdateList.length} update, ${modulesToSkipList.length} skip`);
+    log(`\nComparison summary:`);
+    log(`  Flows: ${flowsToCreateList.length} create, ${flowsToUpdateList.length} update, ${flowsToSkipList.length} skip`);
+    log(`  Modules: ${modulesToCreateList.length} create, ${modulesToUpdateList.length} update, ${modulesToSkipList.length} skip`);
 
-    console.log("\n" + "=".repeat(50));
-    console.log("Flow Dependency Validation");
-    console.log("=".repeat(50) + "\n");
+    const substitutionCount = [...Object.values(flowSubstitutions), ...Object.values(moduleSubstitutions)].reduce((sum, applied) => sum + applied.length, 0);
+    if (substitutionCount > 0) {
+      log(`  Content substitutions: ${substitutionCount} in ${Object.keys(flowSubstitutions).length} flows, ${Object.keys(moduleSubstitutions).length} modules`);
+    }
+
+    log("\n" + "=".repeat(50));
+    log("Flow Dependency Validation");
+    log("=".repeat(50) + "\n");
 
     const validationResult = validateFlowDependencies(
       sourceInventory,
       targetInventory,
+      resourceMappings,
       flowsToValidate,
       modulesToValidate,
       sourceFlowDetails,
       sourceModuleDetails,
       targetFlowDetails,
       targetModuleDetails,
-      cliFlags.verbose
+      sourceFlowDrafts,
+      targetFlowDrafts,
+      cliFlags.verbose,
+      options.strictReferences ?? false
     );
 
+    validationResult.warnings.push(...flowVersions.warnings);
+
+    const filteredFlowNames = new Set(sourceFlowsToCopy.map(f => f.Name!));
+    for (const name of Object.keys(sourceConfig.sourceFlowVersions ?? {})) {
+      if (!filteredFlowNames.has(name)) log(`[WARN] sourceFlowVersions names a flow that is not being copied: ${name}`);
+    }
+
     displayValidationReport(validationResult);
 
     return {
@@ -346,6 +520,13 @@ export async function compareAndValidateFlows(sourceClient: any, targetClient: a
       modulesToCreateList,
       modulesToUpdateList,
       modulesToSkipList,
+      flowContentDiffs,
+      moduleContentDiffs,
+      flowSubstitutions,
+      moduleSubstitutions,
+      flowArnSubstitutions,
+      moduleArnSubstitutions,
+      flowVersionMappings: flowVersions.mappings,
       validationResult
     };
 }
@@ -353,102 +534,244 @@ export async function compareAndValidateFlows(sourceClient: any, targetClient: a
 
 const REPORT_RESOURCE_NAMES = [
   "hours-of-operation", "agent-statuses", "hierarchy-groups", "security-profiles",
-  "queues", "routing-profiles", "quick-connects", "views", "flows"
+  "queues", "routing-profiles", "quick-connects", "views", "prompts", "flows",
+  "phone-numbers"
 ];
 
 
 export async function runReport(options: ReportOptions) {
-  const { sourceClient, targetClient, sourceConfig, targetConfig, sourceInventory, targetInventory } = await setupInstanceComparison(
+  if (options.output !== "text" && options.output !== "json") {
+    console.error(`Unknown --output format: ${options.output} (valid values: text, json)`);
+    process.exit(1);
+  }
+
+  if (options.outputFile && options.output !== "json") {
+    console.error("--output-file requires --output json");
+    process.exit(1);
+  }
+
+  if (options.savePlan && options.resourcesOnly) {
+    console.error("--save-plan cannot be combined with --resources-only");
+    process.exit(1);
+  }
+
+  const jsonOutput = options.output === "json";
+
+  // The JSON document owns stdout; progress and validation text move to stderr
+  setLogToStderr(jsonOutput && !options.outputFile);
+
+  try {
+    await reportInstances(options, jsonOutput);
+  } finally {
+    setLogToStderr(false);
+  }
+}
+
+
+async function reportInstances(options: ReportOptions, jsonOutput: boolean) {
+  const setup = await setupInstanceComparison(
     options.sourceConfig,
     options.targetConfig,
     options.sourceProfile,
-    options.targetProfile
+    options.targetProfile,
+    options.sourceSnapshot
   );
+  const { sourceClient, targetClient, sourceConfig, targetConfig, sourceInventory, targetInventory } = setup;
+
+  const resourceMappings = await buildAllResourceMappings({ sourceClient, targetClient, identity: sourceConfig.identity, nameRules: sourceConfig.nameRules }, sourceInventory, targetInventory);
+  reportResourceDifferences(resourceMappings);
 
-  reportResourceDifferences(sourceInventory, targetInventory);
+  const missingResources = resourceMappings.missingResources;
+  const document = createReportDocument(sourceConfig, targetConfig, missingResources);
 
-  if (options.resourcesOnly) return;
+  if (options.resourcesOnly) {
+    if (jsonOutput) await writeReportDocument(document, options.outputFile);
+    return;
+  }
 
   const skipSet = parseReportSkipList(options.skip);
+  const pruneList = parsePruneList(options.prune, skipSet);
+
+  const flowResult = await addComparisonSections(document, setup, options, skipSet, pruneList, { banners: true, plans: !jsonOutput });
+
+  if (jsonOutput) await writeReportDocument(document, options.outputFile);
+
+  if (options.savePlan) {
+    const plan = buildPlan(document, flowResult, options);
+    if (!document.summary.valid) log("\n[WARN] Plan contains validation failures; copy --plan will refuse it until they are fixed");
+
+    await writePlan(plan, options.savePlan);
+  }
+}
+
+
+/**
+ * Run every comparison not skipped, and each requested prune comparison, adding their sections to
+ * the document. Returns the flow comparison, which a plan needs in full.
+ */
+async function addComparisonSections(document: ReportDocument, setup: SetupResult, options: ReportComparisonOptions, skipSet: Set<string>, pruneList: string[], display: { banners: boolean; plans: boolean }): Promise<FlowComparisonResult | undefined> {
+  const { sourceClient, targetClient, sourceConfig, targetConfig, sourceInventory, targetInventory } = setup;
 
   const baseConfig: ResourceComparisonConfig = {
     sourceClient,
     targetClient,
     sourceInstanceId: sourceConfig.instanceId,
     targetInstanceId: targetConfig.instanceId,
-    filterConfig: undefined
+    filterConfig: undefined,
+    identity: sourceConfig.identity,
+    nameRules: sourceConfig.nameRules
   };
 
   if (!skipSet.has("hours-of-operation")) {
-    console.log(`\n${"=".repeat(60)}`);
-    console.log("  hours-of-operation");
-    console.log(`${"=".repeat(60)}`);
+    if (display.banners) printReportBanner("hours-of-operation");
     const result = await compareHoursOfOperations({ ...baseConfig, filterConfig: sourceConfig.hoursFilters });
-    displayHoursOfOperationPlan(result, cliFlags.verbose);
+    addResourceSection(document, "hours-of-operation", hoursOfOperationSection(result));
+    if (display.plans) displayHoursOfOperationPlan(result, cliFlags.verbose);
   }
 
   if (!skipSet.has("agent-statuses")) {
-    console.log(`\n${"=".repeat(60)}`);
-    console.log("  agent-statuses");
-    console.log(`${"=".repeat(60)}`);
+    if (display.banners) printReportBanner("agent-statuses");
     const result = await compareAgentStatuses({ ...baseConfig, filterConfig: sourceConfig.agentStatusFilters });
-    displayAgentStatusPlan(result, cliFlags.verbose);
+    addResourceSection(document, "agent-statuses", agentStatusSection(result));
+    if (display.plans) displayAgentStatusPlan(result, cliFlags.verbose);
   }
 
   if (!skipSet.has("hierarchy-groups")) {
-    console.log(`\n${"=".repeat(60)}`);
-    console.log("  hierarchy-groups");
-    console.log(`${"=".repeat(60)}`);
+    if (display.banners) printReportBanner("hierarchy-groups");
     const result = await compareHierarchyGroups({ ...baseConfig, filterConfig: sourceConfig.hierarchyGroupFilters }, options.forceHierarchyRecreate, options.forceStructureUpdate);
-    displayHierarchyGroupPlan(result, cliFlags.verbose);
+    addResourceSection(document, "hierarchy-groups", hierarchyGroupSection(result));
+    if (display.plans) displayHierarchyGroupPlan(result, cliFlags.verbose);
   }
 
   if (!skipSet.has("security-profiles")) {
-    console.log(`\n${"=".repeat(60)}`);
-    console.log("  security-profiles");
-    console.log(`${"=".repeat(60)}`);
+    if (display.banners) printReportBanner("security-profiles");
     const result = await compareSecurityProfiles({ ...baseConfig, filterConfig: sourceConfig.securityProfileFilters });
-    displaySecurityProfilePlan(result, cliFlags.verbose);
+    addResourceSection(document, "security-profiles", securityProfileSection(result));
+    if (display.plans) displaySecurityProfilePlan(result, cliFlags.verbose);
   }
 
   if (!skipSet.has("queues")) {
-    console.log(`\n${"=".repeat(60)}`);
-    console.log("  queues");
-    console.log(`${"=".repeat(60)}`);
+    if (display.banners) printReportBanner("queues");
     const result = await compareQueues(
       { ...baseConfig, filterConfig: sourceConfig.queueFilters },
-      { skipOutboundFlow: options.skipOutboundFlow, phoneNumberMappings: sourceConfig.phoneNumberMappings }
+      { skipOutboundFlow: options.skipOutboundFlow, phoneNumberMappings: sourceConfig.phoneNumberMappings, phoneNumberMatchBy: sourceConfig.phoneNumberMatchBy }
     );
-    displayQueuePlan(result, cliFlags.verbose, options.skipOutboundFlow);
+    addResourceSection(document, "queues", queueSection(result));
+    if (display.plans) displayQueuePlan(result, cliFlags.verbose, options.skipOutboundFlow);
   }
 
   if (!skipSet.has("routing-profiles")) {
-    console.log(`\n${"=".repeat(60)}`);
-    console.log("  routing-profiles");
-    console.log(`${"=".repeat(60)}`);
+    if (display.banners) printReportBanner("routing-profiles");
     const result = await compareRoutingProfiles({ ...baseConfig, filterConfig: sourceConfig.routingProfileFilters });
-    displayRoutingProfilePlan(result, cliFlags.verbose);
+    addResourceSection(document, "routing-profiles", routingProfileSection(result));
+    if (display.plans) displayRoutingProfilePlan(result, cliFlags.verbose);
   }
 
   if (!skipSet.has("quick-connects")) {
-    console.log(`\n${"=".repeat(60)}`);
-    console.log("  quick-connects");
-    console.log(`${"=".repeat(60)}`);
+    if (display.banners) printReportBanner("quick-connects");
     const result = await compareQuickConnects({ ...baseConfig, filterConfig: sourceConfig.quickConnectFilters });
-    displayQuickConnectPlan(result, cliFlags.verbose);
+    addResourceSection(document, "quick-connects", quickConnectSection(result));
+    if (display.plans) displayQuickConnectPlan(result, cliFlags.verbose);
   }
 
   if (!skipSet.has("views")) {
-    console.log(`\n${"=".repeat(60)}`);
-    console.log("  views");
-    console.log(`${"=".repeat(60)}`);
+    if (display.banners) printReportBanner("views");
     const result = await compareViews({ ...baseConfig, filterConfig: sourceConfig.viewFilters });
-    displayViewPlan(result, cliFlags.verbose);
+    addResourceSection(document, "views", viewSection(result));
+    if (display.plans) displayViewPlan(result, cliFlags.verbose);
   }
 
+  if (!skipSet.has("prompts")) {
+    if (display.banners) printReportBanner("prompts");
+
+    if (options.sourceSnapshot) {
+      if (display.banners) log("\nPrompt audio is not included in snapshots - skipping prompts");
+    } else {
+      const result = await comparePrompts({ ...baseConfig, filterConfig: sourceConfig.promptFilters });
+      addResourceSection(document, "prompts", promptSection(result));
+      if (display.plans) displayPromptPlan(result, cliFlags.verbose);
+    }
+  }
+
+  let flowResult: FlowComparisonResult | undefined;
+
   if (!skipSet.has("flows")) {
-    await compareAndValidateFlows(sourceClient, targetClient, sourceConfig, targetConfig, sourceInventory, targetInventory);
+    flowResult = await compareAndValidateFlows(sourceClient, targetClient, sourceConfig, targetConfig, sourceInventory, targetInventory, {
+      flowComparison: options.flowComparison,
+      includeSaved: options.includeSaved,
+      strictReferences: options.strictReferences
+    });
+    addFlowSection(document, flowResult);
   }
+
+  if (!skipSet.has("phone-numbers")) {
+    if (display.banners) printReportBanner("phone-numbers");
+
+    if (options.sourceSnapshot) {
+      if (display.banners) log("\nFlow associations are not included in snapshots - skipping phone numbers");
+    } else {
+      const result = await comparePhoneNumbers(
+        { ...baseConfig, filterConfig: sourceConfig.phoneNumberFilters },
+        { phoneNumberMappings: sourceConfig.phoneNumberMappings, phoneNumberMatchBy: sourceConfig.phoneNumberMatchBy }
+      );
+      addResourceSection(document, "phone-numbers", phoneNumberSection(result));
+      if (display.plans) displayPhoneNumberPlan(result, cliFlags.verbose);
+    }
+  }
+
+  // Pruning runs after every copy step, in reverse dependency order, so it is reported last
+  for (const resourceName of pruneList) {
+    if (display.banners) printReportBanner(`prune ${resourceName}`);
+
+    for (const sectionName of pruneSectionNames(resourceName)) {
+      const actions = await comparePrune(sectionName, baseConfig, sourceConfig);
+      addPruneSection(document, sectionName, actions);
+      if (display.plans) displayPrunePlan(sectionName, actions, cliFlags.verbose);
+    }
+  }
+
+  return flowResult;
+}
+
+
+function buildPlan(document: ReportDocument, flowResult: FlowComparisonResult | undefined, options: PlanOptions): CopyPlan {
+  const plan = createPlan(document, {
+    skip: options.skip,
+    skipOutboundFlow: options.skipOutboundFlow,
+    forceHierarchyRecreate: options.forceHierarchyRecreate,
+    forceStructureUpdate: options.forceStructureUpdate,
+    flowComparison: options.flowComparison,
+    includeSaved: options.includeSaved,
+    strictReferences: options.strictReferences,
+    prune: options.prune
+  });
+
+  if (flowResult) plan.flows = buildFlowPlanStep(flowResult);
+  return plan;
+}
+
+
+/**
+ * Re-run the comparisons behind a saved plan against both instances as they are now and build the
+ * plan they would produce, without displaying it. copy --plan checks it against the approved plan
+ * before making any change.
+ */
+export async function buildCurrentPlan(options: PlanOptions & Pick<ReportOptions, "sourceConfig" | "targetConfig" | "sourceProfile" | "sourceSnapshot" | "targetProfile">) {
+  const setup = await setupInstanceComparison(options.sourceConfig, options.targetConfig, options.sourceProfile, options.targetProfile, options.sourceSnapshot);
+
+  // Missing resources are reported, not planned
+  const document = createReportDocument(setup.sourceConfig, setup.targetConfig, []);
+  const skipSet = parseReportSkipList(options.skip);
+  const flowResult = await addComparisonSections(document, setup, options, skipSet, parsePruneList(options.prune, skipSet), { banners: false, plans: false });
+
+  return { plan: buildPlan(document, flowResult, options), valid: document.summary.valid, sourceConfig: setup.sourceConfig, targetConfig: setup.targetConfig };
+}
+
+
+function printReportBanner(resourceName: string) {
+  log(`\n${"=".repeat(60)}`);
+  log(`  ${resourceName}`);
+  log(`${"=".repeat(60)}`);
 }
 
 
@@ -468,20 +791,18 @@ function parseReportSkipList(skip: string): Set<string> {
 }
 
 
-export function reportResourceDifferences(sourceInventory: InstanceInventory, targetInventory: InstanceInventory): boolean {
-  const mappings = buildAllResourceMappings(sourceInventory, targetInventory);
-
+export function reportResourceDifferences(mappings: ResourceMappings): boolean {
   if (mappings.missingResources.length === 0) {
-    console.log("\n" + "=".repeat(50));
-    console.log("Resource Inventory Comparison");
-    console.log("=".repeat(50) + "\n");
-    console.log("✓ All resources from source exist in target!\n");
+    log("\n" + "=".repeat(50));
+    log("Resource Inventory Comparison");
+    log("=".repeat(50) + "\n");
+    log("✓ All resources from source exist in target!\n");
     return false;
   }
 
-  console.log("\n" + "=".repeat(50));
-  console.log("Resource Inventory Comparison");
-  console.log("=".repeat(50) + "\n");
+  log("\n" + "=".repeat(50));
+  log("Resource Inventory Comparison");
+  log("=".repeat(50) + "\n");
 
   const allResourceTypes = [
     "Flow",
@@ -522,44 +843,44 @@ export function reportResourceDifferences(sourceInventory: InstanceInventory, ta
   };
 
   if (hasMissing.length > 0) {
-    console.log("❌ Missing Resources:");
-    console.log("===================\n");
+    log("❌ Missing Resources:");
+    log("===================\n");
 
     for (const type of hasMissing) {
       const names = byType.get(type)!;
-      console.log(`${pluralize(type)} (${names.length} missing):`);
+      log(`${pluralize(type)} (${names.length} missing):`);
       for (const name of names) {
-        console.log(`  - ${name}`);
+        log(`  - ${name}`);
       }
-      console.log();
+      log();
     }
   }
 
   if (noMissing.length > 0) {
-    console.log("✓ Resources Present:");
-    console.log("===================\n");
+    log("✓ Resources Present:");
+    log("===================\n");
 
     for (const type of noMissing) {
-      console.log(`${pluralize(type)} (0 missing)`);
+      log(`${pluralize(type)} (0 missing)`);
     }
-    console.log();
+    log();
   }
 
-  console.log(`Total: ${mappings.missingResources.length} resources in source but not in target\n`);
+  log(`Total: ${mappings.missingResources.length} resources in source but not in target\n`);
   return true;
 }
 
 
 export function displayValidationReport(result: ValidationResult) {
-  console.log("\nValidation Summary:");
-  console.log(`  Flows to copy: ${result.sourceFlowsToCopy.length}`);
-  console.log(`  Modules to copy: ${result.sourceModulesToCopy.length}`);
-  console.log(`  Validation errors: ${result.errors.length}`);
-  console.log(`  Validation warnings: ${result.warnings.length}`);
+  log("\nValidation Summary:");
+  log(`  Flows to copy: ${result.sourceFlowsToCopy.length}`);
+  log(`  Modules to copy: ${result.sourceModulesToCopy.length}`);
+  log(`  Validation errors: ${result.errors.length}`);
+  log(`  Validation warnings: ${result.warnings.length}`);
 
   if (result.errors.length > 0) {
-    console.log("\n❌ Validation Errors:");
-    console.log("===================\n");
+    log("\n❌ Validation Errors:");
+    log("===================\n");
 
     const errorsByCategory = new Map<string, typeof result.errors>();
     for (const error of result.errors) {
@@ -569,31 +890,31 @@ export function displayValidationReport(result: ValidationResult) {
     }
 
     for (const [category, errors] of errorsByCategory) {
-      console.log(`${category} (${errors.length}):`);
+      log(`${category} (${errors.length}):`);
       for (const error of errors) {
-        console.log(`  - ${error.message}`);
-        console.log(`    Referenced by: ${error.referencedBy}`);
+        log(`  - ${error.message}`);
+        log(`    Referenced by: ${error.referencedBy}`);
       }
-      console.log();
+      log();
     }
   }
 
   if (result.warnings.length > 0) {
-    console.log("\n⚠️  Warnings:");
-    console.log("===========\n");
+    log("\n⚠️  Warnings:");
+    log("===========\n");
     for (const warning of result.warnings) {
-      console.log(`  - ${warning.message}`);
+      log(`  - ${warning.message}`);
       if (warning.details) {
-        console.log(`    ${warning.details}`);
+        log(`    ${warning.details}`);
       }
     }
-    console.log();
+    log();
   }
 
   if (result.errors.length === 0) {
-    console.log("\n✓ Flow validation passed - all dependencies satisfied\n");
+    log("\n✓ Flow validation passed - all dependencies satisfied\n");
   } else {
-    console.log("\n✗ Flow validation failed - dependencies must be resolved before copying\n");
+    log("\n✗ Flow validation failed - dependencies must be resolved before copying\n");
   }
 }
 
@@ -2,26 +2,32 @@
 import * as AwsUtil from "../../utils/aws-utils.js";
 import * as CliUtil from "../../utils/cli-utils.js";
 import { createConnectClient } from "../../connect/client.js";
+import { planStepActions } from "../../plan.js";
+import { agentStatusSection } from "../../report-output.js";
+import { backupSection } from "../../backup.js";
 import { compareAgentStatuses, displayAgentStatusPlan, getAgentStatusDiff } from "./report.js";
 import { createAgentStatus, updateAgentStatus } from "./operations.js";
 
 import type { ConnectClient } from "@aws-sdk/client-connect";
 import type { AgentStatusComparisonResult, AgentStatusAction } from "./report.js";
+import type { CopyPlan } from "../../plan.js";
 
 
 export interface CopyAgentStatusesOptions {
   sourceConfig: string;
   targetConfig: string;
-  sourceProfile: string;
+  sourceProfile?: string | undefined;
+  sourceSnapshot?: string | undefined;
   targetProfile: string;
   verbose: boolean;
+  approvedPlan?: CopyPlan | undefined;
 }
 
 
 export async function copyAgentStatuses(options: CopyAgentStatusesOptions) {
   const config = await CliUtil.loadConfigs(options);
 
-  const sourceClient = createConnectClient(config.source.region, options.sourceProfile);
+  const sourceClient = await CliUtil.createSourceClient(config.source, options);
   const targetClient = createConnectClient(config.target.region, options.targetProfile);
 
   console.log("\nAnalyzing agent status differences...");
@@ -30,9 +36,13 @@ export async function copyAgentStatuses(options: CopyAgentStatusesOptions) {
     targetClient,
     sourceInstanceId: config.source.instanceId,
     targetInstanceId: config.target.instanceId,
-    filterConfig: config.source.agentStatusFilters
+    filterConfig: config.source.agentStatusFilters,
+    identity: config.source.identity,
+    nameRules: config.source.nameRules
   });
 
+  if (options.approvedPlan) comparisonResult.actions = planStepActions(options.approvedPlan, "agent-statuses", comparisonResult.actions, agentStatusSection(comparisonResult), config);
+
   displayAgentStatusPlan(comparisonResult, options.verbose);
 
   const toCreate = comparisonResult.actions.filter(a => a.action === "create");
@@ -53,6 +63,8 @@ export async function copyAgentStatuses(options: CopyAgentStatusesOptions) {
     return;
   }
 
+  await backupSection(config.target, "agent-statuses", agentStatusSection(comparisonResult));
+
   console.log("\nCopying agent statuses...");
   await executeAgentStatusCopy(targetClient, config.target.instanceId, comparisonResult, options.verbose);
 }
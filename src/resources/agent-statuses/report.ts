@@ -1,8 +1,11 @@
 
 import * as CliUtil from "../../utils/cli-utils.js";
+import { mapConcurrent } from "../../utils/concurrency-utils.js";
 import { listAgentStatuses } from "../../connect/resources.js";
 import { matchesFlowFilters } from "../../filters.js";
+import { matchResources, withTargetName } from "../../identity.js";
 import { describeAgentStatus } from "./operations.js";
+import { log } from "../../utils/log-utils.js";
 
 import type { AgentStatusSummary, AgentStatus } from "@aws-sdk/client-connect";
 
@@ -45,20 +48,17 @@ export async function compareAgentStatuses(config: CliUtil.ResourceComparisonCon
     );
   }
 
-  const targetStatusesByName = Object.fromEntries(targetStatuses.map(s => [s.Name, s]));
-  const actions: AgentStatusAction[] = [];
-
-  for (const sourceSummary of filteredSourceStatuses) {
-    const sourceStatus = await describeAgentStatus(sourceClient, sourceInstanceId, sourceSummary.Id!);
-    const targetSummary = targetStatusesByName[sourceSummary.Name!];
+  const targetMatches = await matchResources(config, "agent-statuses", filteredSourceStatuses, targetStatuses);
+  const actions = await mapConcurrent(filteredSourceStatuses, async (sourceSummary): Promise<AgentStatusAction> => {
+    const sourceStatus = withTargetName(config, "agent-statuses", await describeAgentStatus(sourceClient, sourceInstanceId, sourceSummary.Id!));
+    const targetSummary = targetMatches.get(sourceSummary.Id!);
 
     if (!targetSummary) {
-      actions.push({
+      return {
         statusName: sourceSummary.Name!,
         action: "create",
         sourceStatus
-      });
-      continue;
+      };
     }
 
     const targetStatus = await describeAgentStatus(targetClient, targetInstanceId, targetSummary.Id!);
@@ -71,21 +71,22 @@ export async function compareAgentStatuses(config: CliUtil.ResourceComparisonCon
       : !tagsMatch ? "update_tags"
       : "skip";
 
-    actions.push({
+    return {
       statusName: sourceSummary.Name!,
       action: actionType,
       sourceStatus,
       targetStatus,
-      targetStatusId: targetSummary.Id,
-      targetStatusArn: targetSummary.Arn
-    });
-  }
+      targetStatusId: targetSummary.Id!,
+      targetStatusArn: targetSummary.Arn!
+    };
+  }, "Describing agent statuses");
 
   return { actions, statuses: filteredSourceStatuses };
 }
 
 
 function agentStatusContentMatches(source: AgentStatus, target: AgentStatus): boolean {
+  if (source.Name !== target.Name) return false;
   if (source.State !== target.State) return false;
   if (source.Description !== target.Description) return false;
 
@@ -102,6 +103,10 @@ function agentStatusContentMatches(source: AgentStatus, target: AgentStatus): bo
 export function getAgentStatusDiff(source: AgentStatus, target: AgentStatus): string[] {
   const diffs: string[] = [];
 
+  if (source.Name !== target.Name) {
+    diffs.push(`Name: ${target.Name} → ${source.Name}`);
+  }
+
   if (source.State !== target.State) {
     diffs.push(`State: ${target.State} → ${source.State}`);
   }
@@ -126,77 +131,77 @@ export function displayAgentStatusPlan(result: AgentStatusComparisonResult, verb
   const toUpdateTags = result.actions.filter(a => a.action === "update_tags");
   const toSkip = result.actions.filter(a => a.action === "skip");
 
-  console.log(`\nSummary:`);
-  console.log(`  Agent statuses to create: ${toCreate.length}`);
-  console.log(`  Agent statuses to update (all): ${toUpdateAll.length}`);
-  console.log(`  Agent statuses to update (data only): ${toUpdateData.length}`);
-  console.log(`  Agent statuses to update (tags only): ${toUpdateTags.length}`);
-  console.log(`  Agent statuses to skip (identical): ${toSkip.length}`);
-  console.log(`  Total processed: ${result.statuses.length}`);
+  log(`\nSummary:`);
+  log(`  Agent statuses to create: ${toCreate.length}`);
+  log(`  Agent statuses to update (all): ${toUpdateAll.length}`);
+  log(`  Agent statuses to update (data only): ${toUpdateData.length}`);
+  log(`  Agent statuses to update (tags only): ${toUpdateTags.length}`);
+  log(`  Agent statuses to skip (identical): ${toSkip.length}`);
+  log(`  Total processed: ${result.statuses.length}`);
 
   if (toCreate.length > 0) {
-    console.log(`\nAgent statuses to create:`);
+    log(`\nAgent statuses to create:`);
     for (const action of toCreate) {
-      console.log(`  - ${action.statusName}`);
+      log(`  - ${action.statusName}`);
       if (verbose) {
         const status = action.sourceStatus;
-        console.log(`      State: ${status.State}`);
-        if (status.Description) console.log(`      Description: ${status.Description}`);
+        log(`      State: ${status.State}`);
+        if (status.Description) log(`      Description: ${status.Description}`);
         if (status.State === "ENABLED" && status.DisplayOrder !== undefined) {
-          console.log(`      DisplayOrder: ${status.DisplayOrder}`);
+          log(`      DisplayOrder: ${status.DisplayOrder}`);
         }
         if (status.Tags && Object.keys(status.Tags).length > 0) {
-          console.log(`      Tags: ${Object.entries(status.Tags).map(([k, v]) => `${k}=${v}`).join(", ")}`);
+          log(`      Tags: ${Object.entries(status.Tags).map(([k, v]) => `${k}=${v}`).join(", ")}`);
         }
       }
     }
   }
 
   if (toUpdateAll.length > 0) {
-    console.log(`\nAgent statuses to update (all):`);
+    log(`\nAgent statuses to update (all):`);
     for (const action of toUpdateAll) {
-      console.log(`  - ${action.statusName}`);
+      log(`  - ${action.statusName}`);
       if (verbose && action.targetStatus) {
         const diffs = getAgentStatusDiff(action.sourceStatus, action.targetStatus);
         for (const diff of diffs) {
-          console.log(`      ${diff}`);
+          log(`      ${diff}`);
         }
         const { toAdd, toRemove } = CliUtil.getRecordDiff(action.sourceStatus.Tags, action.targetStatus.Tags);
-        if (Object.keys(toAdd).length) console.log(`      Tags to add: ${Object.entries(toAdd).map(([k, v]) => `${k}=${v}`).join(", ")}`);
-        if (toRemove.length) console.log(`      Tags to remove: ${toRemove.join(", ")}`);
+        if (Object.keys(toAdd).length) log(`      Tags to add: ${Object.entries(toAdd).map(([k, v]) => `${k}=${v}`).join(", ")}`);
+        if (toRemove.length) log(`      Tags to remove: ${toRemove.join(", ")}`);
       }
     }
   }
 
   if (toUpdateData.length > 0) {
-    console.log(`\nAgent statuses to update (data only):`);
+    log(`\nAgent statuses to update (data only):`);
     for (const action of toUpdateData) {
-      console.log(`  - ${action.statusName}`);
+      log(`  - ${action.statusName}`);
       if (verbose && action.targetStatus) {
         const diffs = getAgentStatusDiff(action.sourceStatus, action.targetStatus);
         for (const diff of diffs) {
-          console.log(`      ${diff}`);
+          log(`      ${diff}`);
         }
       }
     }
   }
 
   if (toUpdateTags.length > 0) {
-    console.log(`\nAgent statuses to update (tags only):`);
+    log(`\nAgent statuses to update (tags only):`);
     for (const action of toUpdateTags) {
-      console.log(`  - ${action.statusName}`);
+      log(`  - ${action.statusName}`);
       if (verbose && action.targetStatus) {
         const { toAdd, toRemove } = CliUtil.getRecordDiff(action.sourceStatus.Tags, action.targetStatus.Tags);
-        if (Object.keys(toAdd).length) console.log(`      Tags to add: ${Object.entries(toAdd).map(([k, v]) => `${k}=${v}`).join(", ")}`);
-        if (toRemove.length) console.log(`      Tags to remove: ${toRemove.join(", ")}`);
+        if (Object.keys(toAdd).length) log(`      Tags to add: ${Object.entries(toAdd).map(([k, v]) => `${k}=${v}`).join(", ")}`);
+        if (toRemove.length) log(`      Tags to remove: ${toRemove.join(", ")}`);
       }
     }
   }
 
   if (toSkip.length > 0 && verbose) {
-    console.log(`\nAgent statuses to skip (identical):`);
+    log(`\nAgent statuses to skip (identical):`);
     for (const action of toSkip) {
-      console.log(`  - ${action.statusName}`);
+      log(`  - ${action.statusName}`);
     }
   }
 }
@@ -2,22 +2,28 @@
 
 import type { ConnectClient } from "@aws-sdk/client-connect";
 import type { HierarchyGroupAction, HierarchyGroupComparisonResult } from "./report.js";
+import type { CopyPlan } from "../../plan.js";
 
 import * as AwsUtil from "../../utils/aws-utils.js";
 import * as CliUtil from "../../utils/cli-utils.js";
 import { createConnectClient } from "../../connect/client.js";
+import { planStepActions } from "../../plan.js";
+import { hierarchyGroupSection } from "../../report-output.js";
+import { backupSection } from "../../backup.js";
 import { compareHierarchyGroups, displayHierarchyGroupPlan, getParentLevel } from "./report.js";
-import { createHierarchyGroup, updateUserHierarchyStructure, deleteHierarchyGroup } from "./operations.js";
+import { createHierarchyGroup, updateHierarchyGroupName, updateUserHierarchyStructure, deleteHierarchyGroup } from "./operations.js";
 
 
 export interface CopyHierarchyGroupsOptions {
   sourceConfig: string;
   targetConfig: string;
-  sourceProfile: string;
+  sourceProfile?: string | undefined;
+  sourceSnapshot?: string | undefined;
   targetProfile: string;
   verbose: boolean;
   forceHierarchyRecreate?: boolean;
   forceStructureUpdate?: boolean;
+  approvedPlan?: CopyPlan | undefined;
 }
 
 
@@ -26,7 +32,8 @@ async function executeHierarchyGroupCopy(targetClient: ConnectClient, targetInst
   const toSkip = result.actions.filter(a => a.action === "skip");
   const toRecreate = result.actions.filter(a => a.action === "recreate");
   const toCreate = result.actions.filter(a => a.action === "create");
-  const toTag = result.actions.filter(a => a.action === "update_tags");
+  const toRename = result.actions.filter(a => a.action === "update_data" || a.action === "update_all");
+  const toTag = result.actions.filter(a => a.action === "update_tags" || a.action === "update_all");
 
   // Delete any items that will be recreated first (reverse level order - children before parents):
   for (const recreateOp of toRecreate.sort((a, b) => +(b.sourceGroup.LevelId ?? 0) - +(a.sourceGroup.LevelId ?? 0))) {
@@ -38,11 +45,11 @@ async function executeHierarchyGroupCopy(targetClient: ConnectClient, targetInst
   const sourceGroupNameToParentName = Object.fromEntries(result.actions
     .map(op => [op.sourceGroup.Name!, getParentLevel(op.sourceGroup)?.Name]));
 
-  // Build mapping of group names to target IDs (for parent references):
-  const nameToTargetId = new Map<string, string>();
+  // Build mapping of source group IDs to target IDs (for parent references; names may differ, see nameRules):
+  const sourceIdToTargetId = new Map<string, string>();
   for (const action of result.actions) {
     if (action.targetGroup && action.action !== "recreate") {
-      nameToTargetId.set(action.sourceGroup.Name!, action.targetGroup.Id!);
+      sourceIdToTargetId.set(action.sourceGroup.Id!, action.targetGroup.Id!);
     }
   }
 
@@ -53,8 +60,8 @@ async function executeHierarchyGroupCopy(targetClient: ConnectClient, targetInst
   for (const createOp of orderedCreates) {
     logGroupCreate(createOp, sourceGroupNameToParentName, verbose);
 
-    const sourceParentName = sourceGroupNameToParentName[createOp.sourceGroup.Name!];
-    const parentGroupId = sourceParentName ? nameToTargetId.get(sourceParentName) : undefined;
+    const sourceParentId = getParentLevel(createOp.sourceGroup)?.Id;
+    const parentGroupId = sourceParentId ? sourceIdToTargetId.get(sourceParentId) : undefined;
 
     const config: { Name: string; ParentGroupId?: string; Tags?: Record<string, string> } = {
       Name: createOp.sourceGroup.Name!
@@ -63,7 +70,12 @@ async function executeHierarchyGroupCopy(targetClient: ConnectClient, targetInst
     if (Object.keys(createOp.sourceGroup.Tags ?? {}).length) config.Tags = createOp.sourceGroup.Tags!;
 
     const createdGroup = await createHierarchyGroup(targetClient, targetInstanceId, config);
-    nameToTargetId.set(createOp.sourceGroup.Name!, createdGroup.id);
+    sourceIdToTargetId.set(createOp.sourceGroup.Id!, createdGroup.id);
+  }
+
+  for (const renameOp of toRename) {
+    console.log(`Renaming hierarchy group: ${renameOp.targetGroup!.Name} → ${renameOp.sourceGroup.Name}`);
+    await updateHierarchyGroupName(targetClient, targetInstanceId, renameOp.targetGroup!.Id!, renameOp.sourceGroup.Name!);
   }
 
   await Promise.all(toTag.map(async tagOp => {
@@ -73,7 +85,7 @@ async function executeHierarchyGroupCopy(targetClient: ConnectClient, targetInst
     await AwsUtil.updateResourceTags(targetClient, tagOp.targetGroup!.Arn!, toAdd, toRemove);
   }));
 
-  console.log(`\nCopy complete: ${toCreate.length} created, ${toTag.length} tag updates, ${toRecreate.length} recreated, ${toSkip.length} skipped`);
+  console.log(`\nCopy complete: ${toCreate.length} created, ${toRename.length} renamed, ${toTag.length} tag updates, ${toRecreate.length} recreated, ${toSkip.length} skipped`);
 }
 
 
@@ -108,7 +120,7 @@ function logTagsUpdate(action: HierarchyGroupAction, verbose: boolean) {
 export async function copyHierarchyGroups(options: CopyHierarchyGroupsOptions) {
   const { source: sourceConfig, target: targetConfig } = await CliUtil.loadConfigs(options);
 
-  const sourceClient = createConnectClient(sourceConfig.region, options.sourceProfile);
+  const sourceClient = await CliUtil.createSourceClient(sourceConfig, options);
   const targetClient = createConnectClient(targetConfig.region, options.targetProfile);
 
   console.log("\nAnalyzing hierarchy group differences...");
@@ -118,12 +130,16 @@ export async function copyHierarchyGroups(options: CopyHierarchyGroupsOptions) {
       targetClient,
       sourceInstanceId: sourceConfig.instanceId,
       targetInstanceId: targetConfig.instanceId,
-      filterConfig: sourceConfig.hierarchyGroupFilters
+      filterConfig: sourceConfig.hierarchyGroupFilters,
+      identity: sourceConfig.identity,
+      nameRules: sourceConfig.nameRules
     },
     options.forceHierarchyRecreate,
     options.forceStructureUpdate
   );
 
+  if (options.approvedPlan) comparisonResult.actions = planStepActions(options.approvedPlan, "hierarchy-groups", comparisonResult.actions, hierarchyGroupSection(comparisonResult), { source: sourceConfig, target: targetConfig });
+
   if (comparisonResult.hierarchyStructure.action === 'create') {
     console.log("\n[INFO] Target hierarchy structure is empty - will copy from source");
     if (options.verbose) {
@@ -180,6 +196,8 @@ export async function copyHierarchyGroups(options: CopyHierarchyGroupsOptions) {
     return;
   }
 
+  await backupSection(targetConfig, "hierarchy-groups", hierarchyGroupSection(comparisonResult));
+
   if (needsStructureUpdate) {
     if (comparisonResult.hierarchyStructure.action === 'create') {
       console.log("\nTarget hierarchy structure is empty - copying from source...");
@@ -1,5 +1,5 @@
 
-import { DescribeUserHierarchyGroupCommand, CreateUserHierarchyGroupCommand, DescribeUserHierarchyStructureCommand, UpdateUserHierarchyStructureCommand, DeleteUserHierarchyGroupCommand } from "@aws-sdk/client-connect";
+import { DescribeUserHierarchyGroupCommand, CreateUserHierarchyGroupCommand, UpdateUserHierarchyGroupNameCommand, DescribeUserHierarchyStructureCommand, UpdateUserHierarchyStructureCommand, DeleteUserHierarchyGroupCommand } from "@aws-sdk/client-connect";
 
 import type { ConnectClient, HierarchyGroup, HierarchyStructure } from "@aws-sdk/client-connect";
 
@@ -52,6 +52,15 @@ export async function createHierarchyGroup(client: ConnectClient, instanceId: st
 }
 
 
+export async function updateHierarchyGroupName(client: ConnectClient, instanceId: string, groupId: string, name: string): Promise<void> {
+  await client.send(new UpdateUserHierarchyGroupNameCommand({
+    InstanceId: instanceId,
+    HierarchyGroupId: groupId,
+    Name: name
+  }));
+}
+
+
 export async function deleteHierarchyGroup(client: ConnectClient, instanceId: string, groupId: string): Promise<void> {
   await client.send(new DeleteUserHierarchyGroupCommand({
     InstanceId: instanceId,
@@ -1,15 +1,18 @@
 
 import * as CliUtil from "../../utils/cli-utils.js";
+import { mapConcurrent } from "../../utils/concurrency-utils.js";
 
 import { listUserHierarchyGroups } from "../../connect/resources.js";
 import { matchesFlowFilters } from "../../filters.js";
+import { matchResources, withTargetName } from "../../identity.js";
 import { describeHierarchyGroup, describeUserHierarchyStructure } from "./operations.js";
+import { log } from "../../utils/log-utils.js";
 
 import type { HierarchyGroupSummary, HierarchyGroup, HierarchyStructure } from "@aws-sdk/client-connect";
 
 
 export interface HierarchyGroupAction {
-  action: 'create' | 'update_tags' | 'recreate' | 'skip';
+  action: 'create' | 'update_all' | 'update_data' | 'update_tags' | 'recreate' | 'skip';
 
   sourceGroup: HierarchyGroup;
   targetGroup?: HierarchyGroup;
@@ -49,17 +52,17 @@ export async function compareHierarchyGroups(config: CliUtil.ResourceComparisonC
 
   const filteredSourceGroups = sourceGroups.filter(group => matchesFlowFilters(group.Name!, filterConfig));
 
-  const filteredSourceGroupData = await Promise.all(filteredSourceGroups.map(group => describeHierarchyGroup(sourceClient, sourceInstanceId, group.Id!)));
+  const filteredSourceGroupData = await mapConcurrent(filteredSourceGroups, async group => withTargetName(config, "hierarchy-groups", await describeHierarchyGroup(sourceClient, sourceInstanceId, group.Id!)), "Describing hierarchy groups");
   const filteredSourceGroupsById = Object.fromEntries(filteredSourceGroupData.map(data => [data.Id, data]));
   const orphanedSourceGroups = filteredSourceGroupData
     .sort((g1, g2) => +(g1.LevelId ?? 0) - +(g2.LevelId ?? 0))
     .filter(group => group.LevelId !== "1" && !filteredSourceGroupsById[getParentLevel(group)?.Id!]);
 
   if (orphanedSourceGroups.length > 0) {
-    console.log("\n⚠️  Warning: Invalid filter configuration\n");
-    console.log("The following groups cannot be copied because their parents are excluded:\n");
-    orphanedSourceGroups.forEach(group => console.log(`  - "${group.Name}": parent "${getParentLevel(group)?.Name}" is excluded`));
-    console.log("\nPlease adjust your filters to include parent groups.\n");
+    log("\n⚠️  Warning: Invalid filter configuration\n");
+    log("The following groups cannot be copied because their parents are excluded:\n");
+    orphanedSourceGroups.forEach(group => log(`  - "${group.Name}": parent "${getParentLevel(group)?.Name}" is excluded`));
+    log("\nPlease adjust your filters to include parent groups.\n");
 
     return {
       actions: [],
@@ -69,38 +72,39 @@ export async function compareHierarchyGroups(config: CliUtil.ResourceComparisonC
     };
   }
 
-  const targetGroupsByName: Record<string, typeof targetGroups[0]> = Object.fromEntries(targetGroups
-    .filter(g => g.Name)
-    .map(g => [g.Name, g]));
+  const targetMatches = await matchResources(config, "hierarchy-groups", filteredSourceGroups, targetGroups);
 
   const groupMapping = Object.fromEntries(filteredSourceGroups
     .map(group => [group.Id!, {
       name: group.Name!,
-      targetId: targetGroupsByName[group.Name!]?.Id
+      targetId: targetMatches.get(group.Id!)?.Id
     }]));
 
   const createActions = filteredSourceGroupData
-    .filter(sourceGroup => !targetGroupsByName[sourceGroup.Name!])
+    .filter(sourceGroup => !targetMatches.has(sourceGroup.Id!))
     .map(sourceGroup => ({
       action: 'create' as const,
       groupName: sourceGroup.Name!,
       sourceGroup
     }));
 
-  const compareActions = await Promise.all(filteredSourceGroupData
-    .filter(sourceGroup => targetGroupsByName[sourceGroup.Name!])
-    .map(async (sourceGroup) => {
-      const targetGroup = await describeHierarchyGroup(targetClient, targetInstanceId, targetGroupsByName[sourceGroup.Name!]!.Id!);
+  const compareActions = await mapConcurrent(filteredSourceGroupData.filter(sourceGroup => targetMatches.has(sourceGroup.Id!)), async (sourceGroup) => {
+    const targetGroup = await describeHierarchyGroup(targetClient, targetInstanceId, targetMatches.get(sourceGroup.Id!)!.Id!);
 
-      const tagsMatch = CliUtil.recordsMatch(sourceGroup.Tags, targetGroup.Tags);
-      const parentsMatch = getParentLevel(sourceGroup)?.Name === getParentLevel(targetGroup)?.Name;
+    const namesMatch = sourceGroup.Name === targetGroup.Name;
+    const tagsMatch = CliUtil.recordsMatch(sourceGroup.Tags, targetGroup.Tags);
+    // Parents are compared through the identity mapping, so a renamed parent is still the same parent
+    const sourceParentId = getParentLevel(sourceGroup)?.Id;
+    const parentsMatch = sourceParentId ? groupMapping[sourceParentId]?.targetId === getParentLevel(targetGroup)?.Id : !getParentLevel(targetGroup);
 
-      const actionType: 'recreate' | 'update_tags' | 'skip' = (!parentsMatch) ? 'recreate'
-        : !tagsMatch ? 'update_tags'
-        : 'skip';
+    const actionType: HierarchyGroupAction["action"] = (!parentsMatch) ? 'recreate'
+      : (!namesMatch && !tagsMatch) ? 'update_all'
+      : !namesMatch ? 'update_data'
+      : !tagsMatch ? 'update_tags'
+      : 'skip';
 
-      return { action: actionType, groupName: sourceGroup.Name!, sourceGroup, targetGroup };
-    }));
+    return { action: actionType, groupName: sourceGroup.Name!, sourceGroup, targetGroup };
+  }, "Describing target hierarchy groups");
 
   const actions = [...createActions, ...compareActions]
     .sort((a, b) => +(a.sourceGroup.LevelId ?? 0) - +(b.sourceGroup.LevelId ?? 0));
@@ -116,21 +120,21 @@ export async function compareHierarchyGroups(config: CliUtil.ResourceComparisonC
   if (recreateActions.length > 0 && !forceRecreate) {
     comparisonResult.actions = [];
 
-    console.log("\n[WARNING] Hierarchy group parent mismatches detected\n");
-    console.log("The following hierarchy groups have different parent groups in the target instance:\n");
+    log("\n[WARNING] Hierarchy group parent mismatches detected\n");
+    log("The following hierarchy groups have different parent groups in the target instance:\n");
 
     for (const action of recreateActions) {
       const sourceParent = getParentLevel(action.sourceGroup)?.Name ?? '(none)';
       const targetParent = getParentLevel(action.targetGroup!)?.Name ?? '(none)';
-      console.log(`  - "${action.groupName}": source parent "${sourceParent}" → target parent "${targetParent}"`);
+      log(`  - "${action.groupName}": source parent "${sourceParent}" → target parent "${targetParent}"`);
     }
 
-    console.log("\nChanging a hierarchy group's parent requires DELETING and RECREATING the group.");
-    console.log("This permanently severs the link to existing contacts associated with this group.");
-    console.log("See: https://docs.aws.amazon.com/connect/latest/adminguide/agent-hierarchy.html#delete-agent-hierarchy");
-    console.log("\nTo proceed with recreation:");
-    console.log("  • Add the --force-hierarchy-recreate flag to your command");
-    console.log("  • OR exclude these groups using filters in your source config\n");
+    log("\nChanging a hierarchy group's parent requires DELETING and RECREATING the group.");
+    log("This permanently severs the link to existing contacts associated with this group.");
+    log("See: https://docs.aws.amazon.com/connect/latest/adminguide/agent-hierarchy.html#delete-agent-hierarchy");
+    log("\nTo proceed with recreation:");
+    log("  • Add the --force-hierarchy-recreate flag to your command");
+    log("  • OR exclude these groups using filters in your source config\n");
   }
 
   return comparisonResult;
@@ -189,81 +193,90 @@ function isHierarchyStructureEmpty(structure: HierarchyStructure): boolean {
 
 
 function displayStructureMismatchError(source: HierarchyStructure, target: HierarchyStructure): void {
-  console.log("\n⚠️  Warning: Hierarchy structure mismatch detected\n");
-  console.log("Source structure levels:");
-  if (source.LevelOne) console.log(`  Level 1: ${source.LevelOne.Name}`);
-  if (source.LevelTwo) console.log(`  Level 2: ${source.LevelTwo.Name}`);
-  if (source.LevelThree) console.log(`  Level 3: ${source.LevelThree.Name}`);
-  if (source.LevelFour) console.log(`  Level 4: ${source.LevelFour.Name}`);
-  if (source.LevelFive) console.log(`  Level 5: ${source.LevelFive.Name}`);
-
-  console.log("\nTarget structure levels:");
-  if (target.LevelOne) console.log(`  Level 1: ${target.LevelOne.Name}`);
-  if (target.LevelTwo) console.log(`  Level 2: ${target.LevelTwo.Name}`);
-  if (target.LevelThree) console.log(`  Level 3: ${target.LevelThree.Name}`);
-  if (target.LevelFour) console.log(`  Level 4: ${target.LevelFour.Name}`);
-  if (target.LevelFive) console.log(`  Level 5: ${target.LevelFive.Name}`);
-
-  console.log("\nTo overwrite the target structure:");
-  console.log("  • Add the --force-structure-update flag to your command\n");
+  log("\n⚠️  Warning: Hierarchy structure mismatch detected\n");
+  log("Source structure levels:");
+  if (source.LevelOne) log(`  Level 1: ${source.LevelOne.Name}`);
+  if (source.LevelTwo) log(`  Level 2: ${source.LevelTwo.Name}`);
+  if (source.LevelThree) log(`  Level 3: ${source.LevelThree.Name}`);
+  if (source.LevelFour) log(`  Level 4: ${source.LevelFour.Name}`);
+  if (source.LevelFive) log(`  Level 5: ${source.LevelFive.Name}`);
+
+  log("\nTarget structure levels:");
+  if (target.LevelOne) log(`  Level 1: ${target.LevelOne.Name}`);
+  if (target.LevelTwo) log(`  Level 2: ${target.LevelTwo.Name}`);
+  if (target.LevelThree) log(`  Level 3: ${target.LevelThree.Name}`);
+  if (target.LevelFour) log(`  Level 4: ${target.LevelFour.Name}`);
+  if (target.LevelFive) log(`  Level 5: ${target.LevelFive.Name}`);
+
+  log("\nTo overwrite the target structure:");
+  log("  • Add the --force-structure-update flag to your command\n");
 }
 
 
 export function displayHierarchyGroupPlan(result: HierarchyGroupComparisonResult, verbose: boolean) {
   const toCreate = result.actions.filter(a => a.action === "create");
-  const toUpdateTags = result.actions.filter(a => a.action === "update_tags");
+  const toRename = result.actions.filter(a => a.action === "update_data" || a.action === "update_all");
+  const toUpdateTags = result.actions.filter(a => a.action === "update_tags" || a.action === "update_all");
   const toRecreate = result.actions.filter(a => a.action === "recreate");
   const toSkip = result.actions.filter(a => a.action === "skip");
 
-  console.log(`\nSummary:`);
-  console.log(`  Hierarchy groups to create: ${toCreate.length}`);
-  console.log(`  Hierarchy groups to update (tags): ${toUpdateTags.length}`);
+  log(`\nSummary:`);
+  log(`  Hierarchy groups to create: ${toCreate.length}`);
+  log(`  Hierarchy groups to rename: ${toRename.length}`);
+  log(`  Hierarchy groups to update (tags): ${toUpdateTags.length}`);
   if (toRecreate.length > 0) {
-    console.log(`  Hierarchy groups to recreate (parent mismatch): ${toRecreate.length}`);
+    log(`  Hierarchy groups to recreate (parent mismatch): ${toRecreate.length}`);
   }
-  console.log(`  Hierarchy groups to skip (identical): ${toSkip.length}`);
-  console.log(`  Total processed: ${result.groups.length}`);
+  log(`  Hierarchy groups to skip (identical): ${toSkip.length}`);
+  log(`  Total processed: ${result.groups.length}`);
 
   if (toCreate.length > 0) {
-    console.log(`\nHierarchy groups to create:`);
+    log(`\nHierarchy groups to create:`);
     for (const action of toCreate) {
-      console.log(`  - ${action.sourceGroup.Name}`);
+      log(`  - ${action.sourceGroup.Name}`);
       if (verbose) {
         const parentName = getParentLevel(action.sourceGroup)?.Name ?? '(none)';
-        console.log(`      Parent: ${parentName}`);
+        log(`      Parent: ${parentName}`);
         if (action.sourceGroup.Tags && Object.keys(action.sourceGroup.Tags).length > 0) {
-          console.log(`      Tags: ${Object.entries(action.sourceGroup.Tags).map(([k, v]) => `${k}=${v}`).join(", ")}`);
+          log(`      Tags: ${Object.entries(action.sourceGroup.Tags).map(([k, v]) => `${k}=${v}`).join(", ")}`);
         }
       }
     }
   }
 
+  if (toRename.length > 0) {
+    log(`\nHierarchy groups to rename:`);
+    for (const action of toRename) {
+      log(`  - ${action.targetGroup!.Name} → ${action.sourceGroup.Name}`);
+    }
+  }
+
   if (toUpdateTags.length > 0) {
-    console.log(`\nHierarchy groups to update (tags):`);
+    log(`\nHierarchy groups to update (tags):`);
     for (const action of toUpdateTags) {
-      console.log(`  - ${action.sourceGroup.Name}`);
+      log(`  - ${action.sourceGroup.Name}`);
     }
   }
 
   if (toRecreate.length > 0) {
-    console.log(`\nHierarchy groups requiring RECREATION (parent mismatch):`);
-    console.log(`WARNING: Recreation will DELETE and recreate these groups.`);
-    console.log(`This may affect user associations and historical reporting data.`);
+    log(`\nHierarchy groups requiring RECREATION (parent mismatch):`);
+    log(`WARNING: Recreation will DELETE and recreate these groups.`);
+    log(`This may affect user associations and historical reporting data.`);
     for (const action of toRecreate) {
-      console.log(`  - ${action.sourceGroup.Name}`);
+      log(`  - ${action.sourceGroup.Name}`);
       if (verbose) {
         const sourceParentName = getParentLevel(action.sourceGroup)?.Name ?? '(none)';
         const targetParentName = getParentLevel(action.targetGroup!)?.Name ?? '(none)';
-        console.log(`      Source parent: ${sourceParentName}`);
-        console.log(`      Target parent: ${targetParentName}`);
+        log(`      Source parent: ${sourceParentName}`);
+        log(`      Target parent: ${targetParentName}`);
       }
     }
   }
 
   if (toSkip.length > 0 && verbose) {
-    console.log(`\nHierarchy groups to skip (identical):`);
+    log(`\nHierarchy groups to skip (identical):`);
     for (const action of toSkip) {
-      console.log(`  - ${action.sourceGroup.Name}`);
+      log(`  - ${action.sourceGroup.Name}`);
     }
   }
 }
@@ -2,26 +2,32 @@
 import * as AwsUtil from "../../utils/aws-utils.js";
 import * as CliUtil from "../../utils/cli-utils.js";
 import { createConnectClient } from "../../connect/client.js";
+import { planStepActions } from "../../plan.js";
+import { hoursOfOperationSection } from "../../report-output.js";
+import { backupSection } from "../../backup.js";
 import { compareHoursOfOperations, displayHoursOfOperationPlan, getHoursOfOperationDiff } from "./report.js";
 import { createHoursOfOperation, updateHoursOfOperation } from "./operations.js";
 
 import type { ConnectClient } from "@aws-sdk/client-connect";
 import type { HoursOfOperationComparisonResult, HoursOfOperationAction } from "./report.js";
+import type { CopyPlan } from "../../plan.js";
 
 
 export interface CopyHoursOfOperationsOptions {
   sourceConfig: string;
   targetConfig: string;
-  sourceProfile: string;
+  sourceProfile?: string | undefined;
+  sourceSnapshot?: string | undefined;
   targetProfile: string;
   verbose: boolean;
+  approvedPlan?: CopyPlan | undefined;
 }
 
 
 export async function copyHoursOfOperations(options: CopyHoursOfOperationsOptions) {
   const config = await CliUtil.loadConfigs(options);
 
-  const sourceClient = createConnectClient(config.source.region, options.sourceProfile);
+  const sourceClient = await CliUtil.createSourceClient(config.source, options);
   const targetClient = createConnectClient(config.target.region, options.targetProfile);
 
   console.log("\nAnalyzing hours of operation differences...");
@@ -30,9 +36,13 @@ export async function copyHoursOfOperations(options: CopyHoursOfOperationsOption
     targetClient,
     sourceInstanceId: config.source.instanceId,
     targetInstanceId: config.target.instanceId,
-    filterConfig: config.source.hoursFilters
+    filterConfig: config.source.hoursFilters,
+    identity: config.source.identity,
+    nameRules: config.source.nameRules
   });
 
+  if (options.approvedPlan) comparisonResult.actions = planStepActions(options.approvedPlan, "hours-of-operation", comparisonResult.actions, hoursOfOperationSection(comparisonResult), config);
+
   displayHoursOfOperationPlan(comparisonResult, options.verbose);
 
   const needsCopy = comparisonResult.actions.some(a => a.action !== "skip");
@@ -48,6 +58,8 @@ export async function copyHoursOfOperations(options: CopyHoursOfOperationsOption
     return;
   }
 
+  await backupSection(config.target, "hours-of-operation", hoursOfOperationSection(comparisonResult));
+
   console.log("\nCopying hours of operation...");
   await executeHoursOfOperationCopy(targetClient, config.target.instanceId, comparisonResult, options.verbose);
 }
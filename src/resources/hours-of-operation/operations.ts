@@ -1,5 +1,5 @@
 
-import { DescribeHoursOfOperationCommand, CreateHoursOfOperationCommand, UpdateHoursOfOperationCommand } from "@aws-sdk/client-connect";
+import { DescribeHoursOfOperationCommand, CreateHoursOfOperationCommand, UpdateHoursOfOperationCommand, DeleteHoursOfOperationCommand } from "@aws-sdk/client-connect";
 
 import type { ConnectClient, HoursOfOperation, HoursOfOperationConfig } from "@aws-sdk/client-connect";
 
@@ -61,3 +61,13 @@ export async function updateHoursOfOperation(client: ConnectClient, instanceId:
     })
   );
 }
+
+
+export async function deleteHoursOfOperation(client: ConnectClient, instanceId: string, hoursOfOperationId: string): Promise<void> {
+  await client.send(
+    new DeleteHoursOfOperationCommand({
+      InstanceId: instanceId,
+      HoursOfOperationId: hoursOfOperationId
+    })
+  );
+}
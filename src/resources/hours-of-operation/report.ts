@@ -1,8 +1,11 @@
 
 import * as CliUtil from "../../utils/cli-utils.js";
+import { mapConcurrent } from "../../utils/concurrency-utils.js";
 import { listHoursOfOperations } from "../../connect/resources.js";
 import { matchesFlowFilters } from "../../filters.js";
+import { matchResources, withTargetName } from "../../identity.js";
 import { describeHoursOfOperation } from "./operations.js";
+import { log } from "../../utils/log-utils.js";
 
 import type { HoursOfOperationSummary, HoursOfOperation, HoursOfOperationConfig, HoursOfOperationDays } from "@aws-sdk/client-connect";
 
@@ -47,20 +50,17 @@ export async function compareHoursOfOperations(config: CliUtil.ResourceCompariso
     );
   }
 
-  const targetHoursByName = Object.fromEntries(targetHours.map(h => [h.Name, h]));
-  const actions: HoursOfOperationAction[] = [];
-
-  for (const sourceSummary of filteredSourceHours) {
-    const sourceHoursFull = await describeHoursOfOperation(sourceClient, sourceInstanceId, sourceSummary.Id!);
-    const targetSummary = targetHoursByName[sourceSummary.Name!];
+  const targetMatches = await matchResources(config, "hours-of-operation", filteredSourceHours, targetHours);
+  const actions = await mapConcurrent(filteredSourceHours, async (sourceSummary): Promise<HoursOfOperationAction> => {
+    const sourceHoursFull = withTargetName(config, "hours-of-operation", await describeHoursOfOperation(sourceClient, sourceInstanceId, sourceSummary.Id!));
+    const targetSummary = targetMatches.get(sourceSummary.Id!);
 
     if (!targetSummary) {
-      actions.push({
+      return {
         hoursName: sourceSummary.Name!,
         action: "create",
         sourceHours: sourceHoursFull
-      });
-      continue;
+      };
     }
 
     const targetHoursFull = await describeHoursOfOperation(targetClient, targetInstanceId, targetSummary.Id!);
@@ -73,15 +73,15 @@ export async function compareHoursOfOperations(config: CliUtil.ResourceCompariso
       : !tagsMatch ? "update_tags"
       : "skip";
 
-    actions.push({
+    return {
       hoursName: sourceSummary.Name!,
       action: actionType,
       sourceHours: sourceHoursFull,
       targetHours: targetHoursFull,
-      targetHoursId: targetSummary.Id,
-      targetHoursArn: targetSummary.Arn
-    });
-  }
+      targetHoursId: targetSummary.Id!,
+      targetHoursArn: targetSummary.Arn!
+    };
+  }, "Describing hours of operation");
 
   return { actions, hours: filteredSourceHours };
 }
@@ -141,6 +141,10 @@ function formatConfigEntry(config: HoursOfOperationConfig): string {
 export function getHoursOfOperationDiff(source: HoursOfOperation, target: HoursOfOperation): string[] {
   const diffs: string[] = [];
 
+  if (source.Name !== target.Name) {
+    diffs.push(`Name: ${target.Name} → ${source.Name}`);
+  }
+
   if (source.Description !== target.Description) {
     diffs.push(`Description: ${target.Description ?? "(none)"} → ${source.Description ?? "(none)"}`);
   }
@@ -192,80 +196,80 @@ export function displayHoursOfOperationPlan(result: HoursOfOperationComparisonRe
   const toUpdateTags = result.actions.filter(a => a.action === "update_tags");
   const toSkip = result.actions.filter(a => a.action === "skip");
 
-  console.log(`\nSummary:`);
-  console.log(`  Hours of operation to create: ${toCreate.length}`);
-  console.log(`  Hours of operation to update (all): ${toUpdateAll.length}`);
-  console.log(`  Hours of operation to update (data only): ${toUpdateData.length}`);
-  console.log(`  Hours of operation to update (tags only): ${toUpdateTags.length}`);
-  console.log(`  Hours of operation to skip (identical): ${toSkip.length}`);
-  console.log(`  Total processed: ${result.hours.length}`);
+  log(`\nSummary:`);
+  log(`  Hours of operation to create: ${toCreate.length}`);
+  log(`  Hours of operation to update (all): ${toUpdateAll.length}`);
+  log(`  Hours of operation to update (data only): ${toUpdateData.length}`);
+  log(`  Hours of operation to update (tags only): ${toUpdateTags.length}`);
+  log(`  Hours of operation to skip (identical): ${toSkip.length}`);
+  log(`  Total processed: ${result.hours.length}`);
 
   if (toCreate.length > 0) {
-    console.log(`\nHours of operation to create:`);
+    log(`\nHours of operation to create:`);
     for (const action of toCreate) {
-      console.log(`  - ${action.hoursName}`);
+      log(`  - ${action.hoursName}`);
       if (verbose) {
         const hours = action.sourceHours;
-        console.log(`      TimeZone: ${hours.TimeZone}`);
-        if (hours.Description) console.log(`      Description: ${hours.Description}`);
+        log(`      TimeZone: ${hours.TimeZone}`);
+        if (hours.Description) log(`      Description: ${hours.Description}`);
         if (hours.Config && hours.Config.length > 0) {
-          console.log(`      Schedule:`);
+          log(`      Schedule:`);
           for (const config of sortConfigByDay(hours.Config)) {
-            console.log(`        ${formatConfigEntry(config)}`);
+            log(`        ${formatConfigEntry(config)}`);
           }
         }
         if (hours.Tags && Object.keys(hours.Tags).length > 0) {
-          console.log(`      Tags: ${Object.entries(hours.Tags).map(([k, v]) => `${k}=${v}`).join(", ")}`);
+          log(`      Tags: ${Object.entries(hours.Tags).map(([k, v]) => `${k}=${v}`).join(", ")}`);
         }
       }
     }
   }
 
   if (toUpdateAll.length > 0) {
-    console.log(`\nHours of operation to update (all):`);
+    log(`\nHours of operation to update (all):`);
     for (const action of toUpdateAll) {
-      console.log(`  - ${action.hoursName}`);
+      log(`  - ${action.hoursName}`);
       if (verbose && action.targetHours) {
         const diffs = getHoursOfOperationDiff(action.sourceHours, action.targetHours);
         for (const diff of diffs) {
-          console.log(`      ${diff}`);
+          log(`      ${diff}`);
         }
         const { toAdd, toRemove } = CliUtil.getRecordDiff(action.sourceHours.Tags, action.targetHours.Tags);
-        if (Object.keys(toAdd).length) console.log(`      Tags to add: ${Object.entries(toAdd).map(([k, v]) => `${k}=${v}`).join(", ")}`);
-        if (toRemove.length) console.log(`      Tags to remove: ${toRemove.join(", ")}`);
+        if (Object.keys(toAdd).length) log(`      Tags to add: ${Object.entries(toAdd).map(([k, v]) => `${k}=${v}`).join(", ")}`);
+        if (toRemove.length) log(`      Tags to remove: ${toRemove.join(", ")}`);
       }
     }
   }
 
   if (toUpdateData.length > 0) {
-    console.log(`\nHours of operation to update (data only):`);
+    log(`\nHours of operation to update (data only):`);
     for (const action of toUpdateData) {
-      console.log(`  - ${action.hoursName}`);
+      log(`  - ${action.hoursName}`);
       if (verbose && action.targetHours) {
         const diffs = getHoursOfOperationDiff(action.sourceHours, action.targetHours);
         for (const diff of diffs) {
-          console.log(`      ${diff}`);
+          log(`      ${diff}`);
         }
       }
     }
   }
 
   if (toUpdateTags.length > 0) {
-    console.log(`\nHours of operation to update (tags only):`);
+    log(`\nHours of operation to update (tags only):`);
     for (const action of toUpdateTags) {
-      console.log(`  - ${action.hoursName}`);
+      log(`  - ${action.hoursName}`);
       if (verbose && action.targetHours) {
         const { toAdd, toRemove } = CliUtil.getRecordDiff(action.sourceHours.Tags, action.targetHours.Tags);
-        if (Object.keys(toAdd).length) console.log(`      Tags to add: ${Object.entries(toAdd).map(([k, v]) => `${k}=${v}`).join(", ")}`);
-        if (toRemove.length) console.log(`      Tags to remove: ${toRemove.join(", ")}`);
+        if (Object.keys(toAdd).length) log(`      Tags to add: ${Object.entries(toAdd).map(([k, v]) => `${k}=${v}`).join(", ")}`);
+        if (toRemove.length) log(`      Tags to remove: ${toRemove.join(", ")}`);
       }
     }
   }
 
   if (toSkip.length > 0 && verbose) {
-    console.log(`\nHours of operation to skip (identical):`);
+    log(`\nHours of operation to skip (identical):`);
     for (const action of toSkip) {
-      console.log(`  - ${action.hoursName}`);
+      log(`  - ${action.hoursName}`);
     }
   }
 }
@@ -0,0 +1,94 @@
+
+import * as CliUtil from "../../utils/cli-utils.js";
+import { createConnectClient } from "../../connect/client.js";
+import { planStepActions } from "../../plan.js";
+import { phoneNumberSection } from "../../report-output.js";
+import { backupSection } from "../../backup.js";
+import { comparePhoneNumbers, displayPhoneNumberPlan } from "./report.js";
+import { associatePhoneNumberFlow } from "./operations.js";
+
+import type { ConnectClient } from "@aws-sdk/client-connect";
+import type { PhoneNumberComparisonResult } from "./report.js";
+import type { CopyPlan } from "../../plan.js";
+
+
+export interface CopyPhoneNumbersOptions {
+  sourceConfig: string;
+  targetConfig: string;
+  sourceProfile?: string | undefined;
+  sourceSnapshot?: string | undefined;
+  targetProfile: string;
+  verbose: boolean;
+  approvedPlan?: CopyPlan | undefined;
+}
+
+
+export async function copyPhoneNumbers(options: CopyPhoneNumbersOptions) {
+  const config = await CliUtil.loadConfigs(options);
+
+  if (options.sourceSnapshot) {
+    console.log("\nFlow associations are not included in snapshots - skipping phone numbers");
+    return;
+  }
+
+  const sourceClient = await CliUtil.createSourceClient(config.source, options);
+  const targetClient = createConnectClient(config.target.region, options.targetProfile);
+
+  console.log("\nAnalyzing phone number flow associations...");
+  const comparisonResult = await comparePhoneNumbers(
+    {
+      sourceClient,
+      targetClient,
+      sourceInstanceId: config.source.instanceId,
+      targetInstanceId: config.target.instanceId,
+      filterConfig: config.source.phoneNumberFilters,
+      identity: config.source.identity,
+      nameRules: config.source.nameRules
+    },
+    {
+      phoneNumberMappings: config.source.phoneNumberMappings,
+      phoneNumberMatchBy: config.source.phoneNumberMatchBy
+    }
+  );
+
+  if (options.approvedPlan) comparisonResult.actions = planStepActions(options.approvedPlan, "phone-numbers", comparisonResult.actions, phoneNumberSection(comparisonResult), config);
+
+  displayPhoneNumberPlan(comparisonResult, options.verbose);
+
+  const needsCopy = comparisonResult.actions.some(a => a.action === "update_data");
+
+  if (!needsCopy) {
+    console.log("\nNo phone numbers need to be associated - all resolvable numbers match");
+    return;
+  }
+
+  const shouldContinue = await CliUtil.promptContinue("Proceed with associating phone numbers?");
+  if (!shouldContinue) {
+    console.log("Copy cancelled by user");
+    return;
+  }
+
+  await backupSection(config.target, "phone-numbers", phoneNumberSection(comparisonResult));
+
+  console.log("\nAssociating phone numbers...");
+  await executePhoneNumberCopy(targetClient, config.target.instanceId, comparisonResult, options.verbose);
+}
+
+
+async function executePhoneNumberCopy(targetClient: ConnectClient, targetInstanceId: string, result: PhoneNumberComparisonResult, verbose: boolean) {
+  let associated = 0;
+
+  for (const action of result.actions) {
+    if (action.action !== "update_data") continue;
+
+    const targetPhone = action.targetPhoneNumber!;
+    console.log(`Associating ${targetPhone.PhoneNumber} with flow: ${action.sourceFlowName}`);
+    if (verbose) console.log(`  Source number: ${action.phoneNumber}, previous flow: ${action.targetFlowName ?? "(none)"}`);
+
+    await associatePhoneNumberFlow(targetClient, targetInstanceId, targetPhone.PhoneNumberId!, action.targetFlowId!);
+    associated++;
+  }
+
+  const skipped = result.actions.filter(a => a.action === "skip_missing_deps").length;
+  console.log(`\nCopy complete: ${associated} associated, ${skipped} skipped (missing deps)`);
+}
@@ -0,0 +1,83 @@
+
+import {
+  ListPhoneNumbersV2Command,
+  DescribePhoneNumberCommand,
+  ListFlowAssociationsCommand,
+  AssociatePhoneNumberContactFlowCommand
+} from "@aws-sdk/client-connect";
+
+import type { ConnectClient, ListPhoneNumbersSummary, ClaimedPhoneNumberSummary, FlowAssociationSummary } from "@aws-sdk/client-connect";
+
+
+export async function listPhoneNumbers(client: ConnectClient, instanceId: string): Promise<ListPhoneNumbersSummary[]> {
+  const phoneNumbers: ListPhoneNumbersSummary[] = [];
+  let nextToken: string | undefined;
+
+  do {
+    const response = await client.send(
+      new ListPhoneNumbersV2Command({
+        InstanceId: instanceId,
+        NextToken: nextToken
+      })
+    );
+
+    if (response.ListPhoneNumbersSummaryList) {
+      phoneNumbers.push(...response.ListPhoneNumbersSummaryList);
+    }
+
+    nextToken = response.NextToken;
+  } while (nextToken);
+
+  return phoneNumbers;
+}
+
+
+export async function describePhoneNumber(client: ConnectClient, phoneNumberId: string): Promise<ClaimedPhoneNumberSummary> {
+  const response = await client.send(
+    new DescribePhoneNumberCommand({
+      PhoneNumberId: phoneNumberId
+    })
+  );
+
+  if (!response.ClaimedPhoneNumberSummary) {
+    throw new Error(`Phone number not found: ${phoneNumberId}`);
+  }
+
+  return response.ClaimedPhoneNumberSummary;
+}
+
+
+export async function listPhoneNumberFlowAssociations(client: ConnectClient, instanceId: string): Promise<FlowAssociationSummary[]> {
+  const associations: FlowAssociationSummary[] = [];
+  let nextToken: string | undefined;
+
+  do {
+    const response = await client.send(
+      new ListFlowAssociationsCommand({
+        InstanceId: instanceId,
+        ResourceType: "VOICE_PHONE_NUMBER",
+        NextToken: nextToken
+      })
+    );
+
+    if (response.FlowAssociationSummaryList) {
+      associations.push(...response.FlowAssociationSummaryList);
+    }
+
+    nextToken = response.NextToken;
+  } while (nextToken);
+
+  return associations;
+}
+
+
+export async function associatePhoneNumberFlow(client: ConnectClient, instanceId: string, phoneNumberId: string, contactFlowId: string): Promise<void> {
+  // Replaces any flow the number is currently associated with
+  await client.send(
+    new AssociatePhoneNumberContactFlowCommand({
+      InstanceId: instanceId,
+      PhoneNumberId: phoneNumberId,
+      ContactFlowId: contactFlowId
+    })
+  );
+}
@@ -0,0 +1,294 @@
+
+import { mapConcurrent } from "../../utils/concurrency-utils.js";
+import { listContactFlows } from "../../connect/flows.js";
+import { matchesFlowFilters } from "../../filters.js";
+import { matchResources } from "../../identity.js";
+import { listPhoneNumbers, describePhoneNumber, listPhoneNumberFlowAssociations } from "./operations.js";
+import { log } from "../../utils/log-utils.js";
+
+import type { ResourceComparisonConfig } from "../../utils/cli-utils.js";
+import type { ConnectClient, ListPhoneNumbersSummary, ContactFlowSummary } from "@aws-sdk/client-connect";
+import type { PhoneNumberMatchBy } from "../../validation.js";
+
+
+export type PhoneNumberActionType = "update_data" | "skip" | "skip_missing_deps";
+
+
+export interface PhoneNumberAction {
+  action: PhoneNumberActionType;
+
+  phoneNumber: string;
+  sourcePhoneNumber: ListPhoneNumbersSummary;
+  sourceFlowName: string;
+  targetPhoneNumber?: ListPhoneNumbersSummary;
+  targetFlowName?: string;
+  targetFlowId?: string;
+  missingDeps?: string[];
+}
+
+
+export interface PhoneNumberComparisonResult {
+  actions: PhoneNumberAction[];
+  phoneNumbers: ListPhoneNumbersSummary[];
+
+  phoneMapping: Record<string, string>;
+  flowMapping: Record<string, string>;
+  unresolvedNumbers: string[];
+}
+
+
+export interface PhoneNumberMappingOptions {
+  phoneNumberMappings?: Record<string, string> | undefined;
+  phoneNumberMatchBy?: PhoneNumberMatchBy | undefined;
+}
+
+
+export interface PhoneNumberMapping {
+  phoneMapping: Record<string, string>;
+  invalidMappings: string[];
+
+  sourcePhoneNumbers: ListPhoneNumbersSummary[];
+  targetPhoneNumbers: ListPhoneNumbersSummary[];
+}
+
+
+/**
+ * Map source phone number IDs to target phone number IDs. Explicit phoneNumberMappings (keyed by E164
+ * or phone number ID on either side) win; the phoneNumberMatchBy convention fills in the rest.
+ */
+export async function resolvePhoneNumberMapping(config: ResourceComparisonConfig, options: PhoneNumberMappingOptions): Promise<PhoneNumberMapping> {
+  const { sourceClient, targetClient, sourceInstanceId, targetInstanceId } = config;
+
+  const sourcePhoneNumbers = await listPhoneNumbers(sourceClient, sourceInstanceId);
+  const targetPhoneNumbers = await listPhoneNumbers(targetClient, targetInstanceId);
+
+  const sourcePhoneById = new Map(sourcePhoneNumbers.map(p => [p.PhoneNumberId, p]));
+  const sourcePhoneByE164 = new Map(sourcePhoneNumbers.map(p => [p.PhoneNumber, p]));
+  const targetPhoneById = new Map(targetPhoneNumbers.map(p => [p.PhoneNumberId, p]));
+  const targetPhoneByE164 = new Map(targetPhoneNumbers.map(p => [p.PhoneNumber, p]));
+
+  const phoneMapping: Record<string, string> = {};
+  const invalidMappings: string[] = [];
+
+  for (const [sourceKey, targetKey] of Object.entries(options.phoneNumberMappings ?? {})) {
+    const sourcePhone = sourceKey.startsWith("+")
+      ? sourcePhoneByE164.get(sourceKey)
+      : sourcePhoneById.get(sourceKey);
+
+    const targetPhone = targetKey.startsWith("+")
+      ? targetPhoneByE164.get(targetKey)
+      : targetPhoneById.get(targetKey);
+
+    if (!sourcePhone) {
+      invalidMappings.push(`${sourceKey} (not found in source instance)`);
+    } else if (!targetPhone) {
+      invalidMappings.push(`${sourceKey} → ${targetKey} (target not found)`);
+    } else {
+      phoneMapping[sourcePhone.PhoneNumberId!] = targetPhone.PhoneNumberId!;
+    }
+  }
+
+  if (options.phoneNumberMatchBy) {
+    const unmappedSource = sourcePhoneNumbers.filter(p => !phoneMapping[p.PhoneNumberId!]);
+
+    const sourceKeys = await getPhoneNumberMatchKeys(sourceClient, unmappedSource, options.phoneNumberMatchBy);
+    const targetKeys = await getPhoneNumberMatchKeys(targetClient, targetPhoneNumbers, options.phoneNumberMatchBy);
+
+    const targetIdsByKey = new Map<string, string[]>();
+    for (const [phoneId, key] of targetKeys) {
+      targetIdsByKey.set(key, [...(targetIdsByKey.get(key) ?? []), phoneId]);
+    }
+
+    // A key shared by several target numbers is ambiguous; those source numbers are left unresolved
+    for (const [phoneId, key] of sourceKeys) {
+      const candidates = targetIdsByKey.get(key);
+      if (candidates?.length === 1) {
+        phoneMapping[phoneId] = candidates[0]!;
+      }
+    }
+  }
+
+  return { phoneMapping, invalidMappings, sourcePhoneNumbers, targetPhoneNumbers };
+}
+
+
+async function getPhoneNumberMatchKeys(client: ConnectClient, phoneNumbers: ListPhoneNumbersSummary[], matchBy: PhoneNumberMatchBy): Promise<Map<string, string>> {
+  const matchKeys = await mapConcurrent(phoneNumbers, async phone => {
+    if (matchBy === "description") return phone.PhoneNumberDescription?.trim();
+
+    // Tags are only returned by DescribePhoneNumber, not by the list call
+    const claimed = await describePhoneNumber(client, phone.PhoneNumberId!);
+    return claimed.Tags?.[matchBy.slice("tag:".length)];
+  }, "Describing phone numbers");
+
+  const keys = new Map<string, string>();
+
+  for (const [index, phone] of phoneNumbers.entries()) {
+    const key = matchKeys[index];
+    if (key) keys.set(phone.PhoneNumberId!, key);
+  }
+
+  return keys;
+}
+
+
+export function displayInvalidPhoneMappings(invalidMappings: string[]) {
+  log("\n⚠️  Validation Error: Invalid phone number mappings\n");
+  log("The following phone number mappings are invalid:\n");
+  for (const mapping of invalidMappings) {
+    log(`  - ${mapping}`);
+  }
+  log("\nCheck your phoneNumberMappings in the source config file.\n");
+}
+
+
+export async function comparePhoneNumbers(config: ResourceComparisonConfig, options: PhoneNumberMappingOptions): Promise<PhoneNumberComparisonResult> {
+  const {
+    sourceClient,
+    targetClient,
+    sourceInstanceId,
+    targetInstanceId,
+    filterConfig
+  } = config;
+
+  const { phoneMapping, invalidMappings, sourcePhoneNumbers, targetPhoneNumbers } = await resolvePhoneNumberMapping(config, options);
+
+  if (invalidMappings.length > 0) {
+    displayInvalidPhoneMappings(invalidMappings);
+    return { actions: [], phoneNumbers: [], phoneMapping, flowMapping: {}, unresolvedNumbers: [] };
+  }
+
+  const filteredSourceNumbers = sourcePhoneNumbers.filter(p => matchesFlowFilters(p.PhoneNumber!, filterConfig));
+
+  // Build flow mapping (sourceArn → targetArn)
+  const sourceFlows = await listContactFlows(sourceClient, sourceInstanceId);
+  const targetFlows = await listContactFlows(targetClient, targetInstanceId);
+
+  const flowMatches = await matchResources(config, "flows", sourceFlows, targetFlows);
+  const flowMapping: Record<string, string> = {};
+
+  for (const flow of sourceFlows) {
+    const targetMatch = flowMatches.get(flow.Id!);
+    if (targetMatch) {
+      flowMapping[flow.Arn!] = targetMatch.Arn!;
+    }
+  }
+
+  const sourceAssociations = resolveAssociations(await listPhoneNumberFlowAssociations(sourceClient, sourceInstanceId), sourcePhoneNumbers, sourceFlows);
+  const targetAssociations = resolveAssociations(await listPhoneNumberFlowAssociations(targetClient, targetInstanceId), targetPhoneNumbers, targetFlows);
+
+  const targetPhoneById = new Map(targetPhoneNumbers.map(p => [p.PhoneNumberId, p]));
+
+  const actions: PhoneNumberAction[] = [];
+  const unresolvedNumbers: string[] = [];
+
+  // Only numbers with a flow in source have anything to copy; target numbers are never disassociated
+  for (const sourcePhone of filteredSourceNumbers) {
+    const sourceFlow = sourceAssociations.get(sourcePhone.PhoneNumberId!);
+    if (!sourceFlow) continue;
+
+    const action: PhoneNumberAction = {
+      action: "skip",
+      phoneNumber: sourcePhone.PhoneNumber!,
+      sourcePhoneNumber: sourcePhone,
+      sourceFlowName: sourceFlow.Name!
+    };
+
+    const targetPhone = targetPhoneById.get(phoneMapping[sourcePhone.PhoneNumberId!]);
+    const targetFlow = flowMatches.get(sourceFlow.Id!);
+    const missingDeps: string[] = [];
+
+    if (!targetPhone) {
+      missingDeps.push(`Target phone number (no mapping for ${sourcePhone.PhoneNumber})`);
+      unresolvedNumbers.push(sourcePhone.PhoneNumber!);
+    }
+
+    if (!targetFlow) {
+      missingDeps.push(`Flow: ${sourceFlow.Name}`);
+    }
+
+    if (targetPhone) {
+      action.targetPhoneNumber = targetPhone;
+
+      const currentFlow = targetAssociations.get(targetPhone.PhoneNumberId!);
+      if (currentFlow) action.targetFlowName = currentFlow.Name!;
+
+      if (targetFlow) {
+        action.targetFlowId = targetFlow.Id!;
+        action.action = currentFlow?.Arn === targetFlow.Arn ? "skip" : "update_data";
+      }
+    }
+
+    if (missingDeps.length > 0) {
+      action.action = "skip_missing_deps";
+      action.missingDeps = missingDeps;
+    }
+
+    actions.push(action);
+  }
+
+  return { actions, phoneNumbers: filteredSourceNumbers, phoneMapping, flowMapping, unresolvedNumbers };
+}
+
+
+// Flow associations identify numbers and flows by ARN or ID depending on the resource; normalize to phone number ID → flow
+function resolveAssociations(associations: { ResourceId?: string | undefined; FlowId?: string | undefined }[], phoneNumbers: ListPhoneNumbersSummary[], flows: ContactFlowSummary[]): Map<string, ContactFlowSummary> {
+  const resolved = new Map<string, ContactFlowSummary>();
+
+  for (const association of associations) {
+    const phone = phoneNumbers.find(p => p.PhoneNumberArn === association.ResourceId || p.PhoneNumberId === association.ResourceId);
+    const flow = flows.find(f => f.Arn === association.FlowId || f.Id === association.FlowId);
+
+    if (phone && flow) resolved.set(phone.PhoneNumberId!, flow);
+  }
+
+  return resolved;
+}
+
+
+export function displayPhoneNumberPlan(result: PhoneNumberComparisonResult, verbose: boolean) {
+  const toUpdate = result.actions.filter(a => a.action === "update_data");
+  const toSkip = result.actions.filter(a => a.action === "skip");
+  const toSkipMissingDeps = result.actions.filter(a => a.action === "skip_missing_deps");
+
+  log(`\nSummary:`);
+  log(`  Phone numbers to associate: ${toUpdate.length}`);
+  log(`  Phone numbers to skip (identical): ${toSkip.length}`);
+  log(`  Phone numbers to skip (missing deps): ${toSkipMissingDeps.length}`);
+  log(`  Total processed: ${result.phoneNumbers.length}`);
+
+  if (toUpdate.length > 0) {
+    log(`\nPhone numbers to associate:`);
+    for (const action of toUpdate) {
+      log(`  - ${action.phoneNumber} → ${action.targetPhoneNumber!.PhoneNumber}`);
+      if (verbose) {
+        log(`      ContactFlow: ${action.targetFlowName ?? "(none)"} → ${action.sourceFlowName}`);
+      }
+    }
+  }
+
+  if (toSkipMissingDeps.length > 0) {
+    log(`\nPhone numbers to skip (missing deps):`);
+    for (const action of toSkipMissingDeps) {
+      log(`  - ${action.phoneNumber} (${action.sourceFlowName})`);
+      for (const dep of action.missingDeps!) {
+        log(`      Missing: ${dep}`);
+      }
+    }
+  }
+
+  if (toSkip.length > 0 && verbose) {
+    log(`\nPhone numbers to skip (identical):`);
+    for (const action of toSkip) {
+      log(`  - ${action.phoneNumber} → ${action.targetPhoneNumber!.PhoneNumber} (${action.sourceFlowName})`);
+    }
+  }
+
+  if (result.unresolvedNumbers.length > 0) {
+    log(`\n[WARNING] ${result.unresolvedNumbers.length} source phone number(s) could not be resolved to a target number:`);
+    for (const phoneNumber of result.unresolvedNumbers) {
+      log(`  - ${phoneNumber}`);
+    }
+    log("  Add them to phoneNumberMappings, or set phoneNumberMatchBy in the source config");
+  }
+}
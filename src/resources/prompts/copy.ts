@@ -0,0 +1,185 @@
+
+import * as AwsUtil from "../../utils/aws-utils.js";
+import * as CliUtil from "../../utils/cli-utils.js";
+import { createConnectClient, createS3Client } from "../../connect/client.js";
+import { planStepActions } from "../../plan.js";
+import { promptSection } from "../../report-output.js";
+import { backupSection } from "../../backup.js";
+import { comparePrompts, displayPromptPlan, getPromptDiff } from "./report.js";
+import { createPrompt, updatePrompt, stagePromptAudio } from "./operations.js";
+
+import type { ConnectClient } from "@aws-sdk/client-connect";
+import type { S3Client } from "@aws-sdk/client-s3";
+import type { PromptComparisonResult, PromptAction } from "./report.js";
+import type { CopyPlan } from "../../plan.js";
+
+
+export interface CopyPromptsOptions {
+  sourceConfig: string;
+  targetConfig: string;
+  sourceProfile?: string | undefined;
+  sourceSnapshot?: string | undefined;
+  targetProfile: string;
+  verbose: boolean;
+  approvedPlan?: CopyPlan | undefined;
+}
+
+
+export async function copyPrompts(options: CopyPromptsOptions) {
+  const config = await CliUtil.loadConfigs(options);
+
+  if (options.sourceSnapshot) {
+    console.log("\nPrompt audio is not included in snapshots - skipping prompts");
+    return;
+  }
+
+  const sourceClient = await CliUtil.createSourceClient(config.source, options);
+  const targetClient = createConnectClient(config.target.region, options.targetProfile);
+
+  console.log("\nAnalyzing prompt differences...");
+  const comparisonResult = await comparePrompts({
+    sourceClient,
+    targetClient,
+    sourceInstanceId: config.source.instanceId,
+    targetInstanceId: config.target.instanceId,
+    filterConfig: config.source.promptFilters,
+    identity: config.source.identity,
+    nameRules: config.source.nameRules
+  });
+
+  if (options.approvedPlan) comparisonResult.actions = planStepActions(options.approvedPlan, "prompts", comparisonResult.actions, promptSection(comparisonResult), config);
+
+  displayPromptPlan(comparisonResult, options.verbose);
+
+  const needsCopy = comparisonResult.actions.some(a => a.action !== "skip");
+
+  if (!needsCopy) {
+    console.log("\nNo prompts need to be copied - all prompts match");
+    return;
+  }
+
+  const needsAudio = comparisonResult.actions.some(a => ["create", "update_data", "update_all"].includes(a.action));
+  const stagingUri = config.target.promptStagingUri;
+
+  if (needsAudio && !stagingUri) {
+    console.log("\n[WARNING] Target config has no promptStagingUri - prompts needing audio upload will be skipped");
+    console.log("  Flows referencing those prompts will fail validation until they exist in target");
+  }
+
+  const shouldContinue = await CliUtil.promptContinue("Proceed with copying prompts?");
+  if (!shouldContinue) {
+    console.log("Copy cancelled by user");
+    return;
+  }
+
+  await backupSection(config.target, "prompts", promptSection(comparisonResult));
+
+  // Staging bucket belongs to the target account, so it is written with target credentials
+  const s3Client = createS3Client(config.target.region, options.targetProfile);
+
+  console.log("\nCopying prompts...");
+  await executePromptCopy(targetClient, s3Client, config.target.instanceId, stagingUri, comparisonResult, options.verbose);
+}
+
+
+async function executePromptCopy(targetClient: ConnectClient, s3Client: S3Client, targetInstanceId: string, stagingUri: string | undefined, result: PromptComparisonResult, verbose: boolean) {
+  let created = 0;
+  let updatedData = 0;
+  let updatedTags = 0;
+  let skippedAudio = 0;
+
+  for (const action of result.actions) {
+    if (action.action === "skip") continue;
+
+    const needsAudio = ["create", "update_data", "update_all"].includes(action.action);
+
+    if (needsAudio && !stagingUri) {
+      console.log(`Skipping prompt (no staging location): ${action.promptName}`);
+      skippedAudio++;
+      continue;
+    }
+
+    if (action.action === "create") {
+      logPromptCreate(action, verbose);
+
+      const s3Uri = await stageAudio(s3Client, stagingUri!, action, verbose);
+      await createPrompt(targetClient, targetInstanceId, {
+        Name: action.sourcePrompt.Name!,
+        S3Uri: s3Uri,
+        Description: action.sourcePrompt.Description,
+        Tags: action.sourcePrompt.Tags
+      });
+
+      created++;
+    }
+
+    if (["update_data", "update_all"].includes(action.action)) {
+      logPromptUpdate(action, verbose);
+
+      const s3Uri = await stageAudio(s3Client, stagingUri!, action, verbose);
+      await updatePrompt(targetClient, targetInstanceId, action.targetPromptId!, {
+        Name: action.sourcePrompt.Name,
+        S3Uri: s3Uri,
+        Description: action.sourcePrompt.Description
+      });
+
+      updatedData++;
+    }
+
+    if (["update_tags", "update_all"].includes(action.action)) {
+      logTagsUpdate(action, verbose);
+
+      const { toAdd, toRemove } = CliUtil.getRecordDiff(action.sourcePrompt.Tags, action.targetPrompt?.Tags);
+      await AwsUtil.updateResourceTags(targetClient, action.targetPromptArn!, toAdd, toRemove);
+
+      updatedTags++;
+    }
+  }
+
+  console.log(`\nCopy complete: ${created} created, ${updatedData} data updated, ${updatedTags} tags updated`);
+  if (skippedAudio > 0) {
+    console.log(`${skippedAudio} prompts skipped - set promptStagingUri in target config to copy audio`);
+  }
+}
+
+
+async function stageAudio(s3Client: S3Client, stagingUri: string, action: PromptAction, verbose: boolean): Promise<string> {
+  // Hash in the key keeps re-staged audio from overwriting a file an existing prompt may still reference
+  const fileName = `${action.promptName.replace(/[^\w.-]+/g, "_")}-${action.sourceAudioHash.slice(0, 12)}`;
+  const s3Uri = await stagePromptAudio(s3Client, stagingUri, fileName, action.sourceAudio);
+
+  if (verbose) console.log(`  Staged audio: ${s3Uri}`);
+  return s3Uri;
+}
+
+
+function logPromptCreate(action: PromptAction, verbose: boolean) {
+  console.log(`Creating prompt: ${action.promptName}`);
+  if (!verbose) return;
+
+  const prompt = action.sourcePrompt;
+  if (prompt.Description) console.log(`  Description: ${prompt.Description}`);
+  if (prompt.Tags && Object.keys(prompt.Tags).length > 0) {
+    console.log(`  Tags: ${Object.entries(prompt.Tags).map(([k, v]) => `${k}=${v}`).join(", ")}`);
+  }
+}
+
+
+function logPromptUpdate(action: PromptAction, verbose: boolean) {
+  console.log(`Updating prompt: ${action.promptName}`);
+  if (!verbose || !action.targetPrompt) return;
+
+  for (const diff of getPromptDiff(action)) {
+    console.log(`  ${diff}`);
+  }
+}
+
+
+function logTagsUpdate(action: PromptAction, verbose: boolean) {
+  console.log(`Updating tags for prompt: ${action.promptName}`);
+  if (!verbose || !action.targetPrompt) return;
+
+  const { toAdd, toRemove } = CliUtil.getRecordDiff(action.sourcePrompt.Tags, action.targetPrompt.Tags);
+  if (Object.keys(toAdd).length) console.log(`  Tags to add: ${Object.entries(toAdd).map(([k, v]) => `${k}=${v}`).join(", ")}`);
+  if (toRemove.length) console.log(`  Tags to remove: ${toRemove.join(", ")}`);
+}
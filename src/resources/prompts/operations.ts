@@ -0,0 +1,132 @@
+
+import { DescribePromptCommand, GetPromptFileCommand, CreatePromptCommand, UpdatePromptCommand, DeletePromptCommand } from "@aws-sdk/client-connect";
+import { PutObjectCommand } from "@aws-sdk/client-s3";
+
+import type { ConnectClient, Prompt } from "@aws-sdk/client-connect";
+import type { S3Client } from "@aws-sdk/client-s3";
+
+
+export interface CreatePromptConfig {
+  Name: string;
+  S3Uri: string;
+  Description?: string | undefined;
+  Tags?: Record<string, string> | undefined;
+}
+
+
+export interface UpdatePromptConfig {
+  Name?: string | undefined;
+  S3Uri?: string | undefined;
+  Description?: string | undefined;
+}
+
+
+export interface PromptAudio {
+  data: Uint8Array;
+  extension: string;
+}
+
+
+export async function describePrompt(client: ConnectClient, instanceId: string, promptId: string): Promise<Prompt> {
+  const response = await client.send(
+    new DescribePromptCommand({
+      InstanceId: instanceId,
+      PromptId: promptId
+    })
+  );
+
+  if (!response.Prompt) {
+    throw new Error(`Prompt not found: ${promptId}`);
+  }
+
+  return response.Prompt;
+}
+
+
+export async function downloadPromptAudio(client: ConnectClient, instanceId: string, promptId: string): Promise<PromptAudio> {
+  const response = await client.send(
+    new GetPromptFileCommand({
+      InstanceId: instanceId,
+      PromptId: promptId
+    })
+  );
+
+  if (!response.PromptPresignedUrl) {
+    throw new Error(`No audio file available for prompt: ${promptId}`);
+  }
+
+  const download = await fetch(response.PromptPresignedUrl);
+  if (!download.ok) {
+    throw new Error(`Failed to download audio for prompt ${promptId}: HTTP ${download.status}`);
+  }
+
+  // Connect accepts .wav and .mp3; keep whichever the stored file uses
+  const extension = new URL(response.PromptPresignedUrl).pathname.match(/\.(\w+)$/)?.[1]?.toLowerCase() ?? "wav";
+
+  return {
+    data: new Uint8Array(await download.arrayBuffer()),
+    extension
+  };
+}
+
+
+export async function stagePromptAudio(s3Client: S3Client, stagingUri: string, fileName: string, audio: PromptAudio): Promise<string> {
+  const { bucket, prefix } = parseS3Uri(stagingUri);
+  const key = `${prefix}${fileName}.${audio.extension}`;
+
+  await s3Client.send(
+    new PutObjectCommand({
+      Bucket: bucket,
+      Key: key,
+      Body: audio.data,
+      ContentType: audio.extension === "mp3" ? "audio/mpeg" : "audio/wav"
+    })
+  );
+
+  return `s3://${bucket}/${key}`;
+}
+
+
+export async function createPrompt(client: ConnectClient, instanceId: string, config: CreatePromptConfig): Promise<{ id: string; arn: string }> {
+  const response = await client.send(
+    new CreatePromptCommand({
+      InstanceId: instanceId,
+      ...config
+    })
+  );
+
+  return {
+    id: response.PromptId!,
+    arn: response.PromptARN!
+  };
+}
+
+
+export async function updatePrompt(client: ConnectClient, instanceId: string, promptId: string, config: UpdatePromptConfig): Promise<void> {
+  await client.send(
+    new UpdatePromptCommand({
+      InstanceId: instanceId,
+      PromptId: promptId,
+      ...config
+    })
+  );
+}
+
+
+export async function deletePrompt(client: ConnectClient, instanceId: string, promptId: string): Promise<void> {
+  await client.send(
+    new DeletePromptCommand({
+      InstanceId: instanceId,
+      PromptId: promptId
+    })
+  );
+}
+
+
+function parseS3Uri(uri: string): { bucket: string; prefix: string } {
+  const match = uri.match(/^s3:\/\/([^/]+)\/?(.*)$/);
+  if (!match) throw new Error(`Invalid S3 URI: ${uri}`);
+
+  const prefix = match[2] ?? "";
+  return { bucket: match[1]!, prefix: prefix && !prefix.endsWith("/") ? `${prefix}/` : prefix };
+}
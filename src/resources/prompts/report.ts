@@ -0,0 +1,201 @@
+
+import { createHash } from "crypto";
+
+import * as CliUtil from "../../utils/cli-utils.js";
+import { mapConcurrent } from "../../utils/concurrency-utils.js";
+import { listPrompts } from "../../connect/resources.js";
+import { matchesFlowFilters } from "../../filters.js";
+import { matchResources, withTargetName } from "../../identity.js";
+import { describePrompt, downloadPromptAudio } from "./operations.js";
+import { log } from "../../utils/log-utils.js";
+
+import type { PromptSummary, Prompt } from "@aws-sdk/client-connect";
+import type { PromptAudio } from "./operations.js";
+
+
+export interface PromptAction {
+  action: "create" | "update_all" | "update_tags" | "update_data" | "skip";
+
+  promptName: string;
+  sourcePrompt: Prompt;
+  sourceAudio: PromptAudio;
+  sourceAudioHash: string;
+  targetPrompt?: Prompt;
+  targetAudioHash?: string;
+  targetPromptId?: string;
+  targetPromptArn?: string;
+}
+
+
+export interface PromptComparisonResult {
+  actions: PromptAction[];
+  prompts: PromptSummary[];
+}
+
+
+export async function comparePrompts(config: CliUtil.ResourceComparisonConfig): Promise<PromptComparisonResult> {
+  const {
+    sourceClient,
+    targetClient,
+    sourceInstanceId,
+    targetInstanceId,
+    filterConfig
+  } = config;
+
+  const sourcePrompts = await listPrompts(sourceClient, sourceInstanceId);
+  const targetPrompts = await listPrompts(targetClient, targetInstanceId);
+
+  let filteredSourcePrompts = sourcePrompts;
+
+  if (filterConfig) {
+    filteredSourcePrompts = filteredSourcePrompts.filter(prompt =>
+      matchesFlowFilters(prompt.Name!, filterConfig)
+    );
+  }
+
+  const targetMatches = await matchResources(config, "prompts", filteredSourcePrompts, targetPrompts);
+  const actions = await mapConcurrent(filteredSourcePrompts, async (sourceSummary): Promise<PromptAction> => {
+    const sourcePrompt = withTargetName(config, "prompts", await describePrompt(sourceClient, sourceInstanceId, sourceSummary.Id!));
+    const sourceAudio = await downloadPromptAudio(sourceClient, sourceInstanceId, sourceSummary.Id!);
+    const sourceAudioHash = hashAudio(sourceAudio);
+    const targetSummary = targetMatches.get(sourceSummary.Id!);
+
+    if (!targetSummary) {
+      return {
+        promptName: sourceSummary.Name!,
+        action: "create",
+        sourcePrompt,
+        sourceAudio,
+        sourceAudioHash
+      };
+    }
+
+    const targetPrompt = await describePrompt(targetClient, targetInstanceId, targetSummary.Id!);
+    const targetAudioHash = hashAudio(await downloadPromptAudio(targetClient, targetInstanceId, targetSummary.Id!));
+
+    // Audio is compared by content hash; the stored file name and upload time differ per instance
+    const contentMatches = sourcePrompt.Name === targetPrompt.Name && sourcePrompt.Description === targetPrompt.Description && sourceAudioHash === targetAudioHash;
+    const tagsMatch = CliUtil.recordsMatch(sourcePrompt.Tags, targetPrompt.Tags);
+
+    const actionType = (!contentMatches && !tagsMatch) ? "update_all"
+      : !contentMatches ? "update_data"
+      : !tagsMatch ? "update_tags"
+      : "skip";
+
+    return {
+      promptName: sourceSummary.Name!,
+      action: actionType,
+      sourcePrompt,
+      sourceAudio,
+      sourceAudioHash,
+      targetPrompt,
+      targetAudioHash,
+      targetPromptId: targetSummary.Id!,
+      targetPromptArn: targetSummary.Arn!
+    };
+  }, "Describing prompts");
+
+  return { actions, prompts: filteredSourcePrompts };
+}
+
+
+function hashAudio(audio: PromptAudio): string {
+  return createHash("sha256").update(audio.data).digest("hex");
+}
+
+
+export function getPromptDiff(action: PromptAction): string[] {
+  const diffs: string[] = [];
+
+  if (action.sourcePrompt.Name !== action.targetPrompt?.Name) {
+    diffs.push(`Name: ${action.targetPrompt?.Name} → ${action.sourcePrompt.Name}`);
+  }
+
+  if (action.sourcePrompt.Description !== action.targetPrompt?.Description) {
+    diffs.push(`Description: ${action.targetPrompt?.Description ?? "(none)"} → ${action.sourcePrompt.Description ?? "(none)"}`);
+  }
+
+  if (action.sourceAudioHash !== action.targetAudioHash) {
+    diffs.push(`Audio: ${action.targetAudioHash?.slice(0, 12) ?? "(none)"} → ${action.sourceAudioHash.slice(0, 12)} (sha256)`);
+  }
+
+  return diffs;
+}
+
+
+export function displayPromptPlan(result: PromptComparisonResult, verbose: boolean) {
+  const toCreate = result.actions.filter(a => a.action === "create");
+  const toUpdateAll = result.actions.filter(a => a.action === "update_all");
+  const toUpdateData = result.actions.filter(a => a.action === "update_data");
+  const toUpdateTags = result.actions.filter(a => a.action === "update_tags");
+  const toSkip = result.actions.filter(a => a.action === "skip");
+
+  log(`\nSummary:`);
+  log(`  Prompts to create: ${toCreate.length}`);
+  log(`  Prompts to update (all): ${toUpdateAll.length}`);
+  log(`  Prompts to update (data only): ${toUpdateData.length}`);
+  log(`  Prompts to update (tags only): ${toUpdateTags.length}`);
+  log(`  Prompts to skip (identical): ${toSkip.length}`);
+  log(`  Total processed: ${result.prompts.length}`);
+
+  if (toCreate.length > 0) {
+    log(`\nPrompts to create:`);
+    for (const action of toCreate) {
+      log(`  - ${action.promptName}`);
+      if (verbose) {
+        const prompt = action.sourcePrompt;
+        if (prompt.Description) log(`      Description: ${prompt.Description}`);
+        log(`      Audio: ${action.sourceAudio.extension}, ${action.sourceAudio.data.length} bytes`);
+        if (prompt.Tags && Object.keys(prompt.Tags).length > 0) {
+          log(`      Tags: ${Object.entries(prompt.Tags).map(([k, v]) => `${k}=${v}`).join(", ")}`);
+        }
+      }
+    }
+  }
+
+  if (toUpdateAll.length > 0) {
+    log(`\nPrompts to update (all):`);
+    for (const action of toUpdateAll) {
+      log(`  - ${action.promptName}`);
+      if (verbose && action.targetPrompt) {
+        for (const diff of getPromptDiff(action)) {
+          log(`      ${diff}`);
+        }
+        const { toAdd, toRemove } = CliUtil.getRecordDiff(action.sourcePrompt.Tags, action.targetPrompt.Tags);
+        if (Object.keys(toAdd).length) log(`      Tags to add: ${Object.entries(toAdd).map(([k, v]) => `${k}=${v}`).join(", ")}`);
+        if (toRemove.length) log(`      Tags to remove: ${toRemove.join(", ")}`);
+      }
+    }
+  }
+
+  if (toUpdateData.length > 0) {
+    log(`\nPrompts to update (data only):`);
+    for (const action of toUpdateData) {
+      log(`  - ${action.promptName}`);
+      if (verbose && action.targetPrompt) {
+        for (const diff of getPromptDiff(action)) {
+          log(`      ${diff}`);
+        }
+      }
+    }
+  }
+
+  if (toUpdateTags.length > 0) {
+    log(`\nPrompts to update (tags only):`);
+    for (const action of toUpdateTags) {
+      log(`  - ${action.promptName}`);
+      if (verbose && action.targetPrompt) {
+        const { toAdd, toRemove } = CliUtil.getRecordDiff(action.sourcePrompt.Tags, action.targetPrompt.Tags);
+        if (Object.keys(toAdd).length) log(`      Tags to add: ${Object.entries(toAdd).map(([k, v]) => `${k}=${v}`).join(", ")}`);
+        if (toRemove.length) log(`      Tags to remove: ${toRemove.join(", ")}`);
+      }
+    }
+  }
+
+  if (toSkip.length > 0 && verbose) {
+    log(`\nPrompts to skip (identical):`);
+    for (const action of toSkip) {
+      log(`  - ${action.promptName}`);
+    }
+  }
+}
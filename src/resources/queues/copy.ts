@@ -2,6 +2,9 @@
 import * as AwsUtil from "../../utils/aws-utils.js";
 import * as CliUtil from "../../utils/cli-utils.js";
 import { createConnectClient } from "../../connect/client.js";
+import { planStepActions } from "../../plan.js";
+import { queueSection } from "../../report-output.js";
+import { backupSection } from "../../backup.js";
 
 import {
   createQueue,
@@ -15,22 +18,25 @@ import { compareQueues, getQueueDiff, displayQueuePlan } from "./report.js";
 
 import type { ConnectClient } from "@aws-sdk/client-connect";
 import type { QueueComparisonResult, QueueAction } from "./report.js";
+import type { CopyPlan } from "../../plan.js";
 
 
 export interface CopyQueuesOptions {
   sourceConfig: string;
   targetConfig: string;
-  sourceProfile: string;
+  sourceProfile?: string | undefined;
+  sourceSnapshot?: string | undefined;
   targetProfile: string;
   verbose: boolean;
   skipOutboundFlow: boolean;
+  approvedPlan?: CopyPlan | undefined;
 }
 
 
 export async function copyQueues(options: CopyQueuesOptions) {
   const config = await CliUtil.loadConfigs(options);
 
-  const sourceClient = createConnectClient(config.source.region, options.sourceProfile);
+  const sourceClient = await CliUtil.createSourceClient(config.source, options);
   const targetClient = createConnectClient(config.target.region, options.targetProfile);
 
   console.log("\nAnalyzing queue differences...");
@@ -40,14 +46,19 @@ export async function copyQueues(options: CopyQueuesOptions) {
       targetClient,
       sourceInstanceId: config.source.instanceId,
       targetInstanceId: config.target.instanceId,
-      filterConfig: config.source.queueFilters
+      filterConfig: config.source.queueFilters,
+      identity: config.source.identity,
+      nameRules: config.source.nameRules
     },
     {
       skipOutboundFlow: options.skipOutboundFlow,
-      phoneNumberMappings: config.source.phoneNumberMappings
+      phoneNumberMappings: config.source.phoneNumberMappings,
+      phoneNumberMatchBy: config.source.phoneNumberMatchBy
     }
   );
 
+  if (options.approvedPlan) comparisonResult.actions = planStepActions(options.approvedPlan, "queues", comparisonResult.actions, queueSection(comparisonResult), config);
+
   if (comparisonResult.actions.length === 0 && comparisonResult.queues.length === 0) {
     // Validation failed - compareQueues already printed the error
     return;
@@ -68,6 +79,8 @@ export async function copyQueues(options: CopyQueuesOptions) {
     return;
   }
 
+  await backupSection(config.target, "queues", queueSection(comparisonResult));
+
   console.log("\nCopying queues...");
   await executeQueueCopy(targetClient, config.target.instanceId, comparisonResult, options.verbose, options.skipOutboundFlow);
 }
@@ -268,12 +281,12 @@ function logManualConfigurationWarning(skipOutboundFlow: boolean, queuesWithUnma
 
   if (hasUnmappedPhones) {
     console.log("\n• Outbound Caller ID Number - The following queues have phone numbers");
-    console.log("  that were not copied (no mapping provided in phoneNumberMappings):");
+    console.log("  that were not copied (not resolved by phoneNumberMappings or phoneNumberMatchBy):");
     for (const queueName of queuesWithUnmappedPhones) {
       console.log(`    - ${queueName}`);
     }
     console.log("  Configure manually in the AWS Connect Console, or add mappings to");
-    console.log("  phoneNumberMappings in your source config and re-run.");
+    console.log("  phoneNumberMappings (or set phoneNumberMatchBy) in your source config and re-run.");
   }
 
   if (skipOutboundFlow) {
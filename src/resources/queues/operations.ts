@@ -1,7 +1,6 @@
 
 import {
   ListQueuesCommand,
-  ListPhoneNumbersV2Command,
   DescribeQueueCommand,
   CreateQueueCommand,
   UpdateQueueNameCommand,
@@ -11,7 +10,7 @@ import {
   UpdateQueueStatusCommand
 } from "@aws-sdk/client-connect";
 
-import type { ConnectClient, Queue, QueueSummary, ListPhoneNumbersSummary } from "@aws-sdk/client-connect";
+import type { ConnectClient, Queue, QueueSummary } from "@aws-sdk/client-connect";
 
 
 export async function listStandardQueues(client: ConnectClient, instanceId: string): Promise<QueueSummary[]> {
@@ -38,29 +37,6 @@ export async function listStandardQueues(client: ConnectClient, instanceId: stri
 }
 
 
-export async function listPhoneNumbers(client: ConnectClient, instanceId: string): Promise<ListPhoneNumbersSummary[]> {
-  const phoneNumbers: ListPhoneNumbersSummary[] = [];
-  let nextToken: string | undefined;
-
-  do {
-    const response = await client.send(
-      new ListPhoneNumbersV2Command({
-        InstanceId: instanceId,
-        NextToken: nextToken
-      })
-    );
-
-    if (response.ListPhoneNumbersSummaryList) {
-      phoneNumbers.push(...response.ListPhoneNumbersSummaryList);
-    }
-
-    nextToken = response.NextToken;
-  } while (nextToken);
-
-  return phoneNumbers;
-}
-
-
 function removeUndefined<T extends Record<string, any>>(obj: T): { [K in keyof T]: Exclude<T[K], undefined> } {
   return Object.fromEntries(Object.entries(obj)
     .filter(([_, v]) => v !== undefined)) as { [K in keyof T]: Exclude<T[K], undefined> };
@@ -1,11 +1,16 @@
 
 import * as CliUtil from "../../utils/cli-utils.js";
+import { mapConcurrent } from "../../utils/concurrency-utils.js";
 import { listHoursOfOperations } from "../../connect/resources.js";
 import { listContactFlows } from "../../connect/flows.js";
 import { matchesFlowFilters } from "../../filters.js";
-import { listStandardQueues, listPhoneNumbers, describeQueue } from "./operations.js";
+import { matchResources, buildIdentityMapping, withTargetName } from "../../identity.js";
+import { resolvePhoneNumberMapping, displayInvalidPhoneMappings } from "../phone-numbers/report.js";
+import { listStandardQueues, describeQueue } from "./operations.js";
+import { log } from "../../utils/log-utils.js";
 
 import type { QueueSummary, Queue } from "@aws-sdk/client-connect";
+import type { PhoneNumberMatchBy } from "../../validation.js";
 
 
 export interface QueueAction {
@@ -33,6 +38,7 @@ export interface QueueComparisonResult {
 export interface CompareQueuesOptions {
   skipOutboundFlow: boolean;
   phoneNumberMappings?: Record<string, string> | undefined;
+  phoneNumberMatchBy?: PhoneNumberMatchBy | undefined;
 }
 
 
@@ -54,99 +60,45 @@ export async function compareQueues(config: CliUtil.ResourceComparisonConfig, op
   const sourceHoo = await listHoursOfOperations(sourceClient, sourceInstanceId);
   const targetHoo = await listHoursOfOperations(targetClient, targetInstanceId);
 
-  const targetHooByName = Object.fromEntries(targetHoo.map(h => [h.Name, h]));
-  const hooMapping: Record<string, string> = {};
-
-  for (const hoo of sourceHoo) {
-    const targetMatch = targetHooByName[hoo.Name!];
-    if (targetMatch) {
-      hooMapping[hoo.Id!] = targetMatch.Id!;
-    }
-  }
+  const hooMapping = await buildIdentityMapping(config, "hours-of-operation", sourceHoo, targetHoo, "Id");
 
   // Build flow mapping if needed (sourceArn → targetArn)
-  const flowMapping: Record<string, string> = {};
+  let flowMapping: Record<string, string> = {};
 
   if (!options.skipOutboundFlow) {
     const sourceFlows = await listContactFlows(sourceClient, sourceInstanceId);
     const targetFlows = await listContactFlows(targetClient, targetInstanceId);
 
-    const targetFlowsByName = Object.fromEntries(targetFlows.map(f => [f.Name, f]));
-
-    for (const flow of sourceFlows) {
-      const targetMatch = targetFlowsByName[flow.Name!];
-      if (targetMatch) {
-        flowMapping[flow.Arn!] = targetMatch.Arn!;
-      }
-    }
+    flowMapping = await buildIdentityMapping(config, "flows", sourceFlows, targetFlows, "Arn");
   }
 
   // Build phone number mapping (sourceId → targetId) and validate
-  // Supports both E164 format (+1234567890) and phone number IDs (UUIDs)
-  const phoneMapping: Record<string, string> = {};
-  const sourcePhoneNumbers = await listPhoneNumbers(sourceClient, sourceInstanceId);
-  const targetPhoneNumbers = await listPhoneNumbers(targetClient, targetInstanceId);
-
-  const sourcePhoneById = new Map(sourcePhoneNumbers.map(p => [p.PhoneNumberId, p]));
-  const sourcePhoneByE164 = new Map(sourcePhoneNumbers.map(p => [p.PhoneNumber, p]));
-  const targetPhoneById = new Map(targetPhoneNumbers.map(p => [p.PhoneNumberId, p]));
-  const targetPhoneByE164 = new Map(targetPhoneNumbers.map(p => [p.PhoneNumber, p]));
-
-  if (options.phoneNumberMappings) {
-    const invalidMappings: string[] = [];
-
-    for (const [sourceKey, targetKey] of Object.entries(options.phoneNumberMappings)) {
-      // Resolve source to phone number ID
-      const sourcePhone = sourceKey.startsWith("+")
-        ? sourcePhoneByE164.get(sourceKey)
-        : sourcePhoneById.get(sourceKey);
-
-      // Resolve target to phone number ID
-      const targetPhone = targetKey.startsWith("+")
-        ? targetPhoneByE164.get(targetKey)
-        : targetPhoneById.get(targetKey);
-
-      if (!sourcePhone) {
-        invalidMappings.push(`${sourceKey} (not found in source instance)`);
-      } else if (!targetPhone) {
-        invalidMappings.push(`${sourceKey} → ${targetKey} (target not found)`);
-      } else {
-        phoneMapping[sourcePhone.PhoneNumberId!] = targetPhone.PhoneNumberId!;
-      }
-    }
+  // Supports both E164 format (+1234567890) and phone number IDs (UUIDs), plus the phoneNumberMatchBy convention
+  const { phoneMapping, invalidMappings } = await resolvePhoneNumberMapping(config, options);
 
-    if (invalidMappings.length > 0) {
-      console.log("\n⚠️  Validation Error: Invalid phone number mappings\n");
-      console.log("The following phone number mappings are invalid:\n");
-      for (const mapping of invalidMappings) {
-        console.log(`  - ${mapping}`);
-      }
-      console.log("\nCheck your phoneNumberMappings in the source config file.\n");
-
-      return { actions: [], queues: [], hooMapping, flowMapping, phoneMapping, queuesWithUnmappedPhones: [] };
-    }
+  if (invalidMappings.length > 0) {
+    displayInvalidPhoneMappings(invalidMappings);
+    return { actions: [], queues: [], hooMapping, flowMapping, phoneMapping, queuesWithUnmappedPhones: [] };
   }
 
   // Get full details for filtered source queues
-  const sourceQueueDetails = await Promise.all(
-    filteredSourceQueues.map(q => describeQueue(sourceClient, sourceInstanceId, q.Id!))
-  );
+  const sourceQueueDetails = await mapConcurrent(filteredSourceQueues, async q => withTargetName(config, "queues", await describeQueue(sourceClient, sourceInstanceId, q.Id!)), "Describing queues");
 
   // Validate hours of operation dependencies
   const queuesWithMissingHoo = sourceQueueDetails.filter(q => !hooMapping[q.HoursOfOperationId!]);
 
   if (queuesWithMissingHoo.length > 0) {
-    console.log("\n⚠️  Validation Error: Cannot copy queues\n");
-    console.log("The following queues reference hours of operation that don't exist in the target instance:\n");
+    log("\n⚠️  Validation Error: Cannot copy queues\n");
+    log("The following queues reference hours of operation that don't exist in the target instance:\n");
 
     for (const queue of queuesWithMissingHoo) {
       const hooName = sourceHoo.find(h => h.Id === queue.HoursOfOperationId)?.Name ?? queue.HoursOfOperationId;
-      console.log(`  - "${queue.Name}" → Hours of Operation: "${hooName}"`);
+      log(`  - "${queue.Name}" → Hours of Operation: "${hooName}"`);
     }
 
-    console.log("\nTo resolve this issue:");
-    console.log("  • Run copy-hours-of-operation first, OR");
-    console.log("  • Exclude these queues using filters in your source config\n");
+    log("\nTo resolve this issue:");
+    log("  • Run copy-hours-of-operation first, OR");
+    log("  • Exclude these queues using filters in your source config\n");
 
     return { actions: [], queues: [], hooMapping, flowMapping, phoneMapping, queuesWithUnmappedPhones: [] };
   }
@@ -159,8 +111,8 @@ export async function compareQueues(config: CliUtil.ResourceComparisonConfig, op
     });
 
     if (queuesWithMissingFlow.length > 0) {
-      console.log("\n⚠️  Validation Error: Cannot copy queues\n");
-      console.log("The following queues reference outbound whisper flows that don't exist in the target instance:\n");
+      log("\n⚠️  Validation Error: Cannot copy queues\n");
+      log("The following queues reference outbound whisper flows that don't exist in the target instance:\n");
 
       const sourceFlows = await listContactFlows(sourceClient, sourceInstanceId);
       const sourceFlowsByArn = Object.fromEntries(sourceFlows.map(f => [f.Arn, f]));
@@ -168,13 +120,13 @@ export async function compareQueues(config: CliUtil.ResourceComparisonConfig, op
       for (const queue of queuesWithMissingFlow) {
         const flowArn = queue.OutboundCallerConfig?.OutboundFlowId;
         const flowName = sourceFlowsByArn[flowArn!]?.Name ?? flowArn;
-        console.log(`  - "${queue.Name}" → Outbound Flow: "${flowName}"`);
+        log(`  - "${queue.Name}" → Outbound Flow: "${flowName}"`);
       }
 
-      console.log("\nTo resolve this issue:");
-      console.log("  • Run copy (flow copy) first, OR");
-      console.log("  • Use --skip-outbound-flow flag, OR");
-      console.log("  • Exclude these queues using filters in your source config\n");
+      log("\nTo resolve this issue:");
+      log("  • Run copy (flow copy) first, OR");
+      log("  • Use --skip-outbound-flow flag, OR");
+      log("  • Exclude these queues using filters in your source config\n");
 
       return { actions: [], queues: [], hooMapping, flowMapping, phoneMapping, queuesWithUnmappedPhones: [] };
     }
@@ -191,19 +143,16 @@ export async function compareQueues(config: CliUtil.ResourceComparisonConfig, op
   }
 
   // Build comparison actions
-  const targetQueuesByName = Object.fromEntries(targetQueues.map(q => [q.Name, q]));
-  const actions: QueueAction[] = [];
-
-  for (const sourceQueue of sourceQueueDetails) {
-    const targetQueueSummary = targetQueuesByName[sourceQueue.Name!];
+  const targetMatches = await matchResources(config, "queues", filteredSourceQueues, targetQueues);
+  const actions = await mapConcurrent(sourceQueueDetails, async (sourceQueue): Promise<QueueAction> => {
+    const targetQueueSummary = targetMatches.get(sourceQueue.QueueId!);
 
     if (!targetQueueSummary) {
-      actions.push({
+      return {
         queueName: sourceQueue.Name!,
         action: "create",
         sourceQueue
-      });
-      continue;
+      };
     }
 
     const targetQueue = await describeQueue(targetClient, targetInstanceId, targetQueueSummary.Id!);
@@ -226,14 +175,15 @@ export async function compareQueues(config: CliUtil.ResourceComparisonConfig, op
     if (targetQueueSummary.Id) action.targetQueueId = targetQueueSummary.Id;
     if (targetQueueSummary.Arn) action.targetQueueArn = targetQueueSummary.Arn;
 
-    actions.push(action);
-  }
+    return action;
+  }, "Describing target queues");
 
   return { actions, queues: filteredSourceQueues, hooMapping, flowMapping, phoneMapping, queuesWithUnmappedPhones };
 }
 
 
 function queueContentMatches(source: NoUndefinedVals<Queue>, target: NoUndefinedVals<Queue>, hooMapping: Record<string, string>, flowMapping: Record<string, string>, phoneMapping: Record<string, string>, skipOutboundFlow: boolean): boolean {
+  if (source.Name !== target.Name) return false;
   if (source.Description !== target.Description) return false;
   if (source.MaxContacts !== target.MaxContacts) return false;
   if (source.Status !== target.Status) return false;
@@ -273,6 +223,10 @@ function queueContentMatches(source: NoUndefinedVals<Queue>, target: NoUndefined
 export function getQueueDiff(source: NoUndefinedVals<Queue>, target: NoUndefinedVals<Queue>, hooMapping: Record<string, string>, flowMapping: Record<string, string>, phoneMapping: Record<string, string>, skipOutboundFlow: boolean): string[] {
   const diffs: string[] = [];
 
+  if (source.Name !== target.Name) {
+    diffs.push(`Name: ${target.Name} → ${source.Name}`);
+  }
+
   if (source.Description !== target.Description) {
     diffs.push(`Description: ${target.Description ?? "(none)"} → ${source.Description ?? "(none)"}`);
   }
@@ -327,67 +281,67 @@ export function displayQueuePlan(result: QueueComparisonResult, verbose: boolean
   const toUpdateTags = result.actions.filter(a => a.action === "update_tags");
   const toSkip = result.actions.filter(a => a.action === "skip");
 
-  console.log(`\nSummary:`);
-  console.log(`  Queues to create: ${toCreate.length}`);
-  console.log(`  Queues to update (all): ${toUpdateAll.length}`);
-  console.log(`  Queues to update (data only): ${toUpdateData.length}`);
-  console.log(`  Queues to update (tags only): ${toUpdateTags.length}`);
-  console.log(`  Queues to skip (identical): ${toSkip.length}`);
-  console.log(`  Total processed: ${result.queues.length}`);
+  log(`\nSummary:`);
+  log(`  Queues to create: ${toCreate.length}`);
+  log(`  Queues to update (all): ${toUpdateAll.length}`);
+  log(`  Queues to update (data only): ${toUpdateData.length}`);
+  log(`  Queues to update (tags only): ${toUpdateTags.length}`);
+  log(`  Queues to skip (identical): ${toSkip.length}`);
+  log(`  Total processed: ${result.queues.length}`);
 
   if (toCreate.length > 0) {
-    console.log(`\nQueues to create:`);
+    log(`\nQueues to create:`);
     for (const action of toCreate) {
-      console.log(`  - ${action.queueName}`);
+      log(`  - ${action.queueName}`);
       if (verbose) {
         const queue = action.sourceQueue;
-        if (queue.Description) console.log(`      Description: ${queue.Description}`);
-        console.log(`      Status: ${queue.Status}`);
-        if (queue.MaxContacts) console.log(`      MaxContacts: ${queue.MaxContacts}`);
+        if (queue.Description) log(`      Description: ${queue.Description}`);
+        log(`      Status: ${queue.Status}`);
+        if (queue.MaxContacts) log(`      MaxContacts: ${queue.MaxContacts}`);
         if (queue.Tags && Object.keys(queue.Tags).length > 0) {
-          console.log(`      Tags: ${Object.entries(queue.Tags).map(([k, v]) => `${k}=${v}`).join(", ")}`);
+          log(`      Tags: ${Object.entries(queue.Tags).map(([k, v]) => `${k}=${v}`).join(", ")}`);
         }
       }
     }
   }
 
   if (toUpdateAll.length > 0) {
-    console.log(`\nQueues to update (all):`);
+    log(`\nQueues to update (all):`);
     for (const action of toUpdateAll) {
-      console.log(`  - ${action.queueName}`);
+      log(`  - ${action.queueName}`);
       if (verbose && action.targetQueue) {
         const diffs = getQueueDiff(action.sourceQueue, action.targetQueue, result.hooMapping, result.flowMapping, result.phoneMapping, skipOutboundFlow);
         for (const diff of diffs) {
-          console.log(`      ${diff}`);
+          log(`      ${diff}`);
         }
       }
     }
   }
 
   if (toUpdateData.length > 0) {
-    console.log(`\nQueues to update (data only):`);
+    log(`\nQueues to update (data only):`);
     for (const action of toUpdateData) {
-      console.log(`  - ${action.queueName}`);
+      log(`  - ${action.queueName}`);
       if (verbose && action.targetQueue) {
         const diffs = getQueueDiff(action.sourceQueue, action.targetQueue, result.hooMapping, result.flowMapping, result.phoneMapping, skipOutboundFlow);
         for (const diff of diffs) {
-          console.log(`      ${diff}`);
+          log(`      ${diff}`);
         }
       }
     }
   }
 
   if (toUpdateTags.length > 0) {
-    console.log(`\nQueues to update (tags only):`);
+    log(`\nQueues to update (tags only):`);
     for (const action of toUpdateTags) {
-      console.log(`  - ${action.queueName}`);
+      log(`  - ${action.queueName}`);
     }
   }
 
   if (toSkip.length > 0 && verbose) {
-    console.log(`\nQueues to skip (identical):`);
+    log(`\nQueues to skip (identical):`);
     for (const action of toSkip) {
-      console.log(`  - ${action.queueName}`);
+      log(`  - ${action.queueName}`);
     }
   }
 }
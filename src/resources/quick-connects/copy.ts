@@ -2,19 +2,25 @@
 import * as AwsUtil from "../../utils/aws-utils.js";
 import * as CliUtil from "../../utils/cli-utils.js";
 import { createConnectClient } from "../../connect/client.js";
+import { planStepActions } from "../../plan.js";
+import { quickConnectSection } from "../../report-output.js";
+import { backupSection } from "../../backup.js";
 import { compareQuickConnects, displayQuickConnectPlan, getQuickConnectDiff } from "./report.js";
 import { createQuickConnect, updateQuickConnectName, updateQuickConnectConfig, associateQueueQuickConnects, disassociateQueueQuickConnects, listQuickConnects } from "./operations.js";
 
 import type { ConnectClient, QuickConnectConfig } from "@aws-sdk/client-connect";
 import type { QuickConnectComparisonResult, QuickConnectAction, QueueAssociationAction } from "./report.js";
+import type { CopyPlan } from "../../plan.js";
 
 
 export interface CopyQuickConnectsOptions {
   sourceConfig: string;
   targetConfig: string;
-  sourceProfile: string;
+  sourceProfile?: string | undefined;
+  sourceSnapshot?: string | undefined;
   targetProfile: string;
   verbose: boolean;
+  approvedPlan?: CopyPlan | undefined;
 }
 
 
@@ -28,7 +34,7 @@ interface Mappings {
 export async function copyQuickConnects(options: CopyQuickConnectsOptions) {
   const config = await CliUtil.loadConfigs(options);
 
-  const sourceClient = createConnectClient(config.source.region, options.sourceProfile);
+  const sourceClient = await CliUtil.createSourceClient(config.source, options);
   const targetClient = createConnectClient(config.target.region, options.targetProfile);
 
   console.log("\nAnalyzing quick connect differences...");
@@ -37,9 +43,13 @@ export async function copyQuickConnects(options: CopyQuickConnectsOptions) {
     targetClient,
     sourceInstanceId: config.source.instanceId,
     targetInstanceId: config.target.instanceId,
-    filterConfig: config.source.quickConnectFilters
+    filterConfig: config.source.quickConnectFilters,
+    identity: config.source.identity,
+    nameRules: config.source.nameRules
   });
 
+  if (options.approvedPlan) comparisonResult.actions = planStepActions(options.approvedPlan, "quick-connects", comparisonResult.actions, quickConnectSection(comparisonResult), config);
+
   displayQuickConnectPlan(comparisonResult, options.verbose);
 
   const needsQuickConnectCopy = comparisonResult.actions.some(a => a.action !== "skip" && a.action !== "skip_missing_deps");
@@ -56,6 +66,8 @@ export async function copyQuickConnects(options: CopyQuickConnectsOptions) {
     return;
   }
 
+  await backupSection(config.target, "quick-connects", quickConnectSection(comparisonResult));
+
   console.log("\nCopying quick connects...");
   const createdQuickConnects = await executeQuickConnectCopy(targetClient, config.target.instanceId, comparisonResult, options.verbose);
 
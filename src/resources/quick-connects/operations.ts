@@ -6,12 +6,12 @@ import {
   CreateQuickConnectCommand,
   UpdateQuickConnectNameCommand,
   UpdateQuickConnectConfigCommand,
-  ListUsersCommand,
   ListQueuesCommand,
   ListContactFlowsCommand,
   ListQueueQuickConnectsCommand,
   AssociateQueueQuickConnectsCommand,
-  DisassociateQueueQuickConnectsCommand
+  DisassociateQueueQuickConnectsCommand,
+  DeleteQuickConnectCommand
 } from "@aws-sdk/client-connect";
 
 import type {
@@ -19,7 +19,6 @@ import type {
   QuickConnectSummary,
   QuickConnect,
   QuickConnectConfig,
-  UserSummary,
   QueueSummary,
   ContactFlowSummary
 } from "@aws-sdk/client-connect";
@@ -115,29 +114,6 @@ export async function updateQuickConnectConfig(client: ConnectClient, instanceId
 }
 
 
-export async function listUsers(client: ConnectClient, instanceId: string): Promise<UserSummary[]> {
-  const users: UserSummary[] = [];
-  let nextToken: string | undefined;
-
-  do {
-    const response = await client.send(
-      new ListUsersCommand({
-        InstanceId: instanceId,
-        NextToken: nextToken
-      })
-    );
-
-    if (response.UserSummaryList) {
-      users.push(...response.UserSummaryList);
-    }
-
-    nextToken = response.NextToken;
-  } while (nextToken);
-
-  return users;
-}
-
-
 export async function listQueues(client: ConnectClient, instanceId: string): Promise<QueueSummary[]> {
   const queues: QueueSummary[] = [];
   let nextToken: string | undefined;
@@ -246,3 +222,13 @@ export async function disassociateQueueQuickConnects(client: ConnectClient, inst
     );
   }
 }
+
+
+export async function deleteQuickConnect(client: ConnectClient, instanceId: string, quickConnectId: string): Promise<void> {
+  await client.send(
+    new DeleteQuickConnectCommand({
+      InstanceId: instanceId,
+      QuickConnectId: quickConnectId
+    })
+  );
+}
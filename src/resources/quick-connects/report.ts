@@ -1,10 +1,15 @@
 
 
 import * as CliUtil from "../../utils/cli-utils.js";
+import { mapConcurrent } from "../../utils/concurrency-utils.js";
+import { listUsers } from "../../connect/resources.js";
 import { matchesFlowFilters } from "../../filters.js";
-import { listQuickConnects, listUsers, listQueues, listContactFlows, describeQuickConnect, listQueueQuickConnects } from "./operations.js";
+import { matchResources, buildIdentityMapping, withTargetName, applyNameRules } from "../../identity.js";
+import { listQuickConnects, listQueues, listContactFlows, describeQuickConnect, listQueueQuickConnects } from "./operations.js";
+import { log } from "../../utils/log-utils.js";
 
 import type { QuickConnectSummary, QuickConnect, QuickConnectConfig, QueueSummary, ConnectClient } from "@aws-sdk/client-connect";
+import type { NameRule } from "../../validation.js";
 
 
 export type QuickConnectActionType = "create" | "update_all" | "update_tags" | "update_data" | "skip" | "skip_missing_deps";
@@ -84,31 +89,15 @@ export async function compareQuickConnects(config: CliUtil.ResourceComparisonCon
     }
   }
 
-  // Build queue mapping (by Name)
+  // Build queue mapping (by identity, usually name)
   const sourceQueues = await listQueues(sourceClient, sourceInstanceId);
   const targetQueues = await listQueues(targetClient, targetInstanceId);
-  const targetQueuesByName = Object.fromEntries(targetQueues.map(q => [q.Name, q]));
-  const queueMapping: Record<string, string> = {};
+  const queueMapping = await buildIdentityMapping(config, "queues", sourceQueues, targetQueues, "Id");
 
-  for (const queue of sourceQueues) {
-    const targetMatch = targetQueuesByName[queue.Name!];
-    if (targetMatch) {
-      queueMapping[queue.Id!] = targetMatch.Id!;
-    }
-  }
-
-  // Build flow mapping (by Name, ARN to ARN)
+  // Build flow mapping (by identity, ID to ID)
   const sourceFlows = await listContactFlows(sourceClient, sourceInstanceId);
   const targetFlows = await listContactFlows(targetClient, targetInstanceId);
-  const targetFlowsByName = Object.fromEntries(targetFlows.map(f => [f.Name, f]));
-  const flowMapping: Record<string, string> = {};
-
-  for (const flow of sourceFlows) {
-    const targetMatch = targetFlowsByName[flow.Name!];
-    if (targetMatch) {
-      flowMapping[flow.Id!] = targetMatch.Id!;
-    }
-  }
+  const flowMapping = await buildIdentityMapping(config, "flows", sourceFlows, targetFlows, "Id");
 
   const mappings: Mappings = { userMapping, queueMapping, flowMapping };
 
@@ -117,12 +106,10 @@ export async function compareQuickConnects(config: CliUtil.ResourceComparisonCon
   const sourceQueuesById = Object.fromEntries(sourceQueues.map(q => [q.Id, q]));
   const sourceFlowsById = Object.fromEntries(sourceFlows.map(f => [f.Id, f]));
 
-  const targetQuickConnectsByName = Object.fromEntries(targetQuickConnects.map(qc => [qc.Name, qc]));
-  const actions: QuickConnectAction[] = [];
-
-  for (const sourceSummary of filteredSourceQuickConnects) {
-    const sourceQuickConnect = await describeQuickConnect(sourceClient, sourceInstanceId, sourceSummary.Id!);
-    const targetSummary = targetQuickConnectsByName[sourceSummary.Name!];
+  const targetMatches = await matchResources(config, "quick-connects", filteredSourceQuickConnects, targetQuickConnects);
+  const actions = await mapConcurrent(filteredSourceQuickConnects, async (sourceSummary): Promise<QuickConnectAction> => {
+    const sourceQuickConnect = withTargetName(config, "quick-connects", await describeQuickConnect(sourceClient, sourceInstanceId, sourceSummary.Id!));
+    const targetSummary = targetMatches.get(sourceSummary.Id!);
     const quickConnectType = sourceQuickConnect.QuickConnectConfig!.QuickConnectType!;
 
     // Check for missing dependencies
@@ -130,38 +117,36 @@ export async function compareQuickConnects(config: CliUtil.ResourceComparisonCon
 
     if (!targetSummary) {
       if (missingDeps.length > 0) {
-        actions.push({
-          quickConnectName: sourceSummary.Name!,
+        return {
+          quickConnectName: sourceQuickConnect.Name!,
           quickConnectType,
           action: "skip_missing_deps",
           sourceQuickConnect,
           missingDeps
-        });
-      } else {
-        actions.push({
-          quickConnectName: sourceSummary.Name!,
-          quickConnectType,
-          action: "create",
-          sourceQuickConnect
-        });
+        };
       }
-      continue;
+
+      return {
+        quickConnectName: sourceQuickConnect.Name!,
+        quickConnectType,
+        action: "create",
+        sourceQuickConnect
+      };
     }
 
     const targetQuickConnect = await describeQuickConnect(targetClient, targetInstanceId, targetSummary.Id!);
 
     if (missingDeps.length > 0) {
-      actions.push({
-        quickConnectName: sourceSummary.Name!,
+      return {
+        quickConnectName: sourceQuickConnect.Name!,
         quickConnectType,
         action: "skip_missing_deps",
         sourceQuickConnect,
         targetQuickConnect,
-        targetQuickConnectId: targetSummary.Id,
-        targetQuickConnectArn: targetSummary.Arn,
+        targetQuickConnectId: targetSummary.Id!,
+        targetQuickConnectArn: targetSummary.Arn!,
         missingDeps
-      });
-      continue;
+      };
     }
 
     const contentMatches = quickConnectContentMatches(sourceQuickConnect, targetQuickConnect, mappings);
@@ -172,16 +157,16 @@ export async function compareQuickConnects(config: CliUtil.ResourceComparisonCon
       : !tagsMatch ? "update_tags"
       : "skip";
 
-    actions.push({
-      quickConnectName: sourceSummary.Name!,
+    return {
+      quickConnectName: sourceQuickConnect.Name!,
       quickConnectType,
       action: actionType,
       sourceQuickConnect,
       targetQuickConnect,
-      targetQuickConnectId: targetSummary.Id,
-      targetQuickConnectArn: targetSummary.Arn
-    });
-  }
+      targetQuickConnectId: targetSummary.Id!,
+      targetQuickConnectArn: targetSummary.Arn!
+    };
+  }, "Describing quick connects");
 
   // Build set of QC names that will exist in target after copy
   // (existing target QCs + QCs being created)
@@ -195,6 +180,15 @@ export async function compareQuickConnects(config: CliUtil.ResourceComparisonCon
     }
   }
 
+  // Quick connects matched under another name are compared by the name they will be renamed to
+  const targetNameOf = (qc: QuickConnectSummary) => applyNameRules(config.nameRules, "quick-connects", qc.Name!);
+  const renamedQuickConnects = Object.fromEntries(filteredSourceQuickConnects
+    .filter(qc => targetMatches.get(qc.Id!) && targetMatches.get(qc.Id!)!.Name !== targetNameOf(qc))
+    .map(qc => [targetMatches.get(qc.Id!)!.Name!, targetNameOf(qc)]));
+  for (const name of Object.values(renamedQuickConnects)) {
+    qcNamesWillExist.add(name);
+  }
+
   // Compare queue associations
   const queueAssociationActions = await compareQueueAssociations(
     sourceClient,
@@ -204,7 +198,9 @@ export async function compareQuickConnects(config: CliUtil.ResourceComparisonCon
     sourceQueues,
     targetQueues,
     queueMapping,
-    qcNamesWillExist
+    qcNamesWillExist,
+    renamedQuickConnects,
+    config.nameRules
   );
 
   return {
@@ -228,23 +224,21 @@ async function compareQueueAssociations(
   sourceQueues: QueueSummary[],
   targetQueues: QueueSummary[],
   queueMapping: Record<string, string>,
-  qcNamesWillExist: Set<string>
+  qcNamesWillExist: Set<string>,
+  renamedQuickConnects: Record<string, string>,
+  nameRules: NameRule[] | undefined
 ): Promise<QueueAssociationAction[]> {
-  const actions: QueueAssociationAction[] = [];
   const targetQueuesById = Object.fromEntries(targetQueues.map(q => [q.Id, q]));
 
-  for (const sourceQueue of sourceQueues) {
+  const actions = await mapConcurrent(sourceQueues, async (sourceQueue): Promise<QueueAssociationAction | undefined> => {
     const targetQueueId = queueMapping[sourceQueue.Id!];
-    if (!targetQueueId) continue;
-
-    const targetQueue = targetQueuesById[targetQueueId];
-    if (!targetQueue) continue;
+    if (!targetQueueId || !targetQueuesById[targetQueueId]) return undefined;
 
     const sourceQueueQcs = await listQueueQuickConnects(sourceClient, sourceInstanceId, sourceQueue.Id!);
     const targetQueueQcs = await listQueueQuickConnects(targetClient, targetInstanceId, targetQueueId);
 
-    const sourceQcNames = new Set(sourceQueueQcs.map(qc => qc.Name!));
-    const targetQcNames = new Set(targetQueueQcs.map(qc => qc.Name!));
+    const sourceQcNames = new Set(sourceQueueQcs.map(qc => applyNameRules(nameRules, "quick-connects", qc.Name!)));
+    const targetQcNames = new Set(targetQueueQcs.map(qc => renamedQuickConnects[qc.Name!] ?? qc.Name!));
 
     const toAssociate: string[] = [];
     const toDisassociate: string[] = [];
@@ -262,17 +256,17 @@ async function compareQueueAssociations(
       }
     }
 
-    if (toAssociate.length > 0 || toDisassociate.length > 0) {
-      actions.push({
-        queueName: sourceQueue.Name!,
-        targetQueueId,
-        toAssociate,
-        toDisassociate
-      });
-    }
-  }
+    if (toAssociate.length === 0 && toDisassociate.length === 0) return undefined;
+
+    return {
+      queueName: sourceQueue.Name!,
+      targetQueueId,
+      toAssociate,
+      toDisassociate
+    };
+  }, "Comparing queue quick connects");
 
-  return actions;
+  return actions.filter(a => a !== undefined);
 }
 
 
@@ -361,6 +355,10 @@ function quickConnectContentMatches(source: QuickConnect, target: QuickConnect,
 export function getQuickConnectDiff(source: QuickConnect, target: QuickConnect, mappings: Mappings): string[] {
   const diffs: string[] = [];
 
+  if (source.Name !== target.Name) {
+    diffs.push(`Name: ${target.Name} → ${source.Name}`);
+  }
+
   if (source.Description !== target.Description) {
     diffs.push(`Description: ${target.Description ?? "(none)"} → ${source.Description ?? "(none)"}`);
   }
@@ -420,14 +418,14 @@ export function displayQuickConnectPlan(result: QuickConnectComparisonResult, ve
   const toSkip = result.actions.filter(a => a.action === "skip");
   const toSkipMissingDeps = result.actions.filter(a => a.action === "skip_missing_deps");
 
-  console.log(`\nSummary:`);
-  console.log(`  Quick connects to create: ${toCreate.length}`);
-  console.log(`  Quick connects to update (all): ${toUpdateAll.length}`);
-  console.log(`  Quick connects to update (data only): ${toUpdateData.length}`);
-  console.log(`  Quick connects to update (tags only): ${toUpdateTags.length}`);
-  console.log(`  Quick connects to skip (identical): ${toSkip.length}`);
-  console.log(`  Quick connects to skip (missing deps): ${toSkipMissingDeps.length}`);
-  console.log(`  Total processed: ${result.quickConnects.length}`);
+  log(`\nSummary:`);
+  log(`  Quick connects to create: ${toCreate.length}`);
+  log(`  Quick connects to update (all): ${toUpdateAll.length}`);
+  log(`  Quick connects to update (data only): ${toUpdateData.length}`);
+  log(`  Quick connects to update (tags only): ${toUpdateTags.length}`);
+  log(`  Quick connects to skip (identical): ${toSkip.length}`);
+  log(`  Quick connects to skip (missing deps): ${toSkipMissingDeps.length}`);
+  log(`  Total processed: ${result.quickConnects.length}`);
 
   const mappings: Mappings = {
     userMapping: result.userMapping,
@@ -436,75 +434,75 @@ export function displayQuickConnectPlan(result: QuickConnectComparisonResult, ve
   };
 
   if (toCreate.length > 0) {
-    console.log(`\nQuick connects to create:`);
+    log(`\nQuick connects to create:`);
     for (const action of toCreate) {
-      console.log(`  - ${action.quickConnectName} (${action.quickConnectType})`);
+      log(`  - ${action.quickConnectName} (${action.quickConnectType})`);
       if (verbose) {
         const qc = action.sourceQuickConnect;
-        if (qc.Description) console.log(`      Description: ${qc.Description}`);
+        if (qc.Description) log(`      Description: ${qc.Description}`);
         logConfigDetails(qc.QuickConnectConfig!, "      ");
         if (qc.Tags && Object.keys(qc.Tags).length > 0) {
-          console.log(`      Tags: ${Object.entries(qc.Tags).map(([k, v]) => `${k}=${v}`).join(", ")}`);
+          log(`      Tags: ${Object.entries(qc.Tags).map(([k, v]) => `${k}=${v}`).join(", ")}`);
         }
       }
     }
   }
 
   if (toUpdateAll.length > 0) {
-    console.log(`\nQuick connects to update (all):`);
+    log(`\nQuick connects to update (all):`);
     for (const action of toUpdateAll) {
-      console.log(`  - ${action.quickConnectName} (${action.quickConnectType})`);
+      log(`  - ${action.quickConnectName} (${action.quickConnectType})`);
       if (verbose && action.targetQuickConnect) {
         const diffs = getQuickConnectDiff(action.sourceQuickConnect, action.targetQuickConnect, mappings);
         for (const diff of diffs) {
-          console.log(`      ${diff}`);
+          log(`      ${diff}`);
         }
         const { toAdd, toRemove } = CliUtil.getRecordDiff(action.sourceQuickConnect.Tags, action.targetQuickConnect.Tags);
-        if (Object.keys(toAdd).length) console.log(`      Tags to add: ${Object.entries(toAdd).map(([k, v]) => `${k}=${v}`).join(", ")}`);
-        if (toRemove.length) console.log(`      Tags to remove: ${toRemove.join(", ")}`);
+        if (Object.keys(toAdd).length) log(`      Tags to add: ${Object.entries(toAdd).map(([k, v]) => `${k}=${v}`).join(", ")}`);
+        if (toRemove.length) log(`      Tags to remove: ${toRemove.join(", ")}`);
       }
     }
   }
 
   if (toUpdateData.length > 0) {
-    console.log(`\nQuick connects to update (data only):`);
+    log(`\nQuick connects to update (data only):`);
     for (const action of toUpdateData) {
-      console.log(`  - ${action.quickConnectName} (${action.quickConnectType})`);
+      log(`  - ${action.quickConnectName} (${action.quickConnectType})`);
       if (verbose && action.targetQuickConnect) {
         const diffs = getQuickConnectDiff(action.sourceQuickConnect, action.targetQuickConnect, mappings);
         for (const diff of diffs) {
-          console.log(`      ${diff}`);
+          log(`      ${diff}`);
         }
       }
     }
   }
 
   if (toUpdateTags.length > 0) {
-    console.log(`\nQuick connects to update (tags only):`);
+    log(`\nQuick connects to update (tags only):`);
     for (const action of toUpdateTags) {
-      console.log(`  - ${action.quickConnectName} (${action.quickConnectType})`);
+      log(`  - ${action.quickConnectName} (${action.quickConnectType})`);
       if (verbose && action.targetQuickConnect) {
         const { toAdd, toRemove } = CliUtil.getRecordDiff(action.sourceQuickConnect.Tags, action.targetQuickConnect.Tags);
-        if (Object.keys(toAdd).length) console.log(`      Tags to add: ${Object.entries(toAdd).map(([k, v]) => `${k}=${v}`).join(", ")}`);
-        if (toRemove.length) console.log(`      Tags to remove: ${toRemove.join(", ")}`);
+        if (Object.keys(toAdd).length) log(`      Tags to add: ${Object.entries(toAdd).map(([k, v]) => `${k}=${v}`).join(", ")}`);
+        if (toRemove.length) log(`      Tags to remove: ${toRemove.join(", ")}`);
       }
     }
   }
 
   if (toSkipMissingDeps.length > 0) {
-    console.log(`\nQuick connects to skip (missing deps):`);
+    log(`\nQuick connects to skip (missing deps):`);
     for (const action of toSkipMissingDeps) {
-      console.log(`  - ${action.quickConnectName} (${action.quickConnectType})`);
+      log(`  - ${action.quickConnectName} (${action.quickConnectType})`);
       for (const dep of action.missingDeps!) {
-        console.log(`      Missing: ${dep}`);
+        log(`      Missing: ${dep}`);
       }
     }
   }
 
   if (toSkip.length > 0 && verbose) {
-    console.log(`\nQuick connects to skip (identical):`);
+    log(`\nQuick connects to skip (identical):`);
     for (const action of toSkip) {
-      console.log(`  - ${action.quickConnectName} (${action.quickConnectType})`);
+      log(`  - ${action.quickConnectName} (${action.quickConnectType})`);
     }
   }
 
@@ -514,14 +512,14 @@ export function displayQuickConnectPlan(result: QuickConnectComparisonResult, ve
   );
 
   if (queueAssociationChanges.length > 0) {
-    console.log(`\nQueue association changes:`);
+    log(`\nQueue association changes:`);
     for (const action of queueAssociationChanges) {
-      console.log(`  ${action.queueName}:`);
+      log(`  ${action.queueName}:`);
       if (action.toAssociate.length > 0) {
-        console.log(`    Associate: ${action.toAssociate.join(", ")}`);
+        log(`    Associate: ${action.toAssociate.join(", ")}`);
       }
       if (action.toDisassociate.length > 0) {
-        console.log(`    Disassociate: ${action.toDisassociate.join(", ")}`);
+        log(`    Disassociate: ${action.toDisassociate.join(", ")}`);
       }
     }
   }
@@ -531,17 +529,17 @@ export function displayQuickConnectPlan(result: QuickConnectComparisonResult, ve
 function logConfigDetails(config: QuickConnectConfig, indent: string) {
   switch (config.QuickConnectType) {
     case "USER":
-      console.log(`${indent}UserId: ${config.UserConfig!.UserId}`);
-      console.log(`${indent}ContactFlowId: ${config.UserConfig!.ContactFlowId}`);
+      log(`${indent}UserId: ${config.UserConfig!.UserId}`);
+      log(`${indent}ContactFlowId: ${config.UserConfig!.ContactFlowId}`);
       break;
 
     case "QUEUE":
-      console.log(`${indent}QueueId: ${config.QueueConfig!.QueueId}`);
-      console.log(`${indent}ContactFlowId: ${config.QueueConfig!.ContactFlowId}`);
+      log(`${indent}QueueId: ${config.QueueConfig!.QueueId}`);
+      log(`${indent}ContactFlowId: ${config.QueueConfig!.ContactFlowId}`);
       break;
 
     case "PHONE_NUMBER":
-      console.log(`${indent}PhoneNumber: ${config.PhoneConfig!.PhoneNumber}`);
+      log(`${indent}PhoneNumber: ${config.PhoneConfig!.PhoneNumber}`);
       break;
   }
 }
@@ -2,6 +2,9 @@
 import * as AwsUtil from "../../utils/aws-utils.js";
 import * as CliUtil from "../../utils/cli-utils.js";
 import { createConnectClient } from "../../connect/client.js";
+import { planStepActions } from "../../plan.js";
+import { routingProfileSection } from "../../report-output.js";
+import { backupSection } from "../../backup.js";
 
 import {
   createRoutingProfile,
@@ -17,21 +20,24 @@ import { compareRoutingProfiles, getRoutingProfileDiff, displayRoutingProfilePla
 
 import type { ConnectClient, RoutingProfileQueueConfig, RoutingProfileQueueReference } from "@aws-sdk/client-connect";
 import type { RoutingProfileComparisonResult, RoutingProfileAction, RoutingProfileWithQueues } from "./report.js";
+import type { CopyPlan } from "../../plan.js";
 
 
 export interface CopyRoutingProfilesOptions {
   sourceConfig: string;
   targetConfig: string;
-  sourceProfile: string;
+  sourceProfile?: string | undefined;
+  sourceSnapshot?: string | undefined;
   targetProfile: string;
   verbose: boolean;
+  approvedPlan?: CopyPlan | undefined;
 }
 
 
 export async function copyRoutingProfiles(options: CopyRoutingProfilesOptions) {
   const config = await CliUtil.loadConfigs(options);
 
-  const sourceClient = createConnectClient(config.source.region, options.sourceProfile);
+  const sourceClient = await CliUtil.createSourceClient(config.source, options);
   const targetClient = createConnectClient(config.target.region, options.targetProfile);
 
   console.log("\nAnalyzing routing profile differences...");
@@ -40,9 +46,13 @@ export async function copyRoutingProfiles(options: CopyRoutingProfilesOptions) {
     targetClient,
     sourceInstanceId: config.source.instanceId,
     targetInstanceId: config.target.instanceId,
-    filterConfig: config.source.routingProfileFilters
+    filterConfig: config.source.routingProfileFilters,
+    identity: config.source.identity,
+    nameRules: config.source.nameRules
   });
 
+  if (options.approvedPlan) comparisonResult.actions = planStepActions(options.approvedPlan, "routing-profiles", comparisonResult.actions, routingProfileSection(comparisonResult), config);
+
   if (comparisonResult.actions.length === 0 && comparisonResult.profiles.length === 0) {
     // Validation failed - compareRoutingProfiles already printed the error
     return;
@@ -63,6 +73,8 @@ export async function copyRoutingProfiles(options: CopyRoutingProfilesOptions) {
     return;
   }
 
+  await backupSection(config.target, "routing-profiles", routingProfileSection(comparisonResult));
+
   console.log("\nCopying routing profiles...");
   await executeRoutingProfileCopy(targetClient, config.target.instanceId, comparisonResult, options.verbose);
 }
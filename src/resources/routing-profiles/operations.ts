@@ -11,7 +11,8 @@ import {
   UpdateRoutingProfileAgentAvailabilityTimerCommand,
   AssociateRoutingProfileQueuesCommand,
   DisassociateRoutingProfileQueuesCommand,
-  UpdateRoutingProfileQueuesCommand
+  UpdateRoutingProfileQueuesCommand,
+  DeleteRoutingProfileCommand
 } from "@aws-sdk/client-connect";
 
 import type {
@@ -221,3 +222,12 @@ export async function updateRoutingProfileQueues(client: ConnectClient, instance
   );
 }
 
+
+export async function deleteRoutingProfile(client: ConnectClient, instanceId: string, routingProfileId: string): Promise<void> {
+  await client.send(
+    new DeleteRoutingProfileCommand({
+      InstanceId: instanceId,
+      RoutingProfileId: routingProfileId
+    })
+  );
+}
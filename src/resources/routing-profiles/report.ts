@@ -1,7 +1,10 @@
 
 import * as CliUtil from "../../utils/cli-utils.js";
+import { mapConcurrent } from "../../utils/concurrency-utils.js";
 import { matchesFlowFilters } from "../../filters.js";
+import { matchResources, buildIdentityMapping, applyNameRules } from "../../identity.js";
 import { listRoutingProfiles, listQueues, describeRoutingProfile, listRoutingProfileQueues } from "./operations.js";
+import { log } from "../../utils/log-utils.js";
 
 import type { RoutingProfileSummary, RoutingProfile, RoutingProfileQueueConfigSummary, MediaConcurrency } from "@aws-sdk/client-connect";
 
@@ -45,31 +48,21 @@ export async function compareRoutingProfiles(config: CliUtil.ResourceComparisonC
 
   const filteredSourceProfiles = sourceProfiles.filter(profile => matchesFlowFilters(profile.Name!, filterConfig));
 
-  // Build queue mapping (sourceQueueId → targetQueueId) by name
+  // Build queue mapping (sourceQueueId → targetQueueId)
   const sourceQueues = await listQueues(sourceClient, sourceInstanceId);
   const targetQueues = await listQueues(targetClient, targetInstanceId);
 
-  const targetQueuesByName = Object.fromEntries(targetQueues.map(q => [q.Name, q]));
-  const queueMapping: Record<string, string> = {};
-
-  for (const queue of sourceQueues) {
-    const targetMatch = targetQueuesByName[queue.Name!];
-    if (targetMatch) {
-      queueMapping[queue.Id!] = targetMatch.Id!;
-    }
-  }
+  const queueMapping = await buildIdentityMapping(config, "queues", sourceQueues, targetQueues, "Id");
 
   // Also build sourceQueueId → queueName for error messages
   const sourceQueueNames = Object.fromEntries(sourceQueues.map(q => [q.Id, q.Name]));
 
   // Get full details and queue associations for filtered source profiles
-  const sourceProfileDetails: RoutingProfileWithQueues[] = await Promise.all(
-    filteredSourceProfiles.map(async p => {
-      const profile = await describeRoutingProfile(sourceClient, sourceInstanceId, p.Id!);
-      const queues = await listRoutingProfileQueues(sourceClient, sourceInstanceId, p.Id!);
-      return { ...profile, Name: profile.Name!, QueueAssociations: queues };
-    })
-  );
+  const sourceProfileDetails = await mapConcurrent(filteredSourceProfiles, async (p): Promise<RoutingProfileWithQueues> => {
+    const profile = await describeRoutingProfile(sourceClient, sourceInstanceId, p.Id!);
+    const queues = await listRoutingProfileQueues(sourceClient, sourceInstanceId, p.Id!);
+    return { ...profile, Name: applyNameRules(config.nameRules, "routing-profiles", profile.Name!), QueueAssociations: queues };
+  }, "Describing routing profiles");
 
   // Validate queue dependencies
   const profilesWithMissingQueues: { profile: RoutingProfileWithQueues; missingQueues: string[] }[] = [];
@@ -99,38 +92,34 @@ export async function compareRoutingProfiles(config: CliUtil.ResourceComparisonC
   }
 
   if (profilesWithMissingQueues.length > 0) {
-    console.log("\n⚠️  Validation Error: Cannot copy routing profiles\n");
-    console.log("The following routing profiles reference queues that don't exist in the target instance:\n");
+    log("\n⚠️  Validation Error: Cannot copy routing profiles\n");
+    log("The following routing profiles reference queues that don't exist in the target instance:\n");
 
     for (const { profile, missingQueues } of profilesWithMissingQueues) {
-      console.log(`  - "${profile.Name}"`);
+      log(`  - "${profile.Name}"`);
       for (const queue of missingQueues) {
-        console.log(`      → Queue: "${queue}"`);
+        log(`      → Queue: "${queue}"`);
       }
     }
 
-    console.log("\nTo resolve this issue:");
-    console.log("  • Run copy-queues first, OR");
-    console.log("  • Exclude these routing profiles using filters in your source config\n");
+    log("\nTo resolve this issue:");
+    log("  • Run copy-queues first, OR");
+    log("  • Exclude these routing profiles using filters in your source config\n");
 
     return { actions: [], profiles: [], queueMapping };
   }
 
   // Build comparison actions
-  const targetProfilesByName = Object.fromEntries(targetProfiles.map(p => [p.Name, p]));
-  const actions: RoutingProfileAction[] = [];
-
-  for (const sourceProfile of sourceProfileDetails) {
-    const targetProfileSummary = targetProfilesByName[sourceProfile.Name];
+  const targetMatches = await matchResources(config, "routing-profiles", filteredSourceProfiles, targetProfiles);
+  const actions = await mapConcurrent(sourceProfileDetails, async (sourceProfile): Promise<RoutingProfileAction> => {
+    const targetProfileSummary = targetMatches.get(sourceProfile.RoutingProfileId!);
 
     if (!targetProfileSummary) {
-      actions.push({
+      return {
         profileName: sourceProfile.Name,
         action: "create",
         sourceProfile
-      });
-
-      continue;
+      };
     }
 
     const targetProfileData = await describeRoutingProfile(targetClient, targetInstanceId, targetProfileSummary.Id!);
@@ -155,14 +144,15 @@ export async function compareRoutingProfiles(config: CliUtil.ResourceComparisonC
     if (targetProfileSummary.Id) action.targetProfileId = targetProfileSummary.Id;
     if (targetProfileSummary.Arn) action.targetProfileArn = targetProfileSummary.Arn;
 
-    actions.push(action);
-  }
+    return action;
+  }, "Describing target routing profiles");
 
   return { actions, profiles: filteredSourceProfiles, queueMapping };
 }
 
 
 function routingProfileContentMatches(source: RoutingProfileWithQueues, target: RoutingProfileWithQueues, queueMapping: Record<string, string>): boolean {
+  if (source.Name !== target.Name) return false;
   if (source.Description !== target.Description) return false;
   if (source.AgentAvailabilityTimer !== target.AgentAvailabilityTimer) return false;
 
@@ -231,6 +221,10 @@ function queueAssociationsMatch(source: RoutingProfileQueueConfigSummary[], targ
 export function getRoutingProfileDiff(source: RoutingProfileWithQueues, target: RoutingProfileWithQueues, queueMapping: Record<string, string>): string[] {
   const diffs: string[] = [];
 
+  if (source.Name !== target.Name) {
+    diffs.push(`Name: ${target.Name} → ${source.Name}`);
+  }
+
   if (source.Description !== target.Description) {
     diffs.push(`Description: ${target.Description ?? "(none)"} → ${source.Description ?? "(none)"}`);
   }
@@ -264,69 +258,69 @@ export function displayRoutingProfilePlan(result: RoutingProfileComparisonResult
   const toUpdateTags = result.actions.filter(a => a.action === "update_tags");
   const toSkip = result.actions.filter(a => a.action === "skip");
 
-  console.log(`\nSummary:`);
-  console.log(`  Routing profiles to create: ${toCreate.length}`);
-  console.log(`  Routing profiles to update (all): ${toUpdateAll.length}`);
-  console.log(`  Routing profiles to update (data only): ${toUpdateData.length}`);
-  console.log(`  Routing profiles to update (tags only): ${toUpdateTags.length}`);
-  console.log(`  Routing profiles to skip (identical): ${toSkip.length}`);
-  console.log(`  Total processed: ${result.profiles.length}`);
+  log(`\nSummary:`);
+  log(`  Routing profiles to create: ${toCreate.length}`);
+  log(`  Routing profiles to update (all): ${toUpdateAll.length}`);
+  log(`  Routing profiles to update (data only): ${toUpdateData.length}`);
+  log(`  Routing profiles to update (tags only): ${toUpdateTags.length}`);
+  log(`  Routing profiles to skip (identical): ${toSkip.length}`);
+  log(`  Total processed: ${result.profiles.length}`);
 
   if (toCreate.length > 0) {
-    console.log(`\nRouting profiles to create:`);
+    log(`\nRouting profiles to create:`);
     for (const action of toCreate) {
-      console.log(`  - ${action.profileName}`);
+      log(`  - ${action.profileName}`);
       if (verbose) {
         const profile = action.sourceProfile;
-        if (profile.Description) console.log(`      Description: ${profile.Description}`);
+        if (profile.Description) log(`      Description: ${profile.Description}`);
         const channels = profile.MediaConcurrencies?.map(m => `${m.Channel}(${m.Concurrency})`).join(", ");
-        console.log(`      MediaConcurrencies: ${channels}`);
-        console.log(`      QueueAssociations: ${profile.QueueAssociations.length}`);
-        if (profile.AgentAvailabilityTimer) console.log(`      AgentAvailabilityTimer: ${profile.AgentAvailabilityTimer}`);
+        log(`      MediaConcurrencies: ${channels}`);
+        log(`      QueueAssociations: ${profile.QueueAssociations.length}`);
+        if (profile.AgentAvailabilityTimer) log(`      AgentAvailabilityTimer: ${profile.AgentAvailabilityTimer}`);
         if (profile.Tags && Object.keys(profile.Tags).length > 0) {
-          console.log(`      Tags: ${Object.entries(profile.Tags).map(([k, v]) => `${k}=${v}`).join(", ")}`);
+          log(`      Tags: ${Object.entries(profile.Tags).map(([k, v]) => `${k}=${v}`).join(", ")}`);
         }
       }
     }
   }
 
   if (toUpdateAll.length > 0) {
-    console.log(`\nRouting profiles to update (all):`);
+    log(`\nRouting profiles to update (all):`);
     for (const action of toUpdateAll) {
-      console.log(`  - ${action.profileName}`);
+      log(`  - ${action.profileName}`);
       if (verbose && action.targetProfile) {
         const diffs = getRoutingProfileDiff(action.sourceProfile, action.targetProfile, result.queueMapping);
         for (const diff of diffs) {
-          console.log(`      ${diff}`);
+          log(`      ${diff}`);
         }
       }
     }
   }
 
   if (toUpdateData.length > 0) {
-    console.log(`\nRouting profiles to update (data only):`);
+    log(`\nRouting profiles to update (data only):`);
     for (const action of toUpdateData) {
-      console.log(`  - ${action.profileName}`);
+      log(`  - ${action.profileName}`);
       if (verbose && action.targetProfile) {
         const diffs = getRoutingProfileDiff(action.sourceProfile, action.targetProfile, result.queueMapping);
         for (const diff of diffs) {
-          console.log(`      ${diff}`);
+          log(`      ${diff}`);
         }
       }
     }
   }
 
   if (toUpdateTags.length > 0) {
-    console.log(`\nRouting profiles to update (tags only):`);
+    log(`\nRouting profiles to update (tags only):`);
     for (const action of toUpdateTags) {
-      console.log(`  - ${action.profileName}`);
+      log(`  - ${action.profileName}`);
     }
   }
 
   if (toSkip.length > 0 && verbose) {
-    console.log(`\nRouting profiles to skip (identical):`);
+    log(`\nRouting profiles to skip (identical):`);
     for (const action of toSkip) {
-      console.log(`  - ${action.profileName}`);
+      log(`  - ${action.profileName}`);
     }
   }
 }
@@ -2,6 +2,9 @@
 import * as AwsUtil from "../../utils/aws-utils.js";
 import * as CliUtil from "../../utils/cli-utils.js";
 import { createConnectClient } from "../../connect/client.js";
+import { planStepActions } from "../../plan.js";
+import { securityProfileSection } from "../../report-output.js";
+import { backupSection } from "../../backup.js";
 
 import { createSecurityProfile, updateSecurityProfile } from "./operations.js";
 import { compareSecurityProfiles, getSecurityProfileDiff, displaySecurityProfilePlan } from "./report.js";
@@ -9,21 +12,24 @@ import { compareSecurityProfiles, getSecurityProfileDiff, displaySecurityProfile
 import type { ConnectClient } from "@aws-sdk/client-connect";
 import type { SecurityProfileComparisonResult, SecurityProfileAction } from "./report.js";
 import type { HierarchyGroupComparisonResult } from "../hierarchy-groups/report.js";
+import type { CopyPlan } from "../../plan.js";
 
 
 export interface CopySecurityProfilesOptions {
   sourceConfig: string;
   targetConfig: string;
-  sourceProfile: string;
+  sourceProfile?: string | undefined;
+  sourceSnapshot?: string | undefined;
   targetProfile: string;
   verbose: boolean;
+  approvedPlan?: CopyPlan | undefined;
 }
 
 
 export async function copySecurityProfiles(options: CopySecurityProfilesOptions) {
   const config = await CliUtil.loadConfigs(options);
 
-  const sourceClient = createConnectClient(config.source.region, options.sourceProfile);
+  const sourceClient = await CliUtil.createSourceClient(config.source, options);
   const targetClient = createConnectClient(config.target.region, options.targetProfile);
 
   console.log("\nAnalyzing security profile differences...");
@@ -32,9 +38,13 @@ export async function copySecurityProfiles(options: CopySecurityProfilesOptions)
     targetClient,
     sourceInstanceId: config.source.instanceId,
     targetInstanceId: config.target.instanceId,
-    filterConfig: config.source.securityProfileFilters
+    filterConfig: config.source.securityProfileFilters,
+    identity: config.source.identity,
+    nameRules: config.source.nameRules
   });
 
+  if (options.approvedPlan) comparisonResult.actions = planStepActions(options.approvedPlan, "security-profiles", comparisonResult.actions, securityProfileSection(comparisonResult), config);
+
   displaySecurityProfilePlan(comparisonResult, options.verbose);
 
   const needsCopy = comparisonResult.actions.some(a => a.action !== "skip");
@@ -50,6 +60,8 @@ export async function copySecurityProfiles(options: CopySecurityProfilesOptions)
     return;
   }
 
+  await backupSection(config.target, "security-profiles", securityProfileSection(comparisonResult));
+
   console.log("\nCopying security profiles...");
   await executeSecurityProfileCopy(targetClient, config.target.instanceId, comparisonResult, options.verbose);
 }
@@ -1,5 +1,5 @@
 
-import { DescribeSecurityProfileCommand, ListSecurityProfilePermissionsCommand, CreateSecurityProfileCommand, UpdateSecurityProfileCommand } from "@aws-sdk/client-connect";
+import { DescribeSecurityProfileCommand, ListSecurityProfilePermissionsCommand, CreateSecurityProfileCommand, UpdateSecurityProfileCommand, DeleteSecurityProfileCommand } from "@aws-sdk/client-connect";
 
 import type { ConnectClient, SecurityProfile } from "@aws-sdk/client-connect";
 
@@ -113,3 +113,13 @@ export async function updateSecurityProfile(client: ConnectClient, instanceId: s
     new UpdateSecurityProfileCommand(commandInput)
   );
 }
+
+
+export async function deleteSecurityProfile(client: ConnectClient, instanceId: string, securityProfileId: string): Promise<void> {
+  await client.send(
+    new DeleteSecurityProfileCommand({
+      InstanceId: instanceId,
+      SecurityProfileId: securityProfileId
+    })
+  );
+}
@@ -2,11 +2,14 @@
 import type { SecurityProfileSummary, SecurityProfile } from "@aws-sdk/client-connect";
 
 import * as CliUtil from "../../utils/cli-utils.js";
+import { mapConcurrent } from "../../utils/concurrency-utils.js";
 import { listSecurityProfiles } from "../../connect/resources.js";
 import { matchesFlowFilters } from "../../filters.js";
+import { matchResources, applyNameRules } from "../../identity.js";
 import { describeSecurityProfile, listSecurityProfilePermissions } from "./operations.js";
 
 import { compareHierarchyGroups, type HierarchyGroupComparisonResult } from "../hierarchy-groups/report.js";
+import { log } from "../../utils/log-utils.js";
 
 
 export type SecurityProfileWithPermissions = NoUndefinedVals<SecurityProfile> & {
@@ -49,17 +52,30 @@ export async function compareSecurityProfiles(config: CliUtil.ResourceComparison
   const filteredSourceProfiles = sourceProfiles.filter(profile => matchesFlowFilters(profile.Name!, filterConfig));
 
   // Going to need this to compare profiles (should they have hg permissions configured).
-  const hierarchyGroups = await compareHierarchyGroups({ sourceClient, targetClient, sourceInstanceId, targetInstanceId, filterConfig: undefined });
+  const hierarchyGroups = await compareHierarchyGroups({ ...config, filterConfig: undefined });
 
-  const targetProfilesByName: Record<string, typeof targetProfiles[0]> = Object.fromEntries(targetProfiles.map(profile => [profile.Name, profile]));
+  const targetMatches = await matchResources(config, "security-profiles", filteredSourceProfiles, targetProfiles);
   const actions: SecurityProfileAction[] = [];
 
   const unresolvedProfiles: SecurityProfile[] = [];
 
-  for (const sourceSummary of filteredSourceProfiles) {
+  const describedProfiles = await mapConcurrent(filteredSourceProfiles, async sourceSummary => {
+    const targetProfileSummary = targetMatches.get(sourceSummary.Id!);
 
-    const sourceProfile = await describeSecurityProfile(sourceClient, sourceInstanceId, sourceSummary.Id!);
-    const sourcePermissions = await listSecurityProfilePermissions(sourceClient, sourceInstanceId, sourceSummary.Id!);
+    return {
+      sourceProfile: await describeSecurityProfile(sourceClient, sourceInstanceId, sourceSummary.Id!),
+      sourcePermissions: await listSecurityProfilePermissions(sourceClient, sourceInstanceId, sourceSummary.Id!),
+      ...(targetProfileSummary && {
+        targetProfile: await describeSecurityProfile(targetClient, targetInstanceId, targetProfileSummary.Id!),
+        targetPermissions: await listSecurityProfilePermissions(targetClient, targetInstanceId, targetProfileSummary.Id!)
+      })
+    };
+  }, "Describing security profiles");
+
+  for (const [index, sourceSummary] of filteredSourceProfiles.entries()) {
+
+    const described = describedProfiles[index]!;
+    const { sourceProfile, sourcePermissions } = described;
 
     // Verify HG mapping will be possible:
     if (sourceProfile.AllowedAccessControlHierarchyGroupId) {
@@ -73,16 +89,18 @@ export async function compareSecurityProfiles(config: CliUtil.ResourceComparison
       }
     }
 
+    const targetName = applyNameRules(config.nameRules, "security-profiles", sourceProfile.SecurityProfileName);
     const sourceProfileWithPermissions = {
       ...sourceProfile,
+      SecurityProfileName: targetName,
       Permissions: sourcePermissions
     };
 
-    const targetProfileSummary = targetProfilesByName[sourceSummary.Name!];
+    const targetProfileSummary = targetMatches.get(sourceSummary.Id!);
 
     if (!targetProfileSummary) {
       actions.push({
-        profileName: sourceSummary.Name!,
+        profileName: targetName,
         action: "create",
         sourceProfile: sourceProfileWithPermissions
       });
@@ -90,8 +108,13 @@ export async function compareSecurityProfiles(config: CliUtil.ResourceComparison
       continue;
     }
 
-    const targetProfile = await describeSecurityProfile(targetClient, targetInstanceId, targetProfileSummary.Id!);
-    const targetPermissions = await listSecurityProfilePermissions(targetClient, targetInstanceId, targetProfileSummary.Id!);
+    const targetProfile = described.targetProfile!;
+    const targetPermissions = described.targetPermissions!;
+
+    // UpdateSecurityProfile has no Name, so a profile matched by identity keeps its target name
+    if (targetProfileSummary.Name !== targetName) {
+      log(`[WARNING] Security profile "${targetName}" matches target profile "${targetProfileSummary.Name}" - security profiles cannot be renamed through the API, rename it in the console`);
+    }
 
     const targetProfileWithPermissions = {
       ...targetProfile,
@@ -107,7 +130,7 @@ export async function compareSecurityProfiles(config: CliUtil.ResourceComparison
       : "skip";
 
     actions.push({
-      profileName: sourceSummary.Name!,
+      profileName: targetName,
       action: actionType,
       sourceProfile: sourceProfileWithPermissions,
       targetProfile: targetProfileWithPermissions
@@ -123,17 +146,17 @@ export async function compareSecurityProfiles(config: CliUtil.ResourceComparison
   if (unresolvedProfiles.length) {
     comparisonResult.actions = [];
 
-    console.log("\n⚠️  Validation Error: Cannot copy security profiles\n");
-    console.log("The following security profiles reference hierarchy groups that don't exist in the target instance:\n");
+    log("\n⚠️  Validation Error: Cannot copy security profiles\n");
+    log("The following security profiles reference hierarchy groups that don't exist in the target instance:\n");
 
     for (const item of unresolvedProfiles) {
       const hgName = hierarchyGroups.groupMapping[item.AllowedAccessControlHierarchyGroupId!]?.name;
-      console.log(`  - "${item.SecurityProfileName}" → Hierarchy Group: "${hgName}"`);
+      log(`  - "${item.SecurityProfileName}" → Hierarchy Group: "${hgName}"`);
     }
 
-    console.log("\nTo resolve this issue:");
-    console.log("  • Create these hierarchy groups in the target instance, OR");
-    console.log("  • Exclude these security profiles using filters in your source config\n");
+    log("\nTo resolve this issue:");
+    log("  • Create these hierarchy groups in the target instance, OR");
+    log("  • Exclude these security profiles using filters in your source config\n");
   }
 
   return comparisonResult;
@@ -219,69 +242,69 @@ export function displaySecurityProfilePlan(comparisonResult: SecurityProfileComp
   const toUpdateTags = comparisonResult.actions.filter(a => a.action === "update_tags");
   const toSkip = comparisonResult.actions.filter(a => a.action === "skip");
 
-  console.log(`\nSummary:`);
-  console.log(`  Security profiles to create: ${toCreate.length}`);
-  console.log(`  Security profiles to update (all): ${toUpdateAll.length}`);
-  console.log(`  Security profiles to update (data only): ${toUpdateData.length}`);
-  console.log(`  Security profiles to update (tags only): ${toUpdateTags.length}`);
-  console.log(`  Security profiles to skip (identical): ${toSkip.length}`);
-  console.log(`  Total processed: ${comparisonResult.profiles.length}`);
+  log(`\nSummary:`);
+  log(`  Security profiles to create: ${toCreate.length}`);
+  log(`  Security profiles to update (all): ${toUpdateAll.length}`);
+  log(`  Security profiles to update (data only): ${toUpdateData.length}`);
+  log(`  Security profiles to update (tags only): ${toUpdateTags.length}`);
+  log(`  Security profiles to skip (identical): ${toSkip.length}`);
+  log(`  Total processed: ${comparisonResult.profiles.length}`);
 
   if (toCreate.length > 0) {
-    console.log(`\nSecurity profiles to create:`);
+    log(`\nSecurity profiles to create:`);
     for (const profileOp of toCreate) {
-      console.log(`  - ${profileOp.profileName}`);
+      log(`  - ${profileOp.profileName}`);
       if (verbose) {
         const profile = profileOp.sourceProfile;
-        if (profile.Description) console.log(`      Description: ${profile.Description}`);
-        console.log(`      Permissions: ${profileOp.sourceProfile.Permissions.length}`);
+        if (profile.Description) log(`      Description: ${profile.Description}`);
+        log(`      Permissions: ${profileOp.sourceProfile.Permissions.length}`);
         if (profile.AllowedAccessControlHierarchyGroupId) {
-          console.log(`      AllowedAccessControlHierarchyGroupId: ${profile.AllowedAccessControlHierarchyGroupId}`);
+          log(`      AllowedAccessControlHierarchyGroupId: ${profile.AllowedAccessControlHierarchyGroupId}`);
         }
         if (profile.Tags && Object.keys(profile.Tags).length > 0) {
-          console.log(`      Tags: ${Object.entries(profile.Tags).map(([k, v]) => `${k}=${v}`).join(", ")}`);
+          log(`      Tags: ${Object.entries(profile.Tags).map(([k, v]) => `${k}=${v}`).join(", ")}`);
         }
       }
     }
   }
 
   if (toUpdateAll.length > 0) {
-    console.log(`\nSecurity profiles to update (all):`);
+    log(`\nSecurity profiles to update (all):`);
     for (const profileOp of toUpdateAll) {
-      console.log(`  - ${profileOp.profileName}`);
+      log(`  - ${profileOp.profileName}`);
       if (verbose && profileOp.targetProfile) {
         const diffs = getSecurityProfileDiff(profileOp.sourceProfile, profileOp.targetProfile, comparisonResult.hierarchyGroups);
         for (const diff of diffs) {
-          console.log(`      ${diff}`);
+          log(`      ${diff}`);
         }
       }
     }
   }
 
   if (toUpdateData.length > 0) {
-    console.log(`\nSecurity profiles to update (data only):`);
+    log(`\nSecurity profiles to update (data only):`);
     for (const profileOp of toUpdateData) {
-      console.log(`  - ${profileOp.profileName}`);
+      log(`  - ${profileOp.profileName}`);
       if (verbose && profileOp.targetProfile) {
         const diffs = getSecurityProfileDiff(profileOp.sourceProfile, profileOp.targetProfile, comparisonResult.hierarchyGroups);
         for (const diff of diffs) {
-          console.log(`      ${diff}`);
+          log(`      ${diff}`);
         }
       }
     }
   }
 
   if (toUpdateTags.length > 0) {
-    console.log(`\nSecurity profiles to update (tags only):`);
+    log(`\nSecurity profiles to update (tags only):`);
     for (const profileOp of toUpdateTags) {
-      console.log(`  - ${profileOp.profileName}`);
+      log(`  - ${profileOp.profileName}`);
     }
   }
 
   if (toSkip.length > 0 && verbose) {
-    console.log(`\nSecurity profiles to skip (identical):`);
+    log(`\nSecurity profiles to skip (identical):`);
     for (const profileOp of toSkip) {
-      console.log(`  - ${profileOp.profileName}`);
+      log(`  - ${profileOp.profileName}`);
     }
   }
 }
@@ -0,0 +1,215 @@
+
+import { appendFile, writeFile } from "fs/promises";
+
+import * as AwsUtil from "../../utils/aws-utils.js";
+import * as CliUtil from "../../utils/cli-utils.js";
+import { createConnectClient } from "../../connect/client.js";
+import { backupResources, modifiesTarget } from "../../backup.js";
+import { compareUsers, displayUserPlan, getUserDiff, mapUserReferences } from "./report.js";
+import {
+  describeInstanceIdentityType,
+  createUser,
+  generatePassword,
+  updateUserIdentityInfo,
+  updateUserPhoneConfig,
+  updateUserRoutingProfile,
+  updateUserSecurityProfiles,
+  updateUserHierarchy
+} from "./operations.js";
+
+import type { ConnectClient, DirectoryType } from "@aws-sdk/client-connect";
+import type { UserComparisonResult, UserAction } from "./report.js";
+
+
+export interface CopyUsersOptions {
+  sourceConfig: string;
+  targetConfig: string;
+  sourceProfile?: string | undefined;
+  sourceSnapshot?: string | undefined;
+  targetProfile: string;
+  verbose: boolean;
+  passwordFile?: string | undefined;
+}
+
+
+export async function copyUsers(options: CopyUsersOptions) {
+  const config = await CliUtil.loadConfigs(options);
+
+  if (options.sourceSnapshot) {
+    console.error("\nSnapshots only contain user summaries - copy-users needs --source-profile");
+    process.exit(1);
+  }
+
+  const sourceClient = await CliUtil.createSourceClient(config.source, options);
+  const targetClient = createConnectClient(config.target.region, options.targetProfile);
+
+  const identityType = await describeInstanceIdentityType(targetClient, config.target.instanceId);
+  console.log(`\nTarget identity management: ${identityType}`);
+
+  if (config.source.usernameRewrite) {
+    console.log(`Username rewrite: /${config.source.usernameRewrite.match}/ → "${config.source.usernameRewrite.replace}"`);
+  }
+
+  console.log("\nAnalyzing user differences...");
+  const comparisonResult = await compareUsers({
+    sourceClient,
+    targetClient,
+    sourceInstanceId: config.source.instanceId,
+    targetInstanceId: config.target.instanceId,
+    filterConfig: config.source.userFilters,
+    identity: config.source.identity,
+    nameRules: config.source.nameRules
+  }, config.source.usernameRewrite);
+
+  displayUserPlan(comparisonResult, options.verbose);
+
+  const toCreate = comparisonResult.actions.filter(a => a.action === "create");
+  const needsCopy = comparisonResult.actions.some(a => a.action !== "skip" && a.action !== "skip_missing_deps");
+
+  if (!needsCopy) {
+    console.log("\nNo users need to be copied - all users match");
+    return;
+  }
+
+  // Connect-managed users cannot be created without a password, and generated ones must go somewhere
+  if (toCreate.length > 0 && identityType === "CONNECT_MANAGED" && !options.passwordFile) {
+    console.error("\nTarget instance manages its own users: --password-file <path> is required to create users");
+    console.error("A password is generated for each new user and written there (username,password CSV)");
+    process.exit(1);
+  }
+
+  if (toCreate.length > 0 && identityType !== "CONNECT_MANAGED") {
+    console.log(`\n[INFO] Target uses ${identityType} - users are created without passwords; usernames must match the identity provider`);
+  }
+
+  const shouldContinue = await CliUtil.promptContinue("Proceed with copying users?");
+  if (!shouldContinue) {
+    console.log("Copy cancelled by user");
+    return;
+  }
+
+  // Users have no report section, so the backup entries are built from the actions directly
+  const toBackUp = comparisonResult.actions.filter(a => modifiesTarget(a.action) && a.targetUser);
+  await backupResources(config.target.instanceId, config.target.region, "users", toBackUp.map(a => ({
+    name: a.username,
+    id: a.targetUserId!,
+    arn: a.targetUserArn!,
+    data: a.targetUser
+  })));
+
+  if (toCreate.length > 0 && identityType === "CONNECT_MANAGED") {
+    await writeFile(options.passwordFile!, "username,password\n", { mode: 0o600 });
+  }
+
+  console.log("\nCopying users...");
+  await executeUserCopy(targetClient, config.target.instanceId, identityType, options.passwordFile, comparisonResult, options.verbose);
+}
+
+
+async function executeUserCopy(targetClient: ConnectClient, targetInstanceId: string, identityType: DirectoryType, passwordFile: string | undefined, result: UserComparisonResult, verbose: boolean) {
+  let created = 0;
+  let updatedData = 0;
+  let updatedTags = 0;
+
+  for (const action of result.actions) {
+    if (action.action === "skip" || action.action === "skip_missing_deps") continue;
+
+    if (action.action === "create") {
+      logUserCreate(action, verbose);
+
+      const password = identityType === "CONNECT_MANAGED" ? generatePassword() : undefined;
+      const references = mapUserReferences(action.sourceUser, result);
+
+      await createUser(targetClient, targetInstanceId, {
+        Username: action.username,
+        Password: password,
+        IdentityInfo: action.sourceUser.IdentityInfo,
+        PhoneConfig: action.sourceUser.PhoneConfig!,
+        ...references,
+        Tags: action.sourceUser.Tags
+      });
+
+      // Written per user so a failure part-way through never loses a password that was already set
+      if (password) await appendFile(passwordFile!, `${action.username},${password}\n`);
+
+      created++;
+    }
+
+    if (["update_data", "update_all"].includes(action.action)) {
+      logUserUpdate(action, result, verbose);
+      await updateUserFields(targetClient, targetInstanceId, action, result);
+      updatedData++;
+    }
+
+    if (["update_tags", "update_all"].includes(action.action)) {
+      logTagsUpdate(action, verbose);
+
+      const { toAdd, toRemove } = CliUtil.getRecordDiff(action.sourceUser.Tags, action.targetUser?.Tags);
+      await AwsUtil.updateResourceTags(targetClient, action.targetUserArn!, toAdd, toRemove);
+
+      updatedTags++;
+    }
+  }
+
+  console.log(`\nCopy complete: ${created} created, ${updatedData} data updated, ${updatedTags} tags updated`);
+  if (created > 0 && passwordFile && identityType === "CONNECT_MANAGED") {
+    console.log(`Generated passwords written to ${passwordFile}`);
+  }
+}
+
+
+async function updateUserFields(targetClient: ConnectClient, targetInstanceId: string, action: UserAction, result: UserComparisonResult) {
+  const userId = action.targetUserId!;
+  const references = mapUserReferences(action.sourceUser, result);
+  const changed = new Set(action.changedFields);
+
+  if (changed.has("IdentityInfo")) {
+    await updateUserIdentityInfo(targetClient, targetInstanceId, userId, action.sourceUser.IdentityInfo ?? {});
+  }
+
+  if (changed.has("PhoneConfig")) {
+    await updateUserPhoneConfig(targetClient, targetInstanceId, userId, action.sourceUser.PhoneConfig!);
+  }
+
+  if (changed.has("RoutingProfile")) {
+    await updateUserRoutingProfile(targetClient, targetInstanceId, userId, references.RoutingProfileId);
+  }
+
+  if (changed.has("SecurityProfiles")) {
+    await updateUserSecurityProfiles(targetClient, targetInstanceId, userId, references.SecurityProfileIds);
+  }
+
+  if (changed.has("Hierarchy")) {
+    await updateUserHierarchy(targetClient, targetInstanceId, userId, references.HierarchyGroupId);
+  }
+}
+
+
+function logUserCreate(action: UserAction, verbose: boolean) {
+  console.log(`Creating user: ${action.username}`);
+  if (!verbose) return;
+
+  const identity = action.sourceUser.IdentityInfo;
+  if (identity?.FirstName || identity?.LastName) console.log(`  Name: ${[identity.FirstName, identity.LastName].filter(Boolean).join(" ")}`);
+  if (identity?.Email) console.log(`  Email: ${identity.Email}`);
+}
+
+
+function logUserUpdate(action: UserAction, result: UserComparisonResult, verbose: boolean) {
+  console.log(`Updating user: ${action.username}`);
+  if (!verbose || !action.targetUser) return;
+
+  for (const diff of getUserDiff(action, result)) {
+    console.log(`  ${diff}`);
+  }
+}
+
+
+function logTagsUpdate(action: UserAction, verbose: boolean) {
+  console.log(`Updating tags for user: ${action.username}`);
+  if (!verbose || !action.targetUser) return;
+
+  const { toAdd, toRemove } = CliUtil.getRecordDiff(action.sourceUser.Tags, action.targetUser.Tags);
+  if (Object.keys(toAdd).length) console.log(`  Tags to add: ${Object.entries(toAdd).map(([k, v]) => `${k}=${v}`).join(", ")}`);
+  if (toRemove.length) console.log(`  Tags to remove: ${toRemove.join(", ")}`);
+}
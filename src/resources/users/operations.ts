@@ -0,0 +1,148 @@
+
+import { randomInt } from "crypto";
+import {
+  DescribeInstanceCommand,
+  DescribeUserCommand,
+  CreateUserCommand,
+  UpdateUserIdentityInfoCommand,
+  UpdateUserPhoneConfigCommand,
+  UpdateUserRoutingProfileCommand,
+  UpdateUserSecurityProfilesCommand,
+  UpdateUserHierarchyCommand
+} from "@aws-sdk/client-connect";
+
+import type { ConnectClient, User, UserIdentityInfo, UserPhoneConfig, DirectoryType } from "@aws-sdk/client-connect";
+
+
+export interface CreateUserConfig {
+  Username: string;
+  Password?: string | undefined;
+  IdentityInfo?: UserIdentityInfo | undefined;
+  PhoneConfig: UserPhoneConfig;
+  RoutingProfileId: string;
+  SecurityProfileIds: string[];
+  HierarchyGroupId?: string | undefined;
+  Tags?: Record<string, string> | undefined;
+}
+
+
+export async function describeInstanceIdentityType(client: ConnectClient, instanceId: string): Promise<DirectoryType> {
+  const response = await client.send(
+    new DescribeInstanceCommand({
+      InstanceId: instanceId
+    })
+  );
+
+  if (!response.Instance?.IdentityManagementType) {
+    throw new Error(`Could not determine identity management type for instance: ${instanceId}`);
+  }
+
+  return response.Instance.IdentityManagementType;
+}
+
+
+export async function describeUser(client: ConnectClient, instanceId: string, userId: string): Promise<User> {
+  const response = await client.send(
+    new DescribeUserCommand({
+      InstanceId: instanceId,
+      UserId: userId
+    })
+  );
+
+  if (!response.User) {
+    throw new Error(`User not found: ${userId}`);
+  }
+
+  return response.User;
+}
+
+
+export async function createUser(client: ConnectClient, instanceId: string, config: CreateUserConfig): Promise<{ id: string; arn: string }> {
+  const response = await client.send(
+    new CreateUserCommand({
+      InstanceId: instanceId,
+      ...config
+    })
+  );
+
+  return {
+    id: response.UserId!,
+    arn: response.UserArn!
+  };
+}
+
+
+export async function updateUserIdentityInfo(client: ConnectClient, instanceId: string, userId: string, identityInfo: UserIdentityInfo): Promise<void> {
+  await client.send(
+    new UpdateUserIdentityInfoCommand({
+      InstanceId: instanceId,
+      UserId: userId,
+      IdentityInfo: identityInfo
+    })
+  );
+}
+
+
+export async function updateUserPhoneConfig(client: ConnectClient, instanceId: string, userId: string, phoneConfig: UserPhoneConfig): Promise<void> {
+  await client.send(
+    new UpdateUserPhoneConfigCommand({
+      InstanceId: instanceId,
+      UserId: userId,
+      PhoneConfig: phoneConfig
+    })
+  );
+}
+
+
+export async function updateUserRoutingProfile(client: ConnectClient, instanceId: string, userId: string, routingProfileId: string): Promise<void> {
+  await client.send(
+    new UpdateUserRoutingProfileCommand({
+      InstanceId: instanceId,
+      UserId: userId,
+      RoutingProfileId: routingProfileId
+    })
+  );
+}
+
+
+export async function updateUserSecurityProfiles(client: ConnectClient, instanceId: string, userId: string, securityProfileIds: string[]): Promise<void> {
+  await client.send(
+    new UpdateUserSecurityProfilesCommand({
+      InstanceId: instanceId,
+      UserId: userId,
+      SecurityProfileIds: securityProfileIds
+    })
+  );
+}
+
+
+export async function updateUserHierarchy(client: ConnectClient, instanceId: string, userId: string, hierarchyGroupId: string | undefined): Promise<void> {
+  // Omitting HierarchyGroupId removes the user from their current group
+  await client.send(
+    new UpdateUserHierarchyCommand({
+      InstanceId: instanceId,
+      UserId: userId,
+      HierarchyGroupId: hierarchyGroupId
+    })
+  );
+}
+
+
+const PASSWORD_CLASSES = ["ABCDEFGHJKLMNPQRSTUVWXYZ", "abcdefghijkmnopqrstuvwxyz", "23456789", "!@#$%^&*-_=+"];
+
+// Connect-managed passwords must be 8-64 characters with upper, lower and a digit
+export function generatePassword(length = 20): string {
+  const all = PASSWORD_CLASSES.join("");
+  const chars = PASSWORD_CLASSES.map(set => set[randomInt(set.length)]!);
+
+  while (chars.length < length) {
+    chars.push(all[randomInt(all.length)]!);
+  }
+
+  for (let i = chars.length - 1; i > 0; i--) {
+    const j = randomInt(i + 1);
+    [chars[i], chars[j]] = [chars[j]!, chars[i]!];
+  }
+
+  return chars.join("");
+}
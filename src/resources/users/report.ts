@@ -0,0 +1,349 @@
+
+import * as CliUtil from "../../utils/cli-utils.js";
+import { mapConcurrent } from "../../utils/concurrency-utils.js";
+import { listUsers, listRoutingProfiles, listSecurityProfiles, listUserHierarchyGroups } from "../../connect/resources.js";
+import { matchesFlowFilters } from "../../filters.js";
+import { buildIdentityMapping } from "../../identity.js";
+import { describeUser } from "./operations.js";
+import { log } from "../../utils/log-utils.js";
+
+import type { User, UserSummary, UserPhoneConfig } from "@aws-sdk/client-connect";
+import type { UsernameRewrite } from "../../validation.js";
+
+
+export type UserActionType = "create" | "update_all" | "update_tags" | "update_data" | "skip" | "skip_missing_deps";
+
+export type UserField = "IdentityInfo" | "PhoneConfig" | "RoutingProfile" | "SecurityProfiles" | "Hierarchy";
+
+
+export interface UserAction {
+  action: UserActionType;
+
+  // Target username (after usernameRewrite); sourceUser.Username keeps the original
+  username: string;
+  sourceUser: User;
+  targetUser?: User;
+  targetUserId?: string;
+  targetUserArn?: string;
+  changedFields?: UserField[];
+  missingDeps?: string[];
+}
+
+
+export interface UserComparisonResult {
+  actions: UserAction[];
+  users: UserSummary[];
+
+  routingProfileMapping: Record<string, string>;
+  securityProfileMapping: Record<string, string>;
+  hierarchyGroupMapping: Record<string, string>;
+  // Source and target ids of the above to display names
+  resourceNames: Record<string, string>;
+}
+
+
+interface Mappings {
+  routingProfileMapping: Record<string, string>;
+  securityProfileMapping: Record<string, string>;
+  hierarchyGroupMapping: Record<string, string>;
+}
+
+
+export function rewriteUsername(username: string, rewrite: UsernameRewrite | undefined): string {
+  if (!rewrite) return username;
+  return username.replace(new RegExp(rewrite.match), rewrite.replace);
+}
+
+
+export async function compareUsers(config: CliUtil.ResourceComparisonConfig, usernameRewrite?: UsernameRewrite): Promise<UserComparisonResult> {
+  const {
+    sourceClient,
+    targetClient,
+    sourceInstanceId,
+    targetInstanceId,
+    filterConfig
+  } = config;
+
+  const sourceUsers = await listUsers(sourceClient, sourceInstanceId);
+  const targetUsers = await listUsers(targetClient, targetInstanceId);
+
+  let filteredSourceUsers = sourceUsers;
+
+  if (filterConfig) {
+    filteredSourceUsers = filteredSourceUsers.filter(user =>
+      matchesFlowFilters(user.Username!, filterConfig)
+    );
+  }
+
+  // Build routing profile, security profile and hierarchy group mappings (see identity.ts)
+  const resourceNames: Record<string, string> = {};
+
+  const buildMapping = async (resourceType: string, source: { Id?: string | undefined; Arn?: string | undefined; Name?: string | undefined }[], target: { Id?: string | undefined; Arn?: string | undefined; Name?: string | undefined }[]) => {
+    for (const resource of [...source, ...target]) {
+      resourceNames[resource.Id!] = resource.Name!;
+    }
+
+    return buildIdentityMapping(config, resourceType, source, target, "Id");
+  };
+
+  const mappings: Mappings = {
+    routingProfileMapping: await buildMapping("routing-profiles", await listRoutingProfiles(sourceClient, sourceInstanceId), await listRoutingProfiles(targetClient, targetInstanceId)),
+    securityProfileMapping: await buildMapping("security-profiles", await listSecurityProfiles(sourceClient, sourceInstanceId), await listSecurityProfiles(targetClient, targetInstanceId)),
+    hierarchyGroupMapping: await buildMapping("hierarchy-groups", await listUserHierarchyGroups(sourceClient, sourceInstanceId), await listUserHierarchyGroups(targetClient, targetInstanceId))
+  };
+
+  const targetUsersByUsername = Object.fromEntries(targetUsers.map(u => [u.Username, u]));
+  const actions = await mapConcurrent(filteredSourceUsers, async (sourceSummary): Promise<UserAction> => {
+    const sourceUser = await describeUser(sourceClient, sourceInstanceId, sourceSummary.Id!);
+    const username = rewriteUsername(sourceSummary.Username!, usernameRewrite);
+    const targetSummary = targetUsersByUsername[username];
+    const missingDeps = getMissingDeps(sourceUser, mappings, resourceNames);
+
+    if (!targetSummary) {
+      return {
+        username,
+        action: missingDeps.length > 0 ? "skip_missing_deps" : "create",
+        sourceUser,
+        ...(missingDeps.length > 0 && { missingDeps })
+      };
+    }
+
+    const targetUser = await describeUser(targetClient, targetInstanceId, targetSummary.Id!);
+
+    if (missingDeps.length > 0) {
+      return {
+        username,
+        action: "skip_missing_deps",
+        sourceUser,
+        targetUser,
+        targetUserId: targetSummary.Id,
+        targetUserArn: targetSummary.Arn,
+        missingDeps
+      };
+    }
+
+    const changedFields = getChangedUserFields(sourceUser, targetUser, mappings);
+    const tagsMatch = CliUtil.recordsMatch(sourceUser.Tags, targetUser.Tags);
+
+    const actionType = (changedFields.length > 0 && !tagsMatch) ? "update_all"
+      : changedFields.length > 0 ? "update_data"
+      : !tagsMatch ? "update_tags"
+      : "skip";
+
+    return {
+      username,
+      action: actionType,
+      sourceUser,
+      targetUser,
+      targetUserId: targetSummary.Id,
+      targetUserArn: targetSummary.Arn,
+      changedFields
+    };
+  }, "Describing users");
+
+  return { actions, users: filteredSourceUsers, ...mappings, resourceNames };
+}
+
+
+function getMissingDeps(user: User, mappings: Mappings, resourceNames: Record<string, string>): string[] {
+  const missing: string[] = [];
+
+  if (user.RoutingProfileId && !mappings.routingProfileMapping[user.RoutingProfileId]) {
+    missing.push(`Routing profile "${resourceNames[user.RoutingProfileId] ?? user.RoutingProfileId}" not found in target`);
+  }
+
+  for (const securityProfileId of user.SecurityProfileIds ?? []) {
+    if (!mappings.securityProfileMapping[securityProfileId]) {
+      missing.push(`Security profile "${resourceNames[securityProfileId] ?? securityProfileId}" not found in target`);
+    }
+  }
+
+  if (user.HierarchyGroupId && !mappings.hierarchyGroupMapping[user.HierarchyGroupId]) {
+    missing.push(`Hierarchy group "${resourceNames[user.HierarchyGroupId] ?? user.HierarchyGroupId}" not found in target`);
+  }
+
+  return missing;
+}
+
+
+export function mapUserReferences(user: User, result: Pick<UserComparisonResult, keyof Mappings>) {
+  return {
+    RoutingProfileId: result.routingProfileMapping[user.RoutingProfileId!]!,
+    SecurityProfileIds: (user.SecurityProfileIds ?? []).map(id => result.securityProfileMapping[id]!),
+    HierarchyGroupId: user.HierarchyGroupId ? result.hierarchyGroupMapping[user.HierarchyGroupId] : undefined
+  };
+}
+
+
+function getChangedUserFields(source: User, target: User, mappings: Mappings): UserField[] {
+  const mapped = mapUserReferences(source, mappings);
+  const changed: UserField[] = [];
+
+  const sourceIdentity = source.IdentityInfo ?? {};
+  const targetIdentity = target.IdentityInfo ?? {};
+  const identityFields = ["FirstName", "LastName", "Email", "SecondaryEmail", "Mobile"] as const;
+
+  if (identityFields.some(f => (sourceIdentity[f] ?? "") !== (targetIdentity[f] ?? ""))) {
+    changed.push("IdentityInfo");
+  }
+
+  const sourcePhone: Partial<UserPhoneConfig> = source.PhoneConfig ?? {};
+  const targetPhone: Partial<UserPhoneConfig> = target.PhoneConfig ?? {};
+  const phoneFields = ["PhoneType", "AutoAccept", "AfterContactWorkTimeLimit", "DeskPhoneNumber"] as const;
+
+  if (phoneFields.some(f => (sourcePhone[f] ?? "") !== (targetPhone[f] ?? ""))) {
+    changed.push("PhoneConfig");
+  }
+
+  if (mapped.RoutingProfileId !== target.RoutingProfileId) changed.push("RoutingProfile");
+  if (!CliUtil.arraysMatch(mapped.SecurityProfileIds, target.SecurityProfileIds ?? [])) changed.push("SecurityProfiles");
+  if ((mapped.HierarchyGroupId ?? "") !== (target.HierarchyGroupId ?? "")) changed.push("Hierarchy");
+
+  return changed;
+}
+
+
+export function getUserDiff(action: UserAction, result: UserComparisonResult): string[] {
+  const { sourceUser, targetUser } = action;
+  if (!targetUser) return [];
+
+  const name = (id: string | undefined) => id ? result.resourceNames[id] ?? id : "(none)";
+  const mapped = mapUserReferences(sourceUser, result);
+  const diffs: string[] = [];
+
+  for (const field of action.changedFields ?? []) {
+    if (field === "IdentityInfo") {
+      const source = sourceUser.IdentityInfo ?? {};
+      const target = targetUser.IdentityInfo ?? {};
+      for (const key of ["FirstName", "LastName", "Email", "SecondaryEmail", "Mobile"] as const) {
+        if ((source[key] ?? "") !== (target[key] ?? "")) {
+          diffs.push(`${key}: ${target[key] || "(none)"} → ${source[key] || "(none)"}`);
+        }
+      }
+    }
+
+    if (field === "PhoneConfig") {
+      const source: Partial<UserPhoneConfig> = sourceUser.PhoneConfig ?? {};
+      const target: Partial<UserPhoneConfig> = targetUser.PhoneConfig ?? {};
+      for (const key of ["PhoneType", "AutoAccept", "AfterContactWorkTimeLimit", "DeskPhoneNumber"] as const) {
+        if ((source[key] ?? "") !== (target[key] ?? "")) {
+          diffs.push(`${key}: ${target[key] ?? "(none)"} → ${source[key] ?? "(none)"}`);
+        }
+      }
+    }
+
+    if (field === "RoutingProfile") {
+      diffs.push(`RoutingProfile: ${name(targetUser.RoutingProfileId)} → ${name(mapped.RoutingProfileId)}`);
+    }
+
+    if (field === "SecurityProfiles") {
+      const targetNames = (targetUser.SecurityProfileIds ?? []).map(name).join(", ") || "(none)";
+      const sourceNames = mapped.SecurityProfileIds.map(name).join(", ") || "(none)";
+      diffs.push(`SecurityProfiles: ${targetNames} → ${sourceNames}`);
+    }
+
+    if (field === "Hierarchy") {
+      diffs.push(`HierarchyGroup: ${name(targetUser.HierarchyGroupId)} → ${name(mapped.HierarchyGroupId)}`);
+    }
+  }
+
+  return diffs;
+}
+
+
+export function displayUserPlan(result: UserComparisonResult, verbose: boolean) {
+  const toCreate = result.actions.filter(a => a.action === "create");
+  const toUpdateAll = result.actions.filter(a => a.action === "update_all");
+  const toUpdateData = result.actions.filter(a => a.action === "update_data");
+  const toUpdateTags = result.actions.filter(a => a.action === "update_tags");
+  const toSkip = result.actions.filter(a => a.action === "skip");
+  const toSkipMissingDeps = result.actions.filter(a => a.action === "skip_missing_deps");
+
+  log(`\nSummary:`);
+  log(`  Users to create: ${toCreate.length}`);
+  log(`  Users to update (all): ${toUpdateAll.length}`);
+  log(`  Users to update (data only): ${toUpdateData.length}`);
+  log(`  Users to update (tags only): ${toUpdateTags.length}`);
+  log(`  Users to skip (identical): ${toSkip.length}`);
+  log(`  Users to skip (missing deps): ${toSkipMissingDeps.length}`);
+  log(`  Total processed: ${result.users.length}`);
+
+  const label = (action: UserAction) => action.username === action.sourceUser.Username
+    ? action.username
+    : `${action.username} (from ${action.sourceUser.Username})`;
+
+  if (toCreate.length > 0) {
+    log(`\nUsers to create:`);
+    for (const action of toCreate) {
+      log(`  - ${label(action)}`);
+      if (verbose) {
+        const user = action.sourceUser;
+        const identity = user.IdentityInfo;
+        if (identity?.FirstName || identity?.LastName) log(`      Name: ${[identity.FirstName, identity.LastName].filter(Boolean).join(" ")}`);
+        if (identity?.Email) log(`      Email: ${identity.Email}`);
+        log(`      RoutingProfile: ${result.resourceNames[user.RoutingProfileId!] ?? user.RoutingProfileId}`);
+        log(`      SecurityProfiles: ${(user.SecurityProfileIds ?? []).map(id => result.resourceNames[id] ?? id).join(", ")}`);
+        if (user.HierarchyGroupId) log(`      HierarchyGroup: ${result.resourceNames[user.HierarchyGroupId] ?? user.HierarchyGroupId}`);
+        if (user.Tags && Object.keys(user.Tags).length > 0) {
+          log(`      Tags: ${Object.entries(user.Tags).map(([k, v]) => `${k}=${v}`).join(", ")}`);
+        }
+      }
+    }
+  }
+
+  if (toUpdateAll.length > 0) {
+    log(`\nUsers to update (all):`);
+    for (const action of toUpdateAll) {
+      log(`  - ${label(action)}`);
+      if (verbose && action.targetUser) {
+        for (const diff of getUserDiff(action, result)) {
+          log(`      ${diff}`);
+        }
+        const { toAdd, toRemove } = CliUtil.getRecordDiff(action.sourceUser.Tags, action.targetUser.Tags);
+        if (Object.keys(toAdd).length) log(`      Tags to add: ${Object.entries(toAdd).map(([k, v]) => `${k}=${v}`).join(", ")}`);
+        if (toRemove.length) log(`      Tags to remove: ${toRemove.join(", ")}`);
+      }
+    }
+  }
+
+  if (toUpdateData.length > 0) {
+    log(`\nUsers to update (data only):`);
+    for (const action of toUpdateData) {
+      log(`  - ${label(action)}`);
+      if (verbose && action.targetUser) {
+        for (const diff of getUserDiff(action, result)) {
+          log(`      ${diff}`);
+        }
+      }
+    }
+  }
+
+  if (toUpdateTags.length > 0) {
+    log(`\nUsers to update (tags only):`);
+    for (const action of toUpdateTags) {
+      log(`  - ${label(action)}`);
+      if (verbose && action.targetUser) {
+        const { toAdd, toRemove } = CliUtil.getRecordDiff(action.sourceUser.Tags, action.targetUser.Tags);
+        if (Object.keys(toAdd).length) log(`      Tags to add: ${Object.entries(toAdd).map(([k, v]) => `${k}=${v}`).join(", ")}`);
+        if (toRemove.length) log(`      Tags to remove: ${toRemove.join(", ")}`);
+      }
+    }
+  }
+
+  if (toSkipMissingDeps.length > 0) {
+    log(`\nUsers to skip (missing deps):`);
+    for (const action of toSkipMissingDeps) {
+      log(`  - ${label(action)}`);
+      for (const dep of action.missingDeps!) {
+        log(`      Missing: ${dep}`);
+      }
+    }
+  }
+
+  if (toSkip.length > 0 && verbose) {
+    log(`\nUsers to skip (identical):`);
+    for (const action of toSkip) {
+      log(`  - ${label(action)}`);
+    }
+  }
+}
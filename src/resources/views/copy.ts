@@ -2,27 +2,33 @@
 import * as AwsUtil from "../../utils/aws-utils.js";
 import * as CliUtil from "../../utils/cli-utils.js";
 import { createConnectClient } from "../../connect/client.js";
+import { planStepActions } from "../../plan.js";
+import { viewSection } from "../../report-output.js";
+import { backupSection } from "../../backup.js";
 
-import { createView, updateViewContent } from "./operations.js";
+import { createView, updateViewContent, updateViewName } from "./operations.js";
 import { compareViews, displayViewPlan } from "./report.js";
 
 import type { ConnectClient, ViewStatus } from "@aws-sdk/client-connect";
 import type { ViewComparisonResult } from "./report.js";
+import type { CopyPlan } from "../../plan.js";
 
 
 export interface CopyViewsOptions {
   sourceConfig: string;
   targetConfig: string;
-  sourceProfile: string;
+  sourceProfile?: string | undefined;
+  sourceSnapshot?: string | undefined;
   targetProfile: string;
   verbose: boolean;
+  approvedPlan?: CopyPlan | undefined;
 }
 
 
 export async function copyViews(options: CopyViewsOptions) {
   const config = await CliUtil.loadConfigs(options);
 
-  const sourceClient = createConnectClient(config.source.region, options.sourceProfile);
+  const sourceClient = await CliUtil.createSourceClient(config.source, options);
   const targetClient = createConnectClient(config.target.region, options.targetProfile);
 
   console.log("\nAnalyzing view differences...");
@@ -31,9 +37,13 @@ export async function copyViews(options: CopyViewsOptions) {
     targetClient,
     sourceInstanceId: config.source.instanceId,
     targetInstanceId: config.target.instanceId,
-    filterConfig: config.source.viewFilters
+    filterConfig: config.source.viewFilters,
+    identity: config.source.identity,
+    nameRules: config.source.nameRules
   });
 
+  if (options.approvedPlan) comparisonResult.actions = planStepActions(options.approvedPlan, "views", comparisonResult.actions, viewSection(comparisonResult), config);
+
   displayViewPlan(comparisonResult, options.verbose);
 
   const needsCopy = comparisonResult.actions.some(a => a.action !== "skip");
@@ -49,6 +59,8 @@ export async function copyViews(options: CopyViewsOptions) {
     return;
   }
 
+  await backupSection(config.target, "views", viewSection(comparisonResult));
+
   console.log("\nCopying views...");
   await executeViewCopy(targetClient, config.target.instanceId, comparisonResult, options.verbose);
 }
@@ -87,6 +99,11 @@ async function executeViewCopy(targetClient: ConnectClient, targetInstanceId: st
         action.sourceView.Content!
       );
 
+      if (action.sourceView.Name !== action.targetView?.Name) {
+        console.log(`  Name: ${action.targetView?.Name} → ${action.sourceView.Name}`);
+        await updateViewName(targetClient, targetInstanceId, action.targetViewId!, action.sourceView.Name!);
+      }
+
       updatedData++;
     }
 
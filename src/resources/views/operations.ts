@@ -3,7 +3,9 @@ import {
   ListViewsCommand,
   DescribeViewCommand,
   CreateViewCommand,
-  UpdateViewContentCommand
+  UpdateViewContentCommand,
+  UpdateViewMetadataCommand,
+  DeleteViewCommand
 } from "@aws-sdk/client-connect";
 
 import type { ConnectClient, View, ViewSummary, ViewStatus, ViewContent } from "@aws-sdk/client-connect";
@@ -86,3 +88,24 @@ export async function updateViewContent(client: ConnectClient, instanceId: strin
     })
   );
 }
+
+
+export async function updateViewName(client: ConnectClient, instanceId: string, viewId: string, name: string): Promise<void> {
+  await client.send(
+    new UpdateViewMetadataCommand({
+      InstanceId: instanceId,
+      ViewId: viewId,
+      Name: name
+    })
+  );
+}
+
+
+export async function deleteView(client: ConnectClient, instanceId: string, viewId: string): Promise<void> {
+  await client.send(
+    new DeleteViewCommand({
+      InstanceId: instanceId,
+      ViewId: viewId
+    })
+  );
+}
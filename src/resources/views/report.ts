@@ -1,7 +1,10 @@
 
 import * as CliUtil from "../../utils/cli-utils.js";
+import { mapConcurrent } from "../../utils/concurrency-utils.js";
 import { matchesFlowFilters } from "../../filters.js";
+import { matchResources, withTargetName } from "../../identity.js";
 import { listViews, describeView } from "./operations.js";
+import { log } from "../../utils/log-utils.js";
 
 import type { View, ViewSummary } from "@aws-sdk/client-connect";
 
@@ -39,18 +42,30 @@ export async function compareViews(config: CliUtil.ResourceComparisonConfig): Pr
 
   const filteredSourceViews = sourceViews.filter(view => matchesFlowFilters(view.Name!, filterConfig));
 
-  const targetViewsByName = new Map(targetViews.map(v => [v.Name!, v]));
+  const targetMatches = await matchResources(config, "views", filteredSourceViews, targetViews);
 
   const actions: ViewAction[] = [];
   let awsManagedSkipped = 0;
 
-  for (const viewSummary of filteredSourceViews) {
+  // AWS-managed views are described by ARN, customer-managed ones by ID
+  const describedViews = await mapConcurrent(filteredSourceViews, async viewSummary => {
+    const sourceViewFull = viewSummary.Type === "AWS_MANAGED"
+      ? await describeView(sourceClient, sourceInstanceId, viewSummary.Arn!)
+      : withTargetName(config, "views", await describeView(sourceClient, sourceInstanceId, viewSummary.Id!));
+    const targetViewSummary = targetMatches.get(viewSummary.Id!);
+
+    if (!targetViewSummary) return { sourceViewFull };
+
+    const targetViewIdentifier = targetViewSummary.Type === "AWS_MANAGED" ? targetViewSummary.Arn! : targetViewSummary.Id!;
+    return { sourceViewFull, targetViewFull: await describeView(targetClient, targetInstanceId, targetViewIdentifier) };
+  }, "Describing views");
+
+  for (const [index, viewSummary] of filteredSourceViews.entries()) {
     const viewName = viewSummary.Name!;
     const isAwsManaged = viewSummary.Type === "AWS_MANAGED";
-    const viewIdentifier = isAwsManaged ? viewSummary.Arn! : viewSummary.Id!;
 
-    const sourceViewFull = await describeView(sourceClient, sourceInstanceId, viewIdentifier);
-    const targetViewSummary = targetViewsByName.get(viewName);
+    const { sourceViewFull, targetViewFull: describedTargetView } = describedViews[index]!;
+    const targetViewSummary = targetMatches.get(viewSummary.Id!);
 
     if (!targetViewSummary) {
       if (isAwsManaged) {
@@ -69,10 +84,10 @@ export async function compareViews(config: CliUtil.ResourceComparisonConfig): Pr
       continue;
     }
 
-    const targetViewIdentifier = targetViewSummary.Type === "AWS_MANAGED" ? targetViewSummary.Arn! : targetViewSummary.Id!;
-    const targetViewFull = await describeView(targetClient, targetInstanceId, targetViewIdentifier);
+    const targetViewFull = describedTargetView!;
 
-    const contentMatches = viewContentMatches(sourceViewFull, targetViewFull);
+    // AWS-managed views keep their names; a customer-managed view matched under another name is renamed
+    const contentMatches = viewContentMatches(sourceViewFull, targetViewFull) && (isAwsManaged || sourceViewFull.Name === targetViewFull.Name);
     const tagsMatch = CliUtil.recordsMatch(sourceViewFull.Tags, targetViewFull.Tags);
 
     if (contentMatches && tagsMatch) {
@@ -195,54 +210,54 @@ export function displayViewPlan(result: ViewComparisonResult, verbose: boolean)
   const toUpdateTags = result.actions.filter(a => a.action === "update_tags");
   const toSkip = result.actions.filter(a => a.action === "skip");
 
-  console.log(`\nSummary:`);
-  console.log(`  Views to create: ${toCreate.length}`);
-  console.log(`  Views to update (all): ${toUpdateAll.length}`);
-  console.log(`  Views to update (data only): ${toUpdateData.length}`);
-  console.log(`  Views to update (tags only): ${toUpdateTags.length}`);
-  console.log(`  Views to skip (identical): ${toSkip.length}`);
+  log(`\nSummary:`);
+  log(`  Views to create: ${toCreate.length}`);
+  log(`  Views to update (all): ${toUpdateAll.length}`);
+  log(`  Views to update (data only): ${toUpdateData.length}`);
+  log(`  Views to update (tags only): ${toUpdateTags.length}`);
+  log(`  Views to skip (identical): ${toSkip.length}`);
   if (result.awsManagedSkipped > 0) {
-    console.log(`  AWS-managed views skipped (cannot create/update content): ${result.awsManagedSkipped}`);
+    log(`  AWS-managed views skipped (cannot create/update content): ${result.awsManagedSkipped}`);
   }
-  console.log(`  Total processed: ${result.views.length}`);
+  log(`  Total processed: ${result.views.length}`);
 
   if (toCreate.length > 0) {
-    console.log(`\nViews to create:`);
+    log(`\nViews to create:`);
     for (const action of toCreate) {
-      console.log(`  - ${action.viewName}`);
+      log(`  - ${action.viewName}`);
       if (verbose && action.sourceView.Description) {
-        console.log(`      Description: ${action.sourceView.Description}`);
+        log(`      Description: ${action.sourceView.Description}`);
       }
     }
   }
 
   if (toUpdateAll.length > 0) {
-    console.log(`\nViews to update (all):`);
+    log(`\nViews to update (all):`);
     for (const action of toUpdateAll) {
-      console.log(`  - ${action.viewName}`);
+      log(`  - ${action.viewName}`);
     }
   }
 
   if (toUpdateData.length > 0) {
-    console.log(`\nViews to update (data only):`);
+    log(`\nViews to update (data only):`);
     for (const action of toUpdateData) {
-      console.log(`  - ${action.viewName}`);
+      log(`  - ${action.viewName}`);
     }
   }
 
   if (toUpdateTags.length > 0) {
-    console.log(`\nViews to update (tags only):`);
+    log(`\nViews to update (tags only):`);
     for (const action of toUpdateTags) {
       const suffix = action.isAwsManaged ? " (AWS-managed)" : "";
-      console.log(`  - ${action.viewName}${suffix}`);
+      log(`  - ${action.viewName}${suffix}`);
     }
   }
 
   if (toSkip.length > 0 && verbose) {
-    console.log(`\nViews to skip (identical):`);
+    log(`\nViews to skip (identical):`);
     for (const action of toSkip) {
       const suffix = action.isAwsManaged ? " (AWS-managed)" : "";
-      console.log(`  - ${action.viewName}${suffix}`);
+      log(`  - ${action.viewName}${suffix}`);
     }
   }
 }
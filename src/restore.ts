@@ -0,0 +1,197 @@
+
+import { readFile } from "fs/promises";
+import { join } from "path";
+import { createConnectClient } from "./connect/client.js";
+import { describeContactFlow, describeContactFlowModule } from "./connect/flows.js";
+import { updateContactFlowContent, updateContactFlowMetadata, updateContactFlowModuleContent, updateContactFlowModuleMetadata, updateResourceTags, deleteContactFlow, deleteContactFlowModule } from "./connect/operations.js";
+import { loadBackupManifest } from "./backup.js";
+import * as CliUtil from "./utils/cli-utils.js";
+
+import type { ConnectClient } from "@aws-sdk/client-connect";
+import type { BackupMetadata, BackupEntry, BackupFileEntry, BackedUpFlow, BackedUpModule } from "./backup.js";
+
+
+export interface RestoreOptions {
+  backup: string;
+  targetProfile: string;
+  deleteCreated: boolean;
+  verbose: boolean;
+}
+
+
+export async function restoreBackup(options: RestoreOptions) {
+  const manifest = await loadBackupManifest(options.backup);
+  const { instanceId, region } = manifest.targetInstance;
+  const created = manifest.created ?? { flows: [], modules: [] };
+  const flows = manifest.resources["flows"] ?? [];
+  const modules = manifest.resources["modules"] ?? [];
+
+  console.log(`Backup: ${options.backup} (created ${manifest.timestamp})`);
+  console.log(`  Instance ID: ${instanceId}`);
+  console.log(`  Region: ${region}`);
+  console.log(`  Profile: ${options.targetProfile}`);
+
+  displayRestorePlan(manifest, options.deleteCreated);
+
+  if (!manifest.created && options.deleteCreated) {
+    console.log("\n[WARNING] This backup does not record which resources the copy created - nothing will be deleted");
+  }
+
+  const deleteCount = options.deleteCreated ? created.flows.length + created.modules.length : 0;
+
+  if (flows.length + modules.length + deleteCount === 0) {
+    console.log("\nNothing to restore");
+    return;
+  }
+
+  const shouldContinue = await CliUtil.promptContinue(`Restore ${instanceId} from this backup?`);
+  if (!shouldContinue) {
+    console.log("Restore cancelled by user");
+    return;
+  }
+
+  const client = createConnectClient(region, options.targetProfile);
+  const failedDeletes = await applyBackup(client, options.backup, manifest, options.deleteCreated, options.verbose);
+
+  console.log(`\nRestore complete: ${modules.length} modules, ${flows.length} flows restored${options.deleteCreated ? `, ${deleteCount - failedDeletes} created resources deleted` : ""}`);
+
+  if (failedDeletes > 0) {
+    console.error(`${failedDeletes} created resources could not be deleted (see above) - remove them manually`);
+    process.exit(1);
+  }
+}
+
+
+/**
+ * Write the backed-up flows and modules back to target and, with deleteCreated, delete what the
+ * copy run created. Returns the number of created resources that could not be deleted. Also used
+ * by `copy-flows --atomic` to roll back a failed promotion.
+ */
+export async function applyBackup(client: ConnectClient, backupDir: string, manifest: BackupMetadata, deleteCreated: boolean, verbose: boolean): Promise<number> {
+  const { instanceId } = manifest.targetInstance;
+  const created = manifest.created ?? { flows: [], modules: [] };
+
+  // Modules first, so restored flows never point at module content from the copy run
+  for (const entry of manifest.resources["modules"] ?? []) {
+    await restoreModule(client, instanceId, backupDir, entry, verbose);
+  }
+
+  for (const entry of manifest.resources["flows"] ?? []) {
+    await restoreFlow(client, instanceId, backupDir, entry, verbose);
+  }
+
+  let failedDeletes = 0;
+
+  if (deleteCreated) {
+    // Flows reference modules, so they go first; reverse creation order within each type
+    failedDeletes += await deleteCreatedEntries([...created.flows].reverse(), "flow", id => deleteContactFlow(client, instanceId, id));
+    failedDeletes += await deleteCreatedEntries([...created.modules].reverse(), "module", id => deleteContactFlowModule(client, instanceId, id));
+  }
+
+  return failedDeletes;
+}
+
+
+function displayRestorePlan(manifest: BackupMetadata, deleteCreated: boolean) {
+  const created = manifest.created ?? { flows: [], modules: [] };
+  const flows = manifest.resources["flows"] ?? [];
+  const modules = manifest.resources["modules"] ?? [];
+
+  console.log(`\nSummary:`);
+  console.log(`  Modules to restore: ${modules.length}`);
+  console.log(`  Flows to restore: ${flows.length}`);
+
+  if (deleteCreated) {
+    console.log(`  Created modules to delete: ${created.modules.length}`);
+    console.log(`  Created flows to delete: ${created.flows.length}`);
+  }
+
+  for (const module of modules) console.log(`  - Restore module: ${module.name}`);
+  for (const flow of flows) console.log(`  - Restore flow: ${flow.name}`);
+
+  if (deleteCreated) {
+    for (const module of created.modules) console.log(`  - Delete module: ${module.name}`);
+    for (const flow of created.flows) console.log(`  - Delete flow: ${flow.name}`);
+  } else if (created.flows.length + created.modules.length > 0) {
+    console.log(`\n[INFO] The copy created ${created.flows.length} flows and ${created.modules.length} modules; use --delete-created to remove them`);
+  }
+
+  // Other resource types are saved for reference; their previous state has to be reapplied by hand
+  const otherTypes = Object.entries(manifest.resources).filter(([type, entries]) => type !== "flows" && type !== "modules" && entries.length > 0);
+  if (otherTypes.length > 0 || manifest.hierarchyStructure) {
+    console.log(`\n[INFO] Also in this backup, not restored automatically: ${[...otherTypes.map(([type, entries]) => `${entries.length} ${type}`), ...(manifest.hierarchyStructure ? ["hierarchy structure"] : [])].join(", ")}`);
+  }
+}
+
+
+async function restoreModule(client: ConnectClient, instanceId: string, backupDir: string, entry: BackupFileEntry, verbose: boolean) {
+  const backedUp = JSON.parse(await readFile(join(backupDir, entry.file), "utf-8")) as BackedUpModule;
+  const current = await describeContactFlowModule(client, instanceId, entry.id);
+
+  console.log(`Restoring module: ${entry.name}`);
+
+  await updateContactFlowModuleContent(client, instanceId, entry.id, backedUp.Content!);
+
+  if (backedUp.Description !== current.Description || (backedUp.Name && backedUp.Name !== current.Name)) {
+    if (verbose) console.log(`  Metadata: name/description restored`);
+    await updateContactFlowModuleMetadata(client, instanceId, entry.id, backedUp.Description, backedUp.Name);
+  }
+
+  await restoreTags(client, entry.arn, backedUp.Tags, current.Tags, verbose);
+}
+
+
+async function restoreFlow(client: ConnectClient, instanceId: string, backupDir: string, entry: BackupFileEntry, verbose: boolean) {
+  const backedUp = JSON.parse(await readFile(join(backupDir, entry.file), "utf-8")) as BackedUpFlow;
+  const current = await describeContactFlow(client, instanceId, entry.id);
+
+  // Older backups did not record status; leave those as SAVED rather than publish content nobody reviewed
+  const publish = backedUp.Status === "PUBLISHED";
+  console.log(`Restoring flow: ${entry.name}${publish ? "" : " (SAVED)"}`);
+
+  await updateContactFlowContent(client, instanceId, publish ? entry.id : `${entry.id}:$SAVED`, backedUp.Content!);
+
+  if (backedUp.DraftContent !== undefined) {
+    if (verbose) console.log(`  Pending draft restored`);
+    await updateContactFlowContent(client, instanceId, `${entry.id}:$SAVED`, backedUp.DraftContent);
+  }
+
+  // A copy that renamed the flow (see identity.ts) is undone by restoring the backed-up name
+  if (backedUp.Description !== current.Description || (backedUp.State && backedUp.State !== current.State) || (backedUp.Name && backedUp.Name !== current.Name)) {
+    if (verbose) console.log(`  Metadata: name/description/state restored`);
+    await updateContactFlowMetadata(client, instanceId, entry.id, backedUp.State, backedUp.Description, backedUp.Name);
+  }
+
+  await restoreTags(client, entry.arn, backedUp.Tags, current.Tags, verbose);
+}
+
+
+async function restoreTags(client: ConnectClient, arn: string, backedUpTags: Record<string, string> | undefined, currentTags: Record<string, string> | undefined, verbose: boolean) {
+  const { toAdd, toRemove } = CliUtil.getRecordDiff(backedUpTags, currentTags);
+  if (Object.keys(toAdd).length === 0 && toRemove.length === 0) return;
+
+  if (verbose) {
+    if (Object.keys(toAdd).length) console.log(`  Tags to add: ${Object.entries(toAdd).map(([k, v]) => `${k}=${v}`).join(", ")}`);
+    if (toRemove.length) console.log(`  Tags to remove: ${toRemove.join(", ")}`);
+  }
+
+  await updateResourceTags(client, arn, toAdd, toRemove);
+}
+
+
+async function deleteCreatedEntries(entries: BackupEntry[], label: string, remove: (id: string) => Promise<void>): Promise<number> {
+  let failed = 0;
+
+  // Keep going past failures (e.g. a flow still referenced by a queue) so one stuck resource does not block the rest
+  for (const entry of entries) {
+    try {
+      await remove(entry.id);
+      console.log(`Deleted created ${label}: ${entry.name}`);
+    } catch (error) {
+      console.error(`Failed to delete created ${label} ${entry.name}: ${(error as Error).message}`);
+      failed++;
+    }
+  }
+
+  return failed;
+}
@@ -0,0 +1,315 @@
+
+import { mkdir, readdir, readFile, rm, writeFile } from "fs/promises";
+import { join } from "path";
+import { createConnectClient } from "./connect/client.js";
+import { listContactFlows, listContactFlowModules, describeContactFlow, describeContactFlowModule } from "./connect/flows.js";
+import { listQueues, listPrompts, listRoutingProfiles, listHoursOfOperations, listQuickConnects, listSecurityProfiles, listUserHierarchyGroups, listAgentStatuses, listViews, listUsers } from "./connect/resources.js";
+import { describeQueue } from "./resources/queues/operations.js";
+import { listPhoneNumbers } from "./resources/phone-numbers/operations.js";
+import { describeRoutingProfile, listRoutingProfileQueues } from "./resources/routing-profiles/operations.js";
+import { describeQuickConnect, listQueueQuickConnects } from "./resources/quick-connects/operations.js";
+import { describeHierarchyGroup, describeUserHierarchyStructure } from "./resources/hierarchy-groups/operations.js";
+import { describeSecurityProfile, listSecurityProfilePermissions } from "./resources/security-profiles/operations.js";
+import { describeHoursOfOperation } from "./resources/hours-of-operation/operations.js";
+import { describeAgentStatus } from "./resources/agent-statuses/operations.js";
+import { describeView } from "./resources/views/operations.js";
+import { validateSourceConfig } from "./validation.js";
+import { mapConcurrent } from "./utils/concurrency-utils.js";
+
+import type {
+  ConnectClient,
+  ContactFlowSummary,
+  ContactFlow,
+  ContactFlowModuleSummary,
+  ContactFlowModule,
+  QueueSummary,
+  Queue,
+  QuickConnectSummary,
+  QuickConnect,
+  RoutingProfileSummary,
+  RoutingProfile,
+  RoutingProfileQueueConfigSummary,
+  HierarchyGroupSummary,
+  HierarchyGroup,
+  HierarchyStructure,
+  SecurityProfileSummary,
+  SecurityProfile,
+  HoursOfOperationSummary,
+  HoursOfOperation,
+  AgentStatusSummary,
+  AgentStatus,
+  ViewSummary,
+  View,
+  PromptSummary,
+  ListPhoneNumbersSummary,
+  UserSummary
+} from "@aws-sdk/client-connect";
+
+
+/**
+ * Bumped whenever the on-disk layout changes in a way older readers cannot handle.
+ */
+export const SNAPSHOT_FORMAT_VERSION = 1;
+
+
+export interface SnapshotManifest {
+  formatVersion: number;
+  exportedAt: string;
+  instanceId: string;
+  region: string;
+  counts: Record<string, number>;
+}
+
+
+export interface InstanceSnapshot {
+  manifest: SnapshotManifest;
+
+  flows: { Summary: ContactFlowSummary; ContactFlow: ContactFlow }[];
+  modules: { Summary: ContactFlowModuleSummary; ContactFlowModule: ContactFlowModule }[];
+  queues: { Summary: QueueSummary; Queue?: Queue; QuickConnects: QuickConnectSummary[] }[];
+  routingProfiles: { Summary: RoutingProfileSummary; RoutingProfile: RoutingProfile; Queues: RoutingProfileQueueConfigSummary[] }[];
+  quickConnects: { Summary: QuickConnectSummary; QuickConnect: QuickConnect }[];
+  hierarchyGroups: { Summary: HierarchyGroupSummary; HierarchyGroup: HierarchyGroup }[];
+  securityProfiles: { Summary: SecurityProfileSummary; SecurityProfile: SecurityProfile; Permissions: string[] }[];
+  hoursOfOperations: { Summary: HoursOfOperationSummary; HoursOfOperation: HoursOfOperation }[];
+  agentStatuses: { Summary: AgentStatusSummary; AgentStatus: AgentStatus }[];
+  views: { Summary: ViewSummary; View: View }[];
+
+  hierarchyStructure: HierarchyStructure;
+  prompts: PromptSummary[];
+  phoneNumbers: ListPhoneNumbersSummary[];
+  users: UserSummary[];
+}
+
+
+type SnapshotEntryKey = "flows" | "modules" | "queues" | "routingProfiles" | "quickConnects" | "hierarchyGroups" | "securityProfiles" | "hoursOfOperations" | "agentStatuses" | "views";
+
+
+// One directory per describable resource type, one file per resource, so a PR diff shows exactly what changed
+const ENTRY_DIRECTORIES: Record<SnapshotEntryKey, string> = {
+  flows: "flows",
+  modules: "modules",
+  queues: "queues",
+  routingProfiles: "routing-profiles",
+  quickConnects: "quick-connects",
+  hierarchyGroups: "hierarchy-groups",
+  securityProfiles: "security-profiles",
+  hoursOfOperations: "hours-of-operation",
+  agentStatuses: "agent-statuses",
+  views: "views"
+};
+
+
+export interface ExportOptions {
+  sourceConfig: string;
+  sourceProfile: string;
+  output: string;
+}
+
+
+function sanitizeFileName(filename: string): string {
+  return filename.replace(/[^a-zA-Z0-9._-]+/g, '-').replace(/^-+|-+$/g, '');
+}
+
+
+export async function gatherInstanceSnapshot(client: ConnectClient, instanceId: string, region: string): Promise<InstanceSnapshot> {
+  const snapshot: InstanceSnapshot = {
+    manifest: {
+      formatVersion: SNAPSHOT_FORMAT_VERSION,
+      exportedAt: new Date().toISOString(),
+      instanceId,
+      region,
+      counts: {}
+    },
+    flows: [],
+    modules: [],
+    queues: [],
+    routingProfiles: [],
+    quickConnects: [],
+    hierarchyGroups: [],
+    securityProfiles: [],
+    hoursOfOperations: [],
+    agentStatuses: [],
+    views: [],
+    hierarchyStructure: {},
+    prompts: [],
+    phoneNumbers: [],
+    users: []
+  };
+
+  console.log("Exporting flows...");
+  snapshot.flows = await mapConcurrent(await listContactFlows(client, instanceId), async summary =>
+    ({ Summary: summary, ContactFlow: await describeContactFlow(client, instanceId, summary.Id!) }), "Flows");
+
+  console.log("Exporting modules...");
+  snapshot.modules = await mapConcurrent(await listContactFlowModules(client, instanceId), async summary =>
+    ({ Summary: summary, ContactFlowModule: await describeContactFlowModule(client, instanceId, summary.Id!) }), "Modules");
+
+  console.log("Exporting queues...");
+  snapshot.queues = await mapConcurrent(await listQueues(client, instanceId), async summary => {
+    // Only STANDARD queues are copied; agent queues are listed so ARN mapping sees the full inventory
+    if (summary.QueueType !== "STANDARD") return { Summary: summary, QuickConnects: [] };
+
+    return {
+      Summary: summary,
+      Queue: await describeQueue(client, instanceId, summary.Id!),
+      QuickConnects: await listQueueQuickConnects(client, instanceId, summary.Id!)
+    };
+  }, "Queues");
+
+  console.log("Exporting routing profiles...");
+  snapshot.routingProfiles = await mapConcurrent(await listRoutingProfiles(client, instanceId), async summary => ({
+    Summary: summary,
+    RoutingProfile: await describeRoutingProfile(client, instanceId, summary.Id!),
+    Queues: await listRoutingProfileQueues(client, instanceId, summary.Id!)
+  }), "Routing profiles");
+
+  console.log("Exporting quick connects...");
+  snapshot.quickConnects = await mapConcurrent(await listQuickConnects(client, instanceId), async summary =>
+    ({ Summary: summary, QuickConnect: await describeQuickConnect(client, instanceId, summary.Id!) }), "Quick connects");
+
+  console.log("Exporting hierarchy groups...");
+  snapshot.hierarchyStructure = await describeUserHierarchyStructure(client, instanceId);
+  snapshot.hierarchyGroups = await mapConcurrent(await listUserHierarchyGroups(client, instanceId), async summary =>
+    ({ Summary: summary, HierarchyGroup: await describeHierarchyGroup(client, instanceId, summary.Id!) }), "Hierarchy groups");
+
+  console.log("Exporting security profiles...");
+  snapshot.securityProfiles = await mapConcurrent(await listSecurityProfiles(client, instanceId), async summary => ({
+    Summary: summary,
+    SecurityProfile: await describeSecurityProfile(client, instanceId, summary.Id!),
+    Permissions: await listSecurityProfilePermissions(client, instanceId, summary.Id!)
+  }), "Security profiles");
+
+  console.log("Exporting hours of operation...");
+  snapshot.hoursOfOperations = await mapConcurrent(await listHoursOfOperations(client, instanceId), async summary =>
+    ({ Summary: summary, HoursOfOperation: await describeHoursOfOperation(client, instanceId, summary.Id!) }), "Hours of operation");
+
+  console.log("Exporting agent statuses...");
+  snapshot.agentStatuses = await mapConcurrent(await listAgentStatuses(client, instanceId), async summary =>
+    ({ Summary: summary, AgentStatus: await describeAgentStatus(client, instanceId, summary.Id!) }), "Agent statuses");
+
+  console.log("Exporting views...");
+  snapshot.views = await mapConcurrent(await listViews(client, instanceId), async summary => {
+    const viewIdentifier = summary.Type === "AWS_MANAGED" ? summary.Arn! : summary.Id!;
+    return { Summary: summary, View: await describeView(client, instanceId, viewIdentifier) };
+  }, "Views");
+
+  console.log("Exporting prompts, phone numbers and users...");
+  snapshot.prompts = await listPrompts(client, instanceId);
+  snapshot.phoneNumbers = await listPhoneNumbers(client, instanceId);
+  snapshot.users = await listUsers(client, instanceId);
+
+  for (const key of Object.keys(ENTRY_DIRECTORIES) as SnapshotEntryKey[]) {
+    snapshot.manifest.counts[key] = snapshot[key].length;
+  }
+  snapshot.manifest.counts["prompts"] = snapshot.prompts.length;
+  snapshot.manifest.counts["phoneNumbers"] = snapshot.phoneNumbers.length;
+  snapshot.manifest.counts["users"] = snapshot.users.length;
+
+  return snapshot;
+}
+
+
+export async function writeSnapshot(snapshot: InstanceSnapshot, snapshotDir: string): Promise<void> {
+  await mkdir(snapshotDir, { recursive: true });
+
+  for (const [key, directory] of Object.entries(ENTRY_DIRECTORIES) as [SnapshotEntryKey, string][]) {
+    const entryDir = join(snapshotDir, directory);
+    await mkdir(entryDir, { recursive: true });
+
+    const written = new Set<string>();
+    for (const entry of snapshot[key]) {
+      const fileName = sanitizeFileName(`${entry.Summary.Name ?? ""}-${entry.Summary.Id!}.json`);
+      await writeFile(join(entryDir, fileName), JSON.stringify(entry, null, 2));
+      written.add(fileName);
+    }
+
+    // Refreshing an existing snapshot: files of renamed or deleted resources would otherwise load as live entries
+    for (const fileName of await readdir(entryDir)) {
+      if (fileName.endsWith(".json") && !written.has(fileName)) await rm(join(entryDir, fileName));
+    }
+  }
+
+  await writeFile(join(snapshotDir, "hierarchy-structure.json"), JSON.stringify(snapshot.hierarchyStructure, null, 2));
+  await writeFile(join(snapshotDir, "prompts.json"), JSON.stringify(snapshot.prompts, null, 2));
+  await writeFile(join(snapshotDir, "phone-numbers.json"), JSON.stringify(snapshot.phoneNumbers, null, 2));
+  await writeFile(join(snapshotDir, "users.json"), JSON.stringify(snapshot.users, null, 2));
+
+  // Manifest goes last so a partially written directory is never mistaken for a complete snapshot
+  await writeFile(join(snapshotDir, "manifest.json"), JSON.stringify(snapshot.manifest, null, 2));
+}
+
+
+async function readJson<T>(path: string): Promise<T> {
+  return JSON.parse(await readFile(path, "utf-8")) as T;
+}
+
+
+export async function loadSnapshot(snapshotDir: string): Promise<InstanceSnapshot> {
+  let manifest: SnapshotManifest;
+
+  try {
+    manifest = await readJson<SnapshotManifest>(join(snapshotDir, "manifest.json"));
+  } catch (error) {
+    throw new Error(`Not a snapshot directory (missing or unreadable manifest.json): ${snapshotDir}`);
+  }
+
+  if (manifest.formatVersion !== SNAPSHOT_FORMAT_VERSION) {
+    throw new Error(`Unsupported snapshot format version ${manifest.formatVersion} in ${snapshotDir} (expected ${SNAPSHOT_FORMAT_VERSION})`);
+  }
+
+  const snapshot: InstanceSnapshot = {
+    manifest,
+    flows: [],
+    modules: [],
+    queues: [],
+    routingProfiles: [],
+    quickConnects: [],
+    hierarchyGroups: [],
+    securityProfiles: [],
+    hoursOfOperations: [],
+    agentStatuses: [],
+    views: [],
+    hierarchyStructure: await readJson(join(snapshotDir, "hierarchy-structure.json")),
+    prompts: await readJson(join(snapshotDir, "prompts.json")),
+    phoneNumbers: await readJson(join(snapshotDir, "phone-numbers.json")),
+    users: await readJson(join(snapshotDir, "users.json"))
+  };
+
+  for (const [key, directory] of Object.entries(ENTRY_DIRECTORIES) as [SnapshotEntryKey, string][]) {
+    const entryDir = join(snapshotDir, directory);
+    const fileNames = (await readdir(entryDir)).filter(f => f.endsWith(".json")).sort();
+
+    const entries: unknown[] = [];
+    for (const fileName of fileNames) {
+      entries.push(await readJson(join(entryDir, fileName)));
+    }
+
+    // Entries were written by writeSnapshot from the same InstanceSnapshot shape
+    (snapshot[key] as unknown[]) = entries;
+  }
+
+  return snapshot;
+}
+
+
+export async function runExport(options: ExportOptions) {
+  const sourceConfigData = await readFile(options.sourceConfig, "utf-8");
+  const sourceConfig = validateSourceConfig(JSON.parse(sourceConfigData));
+
+  console.log("Source: " + options.sourceConfig);
+  console.log(`  Instance ID: ${sourceConfig.instanceId}`);
+  console.log(`  Region: ${sourceConfig.region}`);
+  console.log(`  Profile: ${options.sourceProfile}`);
+  console.log(`\nOutput: ${options.output}\n`);
+
+  const client = createConnectClient(sourceConfig.region, options.sourceProfile);
+  const snapshot = await gatherInstanceSnapshot(client, sourceConfig.instanceId, sourceConfig.region);
+
+  await writeSnapshot(snapshot, options.output);
+
+  console.log(`\nSnapshot written: ${options.output}`);
+  for (const [type, count] of Object.entries(snapshot.manifest.counts)) {
+    console.log(`  ${type}: ${count}`);
+  }
+}
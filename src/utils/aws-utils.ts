@@ -1,5 +1,5 @@
 
-import { TagResourceCommand, UntagResourceCommand } from "@aws-sdk/client-connect";
+import { ListTagsForResourceCommand, TagResourceCommand, UntagResourceCommand } from "@aws-sdk/client-connect";
 
 import type { ConnectClient } from "@aws-sdk/client-connect";
 
@@ -20,3 +20,12 @@ export async function updateResourceTags(client: ConnectClient, resourceArn: str
     }));
   }
 }
+
+
+export async function listResourceTags(client: ConnectClient, resourceArn: string): Promise<Record<string, string>> {
+  const response = await client.send(new ListTagsForResourceCommand({
+    resourceArn: resourceArn
+  }));
+
+  return response.tags ?? {};
+}
@@ -3,12 +3,16 @@ import { readFile } from "fs/promises";
 import { createInterface } from "readline";
 
 import { cliFlags } from "../cli-flags.js";
+import { createConnectClient } from "../connect/client.js";
+import { createSnapshotClient } from "../connect/snapshot-client.js";
+import { loadSnapshot } from "../snapshot.js";
 import { validateSourceConfig, validateTargetConfig } from "../validation.js";
+import { log } from "./log-utils.js";
 
 import type { SourceConfig, TargetConfig } from "../validation.js";
 
 import type { ConnectClient } from "@aws-sdk/client-connect";
-import type { FilterConfig } from "../validation.ts";
+import type { FilterConfig, NameRule, ResourceIdentity } from "../validation.ts";
 
 
 export async function promptContinue(message: string): Promise<boolean> {
@@ -28,11 +32,12 @@ export async function promptContinue(message: string): Promise<boolean> {
 }
 
 
-interface EnvOptions {
+export interface EnvOptions {
   sourceConfig: string;
   targetConfig: string;
 
-  sourceProfile: string;
+  sourceProfile?: string | undefined;
+  sourceSnapshot?: string | undefined;
   targetProfile: string;
 }
 
@@ -44,6 +49,10 @@ export interface ResourceComparisonConfig {
   targetInstanceId: string;
 
   filterConfig: FilterConfig | undefined;
+  // Source config `identity` section; without it resources are matched by name
+  identity?: Record<string, ResourceIdentity> | undefined;
+  // Source config `nameRules`: how source names are rewritten for target
+  nameRules?: NameRule[] | undefined;
 }
 
 export async function loadConfigs(options: EnvOptions): Promise<{ source: SourceConfig; target: TargetConfig }> {
@@ -53,20 +62,41 @@ export async function loadConfigs(options: EnvOptions): Promise<{ source: Source
   const sourceConfig = validateSourceConfig(JSON.parse(sourceConfigData));
   const targetConfig = validateTargetConfig(JSON.parse(targetConfigData));
 
-  console.log("Source: " + options.sourceConfig);
-  console.log(`  Instance ID: ${sourceConfig.instanceId}`);
-  console.log(`  Region: ${sourceConfig.region}`);
-  console.log(`  Profile: ${options.sourceProfile}`);
+  log("Source: " + options.sourceConfig);
+  log(`  Instance ID: ${sourceConfig.instanceId}`);
+  log(`  Region: ${sourceConfig.region}`);
+  if (options.sourceSnapshot) {
+    log(`  Snapshot: ${options.sourceSnapshot}`);
+  } else {
+    log(`  Profile: ${options.sourceProfile}`);
+  }
 
-  console.log("\nTarget: " + options.targetConfig);
-  console.log(`  Instance ID: ${targetConfig.instanceId}`);
-  console.log(`  Region: ${targetConfig.region}`);
-  console.log(`  Profile: ${options.targetProfile}`);
+  log("\nTarget: " + options.targetConfig);
+  log(`  Instance ID: ${targetConfig.instanceId}`);
+  log(`  Region: ${targetConfig.region}`);
+  log(`  Profile: ${options.targetProfile}`);
 
   return { source: sourceConfig, target: targetConfig };
 }
 
 
+export async function createSourceClient(sourceConfig: SourceConfig, options: Pick<EnvOptions, "sourceProfile" | "sourceSnapshot">): Promise<ConnectClient> {
+  if (!options.sourceSnapshot) {
+    if (!options.sourceProfile) throw new Error("Either --source-profile or --source-snapshot is required");
+    return createConnectClient(sourceConfig.region, options.sourceProfile);
+  }
+
+  const snapshot = await loadSnapshot(options.sourceSnapshot);
+
+  if (snapshot.manifest.instanceId !== sourceConfig.instanceId || snapshot.manifest.region !== sourceConfig.region) {
+    throw new Error(`Snapshot ${options.sourceSnapshot} was exported from ${snapshot.manifest.instanceId} (${snapshot.manifest.region}), but source config is ${sourceConfig.instanceId} (${sourceConfig.region})`);
+  }
+
+  log(`\nUsing source snapshot exported ${snapshot.manifest.exportedAt}`);
+  return createSnapshotClient(snapshot);
+}
+
+
 export function recordsMatch(source?: Record<string, string>, target?: Record<string, string>): boolean {
   if (source === undefined && target === undefined) return true;
   if (source === undefined || target === undefined) return false;
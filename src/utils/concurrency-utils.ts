@@ -0,0 +1,167 @@
+import { log } from "./log-utils.js";
+
+
+
+/**
+ * Bounded concurrency for the describe phase. `--concurrency` caps how many items mapConcurrent
+ * works on at once; on top of that every Connect request passes through a per-operation limiter
+ * (installed as client middleware) that halves when the operation is throttled and grows back
+ * towards the cap while requests succeed, since Connect throttles each API operation separately.
+ * Concurrency alone does not bound the request rate - fast operations can still exceed their
+ * quota - so each operation also has a token bucket that holds it to `--rate-limit` requests per
+ * second with Connect's burst allowance.
+ */
+export const DEFAULT_CONCURRENCY = 5;
+
+// Connect's default quota for most API operations: 2 requests per second, bursts of up to 5
+export const DEFAULT_RATE_LIMIT = 2;
+const RATE_BURST = 5;
+
+// Lists shorter than this finish quickly enough that progress lines would only be noise
+const PROGRESS_MIN_ITEMS = 50;
+
+
+interface OperationLimiter {
+  limit: number;
+  active: number;
+  successes: number;
+  waiting: (() => void)[];
+  // Requests the bucket allows right now; negative while requests are queued for later tokens
+  tokens: number;
+  refilledAt: number;
+}
+
+
+let maxConcurrency = DEFAULT_CONCURRENCY;
+let rateLimit = DEFAULT_RATE_LIMIT;
+const operationLimiters = new Map<string, OperationLimiter>();
+
+
+export function setConcurrency(limit: number) {
+  maxConcurrency = limit;
+  operationLimiters.clear();
+}
+
+
+export function setRateLimit(requestsPerSecond: number) {
+  rateLimit = requestsPerSecond;
+  operationLimiters.clear();
+}
+
+
+export function getConcurrency(): number {
+  return maxConcurrency;
+}
+
+
+/**
+ * Map items through an async function with at most `--concurrency` in flight. Results keep the
+ * input order, so callers can describe concurrently and then report sequentially. With a label,
+ * progress is logged every 10% for long lists.
+ */
+export async function mapConcurrent<T, R>(items: readonly T[], fn: (item: T) => Promise<R>, label?: string): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  const progress = label && items.length >= PROGRESS_MIN_ITEMS ? createProgress(label, items.length) : undefined;
+
+  let next = 0;
+  let failed = false;
+
+  const worker = async () => {
+    // Stop picking up new items once one has failed; the first error is what Promise.all reports
+    while (!failed && next < items.length) {
+      const index = next++;
+
+      try {
+        results[index] = await fn(items[index]!);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+
+      progress?.();
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(maxConcurrency, items.length) }, worker));
+  return results;
+}
+
+
+function createProgress(label: string, total: number): () => void {
+  let done = 0;
+  let reportedTenths = 0;
+
+  return () => {
+    done++;
+    const tenths = Math.floor(done * 10 / total);
+
+    if (tenths > reportedTenths) {
+      reportedTenths = tenths;
+      log(`  ${label}: ${done}/${total}`);
+    }
+  };
+}
+
+
+/**
+ * Wait for a slot and a token for one request of the given operation (e.g.
+ * DescribeContactFlowCommand). The returned release function must be called once the request
+ * settles, with whether it was throttled.
+ */
+export async function acquireOperationSlot(operation: string): Promise<(throttled: boolean) => void> {
+  let limiter = operationLimiters.get(operation);
+  if (!limiter) {
+    limiter = { limit: maxConcurrency, active: 0, successes: 0, waiting: [], tokens: RATE_BURST, refilledAt: Date.now() };
+    operationLimiters.set(operation, limiter);
+  }
+
+  const slotLimiter = limiter;
+
+  if (slotLimiter.active < slotLimiter.limit) {
+    slotLimiter.active++;
+  } else {
+    // The releasing request hands its slot over, so active is incremented there
+    await new Promise<void>(resolve => slotLimiter.waiting.push(resolve));
+  }
+
+  await takeToken(slotLimiter);
+
+  return (throttled: boolean) => releaseOperationSlot(slotLimiter, throttled);
+}
+
+
+// Each request reserves a token, so concurrent requests queue for successive refills rather than racing
+async function takeToken(limiter: OperationLimiter) {
+  const now = Date.now();
+  limiter.tokens = Math.min(RATE_BURST, limiter.tokens + (now - limiter.refilledAt) * rateLimit / 1000);
+  limiter.refilledAt = now;
+  limiter.tokens--;
+
+  if (limiter.tokens < 0) {
+    await new Promise(resolve => setTimeout(resolve, -limiter.tokens * 1000 / rateLimit));
+  }
+}
+
+
+function releaseOperationSlot(limiter: OperationLimiter, throttled: boolean) {
+  limiter.active--;
+
+  if (throttled) {
+    limiter.limit = Math.max(1, Math.floor(limiter.limit / 2));
+    limiter.successes = 0;
+  } else if (++limiter.successes >= limiter.limit && limiter.limit < maxConcurrency) {
+    limiter.limit++;
+    limiter.successes = 0;
+  }
+
+  while (limiter.waiting.length > 0 && limiter.active < limiter.limit) {
+    limiter.active++;
+    limiter.waiting.shift()!();
+  }
+}
+
+
+export function isThrottlingError(error: unknown): boolean {
+  const name = (error as { name?: string } | undefined)?.name;
+  return name === "ThrottlingException" || name === "TooManyRequestsException";
+}
@@ -0,0 +1,21 @@
+
+// report --output json keeps stdout for the JSON document, so its progress text goes to stderr
+let logToStderr = false;
+
+
+export function setLogToStderr(value: boolean) {
+  logToStderr = value;
+}
+
+
+/**
+ * console.log for code that report runs (comparisons, validation, plans and their progress), which
+ * report --output json sends to stderr instead.
+ */
+export function log(...args: unknown[]) {
+  if (logToStderr) {
+    console.error(...args);
+  } else {
+    console.log(...args);
+  }
+}
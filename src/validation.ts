@@ -1,9 +1,12 @@
 
 import type { ContactFlowSummary, ContactFlowModuleSummary, ContactFlow, ContactFlowModule } from "@aws-sdk/client-connect";
 import { V } from "@crrice/vali";
-import { extractDependencyArnsFromFlow, categorizeArn } from "./arn-utils.js";
+import { extractDependencyArnsFromFlow, categorizeArn, findUnmappedReferences } from "./arn-utils.js";
 import { validateFilterPatterns } from "./filters.js";
-import { buildAllResourceMappings, validateDependencies } from "./mapping.js";
+import { validateIdentityConfig, validateNameRules } from "./identity.js";
+import { validateContentSubstitutions } from "./content-substitution.js";
+import { validateDependencies } from "./mapping.js";
+import { log } from "./utils/log-utils.js";
 import type { InstanceInventory, ResourceMappings } from "./mapping.js";
 
 
@@ -12,6 +15,48 @@ export interface ArnPattern {
   replace: string;
 }
 
+// Pairs source and target phone numbers without an explicit mapping by equal description or equal value of a tag
+export type PhoneNumberMatchBy = "description" | `tag:${string}`;
+
+// exact: any content difference updates a flow; behavioral: Metadata-only (layout) differences are skipped
+export type FlowComparisonMode = "exact" | "behavioral";
+
+// How source resources of one type are paired with target resources (see identity.ts)
+export interface ResourceIdentity {
+  matchBy?: IdentityMatchBy;
+  // Source resource ID → target resource ID, taking precedence over matchBy
+  idMappings?: Record<string, string>;
+}
+
+export type IdentityMatchBy = "name" | `tag:${string}`;
+
+export interface UsernameRewrite {
+  match: string;
+  replace: string;
+}
+
+
+export interface NameRule {
+  match: string;
+  replace: string;
+  // Resource types (as used by --skip) the rule applies to; all of them when omitted
+  resourceTypes?: string[];
+}
+
+
+// Rewrites string values inside flow/module Actions[].Parameters (see content-substitution.ts)
+export interface ContentSubstitution {
+  // Dot path below Parameters, e.g. "LambdaInvocationAttributes.apiUrl"
+  path?: string;
+  // Key matched at any depth below Parameters; exactly one of path and key is set
+  key?: string;
+  // Regex; when set only the matching part of the value is replaced, otherwise the whole value
+  match?: string;
+  replace: string;
+  actionTypes?: string[];
+}
+
+
 export interface SourceConfig {
   instanceId: string;
   region: string;
@@ -25,9 +70,21 @@ export interface SourceConfig {
   queueFilters?: FilterConfig;
   routingProfileFilters?: FilterConfig;
   quickConnectFilters?: FilterConfig;
+  promptFilters?: FilterConfig;
+  userFilters?: FilterConfig;
+  phoneNumberFilters?: FilterConfig;
   phoneNumberMappings?: Record<string, string>;
+  phoneNumberMatchBy?: PhoneNumberMatchBy;
+  flowComparison?: FlowComparisonMode;
+  // Flow name → version number or alias to copy instead of the current published content
+  sourceFlowVersions?: Record<string, string>;
   arnMappings?: Record<string, string>;
   arnPatterns?: ArnPattern[];
+  usernameRewrite?: UsernameRewrite;
+  // Resource type (as used by --skip) → how its resources are matched between instances
+  identity?: Record<string, ResourceIdentity>;
+  nameRules?: NameRule[];
+  contentSubstitutions?: ContentSubstitution[];
 }
 
 export interface FilterConfig {
@@ -38,6 +95,7 @@ export interface FilterConfig {
 export interface TargetConfig {
   instanceId: string;
   region: string;
+  promptStagingUri?: string;
 }
 
 
@@ -46,7 +104,7 @@ export type ConnectConfig = SourceConfig | TargetConfig;
 
 export interface ValidationError {
   severity: 'error';
-  category: 'missing_resource' | 'invalid_reference' | 'permission_denied';
+  category: 'missing_resource' | 'invalid_reference' | 'permission_denied' | 'unmapped_reference';
   resourceType: string;
   resourceName?: string;
   referencedBy: string;
@@ -57,7 +115,7 @@ export interface ValidationError {
 
 export interface ValidationWarning {
   severity: 'warning';
-  category: 'environment_specific' | 'unknown_reference';
+  category: 'environment_specific' | 'unknown_reference' | 'unmapped_version' | 'unmapped_reference';
   message: string;
   details?: string;
 }
@@ -76,6 +134,9 @@ export interface ValidationResult {
   sourceModuleDetails: Map<string, ContactFlowModule>;
   targetFlowDetails: Map<string, ContactFlow>;
   targetModuleDetails: Map<string, ContactFlowModule>;
+  // Pending $SAVED drafts of published flows, keyed by flow id (source and target respectively)
+  sourceFlowDrafts: Map<string, ContactFlow>;
+  targetFlowDrafts: Map<string, ContactFlow>;
 }
 
 
@@ -122,72 +183,105 @@ function formatArnCategoryName(category: string): string {
 }
 
 
-export function validateFlowDependencies(sourceInventory: InstanceInventory, targetInventory: InstanceInventory, sourceFlowsToCopy: ContactFlowSummary[], sourceModulesToCopy: ContactFlowModuleSummary[], sourceFlowDetails: Map<string, ContactFlow>, sourceModuleDetails: Map<string, ContactFlowModule>, targetFlowDetails: Map<string, ContactFlow>, targetModuleDetails: Map<string, ContactFlowModule>, verbose: boolean): ValidationResult {
-  console.log("Validating dependencies...");
-
-  const resourceMappings = buildAllResourceMappings(sourceInventory, targetInventory);
-
-  const targetFlowsByName = new Map(targetInventory.flows.map(f => [f.Name!, f]));
-  const targetModulesByName = new Map(targetInventory.modules.map(m => [m.Name!, m]));
+export function validateFlowDependencies(sourceInventory: InstanceInventory, targetInventory: InstanceInventory, resourceMappings: ResourceMappings, sourceFlowsToCopy: ContactFlowSummary[], sourceModulesToCopy: ContactFlowModuleSummary[], sourceFlowDetails: Map<string, ContactFlow>, sourceModuleDetails: Map<string, ContactFlowModule>, targetFlowDetails: Map<string, ContactFlow>, targetModuleDetails: Map<string, ContactFlowModule>, sourceFlowDrafts: Map<string, ContactFlow>, targetFlowDrafts: Map<string, ContactFlow>, verbose: boolean, strictReferences = false): ValidationResult {
+  log("Validating dependencies...");
 
   const flowsWillCreate = new Set(
     sourceFlowsToCopy
-      .filter(f => !targetFlowsByName.has(f.Name!))
+      .filter(f => !resourceMappings.arnMap.has(f.Arn!))
       .map(f => f.Arn!)
   );
 
   const modulesWillCreate = new Set(
     sourceModulesToCopy
-      .filter(m => !targetModulesByName.has(m.Name!))
+      .filter(m => !resourceMappings.arnMap.has(m.Arn!))
       .map(m => m.Arn!)
   );
 
-  console.log(`Will create: ${flowsWillCreate.size} flows, ${modulesWillCreate.size} modules`);
+  log(`Will create: ${flowsWillCreate.size} flows, ${modulesWillCreate.size} modules`);
 
   const allErrors: ValidationError[] = [];
   const allWarnings: ValidationWarning[] = [];
 
+  // A bare resource ID is validated as the source resource it identifies; unknown IDs stay as they are
+  const resolveIds = (references: string[]) => [...new Set(references.map(reference => resourceMappings.sourceIdArns.get(reference) ?? reference))];
+
+  // References outside the catalogued fields are not validated; --strict-references refuses to copy them
+  const checkUnmappedReferences = (resources: (ContactFlow | ContactFlowModule)[], referencedBy: string) => {
+    const seen = new Set<string>();
+
+    for (const reference of resources.flatMap(findUnmappedReferences)) {
+      const location = `${reference.actionType} action ${reference.actionId.slice(0, 8)} at Parameters.${reference.path}`;
+      if (seen.has(`${location} ${reference.value}`)) continue;
+      seen.add(`${location} ${reference.value}`);
+
+      if (strictReferences) {
+        allErrors.push({
+          severity: 'error',
+          category: 'unmapped_reference',
+          resourceType: reference.actionType,
+          referencedBy,
+          sourceArn: reference.value,
+          message: `Unmapped reference in ${location}: ${reference.value}`
+        });
+      } else {
+        allWarnings.push({
+          severity: 'warning',
+          category: 'unmapped_reference',
+          message: `Unmapped reference in ${location}: ${reference.value}`,
+          details: `Referenced by ${referencedBy} - not validated against target (use --strict-references to fail instead)`
+        });
+      }
+    }
+  };
+
   for (const flowSummary of sourceFlowsToCopy) {
     // AWS SDK guarantees Id/Name exist on successfully returned flow summaries
     const fullFlow = sourceFlowDetails.get(flowSummary.Id!);
     if (!fullFlow) continue;
 
-    const arns = extractDependencyArnsFromFlow(fullFlow);
+    // A draft copied alongside the published content must resolve in target too
+    const draft = sourceFlowDrafts.get(flowSummary.Id!);
+    const arns = resolveIds(draft ? [...extractDependencyArnsFromFlow(fullFlow), ...extractDependencyArnsFromFlow(draft)] : extractDependencyArnsFromFlow(fullFlow));
 
     if (verbose) {
-      console.log(`Flow "${fullFlow.Name}": ${arns.length} dependencies`);
+      log(`Flow "${fullFlow.Name}": ${arns.length} dependencies`);
       for (const arn of arns) {
         const category = categorizeArn(arn);
         const resourceName = getResourceNameFromArn(arn, sourceInventory);
         const displayName = resourceName ? `"${resourceName}"` : arn;
-        console.log(`  - ${formatArnCategoryName(category)}: ${displayName}`);
+        log(`  - ${formatArnCategoryName(category)}: ${displayName}`);
       }
     }
 
     const validation = validateDependencies(arns, resourceMappings, flowsWillCreate, modulesWillCreate, fullFlow.Name!);
     allErrors.push(...validation.errors);
     allWarnings.push(...validation.warnings);
+
+    checkUnmappedReferences(draft ? [fullFlow, draft] : [fullFlow], fullFlow.Name!);
   }
 
   for (const moduleSummary of sourceModulesToCopy) {
     const fullModule = sourceModuleDetails.get(moduleSummary.Id!);
     if (!fullModule) continue;
 
-    const arns = extractDependencyArnsFromFlow(fullModule);
+    const arns = resolveIds(extractDependencyArnsFromFlow(fullModule));
 
     if (verbose) {
-      console.log(`Module "${fullModule.Name}": ${arns.length} dependencies`);
+      log(`Module "${fullModule.Name}": ${arns.length} dependencies`);
       for (const arn of arns) {
         const category = categorizeArn(arn);
         const resourceName = getResourceNameFromArn(arn, sourceInventory);
         const displayName = resourceName ? `"${resourceName}"` : arn;
-        console.log(`  - ${formatArnCategoryName(category)}: ${displayName}`);
+        log(`  - ${formatArnCategoryName(category)}: ${displayName}`);
       }
     }
 
     const validation = validateDependencies(arns, resourceMappings, flowsWillCreate, modulesWillCreate, fullModule.Name!);
     allErrors.push(...validation.errors);
     allWarnings.push(...validation.warnings);
+
+    checkUnmappedReferences([fullModule], fullModule.Name!);
   }
 
   return {
@@ -202,7 +296,9 @@ export function validateFlowDependencies(sourceInventory: InstanceInventory, tar
     sourceFlowDetails,
     sourceModuleDetails,
     targetFlowDetails,
-    targetModuleDetails
+    targetModuleDetails,
+    sourceFlowDrafts,
+    targetFlowDrafts
   };
 }
 
@@ -218,6 +314,30 @@ const ArnPatternValidator = V.shape({
   replace: V.string
 }).noextra;
 
+const UsernameRewriteValidator = V.shape({
+  match: V.string.minLen(1),
+  replace: V.string
+}).noextra;
+
+const ResourceIdentityValidator = V.shape({
+  matchBy: V.string.regex(/^(name|tag:.+)$/).optional,
+  idMappings: V.mapOf(V.string.minLen(1)).optional
+}).noextra;
+
+const NameRuleValidator = V.shape({
+  match: V.string.minLen(1),
+  replace: V.string,
+  resourceTypes: V.arrayOf(V.string.minLen(1)).optional
+}).noextra;
+
+const ContentSubstitutionValidator = V.shape({
+  path: V.string.minLen(1).optional,
+  key: V.string.minLen(1).optional,
+  match: V.string.minLen(1).optional,
+  replace: V.string,
+  actionTypes: V.arrayOf(V.string.minLen(1)).optional
+}).noextra;
+
 const SourceConfigValidator = V.shape({
   instanceId: V.string.uuid.regex(/^[0-9a-f-]+$/),
   region: V.string.minLen(1),
@@ -231,23 +351,35 @@ const SourceConfigValidator = V.shape({
   queueFilters: FilterValidator.optional,
   routingProfileFilters: FilterValidator.optional,
   quickConnectFilters: FilterValidator.optional,
+  promptFilters: FilterValidator.optional,
+  userFilters: FilterValidator.optional,
+  phoneNumberFilters: FilterValidator.optional,
 
   phoneNumberMappings: V.mapOf(V.oneOf(V.string.uuid, V.string.regex(/^\+[1-9]\d{1,14}$/))).optional,
+  phoneNumberMatchBy: V.string.regex(/^(description|tag:.+)$/).optional,
+  flowComparison: V.string.regex(/^(exact|behavioral)$/).optional,
+  sourceFlowVersions: V.mapOf(V.string.regex(/^(\d+|[A-Za-z][\w-]*)$/)).optional,
   arnMappings: V.mapOf(V.string.minLen(1)).optional,
   arnPatterns: V.arrayOf(ArnPatternValidator).optional,
+  usernameRewrite: UsernameRewriteValidator.optional,
+  identity: V.mapOf(ResourceIdentityValidator).optional,
+  nameRules: V.arrayOf(NameRuleValidator).optional,
+  contentSubstitutions: V.arrayOf(ContentSubstitutionValidator).optional,
 });
 
 
 const TargetConfigValidator = V.shape({
   instanceId: V.string.uuid.regex(/^[0-9a-f-]+$/),
-  region: V.string.minLen(1)
+  region: V.string.minLen(1),
+  promptStagingUri: V.string.regex(/^s3:\/\/[^/]+(\/.*)?$/).optional
 }).noextra;
 
 
 const FILTER_FIELDS = [
   "flowFilters", "moduleFilters", "viewFilters", "agentStatusFilters",
   "hoursFilters", "hierarchyGroupFilters", "securityProfileFilters",
-  "queueFilters", "routingProfileFilters", "quickConnectFilters"
+  "queueFilters", "routingProfileFilters", "quickConnectFilters", "promptFilters", "userFilters",
+  "phoneNumberFilters"
 ] as const;
 
 
@@ -268,6 +400,21 @@ export function validateSourceConfig(data: unknown): SourceConfig {
     throw new Error(`Invalid filter patterns in source config:\n${patternErrors.join('\n')}`);
   }
 
+  const identityErrors = data.identity ? validateIdentityConfig(data.identity) : [];
+  if (identityErrors.length > 0) {
+    throw new Error(`Invalid identity section in source config:\n${identityErrors.join('\n')}`);
+  }
+
+  const nameRuleErrors = data.nameRules ? validateNameRules(data.nameRules) : [];
+  if (nameRuleErrors.length > 0) {
+    throw new Error(`Invalid nameRules in source config:\n${nameRuleErrors.join('\n')}`);
+  }
+
+  const substitutionErrors = data.contentSubstitutions ? validateContentSubstitutions(data.contentSubstitutions) : [];
+  if (substitutionErrors.length > 0) {
+    throw new Error(`Invalid contentSubstitutions in source config:\n${substitutionErrors.join('\n')}`);
+  }
+
   return data;
 }
 
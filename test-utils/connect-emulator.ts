@@ -0,0 +1,977 @@
+
+import { randomUUID } from "crypto";
+import { readFile, stat } from "fs/promises";
+import { ConnectClient, DuplicateResourceException, InvalidContactFlowException, InvalidRequestException, ResourceInUseException, ResourceNotFoundException } from "@aws-sdk/client-connect";
+import { S3Client } from "@aws-sdk/client-s3";
+import { answerFromSnapshot } from "../src/connect/snapshot-client.js";
+import { setConnectClientFactory, setS3ClientFactory } from "../src/connect/client.js";
+import { loadSnapshot, SNAPSHOT_FORMAT_VERSION } from "../src/snapshot.js";
+
+import type { FlowAssociationSummary, HierarchyGroupSummary, HierarchyLevelUpdate, HierarchyPath, HierarchyStructure, Prompt, RoutingProfileQueueConfig, ServiceOutputTypes, User } from "@aws-sdk/client-connect";
+import type { AssociatePhoneNumberContactFlowCommandInput, AssociateQueueQuickConnectsCommandInput, AssociateRoutingProfileQueuesCommandInput, CreateAgentStatusCommandInput, CreateContactFlowCommandInput, CreateContactFlowModuleCommandInput, CreateContactFlowVersionCommandInput, CreateHoursOfOperationCommandInput, CreatePromptCommandInput, CreateQueueCommandInput, CreateQuickConnectCommandInput, CreateRoutingProfileCommandInput, CreateSecurityProfileCommandInput, CreateUserCommandInput, CreateUserHierarchyGroupCommandInput, CreateViewCommandInput, DeleteContactFlowCommandInput, DeleteContactFlowModuleCommandInput, DeleteHoursOfOperationCommandInput, DeletePromptCommandInput, DeleteQuickConnectCommandInput, DeleteRoutingProfileCommandInput, DeleteSecurityProfileCommandInput, DeleteUserHierarchyGroupCommandInput, DeleteViewCommandInput, DescribeContactFlowCommandInput, DescribePromptCommandInput, DescribeUserCommandInput, DisassociateQueueQuickConnectsCommandInput, GetPromptFileCommandInput, DisassociateRoutingProfileQueuesCommandInput, ListContactFlowVersionsCommandInput, ListFlowAssociationsCommandInput, TagResourceCommandInput, UntagResourceCommandInput, UpdateAgentStatusCommandInput, UpdateContactFlowContentCommandInput, UpdateContactFlowMetadataCommandInput, UpdateContactFlowModuleContentCommandInput, UpdateContactFlowModuleMetadataCommandInput, UpdateHoursOfOperationCommandInput, UpdatePromptCommandInput, UpdateQueueHoursOfOperationCommandInput, UpdateQueueMaxContactsCommandInput, UpdateQueueNameCommandInput, UpdateQueueOutboundCallerConfigCommandInput, UpdateQueueStatusCommandInput, UpdateQuickConnectConfigCommandInput, UpdateQuickConnectNameCommandInput, UpdateRoutingProfileAgentAvailabilityTimerCommandInput, UpdateRoutingProfileConcurrencyCommandInput, UpdateRoutingProfileDefaultOutboundQueueCommandInput, UpdateRoutingProfileNameCommandInput, UpdateRoutingProfileQueuesCommandInput, UpdateSecurityProfileCommandInput, UpdateUserHierarchyCommandInput, UpdateUserHierarchyGroupNameCommandInput, UpdateUserHierarchyStructureCommandInput, UpdateUserIdentityInfoCommandInput, UpdateUserPhoneConfigCommandInput, UpdateUserRoutingProfileCommandInput, UpdateUserSecurityProfilesCommandInput, UpdateViewContentCommandInput, UpdateViewMetadataCommandInput } from "@aws-sdk/client-connect";
+import type { ServiceOutputTypes as S3ServiceOutputTypes } from "@aws-sdk/client-s3";
+import type { InitializeHandlerOutput } from "@smithy/types";
+import type { InstanceSnapshot } from "../src/snapshot.js";
+
+
+export const EMULATOR_ACCOUNT_ID = "123456789012";
+
+
+type Input = Record<string, unknown>;
+type WriteHandler = (state: InstanceSnapshot, input: Input) => Record<string, unknown>;
+
+
+/**
+ * A snapshot plus what Describe* returns for its prompts and users, which snapshots export as
+ * summaries only. Prompt audio is base64-encoded.
+ */
+export interface EmulatorFixture extends InstanceSnapshot {
+  described?: {
+    prompts?: (Prompt & { Audio: string })[];
+    users?: User[];
+  };
+}
+
+
+const instances = new Map<string, InstanceSnapshot>();
+const commandLog: { instanceId: string; commandName: string; input: Input }[] = [];
+// Phone number → flow associations are not part of the snapshot format, so they live beside it (keyed by instance)
+const phoneNumberFlows = new Map<string, FlowAssociationSummary[]>();
+// Likewise pending drafts ("id:$SAVED" content) of published flows, keyed by flow ARN
+const flowDrafts = new Map<string, string>();
+// And immutable flow versions, keyed by flow ARN
+const flowVersions = new Map<string, { Version: number; VersionDescription?: string | undefined; Content: string }[]>();
+// Described prompts (with their audio) and users, keyed by ARN
+const promptDetails = new Map<string, { prompt: Prompt; audio: Uint8Array }>();
+const userDetails = new Map<string, User>();
+// Objects written through the emulated S3 client (prompt audio staging), keyed by s3:// URI
+const stagedObjects = new Map<string, Uint8Array>();
+
+
+export function createEmptyInstance(instanceId: string, region: string): InstanceSnapshot {
+  return {
+    manifest: { formatVersion: SNAPSHOT_FORMAT_VERSION, exportedAt: new Date().toISOString(), instanceId, region, counts: {} },
+    flows: [],
+    modules: [],
+    queues: [],
+    routingProfiles: [],
+    quickConnects: [],
+    hierarchyGroups: [],
+    securityProfiles: [],
+    hoursOfOperations: [],
+    agentStatuses: [],
+    views: [],
+    hierarchyStructure: {},
+    prompts: [],
+    phoneNumbers: [],
+    users: []
+  };
+}
+
+
+/**
+ * Register an instance with the emulator. Fixtures use the snapshot format, either as a single
+ * JSON file (optionally with a `described` section, see EmulatorFixture) or as a directory written
+ * by `connect-copy export`; missing collections default to empty.
+ */
+export async function seedInstance(fixture: string | EmulatorFixture): Promise<InstanceSnapshot> {
+  let loaded: EmulatorFixture;
+
+  if (typeof fixture !== "string") {
+    loaded = structuredClone(fixture);
+  } else if ((await stat(fixture)).isDirectory()) {
+    loaded = await loadSnapshot(fixture);
+  } else {
+    loaded = JSON.parse(await readFile(fixture, "utf-8"));
+  }
+
+  const { described, ...snapshot } = loaded;
+
+  for (const { Audio, ...prompt } of described?.prompts ?? []) {
+    promptDetails.set(prompt.PromptARN!, { prompt, audio: new Uint8Array(Buffer.from(Audio, "base64")) });
+  }
+
+  for (const user of described?.users ?? []) {
+    userDetails.set(user.Arn!, user);
+  }
+
+  const state = { ...createEmptyInstance(snapshot.manifest.instanceId, snapshot.manifest.region), ...snapshot };
+  instances.set(state.manifest.instanceId, state);
+  return state;
+}
+
+
+export function getInstanceState(instanceId: string): InstanceSnapshot {
+  const state = instances.get(instanceId);
+  if (!state) throw new Error(`Emulator has no instance ${instanceId}`);
+  return state;
+}
+
+
+export function getCommandLog() {
+  return commandLog;
+}
+
+
+export function resetEmulator() {
+  instances.clear();
+  commandLog.length = 0;
+  phoneNumberFlows.clear();
+  flowDrafts.clear();
+  flowVersions.clear();
+  promptDetails.clear();
+  userDetails.clear();
+  stagedObjects.clear();
+}
+
+
+/**
+ * Associate a seeded phone number with a flow, as if done in the console. Both are referenced by ARN,
+ * which is how ListFlowAssociations reports them.
+ */
+export function seedPhoneNumberFlow(instanceId: string, phoneNumberArn: string, flowArn: string) {
+  const associations = (phoneNumberFlows.get(instanceId) ?? []).filter(a => a.ResourceId !== phoneNumberArn);
+  associations.push({ ResourceId: phoneNumberArn, FlowId: flowArn, ResourceType: "VOICE_PHONE_NUMBER" });
+  phoneNumberFlows.set(instanceId, associations);
+}
+
+
+/**
+ * Give a seeded published flow a pending draft, as if edited and saved (not published) in the flow designer.
+ */
+export function seedFlowDraft(flowArn: string, content: string) {
+  flowDrafts.set(flowArn, content);
+}
+
+
+function arnFor(state: InstanceSnapshot, segment: string, id: string) {
+  return `arn:aws:connect:${state.manifest.region}:${EMULATOR_ACCOUNT_ID}:instance/${state.manifest.instanceId}/${segment}/${id}`;
+}
+
+
+function notFound(label: string, id: unknown): never {
+  throw new ResourceNotFoundException({ message: `${label} not found: ${id}`, $metadata: {} });
+}
+
+
+function find<T extends { Summary: { Id?: string | undefined } }>(entries: T[], id: string | undefined, label: string): T {
+  const bareId = id?.split(":")[0];
+  return entries.find(e => e.Summary.Id === bareId) ?? notFound(label, id);
+}
+
+
+// Prompts and users are held as bare summaries, as they are exported
+function findSummary<T extends { Id?: string | undefined }>(entries: T[], id: string | undefined, label: string): T {
+  return entries.find(e => e.Id === id) ?? notFound(label, id);
+}
+
+
+// Prompts seeded without details (e.g. from an exported snapshot) describe as their summary, with no audio
+function describedPrompt(state: InstanceSnapshot, promptId: string | undefined): { prompt: Prompt; audio: Uint8Array } {
+  const summary = findSummary(state.prompts, promptId, "Prompt");
+  return promptDetails.get(summary.Arn!) ?? { prompt: { PromptId: summary.Id, PromptARN: summary.Arn, Name: summary.Name }, audio: new Uint8Array() };
+}
+
+
+function describedUser(state: InstanceSnapshot, userId: string | undefined): User {
+  const summary = findSummary(state.users, userId, "User");
+  return userDetails.get(summary.Arn!) ?? notFound("User details", userId);
+}
+
+
+function assertUniqueName(entries: { Summary: { Name?: string | undefined } }[], name: string | undefined, label: string) {
+  if (entries.some(e => e.Summary.Name === name)) {
+    throw new DuplicateResourceException({ message: `${label} with name ${name} already exists`, $metadata: {} });
+  }
+}
+
+
+function removeEntry<T extends { Summary: { Id?: string | undefined } }>(entries: T[], id: string | undefined, label: string) {
+  entries.splice(entries.indexOf(find(entries, id, label)), 1);
+}
+
+
+function newIds(state: InstanceSnapshot, segment: string) {
+  const id = randomUUID();
+  return { id, arn: arnFor(state, segment, id) };
+}
+
+
+/**
+ * Like Connect, reject flow and module content that references a flow or module of this instance
+ * that does not exist (so copy has to create resources in dependency order).
+ */
+function assertContentReferencesExist(state: InstanceSnapshot, content: string | undefined) {
+  const pattern = new RegExp(`arn:aws:connect:[a-z0-9-]+:\\d+:instance/${state.manifest.instanceId}/(contact-flow|flow-module)/([a-f0-9-]+)`, "g");
+
+  for (const [reference, segment, id] of (content ?? "").matchAll(pattern)) {
+    const entries: { Summary: { Id?: string | undefined } }[] = segment === "contact-flow" ? state.flows : state.modules;
+
+    if (!entries.some(e => e.Summary.Id === id)) {
+      throw new InvalidContactFlowException({ message: `Content references a resource that does not exist: ${reference}`, problems: [], $metadata: {} });
+    }
+  }
+}
+
+
+function hierarchyPathFor(state: InstanceSnapshot, parentGroupId: string | undefined, self: HierarchyGroupSummary): { levelId: string; path: HierarchyPath } {
+  const levels = ["LevelOne", "LevelTwo", "LevelThree", "LevelFour", "LevelFive"] as const;
+
+  if (!parentGroupId) return { levelId: "1", path: { LevelOne: self } };
+
+  const parent = find(state.hierarchyGroups, parentGroupId, "Hierarchy group").HierarchyGroup;
+  const levelIndex = Number(parent.LevelId);
+  const level = levels[levelIndex];
+  if (!level) throw new InvalidRequestException({ message: "Hierarchy is limited to five levels", $metadata: {} });
+
+  return { levelId: String(levelIndex + 1), path: { ...parent.HierarchyPath, [level]: self } };
+}
+
+
+function toQueueConfigSummary(state: InstanceSnapshot, config: RoutingProfileQueueConfig) {
+  const queue = find(state.queues, config.QueueReference?.QueueId, "Queue").Summary;
+
+  return {
+    QueueId: queue.Id!,
+    QueueArn: queue.Arn!,
+    QueueName: queue.Name!,
+    Priority: config.Priority,
+    Delay: config.Delay,
+    Channel: config.QueueReference!.Channel!
+  };
+}
+
+
+const TAGGABLE_COLLECTIONS = ["flows", "modules", "queues", "routingProfiles", "quickConnects", "hierarchyGroups", "securityProfiles", "hoursOfOperations", "agentStatuses", "views"] as const;
+
+
+function findTaggable(state: InstanceSnapshot, resourceArn: string | undefined): { Tags?: Record<string, string> | undefined } {
+  for (const collection of TAGGABLE_COLLECTIONS) {
+    for (const entry of state[collection] as { Summary: { Arn?: string | undefined } }[]) {
+      if (entry.Summary.Arn !== resourceArn) continue;
+
+      // Every entry holds its summary plus exactly one described resource (and, for some, association lists)
+      const detailKey = Object.keys(entry).find(k => k !== "Summary" && !Array.isArray((entry as Input)[k]))!;
+      return (entry as Input)[detailKey] as { Tags?: Record<string, string> | undefined };
+    }
+  }
+
+  const described = promptDetails.get(resourceArn ?? "")?.prompt ?? userDetails.get(resourceArn ?? "");
+  return described ?? notFound("Resource", resourceArn);
+}
+
+
+// Handlers are looked up by command name, so each only ever receives its own command's input
+function handle<I extends object>(handler: (state: InstanceSnapshot, input: I) => Record<string, unknown>): WriteHandler {
+  return (state, input) => handler(state, input as I);
+}
+
+
+const WRITE_HANDLERS: Record<string, WriteHandler> = {
+  CreateContactFlowCommand: handle<CreateContactFlowCommandInput>((state, input) => {
+    assertUniqueName(state.flows, input.Name, "Flow");
+    assertContentReferencesExist(state, input.Content);
+    const { id, arn } = newIds(state, "contact-flow");
+    const status = input.Status ?? "PUBLISHED";
+
+    state.flows.push({
+      Summary: { Id: id, Arn: arn, Name: input.Name, ContactFlowType: input.Type, ContactFlowState: "ACTIVE", ContactFlowStatus: status },
+      ContactFlow: { Id: id, Arn: arn, Name: input.Name, Type: input.Type, State: "ACTIVE", Status: status, Description: input.Description, Content: input.Content, Tags: input.Tags ?? {} }
+    });
+
+    return { ContactFlowId: id, ContactFlowArn: arn };
+  }),
+
+  // A read, but answered here because snapshots hold no drafts or versions
+  DescribeContactFlowCommand: handle<DescribeContactFlowCommandInput>((state, input) => {
+    const entry = find(state.flows, input.ContactFlowId, "Flow");
+    const qualifier = String(input.ContactFlowId).split(":")[1];
+
+    if (qualifier !== undefined && /^\d+$/.test(qualifier)) {
+      const version = flowVersions.get(entry.Summary.Arn!)?.find(v => v.Version === Number(qualifier)) ?? notFound("Flow version", input.ContactFlowId);
+      return { ContactFlow: { ...entry.ContactFlow, Content: version.Content, Version: version.Version, VersionDescription: version.VersionDescription } };
+    }
+
+    const draft = qualifier === "$SAVED" ? flowDrafts.get(entry.Summary.Arn!) : undefined;
+    return { ContactFlow: draft === undefined ? entry.ContactFlow : { ...entry.ContactFlow, Content: draft, Status: "SAVED" } };
+  }),
+
+  CreateContactFlowVersionCommand: handle<CreateContactFlowVersionCommandInput>((state, input) => {
+    const entry = find(state.flows, input.ContactFlowId, "Flow");
+    const versions = flowVersions.get(entry.Summary.Arn!) ?? [];
+    const version = versions.length + 1;
+
+    versions.push({ Version: version, VersionDescription: input.Description, Content: entry.ContactFlow.Content! });
+    flowVersions.set(entry.Summary.Arn!, versions);
+
+    return { ContactFlowArn: `${entry.Summary.Arn}:${version}`, Version: version };
+  }),
+
+  ListContactFlowVersionsCommand: handle<ListContactFlowVersionsCommandInput>((state, input) => {
+    const entry = find(state.flows, input.ContactFlowId, "Flow");
+
+    return {
+      ContactFlowVersionSummaryList: (flowVersions.get(entry.Summary.Arn!) ?? []).map(v => ({ Arn: `${entry.Summary.Arn}:${v.Version}`, Version: v.Version, VersionDescription: v.VersionDescription }))
+    };
+  }),
+
+  UpdateContactFlowContentCommand: handle<UpdateContactFlowContentCommandInput>((state, input) => {
+    const entry = find(state.flows, input.ContactFlowId, "Flow");
+    assertContentReferencesExist(state, input.Content);
+
+    // Updating the unqualified id publishes (discarding any draft); ":$SAVED" saves without publishing,
+    // which for a published flow leaves a draft beside the published content
+    if (!String(input.ContactFlowId).endsWith(":$SAVED")) {
+      entry.ContactFlow.Content = input.Content;
+      entry.ContactFlow.Status = "PUBLISHED";
+      entry.Summary.ContactFlowStatus = "PUBLISHED";
+      flowDrafts.delete(entry.Summary.Arn!);
+    } else if (entry.ContactFlow.Status === "PUBLISHED") {
+      flowDrafts.set(entry.Summary.Arn!, input.Content!);
+    } else {
+      entry.ContactFlow.Content = input.Content;
+    }
+
+    return {};
+  }),
+
+  UpdateContactFlowMetadataCommand: handle<UpdateContactFlowMetadataCommandInput>((state, input) => {
+    const entry = find(state.flows, input.ContactFlowId, "Flow");
+    if (input.Name !== undefined) {
+      entry.ContactFlow.Name = input.Name;
+      entry.Summary.Name = input.Name;
+    }
+    if (input.Description !== undefined) entry.ContactFlow.Description = input.Description;
+    if (input.ContactFlowState !== undefined) {
+      entry.ContactFlow.State = input.ContactFlowState;
+      entry.Summary.ContactFlowState = input.ContactFlowState;
+    }
+    return {};
+  }),
+
+  DeleteContactFlowCommand: handle<DeleteContactFlowCommandInput>((state, input) => {
+    removeEntry(state.flows, input.ContactFlowId, "Flow");
+    return {};
+  }),
+
+  CreateContactFlowModuleCommand: handle<CreateContactFlowModuleCommandInput>((state, input) => {
+    assertUniqueName(state.modules, input.Name, "Module");
+    assertContentReferencesExist(state, input.Content);
+    const { id, arn } = newIds(state, "flow-module");
+
+    state.modules.push({
+      Summary: { Id: id, Arn: arn, Name: input.Name, State: "ACTIVE" },
+      ContactFlowModule: { Id: id, Arn: arn, Name: input.Name, State: "ACTIVE", Status: "PUBLISHED", Description: input.Description, Content: input.Content, Tags: input.Tags ?? {} }
+    });
+
+    return { Id: id, Arn: arn };
+  }),
+
+  UpdateContactFlowModuleContentCommand: handle<UpdateContactFlowModuleContentCommandInput>((state, input) => {
+    const entry = find(state.modules, input.ContactFlowModuleId, "Module");
+    assertContentReferencesExist(state, input.Content);
+    entry.ContactFlowModule.Content = input.Content;
+    return {};
+  }),
+
+  UpdateContactFlowModuleMetadataCommand: handle<UpdateContactFlowModuleMetadataCommandInput>((state, input) => {
+    const entry = find(state.modules, input.ContactFlowModuleId, "Module");
+    if (input.Name !== undefined) {
+      entry.ContactFlowModule.Name = input.Name;
+      entry.Summary.Name = input.Name;
+    }
+    if (input.Description !== undefined) entry.ContactFlowModule.Description = input.Description;
+    return {};
+  }),
+
+  DeleteContactFlowModuleCommand: handle<DeleteContactFlowModuleCommandInput>((state, input) => {
+    removeEntry(state.modules, input.ContactFlowModuleId, "Module");
+    return {};
+  }),
+
+  TagResourceCommand: handle<TagResourceCommandInput>((state, input) => {
+    const resource = findTaggable(state, input.resourceArn);
+    resource.Tags = { ...resource.Tags, ...input.tags };
+    return {};
+  }),
+
+  UntagResourceCommand: handle<UntagResourceCommandInput>((state, input) => {
+    const resource = findTaggable(state, input.resourceArn);
+    resource.Tags = Object.fromEntries(Object.entries(resource.Tags ?? {}).filter(([key]) => !input.tagKeys?.includes(key)));
+    return {};
+  }),
+
+  CreateHoursOfOperationCommand: handle<CreateHoursOfOperationCommandInput>((state, input) => {
+    assertUniqueName(state.hoursOfOperations, input.Name, "Hours of operation");
+    const { id, arn } = newIds(state, "operating-hours");
+    const { InstanceId: _instanceId, ...config } = input;
+
+    state.hoursOfOperations.push({
+      Summary: { Id: id, Arn: arn, Name: input.Name },
+      HoursOfOperation: { ...config, HoursOfOperationId: id, HoursOfOperationArn: arn, Tags: input.Tags ?? {} }
+    });
+
+    return { HoursOfOperationId: id, HoursOfOperationArn: arn };
+  }),
+
+  UpdateHoursOfOperationCommand: handle<UpdateHoursOfOperationCommandInput>((state, input) => {
+    const entry = find(state.hoursOfOperations, input.HoursOfOperationId, "Hours of operation");
+    const { InstanceId: _instanceId, HoursOfOperationId: _id, ...changes } = input;
+
+    Object.assign(entry.HoursOfOperation, changes);
+    if (changes["Name"]) entry.Summary.Name = changes["Name"];
+    return {};
+  }),
+
+  DeleteHoursOfOperationCommand: handle<DeleteHoursOfOperationCommandInput>((state, input) => {
+    // Like Connect, hours still used by a queue cannot be deleted
+    if (state.queues.some(q => q.Queue?.HoursOfOperationId === input.HoursOfOperationId)) {
+      throw new ResourceInUseException({ message: `Hours of operation in use: ${input.HoursOfOperationId}`, $metadata: {} });
+    }
+
+    removeEntry(state.hoursOfOperations, input.HoursOfOperationId, "Hours of operation");
+    return {};
+  }),
+
+  CreateAgentStatusCommand: handle<CreateAgentStatusCommandInput>((state, input) => {
+    assertUniqueName(state.agentStatuses, input.Name, "Agent status");
+    const { id, arn } = newIds(state, "agent-state");
+    const { InstanceId: _instanceId, ...config } = input;
+
+    state.agentStatuses.push({
+      Summary: { Id: id, Arn: arn, Name: input.Name, Type: "CUSTOM" },
+      AgentStatus: { ...config, AgentStatusId: id, AgentStatusARN: arn, Type: "CUSTOM", Tags: input.Tags ?? {} }
+    });
+
+    return { AgentStatusId: id, AgentStatusARN: arn };
+  }),
+
+  UpdateAgentStatusCommand: handle<UpdateAgentStatusCommandInput>((state, input) => {
+    const entry = find(state.agentStatuses, input.AgentStatusId, "Agent status");
+    const { InstanceId: _instanceId, AgentStatusId: _id, ...changes } = input;
+
+    Object.assign(entry.AgentStatus, changes);
+    if (changes["Name"]) entry.Summary.Name = changes["Name"];
+    return {};
+  }),
+
+  CreateUserHierarchyGroupCommand: handle<CreateUserHierarchyGroupCommandInput>((state, input) => {
+    assertUniqueName(state.hierarchyGroups, input.Name, "Hierarchy group");
+    const { id, arn } = newIds(state, "agent-group");
+    const summary = { Id: id, Arn: arn, Name: input.Name };
+    const { levelId, path } = hierarchyPathFor(state, input.ParentGroupId, summary);
+
+    state.hierarchyGroups.push({
+      Summary: summary,
+      HierarchyGroup: { Id: id, Arn: arn, Name: input.Name, LevelId: levelId, HierarchyPath: path, Tags: input.Tags ?? {} }
+    });
+
+    return { HierarchyGroupId: id, HierarchyGroupArn: arn };
+  }),
+
+  UpdateUserHierarchyGroupNameCommand: handle<UpdateUserHierarchyGroupNameCommandInput>((state, input) => {
+    const entry = find(state.hierarchyGroups, input.HierarchyGroupId, "Hierarchy group");
+    entry.Summary.Name = input.Name;
+    entry.HierarchyGroup.Name = input.Name;
+
+    // Every group below this one names it in its path
+    for (const group of state.hierarchyGroups) {
+      for (const level of Object.values(group.HierarchyGroup.HierarchyPath ?? {})) {
+        if (level?.Id === entry.Summary.Id) level.Name = input.Name;
+      }
+    }
+
+    return {};
+  }),
+
+  DeleteUserHierarchyGroupCommand: handle<DeleteUserHierarchyGroupCommandInput>((state, input) => {
+    const entry = find(state.hierarchyGroups, input.HierarchyGroupId, "Hierarchy group");
+    state.hierarchyGroups = state.hierarchyGroups.filter(e => e !== entry);
+    return {};
+  }),
+
+  UpdateUserHierarchyStructureCommand: handle<UpdateUserHierarchyStructureCommandInput>((state, input) => {
+    const structure: HierarchyStructure = {};
+
+    for (const [level, value] of Object.entries(input.HierarchyStructure ?? {}) as [keyof HierarchyStructure, HierarchyLevelUpdate | undefined][]) {
+      if (!value) continue;
+
+      const id = state.hierarchyStructure[level]?.Id ?? randomUUID();
+      structure[level] = { Id: id, Arn: arnFor(state, "agent-group-level", id), Name: value.Name };
+    }
+
+    state.hierarchyStructure = structure;
+    return {};
+  }),
+
+  CreateSecurityProfileCommand: handle<CreateSecurityProfileCommandInput>((state, input) => {
+    assertUniqueName(state.securityProfiles, input.SecurityProfileName, "Security profile");
+    const { id, arn } = newIds(state, "security-profile");
+    const { InstanceId: _instanceId, Permissions: permissions, ...config } = input;
+
+    state.securityProfiles.push({
+      Summary: { Id: id, Arn: arn, Name: input.SecurityProfileName },
+      SecurityProfile: { ...config, Id: id, Arn: arn, Tags: input.Tags ?? {} },
+      Permissions: permissions ?? []
+    });
+
+    return { SecurityProfileId: id, SecurityProfileArn: arn };
+  }),
+
+  UpdateSecurityProfileCommand: handle<UpdateSecurityProfileCommandInput>((state, input) => {
+    const entry = find(state.securityProfiles, input.SecurityProfileId, "Security profile");
+    const { InstanceId: _instanceId, SecurityProfileId: _id, Permissions: permissions, ...changes } = input;
+
+    Object.assign(entry.SecurityProfile, Object.fromEntries(Object.entries(changes).filter(([, v]) => v !== undefined)));
+    if (permissions) entry.Permissions = permissions;
+    return {};
+  }),
+
+  DeleteSecurityProfileCommand: handle<DeleteSecurityProfileCommandInput>((state, input) => {
+    removeEntry(state.securityProfiles, input.SecurityProfileId, "Security profile");
+    return {};
+  }),
+
+  CreateQueueCommand: handle<CreateQueueCommandInput>((state, input) => {
+    assertUniqueName(state.queues, input.Name, "Queue");
+    const { id, arn } = newIds(state, "queue");
+
+    state.queues.push({
+      Summary: { Id: id, Arn: arn, Name: input.Name, QueueType: "STANDARD" },
+      Queue: {
+        QueueId: id,
+        QueueArn: arn,
+        Name: input.Name,
+        Description: input.Description,
+        HoursOfOperationId: input.HoursOfOperationId,
+        MaxContacts: input.MaxContacts,
+        OutboundCallerConfig: input.OutboundCallerConfig,
+        Status: "ENABLED",
+        Tags: input.Tags ?? {}
+      },
+      QuickConnects: []
+    });
+
+    return { QueueId: id, QueueArn: arn };
+  }),
+
+  UpdateQueueNameCommand: handle<UpdateQueueNameCommandInput>((state, input) => {
+    const entry = find(state.queues, input.QueueId, "Queue");
+    entry.Queue!.Name = input.Name;
+    entry.Queue!.Description = input.Description;
+    entry.Summary.Name = input.Name;
+    return {};
+  }),
+
+  UpdateQueueHoursOfOperationCommand: handle<UpdateQueueHoursOfOperationCommandInput>((state, input) => {
+    find(state.queues, input.QueueId, "Queue").Queue!.HoursOfOperationId = input.HoursOfOperationId;
+    return {};
+  }),
+
+  UpdateQueueMaxContactsCommand: handle<UpdateQueueMaxContactsCommandInput>((state, input) => {
+    find(state.queues, input.QueueId, "Queue").Queue!.MaxContacts = input.MaxContacts;
+    return {};
+  }),
+
+  UpdateQueueOutboundCallerConfigCommand: handle<UpdateQueueOutboundCallerConfigCommandInput>((state, input) => {
+    find(state.queues, input.QueueId, "Queue").Queue!.OutboundCallerConfig = input.OutboundCallerConfig;
+    return {};
+  }),
+
+  UpdateQueueStatusCommand: handle<UpdateQueueStatusCommandInput>((state, input) => {
+    find(state.queues, input.QueueId, "Queue").Queue!.Status = input.Status;
+    return {};
+  }),
+
+  AssociateQueueQuickConnectsCommand: handle<AssociateQueueQuickConnectsCommandInput>((state, input) => {
+    const entry = find(state.queues, input.QueueId, "Queue");
+
+    for (const quickConnectId of input.QuickConnectIds ?? []) {
+      if (entry.QuickConnects.some(q => q.Id === quickConnectId)) continue;
+      entry.QuickConnects.push(find(state.quickConnects, quickConnectId, "Quick connect").Summary);
+    }
+
+    return {};
+  }),
+
+  DisassociateQueueQuickConnectsCommand: handle<DisassociateQueueQuickConnectsCommandInput>((state, input) => {
+    const entry = find(state.queues, input.QueueId, "Queue");
+    entry.QuickConnects = entry.QuickConnects.filter(q => !input.QuickConnectIds?.includes(q.Id!));
+    return {};
+  }),
+
+  // A read, but answered here because snapshots hold no flow associations
+  ListFlowAssociationsCommand: handle<ListFlowAssociationsCommandInput>((state, input) => ({
+    FlowAssociationSummaryList: (phoneNumberFlows.get(state.manifest.instanceId) ?? []).filter(a => !input.ResourceType || a.ResourceType === input.ResourceType)
+  })),
+
+  AssociatePhoneNumberContactFlowCommand: handle<AssociatePhoneNumberContactFlowCommandInput>((state, input) => {
+    const phone = state.phoneNumbers.find(p => p.PhoneNumberId === input.PhoneNumberId) ?? notFound("Phone number", input.PhoneNumberId);
+    const flow = find(state.flows, input.ContactFlowId, "Flow");
+
+    seedPhoneNumberFlow(state.manifest.instanceId, phone.PhoneNumberArn!, flow.Summary.Arn!);
+    return {};
+  }),
+
+  CreateRoutingProfileCommand: handle<CreateRoutingProfileCommandInput>((state, input) => {
+    assertUniqueName(state.routingProfiles, input.Name, "Routing profile");
+    const { id, arn } = newIds(state, "routing-profile");
+    const queues = (input.QueueConfigs ?? []).map(config => toQueueConfigSummary(state, config));
+
+    state.routingProfiles.push({
+      Summary: { Id: id, Arn: arn, Name: input.Name },
+      RoutingProfile: {
+        RoutingProfileId: id,
+        RoutingProfileArn: arn,
+        Name: input.Name,
+        Description: input.Description,
+        DefaultOutboundQueueId: input.DefaultOutboundQueueId,
+        MediaConcurrencies: input.MediaConcurrencies,
+        AgentAvailabilityTimer: input.AgentAvailabilityTimer,
+        NumberOfAssociatedQueues: queues.length,
+        Tags: input.Tags ?? {}
+      },
+      Queues: queues
+    });
+
+    return { RoutingProfileId: id, RoutingProfileArn: arn };
+  }),
+
+  UpdateRoutingProfileNameCommand: handle<UpdateRoutingProfileNameCommandInput>((state, input) => {
+    const entry = find(state.routingProfiles, input.RoutingProfileId, "Routing profile");
+    entry.RoutingProfile.Name = input.Name;
+    entry.RoutingProfile.Description = input.Description;
+    entry.Summary.Name = input.Name;
+    return {};
+  }),
+
+  UpdateRoutingProfileConcurrencyCommand: handle<UpdateRoutingProfileConcurrencyCommandInput>((state, input) => {
+    find(state.routingProfiles, input.RoutingProfileId, "Routing profile").RoutingProfile.MediaConcurrencies = input.MediaConcurrencies;
+    return {};
+  }),
+
+  UpdateRoutingProfileDefaultOutboundQueueCommand: handle<UpdateRoutingProfileDefaultOutboundQueueCommandInput>((state, input) => {
+    find(state.routingProfiles, input.RoutingProfileId, "Routing profile").RoutingProfile.DefaultOutboundQueueId = input.DefaultOutboundQueueId;
+    return {};
+  }),
+
+  UpdateRoutingProfileAgentAvailabilityTimerCommand: handle<UpdateRoutingProfileAgentAvailabilityTimerCommandInput>((state, input) => {
+    find(state.routingProfiles, input.RoutingProfileId, "Routing profile").RoutingProfile.AgentAvailabilityTimer = input.AgentAvailabilityTimer;
+    return {};
+  }),
+
+  AssociateRoutingProfileQueuesCommand: handle<AssociateRoutingProfileQueuesCommandInput>((state, input) => {
+    const entry = find(state.routingProfiles, input.RoutingProfileId, "Routing profile");
+    entry.Queues.push(...(input.QueueConfigs ?? []).map(config => toQueueConfigSummary(state, config)));
+    entry.RoutingProfile.NumberOfAssociatedQueues = entry.Queues.length;
+    return {};
+  }),
+
+  DisassociateRoutingProfileQueuesCommand: handle<DisassociateRoutingProfileQueuesCommandInput>((state, input) => {
+    const entry = find(state.routingProfiles, input.RoutingProfileId, "Routing profile");
+    const references = input.QueueReferences ?? [];
+
+    entry.Queues = entry.Queues.filter(q => !references.some(r => r.QueueId === q.QueueId && r.Channel === q.Channel));
+    entry.RoutingProfile.NumberOfAssociatedQueues = entry.Queues.length;
+    return {};
+  }),
+
+  UpdateRoutingProfileQueuesCommand: handle<UpdateRoutingProfileQueuesCommandInput>((state, input) => {
+    const entry = find(state.routingProfiles, input.RoutingProfileId, "Routing profile");
+
+    for (const config of input.QueueConfigs ?? []) {
+      const existing = entry.Queues.find(q => q.QueueId === config.QueueReference?.QueueId && q.Channel === config.QueueReference?.Channel);
+      if (!existing) notFound("Routing profile queue", config.QueueReference?.QueueId);
+
+      existing.Priority = config.Priority;
+      existing.Delay = config.Delay;
+    }
+
+    return {};
+  }),
+
+  DeleteRoutingProfileCommand: handle<DeleteRoutingProfileCommandInput>((state, input) => {
+    removeEntry(state.routingProfiles, input.RoutingProfileId, "Routing profile");
+    return {};
+  }),
+
+  CreateQuickConnectCommand: handle<CreateQuickConnectCommandInput>((state, input) => {
+    assertUniqueName(state.quickConnects, input.Name, "Quick connect");
+    const { id, arn } = newIds(state, "transfer-destination");
+    const type = input.QuickConnectConfig?.QuickConnectType;
+
+    state.quickConnects.push({
+      Summary: { Id: id, Arn: arn, Name: input.Name, QuickConnectType: type },
+      QuickConnect: { QuickConnectId: id, QuickConnectARN: arn, Name: input.Name, Description: input.Description, QuickConnectConfig: input.QuickConnectConfig, Tags: input.Tags ?? {} }
+    });
+
+    return { QuickConnectId: id, QuickConnectARN: arn };
+  }),
+
+  UpdateQuickConnectNameCommand: handle<UpdateQuickConnectNameCommandInput>((state, input) => {
+    const entry = find(state.quickConnects, input.QuickConnectId, "Quick connect");
+    if (input.Name !== undefined) {
+      entry.QuickConnect.Name = input.Name;
+      entry.Summary.Name = input.Name;
+    }
+    if (input.Description !== undefined) entry.QuickConnect.Description = input.Description;
+    return {};
+  }),
+
+  UpdateQuickConnectConfigCommand: handle<UpdateQuickConnectConfigCommandInput>((state, input) => {
+    find(state.quickConnects, input.QuickConnectId, "Quick connect").QuickConnect.QuickConnectConfig = input.QuickConnectConfig;
+    return {};
+  }),
+
+  DeleteQuickConnectCommand: handle<DeleteQuickConnectCommandInput>((state, input) => {
+    removeEntry(state.quickConnects, input.QuickConnectId, "Quick connect");
+    return {};
+  }),
+
+  CreateViewCommand: handle<CreateViewCommandInput>((state, input) => {
+    assertUniqueName(state.views, input.Name, "View");
+    const { id, arn } = newIds(state, "view");
+    const view = { Id: id, Arn: arn, Name: input.Name, Description: input.Description, Status: input.Status, Type: "CUSTOMER_MANAGED" as const, Content: input.Content, Tags: input.Tags ?? {} };
+
+    state.views.push({
+      Summary: { Id: id, Arn: arn, Name: input.Name, Type: "CUSTOMER_MANAGED", Status: input.Status },
+      View: view
+    });
+
+    return { View: view };
+  }),
+
+  UpdateViewContentCommand: handle<UpdateViewContentCommandInput>((state, input) => {
+    const entry = find(state.views, input.ViewId, "View");
+    entry.View.Content = input.Content;
+    entry.View.Status = input.Status;
+    entry.Summary.Status = input.Status;
+    return { View: entry.View };
+  }),
+
+  UpdateViewMetadataCommand: handle<UpdateViewMetadataCommandInput>((state, input) => {
+    const entry = find(state.views, input.ViewId, "View");
+    if (input.Name !== undefined) {
+      entry.View.Name = input.Name;
+      entry.Summary.Name = input.Name;
+    }
+    if (input.Description !== undefined) entry.View.Description = input.Description;
+    return {};
+  }),
+
+  DeleteViewCommand: handle<DeleteViewCommandInput>((state, input) => {
+    removeEntry(state.views, input.ViewId, "View");
+    return {};
+  }),
+
+  // Reads, but answered here because snapshots hold prompt and user summaries only
+  DescribePromptCommand: handle<DescribePromptCommandInput>((state, input) => ({ Prompt: describedPrompt(state, input.PromptId).prompt })),
+
+  // A data: URL stands in for the presigned S3 URL, so the audio downloads without a network
+  GetPromptFileCommand: handle<GetPromptFileCommandInput>((state, input) => ({
+    PromptPresignedUrl: `data:audio/wav;base64,${Buffer.from(describedPrompt(state, input.PromptId).audio).toString("base64")}`
+  })),
+
+  DescribeUserCommand: handle<DescribeUserCommandInput>((state, input) => ({ User: describedUser(state, input.UserId) })),
+
+  DescribeInstanceCommand: handle(state => ({
+    Instance: {
+      Id: state.manifest.instanceId,
+      Arn: `arn:aws:connect:${state.manifest.region}:${EMULATOR_ACCOUNT_ID}:instance/${state.manifest.instanceId}`,
+      IdentityManagementType: "CONNECT_MANAGED",
+      InstanceStatus: "ACTIVE"
+    }
+  })),
+
+  CreatePromptCommand: handle<CreatePromptCommandInput>((state, input) => {
+    if (state.prompts.some(p => p.Name === input.Name)) {
+      throw new DuplicateResourceException({ message: `Prompt with name ${input.Name} already exists`, $metadata: {} });
+    }
+
+    const audio = stagedAudio(input.S3Uri);
+    const { id, arn } = newIds(state, "prompt");
+
+    state.prompts.push({ Id: id, Arn: arn, Name: input.Name });
+    promptDetails.set(arn, { prompt: { PromptId: id, PromptARN: arn, Name: input.Name, Description: input.Description, Tags: input.Tags }, audio });
+    return { PromptId: id, PromptARN: arn };
+  }),
+
+  UpdatePromptCommand: handle<UpdatePromptCommandInput>((state, input) => {
+    const summary = findSummary(state.prompts, input.PromptId, "Prompt");
+    const described = describedPrompt(state, input.PromptId);
+
+    if (input.Name !== undefined) {
+      summary.Name = input.Name;
+      described.prompt.Name = input.Name;
+    }
+    if (input.Description !== undefined) described.prompt.Description = input.Description;
+    if (input.S3Uri !== undefined) described.audio = stagedAudio(input.S3Uri);
+
+    promptDetails.set(summary.Arn!, described);
+    return { PromptId: summary.Id, PromptARN: summary.Arn };
+  }),
+
+  DeletePromptCommand: handle<DeletePromptCommandInput>((state, input) => {
+    const summary = findSummary(state.prompts, input.PromptId, "Prompt");
+
+    state.prompts.splice(state.prompts.indexOf(summary), 1);
+    promptDetails.delete(summary.Arn!);
+    return {};
+  }),
+
+  CreateUserCommand: handle<CreateUserCommandInput>((state, input) => {
+    if (state.users.some(u => u.Username === input.Username)) {
+      throw new DuplicateResourceException({ message: `User with username ${input.Username} already exists`, $metadata: {} });
+    }
+
+    // Like Connect, every referenced profile and group must exist in this instance
+    find(state.routingProfiles, input.RoutingProfileId, "Routing profile");
+    for (const securityProfileId of input.SecurityProfileIds ?? []) find(state.securityProfiles, securityProfileId, "Security profile");
+    if (input.HierarchyGroupId) find(state.hierarchyGroups, input.HierarchyGroupId, "Hierarchy group");
+
+    const { id, arn } = newIds(state, "agent");
+
+    state.users.push({ Id: id, Arn: arn, Username: input.Username });
+    userDetails.set(arn, {
+      Id: id,
+      Arn: arn,
+      Username: input.Username,
+      IdentityInfo: input.IdentityInfo,
+      PhoneConfig: input.PhoneConfig,
+      RoutingProfileId: input.RoutingProfileId,
+      SecurityProfileIds: input.SecurityProfileIds,
+      HierarchyGroupId: input.HierarchyGroupId,
+      Tags: input.Tags
+    });
+    return { UserId: id, UserArn: arn };
+  }),
+
+  UpdateUserIdentityInfoCommand: handle<UpdateUserIdentityInfoCommandInput>((state, input) => {
+    describedUser(state, input.UserId).IdentityInfo = input.IdentityInfo;
+    return {};
+  }),
+
+  UpdateUserPhoneConfigCommand: handle<UpdateUserPhoneConfigCommandInput>((state, input) => {
+    describedUser(state, input.UserId).PhoneConfig = input.PhoneConfig;
+    return {};
+  }),
+
+  UpdateUserRoutingProfileCommand: handle<UpdateUserRoutingProfileCommandInput>((state, input) => {
+    find(state.routingProfiles, input.RoutingProfileId, "Routing profile");
+    describedUser(state, input.UserId).RoutingProfileId = input.RoutingProfileId;
+    return {};
+  }),
+
+  UpdateUserSecurityProfilesCommand: handle<UpdateUserSecurityProfilesCommandInput>((state, input) => {
+    for (const securityProfileId of input.SecurityProfileIds ?? []) find(state.securityProfiles, securityProfileId, "Security profile");
+    describedUser(state, input.UserId).SecurityProfileIds = input.SecurityProfileIds;
+    return {};
+  }),
+
+  // Omitting HierarchyGroupId removes the user from their group
+  UpdateUserHierarchyCommand: handle<UpdateUserHierarchyCommandInput>((state, input) => {
+    if (input.HierarchyGroupId) find(state.hierarchyGroups, input.HierarchyGroupId, "Hierarchy group");
+    describedUser(state, input.UserId).HierarchyGroupId = input.HierarchyGroupId;
+    return {};
+  })
+};
+
+
+function stagedAudio(s3Uri: string | undefined): Uint8Array {
+  const audio = stagedObjects.get(s3Uri ?? "");
+  if (!audio) throw new InvalidRequestException({ message: `No staged object at ${s3Uri}`, $metadata: {} });
+  return audio;
+}
+
+
+function instanceIdFromInput(input: Input): string | undefined {
+  const instanceId = input["InstanceId"];
+  if (typeof instanceId === "string" && instanceId) return instanceId;
+
+  // Tag commands identify the instance only through the resource ARN
+  const resourceArn = input["resourceArn"];
+  return typeof resourceArn === "string" ? /:instance\/([^/]+)/.exec(resourceArn)?.[1] : undefined;
+}
+
+
+/**
+ * Build a ConnectClient whose every command is answered by the emulator. The instance is taken
+ * from the command input, so one client serves every seeded instance in the region.
+ */
+export function createEmulatorClient(region: string): ConnectClient {
+  const client = new ConnectClient({
+    region,
+    credentials: { accessKeyId: "emulator", secretAccessKey: "emulator" }
+  });
+
+  client.middlewareStack.add(
+    (_next, context) => async (args) => {
+      const commandName = context.commandName ?? "UnknownCommand";
+      const input = structuredClone(args.input) as Input;
+      const instanceId = instanceIdFromInput(input);
+
+      if (!instanceId) throw new InvalidRequestException({ message: `${commandName}: no InstanceId`, $metadata: {} });
+
+      const state = instances.get(instanceId) ?? notFound("Instance", instanceId);
+      commandLog.push({ instanceId, commandName, input });
+
+      const writeHandler = WRITE_HANDLERS[commandName];
+      const output = writeHandler ? writeHandler(state, input) : answerFromSnapshot(state, commandName, input);
+
+      if (!output) {
+        throw new Error(`Connect emulator does not implement ${commandName}`);
+      }
+
+      // Callers must never hold references into emulator state
+      return { output: { $metadata: {}, ...structuredClone(output) }, response: {} } as InitializeHandlerOutput<ServiceOutputTypes>;
+    },
+    { step: "initialize", name: "connectEmulator" }
+  );
+
+  return client;
+}
+
+
+/**
+ * Build an S3Client that keeps PutObject bodies in memory, for CreatePrompt and UpdatePrompt to
+ * read the staged audio back. Any other S3 command fails.
+ */
+export function createEmulatorS3Client(region: string): S3Client {
+  const client = new S3Client({
+    region,
+    credentials: { accessKeyId: "emulator", secretAccessKey: "emulator" }
+  });
+
+  client.middlewareStack.add(
+    (_next, context) => async (args) => {
+      const commandName = context.commandName ?? "UnknownCommand";
+      const input = args.input as Input;
+
+      if (commandName !== "PutObjectCommand" || !(input["Body"] instanceof Uint8Array)) {
+        throw new Error(`Connect emulator does not implement S3 ${commandName}`);
+      }
+
+      stagedObjects.set(`s3://${input["Bucket"]}/${input["Key"]}`, new Uint8Array(input["Body"]));
+      return { output: { $metadata: {} }, response: {} } as InitializeHandlerOutput<S3ServiceOutputTypes>;
+    },
+    { step: "initialize", name: "s3Emulator" }
+  );
+
+  return client;
+}
+
+
+/**
+ * Make every client the CLI creates (createConnectClient and createS3Client, and therefore every
+ * copy/report command) talk to the emulator. The AWS profile name is ignored.
+ */
+export function installEmulator() {
+  setConnectClientFactory(region => createEmulatorClient(region));
+  setS3ClientFactory(region => createEmulatorS3Client(region));
+}
+
+
+export function uninstallEmulator() {
+  setConnectClientFactory(undefined);
+  setS3ClientFactory(undefined);
+}
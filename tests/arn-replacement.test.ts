@@ -0,0 +1,105 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+
+import { rewriteArnsInContent } from "../src/arn-replacement.js";
+
+
+const SOURCE_INSTANCE = "arn:aws:connect:us-east-1:111111111111:instance/aaaaaaaa-0000-4000-8000-000000000001";
+const TARGET_INSTANCE = "arn:aws:connect:us-east-1:222222222222:instance/bbbbbbbb-0000-4000-8000-000000000002";
+
+const SOURCE_QUEUE_ID = "10000000-0000-4000-8000-000000000005";
+const TARGET_QUEUE_ID = "20000000-0000-4000-8000-000000000005";
+const SOURCE_QUEUE = `${SOURCE_INSTANCE}/queue/${SOURCE_QUEUE_ID}`;
+const TARGET_QUEUE = `${TARGET_INSTANCE}/queue/${TARGET_QUEUE_ID}`;
+
+const SOURCE_FLOW = `${SOURCE_INSTANCE}/contact-flow/10000000-0000-4000-8000-000000000008`;
+const TARGET_FLOW = `${TARGET_INSTANCE}/contact-flow/20000000-0000-4000-8000-000000000008`;
+
+const SOURCE_VIEW = "arn:aws:connect:us-east-1:111111111111:instance/aaaaaaaa-0000-4000-8000-000000000001:view/10000000-0000-4000-8000-00000000000f";
+const TARGET_VIEW = "arn:aws:connect:us-east-1:222222222222:instance/bbbbbbbb-0000-4000-8000-000000000002:view/20000000-0000-4000-8000-00000000000f";
+
+const SOURCE_LAMBDA = "arn:aws:lambda:us-east-1:111111111111:function:lookup";
+const TARGET_LAMBDA = "arn:aws:lambda:us-east-1:222222222222:function:lookup";
+
+
+function flowContent(...actions: [type: string, parameters: Record<string, unknown>][]): string {
+  return JSON.stringify({
+    Version: "2019-10-30",
+    StartAction: "action-0",
+    Actions: actions.map(([Type, Parameters], index) => ({ Identifier: `action-${index}`, Type, Parameters, Transitions: {} }))
+  });
+}
+
+
+function parametersOf(content: string): Record<string, unknown>[] {
+  return (JSON.parse(content) as { Actions: { Parameters: Record<string, unknown> }[] }).Actions.map(a => a.Parameters);
+}
+
+
+describe("rewriteArnsInContent", () => {
+  it("rewrites an ARN that is a prefix of another only where it is the whole value", () => {
+    const content = flowContent(
+      ["ShowView", { ViewResource: { Id: SOURCE_VIEW } }],
+      ["ShowView", { ViewResource: { Id: `${SOURCE_VIEW}:$LATEST` } }],
+      ["InvokeLambdaFunction", { LambdaFunctionARN: `${SOURCE_LAMBDA}-v2` }],
+      ["InvokeLambdaFunction", { LambdaFunctionARN: `${SOURCE_LAMBDA}:3` }]
+    );
+
+    const mappings = new Map([
+      [SOURCE_VIEW, TARGET_VIEW],
+      [SOURCE_LAMBDA, TARGET_LAMBDA],
+      [`${SOURCE_LAMBDA}:3`, `${TARGET_LAMBDA}:7`]
+    ]);
+
+    const parameters = parametersOf(rewriteArnsInContent(content, mappings).content);
+
+    assert.deepEqual(parameters, [
+      { ViewResource: { Id: TARGET_VIEW } },
+      { ViewResource: { Id: `${TARGET_VIEW}:$LATEST` } },
+      // Another function whose name starts with the mapped one is not that function
+      { LambdaFunctionARN: `${SOURCE_LAMBDA}-v2` },
+      { LambdaFunctionARN: `${TARGET_LAMBDA}:7` }
+    ]);
+  });
+
+  it("keeps a flow's $SAVED or alias qualifier on the mapped ARN", () => {
+    const content = flowContent(
+      ["TransferToFlow", { ContactFlowId: `${SOURCE_FLOW}:$SAVED` }],
+      ["TransferToFlow", { ContactFlowId: `${SOURCE_FLOW}:live` }]
+    );
+
+    const { content: rewritten, substitutions } = rewriteArnsInContent(content, new Map([[SOURCE_FLOW, TARGET_FLOW]]));
+
+    assert.deepEqual(parametersOf(rewritten), [{ ContactFlowId: `${TARGET_FLOW}:$SAVED` }, { ContactFlowId: `${TARGET_FLOW}:live` }]);
+    assert.deepEqual(substitutions.map(s => s.path), ["Actions.0.Parameters.ContactFlowId", "Actions.1.Parameters.ContactFlowId"]);
+  });
+
+  it("rewrites a bare resource ID to the ID its ARN maps to", () => {
+    const content = flowContent(["UpdateContactTargetQueue", { QueueId: SOURCE_QUEUE_ID }]);
+
+    const { content: rewritten, substitutions } = rewriteArnsInContent(content, new Map([[SOURCE_QUEUE, TARGET_QUEUE]]));
+
+    assert.deepEqual(parametersOf(rewritten)[0], { QueueId: TARGET_QUEUE_ID });
+    assert.deepEqual(substitutions, [{ path: "Actions.0.Parameters.QueueId", from: SOURCE_QUEUE_ID, to: TARGET_QUEUE_ID, knownField: true }]);
+  });
+
+  it("leaves text that only mentions an ARN unchanged", () => {
+    const content = flowContent(["MessageParticipant", { Text: `Routing to ${SOURCE_QUEUE} (${SOURCE_QUEUE_ID}) after hours` }]);
+
+    const result = rewriteArnsInContent(content, new Map([[SOURCE_QUEUE, TARGET_QUEUE]]));
+
+    assert.equal(result.content, content);
+    assert.deepEqual(result.substitutions, []);
+  });
+
+  it("records a mapped ARN outside the catalogued fields as not a known field", () => {
+    const content = flowContent(["UpdateContactTargetQueue", { QueueId: SOURCE_QUEUE, Fallback: { QueueArn: SOURCE_QUEUE } }]);
+
+    const { substitutions } = rewriteArnsInContent(content, new Map([[SOURCE_QUEUE, TARGET_QUEUE]]));
+
+    assert.deepEqual(substitutions.map(s => [s.path, s.knownField]), [
+      ["Actions.0.Parameters.QueueId", true],
+      ["Actions.0.Parameters.Fallback.QueueArn", false]
+    ]);
+  });
+});
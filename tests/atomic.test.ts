@@ -0,0 +1,62 @@
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { DescribeContactFlowCommand, InvalidContactFlowException } from "@aws-sdk/client-connect";
+
+import { copyAll } from "../src/copy-all.js";
+import { setConnectClientFactory } from "../src/connect/client.js";
+import { createEmulatorClient, seedFlowDraft, EMULATOR_ACCOUNT_ID } from "../test-utils/connect-emulator.js";
+import { setUpScenario, tearDownScenario, copyOptions, sourceState, targetState, ProcessExitError, TARGET_INSTANCE_ID } from "./helpers.js";
+
+
+// Publishing is an unqualified content update; staging and rollback drafts go to ":$SAVED"
+function failFirstPublish() {
+  let failed = false;
+
+  setConnectClientFactory(region => {
+    const client = createEmulatorClient(region);
+
+    client.middlewareStack.add(next => async args => {
+      const input = args.input as { ContactFlowId?: string; Content?: string };
+
+      if (!failed && input.Content !== undefined && input.ContactFlowId !== undefined && !input.ContactFlowId.endsWith(":$SAVED")) {
+        failed = true;
+        throw new InvalidContactFlowException({ message: "Injected publish failure", problems: [], $metadata: {} });
+      }
+
+      return next(args);
+    }, { step: "initialize", priority: "high", name: "failFirstPublish" });
+
+    return client;
+  });
+}
+
+
+describe("copy --atomic", () => {
+  beforeEach(setUpScenario);
+  afterEach(tearDownScenario);
+
+  // Ends in process.exit after rolling back, so it is the only test in this file. Backups last for
+  // the whole process, as they do for one CLI run, so the updated flow is seeded rather than copied
+  it("puts back target drafts that staging overwrote when publishing fails", async () => {
+    const sourceFlow = sourceState().flows.find(f => f.Summary.Name === "Support Inbound")!;
+    const id = "20000000-0000-4000-8000-0000000000aa";
+    const arn = `arn:aws:connect:us-east-1:${EMULATOR_ACCOUNT_ID}:instance/${TARGET_INSTANCE_ID}/contact-flow/${id}`;
+    const publishedContent = JSON.stringify({ Version: "2019-10-30", StartAction: "end", Metadata: {}, Actions: [{ Identifier: "end", Type: "DisconnectParticipant", Parameters: {}, Transitions: {} }] });
+    const draftContent = JSON.stringify(JSON.parse(publishedContent), null, 2);
+
+    targetState().flows.push({
+      Summary: { ...sourceFlow.Summary, Id: id, Arn: arn },
+      ContactFlow: { ...sourceFlow.ContactFlow, Id: id, Arn: arn, Content: publishedContent }
+    });
+    seedFlowDraft(arn, draftContent);
+
+    failFirstPublish();
+    await assert.rejects(copyAll(copyOptions({ atomic: true })), ProcessExitError);
+
+    const client = createEmulatorClient("us-east-1");
+    const draft = await client.send(new DescribeContactFlowCommand({ InstanceId: TARGET_INSTANCE_ID, ContactFlowId: `${id}:$SAVED` }));
+
+    assert.equal(targetState().flows.find(f => f.Summary.Id === id)?.ContactFlow.Content, publishedContent);
+    assert.equal(draft.ContactFlow?.Content, draftContent);
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert/strict";
+
+import { copyAll } from "../src/copy-all.js";
+import { setUpScenario, tearDownScenario, copyOptions, sourceState, targetState, targetWritesSince, commandLogLength, SOURCE_INSTANCE_ID, TARGET_INSTANCE_ID } from "./helpers.js";
+
+
+const COLLECTIONS = ["flows", "modules", "queues", "routingProfiles", "quickConnects", "hierarchyGroups", "securityProfiles", "hoursOfOperations", "agentStatuses"] as const;
+
+
+function names(collection: { Summary: { Name?: string | undefined } }[]): string[] {
+  return collection.map(entry => entry.Summary.Name ?? "").sort();
+}
+
+
+describe("copy", () => {
+  beforeEach(setUpScenario);
+  afterEach(tearDownScenario);
+
+  it("creates every source resource in an empty target", async () => {
+    await copyAll(copyOptions());
+    // Quick connects that send contacts to a flow wait for the flow to exist, as against real instances
+    await copyAll(copyOptions());
+
+    const source = sourceState();
+    const target = targetState();
+
+    for (const collection of COLLECTIONS) {
+      assert.deepEqual(names(target[collection]), names(source[collection]), collection);
+    }
+
+    assert.equal(target.hierarchyStructure.LevelOne?.Name, source.hierarchyStructure.LevelOne?.Name);
+  });
+
+  it("points copied resources at target resources, never at source", async () => {
+    await copyAll(copyOptions());
+    await copyAll(copyOptions());
+
+    const target = targetState();
+    const byName = <T extends { Summary: { Name?: string | undefined; Id?: string | undefined; Arn?: string | undefined } }>(entries: T[], name: string) => entries.find(e => e.Summary.Name === name)!.Summary;
+
+    const hours = byName(target.hoursOfOperations, "Business Hours");
+    const queue = byName(target.queues, "Support");
+    const flow = byName(target.flows, "Support Queue Transfer");
+
+    assert.equal(target.queues[0]!.Queue?.HoursOfOperationId, hours.Id);
+    assert.deepEqual(target.routingProfiles[0]!.Queues.map(q => q.QueueId), [queue.Id]);
+    assert.equal(target.quickConnects[0]!.QuickConnect.QuickConnectConfig?.QueueConfig?.ContactFlowId, flow.Id);
+
+    for (const entry of [...target.flows.map(f => f.ContactFlow), ...target.modules.map(m => m.ContactFlowModule)]) {
+      assert.ok(!entry.Content!.includes(SOURCE_INSTANCE_ID), `${entry.Name} still references the source instance`);
+    }
+
+    assert.ok(target.flows.some(f => f.ContactFlow.Content!.includes(`instance/${TARGET_INSTANCE_ID}/queue/${queue.Id}`)));
+  });
+
+  it("changes nothing once target matches source", async () => {
+    await copyAll(copyOptions());
+    await copyAll(copyOptions());
+
+    const start = commandLogLength();
+    await copyAll(copyOptions());
+
+    assert.deepEqual(targetWritesSince(start), []);
+  });
+
+  it("copies only what --skip leaves", async () => {
+    await copyAll(copyOptions({ skip: "flows,quick-connects,routing-profiles" }));
+
+    const target = targetState();
+    assert.equal(target.flows.length, 0);
+    assert.equal(target.quickConnects.length, 0);
+    assert.equal(target.routingProfiles.length, 0);
+    assert.deepEqual(names(target.queues), ["Support"]);
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert/strict";
+
+import { copyAll } from "../src/copy-all.js";
+import { diffFlowContent, formatFlowContentDiff } from "../src/flow-diff.js";
+import { setUpScenario, tearDownScenario, copyOptions, sourceState, targetWritesSince, commandLogLength } from "./helpers.js";
+
+
+const QUEUE_ARN = "arn:aws:connect:us-east-1:222222222222:instance/bbbbbbbb-0000-4000-8000-000000000002/queue/20000000-0000-4000-8000-000000000005";
+
+
+// A two-block flow: set the working queue, then transfer to it
+function flow() {
+  return {
+    Version: "2019-10-30",
+    StartAction: "set-queue",
+    Metadata: {
+      entryPointPosition: { x: 40, y: 40 },
+      ActionMetadata: {
+        "set-queue": { position: { x: 200, y: 40 } },
+        "transfer": { position: { x: 440, y: 40 } }
+      }
+    },
+    Actions: [
+      { Identifier: "set-queue", Type: "UpdateContactTargetQueue", Parameters: { QueueId: QUEUE_ARN }, Transitions: { NextAction: "transfer", Errors: [] } },
+      { Identifier: "transfer", Type: "TransferContactToQueue", Parameters: {}, Transitions: {} }
+    ]
+  };
+}
+
+
+function diff(change: (source: ReturnType<typeof flow>) => void) {
+  const source = flow();
+  change(source);
+  return diffFlowContent(JSON.stringify(source), JSON.stringify(flow()));
+}
+
+
+describe("diffFlowContent", () => {
+  it("treats a moved block as cosmetic", () => {
+    const result = diff(source => { source.Metadata.ActionMetadata["transfer"].position = { x: 600, y: 120 }; });
+
+    assert.deepEqual(result.moved, ["transfer"]);
+    assert.deepEqual(result.actions, []);
+    assert.equal(result.cosmeticOnly, true);
+    assert.deepEqual(formatFlowContentDiff(result, ""), ["Layout: 1 block moved", "(cosmetic changes only - flow behavior is identical)"]);
+  });
+
+  it("treats reordered Actions as cosmetic", () => {
+    const result = diff(source => source.Actions.reverse());
+
+    assert.deepEqual(result.actions, []);
+    assert.deepEqual(result.moved, []);
+    assert.equal(result.cosmeticOnly, true);
+    assert.deepEqual(formatFlowContentDiff(result, ""), ["Actions reordered", "(cosmetic changes only - flow behavior is identical)"]);
+  });
+
+  it("treats a changed Metadata annotation as cosmetic", () => {
+    const result = diff(source => { (source.Metadata.ActionMetadata["set-queue"] as Record<string, unknown>)["comment"] = "Sales overflow"; });
+
+    assert.deepEqual(result.metadata, [{ path: "Metadata.ActionMetadata.set-queue.comment", source: "Sales overflow" }]);
+    assert.equal(result.cosmeticOnly, true);
+    assert.deepEqual(formatFlowContentDiff(result, ""), [
+      'Metadata.ActionMetadata.set-queue.comment: (none) → "Sales overflow"',
+      "(cosmetic changes only - flow behavior is identical)"
+    ]);
+  });
+
+  it("counts a parameter change as behavioral, even alongside a moved block", () => {
+    const otherQueue = QUEUE_ARN.replace(/5$/, "6");
+    const result = diff(source => {
+      source.Actions[0]!.Parameters = { QueueId: otherQueue };
+      source.Metadata.ActionMetadata["set-queue"].position = { x: 0, y: 0 };
+    });
+
+    assert.equal(result.cosmeticOnly, false);
+    assert.deepEqual(result.actions, [{
+      identifier: "set-queue",
+      type: "UpdateContactTargetQueue",
+      change: "changed",
+      parameters: [{ path: "Parameters.QueueId", target: QUEUE_ARN, source: otherQueue }],
+      transitions: [],
+      other: []
+    }]);
+
+    // Long values are cut in the text tree
+    assert.deepEqual(formatFlowContentDiff(result, ""), [
+      "~ UpdateContactTargetQueue set-queue",
+      `    Parameters.QueueId: ${JSON.stringify(QUEUE_ARN).slice(0, 77)}... → ${JSON.stringify(otherQueue).slice(0, 77)}...`,
+      "Layout: 1 block moved"
+    ]);
+  });
+});
+
+
+describe("copy --flow-comparison behavioral", () => {
+  beforeEach(setUpScenario);
+  afterEach(tearDownScenario);
+
+  // Move the entry point of a source flow on the canvas, leaving what it does alone
+  function moveEntryPoint() {
+    const inbound = sourceState().flows.find(f => f.Summary.Name === "Support Inbound")!.ContactFlow;
+    const content = JSON.parse(inbound.Content!);
+    content.Metadata.entryPointPosition = { x: 400, y: 400 };
+    inbound.Content = JSON.stringify(content);
+  }
+
+  it("skips a flow whose only change is its layout", async () => {
+    await copyAll(copyOptions());
+    await copyAll(copyOptions());
+    moveEntryPoint();
+
+    const start = commandLogLength();
+    await copyAll(copyOptions({ flowComparison: "behavioral" }));
+
+    assert.ok(!targetWritesSince(start).includes("UpdateContactFlowContentCommand"));
+  });
+
+  it("still updates that flow with exact comparison", async () => {
+    await copyAll(copyOptions());
+    await copyAll(copyOptions());
+    moveEntryPoint();
+
+    const start = commandLogLength();
+    await copyAll(copyOptions({ flowComparison: "exact" }));
+
+    assert.ok(targetWritesSince(start).includes("UpdateContactFlowContentCommand"));
+  });
+});
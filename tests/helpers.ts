@@ -0,0 +1,111 @@
+import { mkdtemp } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { fileURLToPath } from "url";
+import { mock } from "node:test";
+
+import { installEmulator, resetEmulator, seedInstance, getInstanceState, getCommandLog } from "../test-utils/connect-emulator.js";
+import { setCliFlags } from "../src/cli-flags.js";
+
+import type { CopyAllOptions } from "../src/copy-all.js";
+
+
+export const FIXTURES = fileURLToPath(new URL("../test-utils/fixtures/", import.meta.url));
+
+export const SOURCE_INSTANCE_ID = "aaaaaaaa-0000-4000-8000-000000000001";
+export const TARGET_INSTANCE_ID = "bbbbbbbb-0000-4000-8000-000000000002";
+
+// Reads never change the target; everything else the emulator logs is a write
+const READ_COMMAND_PATTERN = /^(Describe|List|Search|Get)/;
+
+
+// node --test runs each test file in its own process
+let scratchDir: string | undefined;
+
+
+/**
+ * Thrown in place of process.exit, so a command that gives up fails the test instead of ending
+ * the test runner.
+ */
+export class ProcessExitError extends Error {
+  constructor(readonly code: number | undefined) {
+    super(`process.exit(${code})`);
+  }
+}
+
+
+/**
+ * Fresh emulator with the source and target fixtures seeded, run from a scratch directory: copy
+ * writes backups/ and journals into the working directory and keeps their relative paths for the
+ * life of the process, so the directory is made once per test file. Console output is captured
+ * into the returned array rather than printed, and process.exit throws ProcessExitError.
+ */
+export async function setUpScenario(): Promise<string[]> {
+  resetEmulator();
+  installEmulator();
+
+  await seedInstance(join(FIXTURES, "source-instance.json"));
+  await seedInstance(join(FIXTURES, "target-instance.json"));
+
+  setCliFlags({ publish: true, yes: true, verbose: false });
+
+  if (!scratchDir) {
+    scratchDir = await mkdtemp(join(tmpdir(), "connect-copy-test-"));
+    process.chdir(scratchDir);
+  }
+
+  const output: string[] = [];
+  mock.method(console, "log", (...args: unknown[]) => { output.push(args.join(" ")); });
+  mock.method(console, "error", (...args: unknown[]) => { output.push(args.join(" ")); });
+  mock.method(process, "exit", (code?: number) => { throw new ProcessExitError(code); });
+
+  return output;
+}
+
+
+export function tearDownScenario() {
+  mock.restoreAll();
+  resetEmulator();
+}
+
+
+export function copyOptions(overrides: Partial<CopyAllOptions> = {}): CopyAllOptions {
+  return {
+    sourceConfig: join(FIXTURES, "source-config.json"),
+    targetConfig: join(FIXTURES, "target-config.json"),
+    sourceProfile: "unused",
+    targetProfile: "unused",
+    verbose: false,
+    skip: "",
+    skipOutboundFlow: false,
+    forceHierarchyRecreate: false,
+    forceStructureUpdate: false,
+    publish: true,
+    yes: true,
+    ...overrides
+  };
+}
+
+
+export function targetState() {
+  return getInstanceState(TARGET_INSTANCE_ID);
+}
+
+
+export function sourceState() {
+  return getInstanceState(SOURCE_INSTANCE_ID);
+}
+
+
+// Commands sent to target since the given point in the command log (see commandLogLength)
+export function targetWritesSince(start: number): string[] {
+  return getCommandLog()
+    .slice(start)
+    .filter(entry => entry.instanceId === TARGET_INSTANCE_ID && !READ_COMMAND_PATTERN.test(entry.commandName))
+    .map(entry => entry.commandName);
+}
+
+
+export function commandLogLength(): number {
+  return getCommandLog().length;
+}
@@ -0,0 +1,70 @@
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { readFile, writeFile } from "fs/promises";
+
+import { copyAll } from "../src/copy-all.js";
+import { setUpScenario, tearDownScenario, copyOptions, targetState } from "./helpers.js";
+
+import type { CopyAllOptions } from "../src/copy-all.js";
+
+
+let output: string[] = [];
+
+
+async function copyWithJournal(overrides: Partial<CopyAllOptions> = {}): Promise<string> {
+  await copyAll(copyOptions(overrides));
+
+  const file = output.map(line => /^Run journal: (\S+)/.exec(line)?.[1]).find(Boolean);
+  assert.ok(file, "copy should announce its journal");
+  return file;
+}
+
+
+async function readRecords(file: string): Promise<{ record?: string; [key: string]: unknown }[]> {
+  const lines = (await readFile(file, "utf-8")).split("\n");
+  assert.equal(lines.pop(), "", "every record should end with a newline");
+  return lines.map(line => JSON.parse(line));
+}
+
+
+describe("run journal", () => {
+  beforeEach(async () => { output = await setUpScenario(); });
+  afterEach(tearDownScenario);
+
+  it("appends a record per write, with the ARN of each created resource", async () => {
+    const file = await copyWithJournal();
+    const [header, ...records] = await readRecords(file);
+
+    assert.equal(header?.["command"], "copy");
+    assert.deepEqual(records.at(-1), { record: "finished" });
+
+    // CreateAgentStatus answers with AgentStatusARN rather than ...Arn
+    const createStatus = records.find(r => r.record === "write" && (r["write"] as { command: string }).command === "CreateAgentStatusCommand");
+    assert.equal((createStatus?.["write"] as { arn?: string }).arn, targetState().agentStatuses[0]!.AgentStatus.AgentStatusARN);
+  });
+
+  it("records each flow's ARN rewrites once when --atomic stages content before publishing it", async () => {
+    const records = await readRecords(await copyWithJournal({ atomic: true }));
+    const resources = records.filter(r => r.record === "arnSubstitutions").map(r => r["resource"]);
+
+    assert.ok(resources.length > 0, "copied flows should reference mapped resources");
+    assert.deepEqual(resources, [...new Set(resources)]);
+  });
+
+  it("resumes from the records written before the run died mid-append", async () => {
+    const lines = (await readFile(await copyWithJournal(), "utf-8")).split("\n");
+    const firstStep = lines.findIndex(line => line.includes('"record":"stepCompleted"'));
+    const kept = lines.slice(0, firstStep + 1);
+    const writes = kept.filter(line => line.includes('"record":"write"')).length;
+
+    await writeFile("interrupted.jsonl", kept.join("\n") + '\n{"record":"write","wri');
+    await copyAll(copyOptions({ resume: "interrupted.jsonl" }));
+
+    assert.ok(output.includes(`  Writes already made: ${writes}`));
+    assert.ok(output.includes(`  Completed: ${JSON.parse(kept.at(-1)!).step}`));
+
+    // Every line parses: the cut record was dropped, not appended to
+    const resumed = await readRecords("interrupted.jsonl");
+    assert.deepEqual(resumed.at(-1), { record: "finished" });
+  });
+});
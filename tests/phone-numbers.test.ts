@@ -0,0 +1,36 @@
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { readFile, writeFile } from "fs/promises";
+import { join } from "path";
+
+import { copyAll } from "../src/copy-all.js";
+import { listPhoneNumberFlowAssociations } from "../src/resources/phone-numbers/operations.js";
+import { createEmulatorClient, seedPhoneNumberFlow } from "../test-utils/connect-emulator.js";
+import { setUpScenario, tearDownScenario, copyOptions, sourceState, targetState, targetWritesSince, commandLogLength, FIXTURES, SOURCE_INSTANCE_ID, TARGET_INSTANCE_ID } from "./helpers.js";
+
+
+describe("copy phone numbers", () => {
+  beforeEach(setUpScenario);
+  afterEach(tearDownScenario);
+
+  it("associates the matching target number with the copied flow", async () => {
+    const config = JSON.parse(await readFile(join(FIXTURES, "source-config.json"), "utf-8"));
+    await writeFile("phone-source-config.json", JSON.stringify({ ...config, phoneNumberMatchBy: "description" }));
+
+    const inbound = sourceState().flows.find(f => f.Summary.Name === "Support Inbound")!;
+    seedPhoneNumberFlow(SOURCE_INSTANCE_ID, sourceState().phoneNumbers[0]!.PhoneNumberArn!, inbound.Summary.Arn!);
+
+    await copyAll(copyOptions({ sourceConfig: "phone-source-config.json" }));
+
+    const targetNumber = targetState().phoneNumbers[0]!;
+    const targetFlow = targetState().flows.find(f => f.Summary.Name === "Support Inbound")!;
+    const associations = await listPhoneNumberFlowAssociations(createEmulatorClient("us-east-1"), TARGET_INSTANCE_ID);
+
+    assert.deepEqual(associations.map(a => [a.ResourceId, a.FlowId]), [[targetNumber.PhoneNumberArn, targetFlow.Summary.Arn]]);
+
+    const start = commandLogLength();
+    await copyAll(copyOptions({ sourceConfig: "phone-source-config.json" }));
+
+    assert.ok(!targetWritesSince(start).includes("AssociatePhoneNumberContactFlowCommand"));
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { join } from "path";
+
+import { copyAll } from "../src/copy-all.js";
+import { runReport } from "../src/report.js";
+import { setUpScenario, tearDownScenario, copyOptions, sourceState, targetState, targetWritesSince, commandLogLength, FIXTURES, ProcessExitError } from "./helpers.js";
+
+
+async function savePlan(planFile: string, skip = "") {
+  await runReport({
+    sourceConfig: join(FIXTURES, "source-config.json"),
+    targetConfig: join(FIXTURES, "target-config.json"),
+    sourceProfile: "unused",
+    targetProfile: "unused",
+    resourcesOnly: false,
+    skip,
+    skipOutboundFlow: false,
+    forceHierarchyRecreate: false,
+    forceStructureUpdate: false,
+    output: "text",
+    savePlan: planFile
+  });
+}
+
+
+describe("copy --plan", () => {
+  let output: string[] = [];
+
+  beforeEach(async () => { output = await setUpScenario(); });
+  afterEach(tearDownScenario);
+
+  it("applies an approved plan", async () => {
+    await copyAll(copyOptions());
+    await copyAll(copyOptions());
+
+    const status = sourceState().agentStatuses[0]!.AgentStatus;
+    status.Description = "Reviewed change";
+    await savePlan("approved.json");
+
+    const start = commandLogLength();
+    await copyAll(copyOptions({ plan: "approved.json" }));
+
+    assert.deepEqual(targetWritesSince(start), ["UpdateAgentStatusCommand"]);
+    assert.equal(targetState().agentStatuses[0]!.AgentStatus.Description, "Reviewed change");
+  });
+
+  it("changes nothing when a later step has drifted", async () => {
+    await savePlan("drifted.json");
+
+    // Flows are copied after every other resource type, so checking each type only as it runs
+    // would already have written hours, queues and the rest
+    sourceState().flows[0]!.ContactFlow.Description = "Edited after the plan was reviewed";
+
+    const start = commandLogLength();
+    await assert.rejects(copyAll(copyOptions({ plan: "drifted.json" })), ProcessExitError);
+
+    assert.deepEqual(targetWritesSince(start), []);
+  });
+
+  it("refuses a plan with validation failures before changing anything", async () => {
+    // Against the empty target, flows reference queues that do not exist yet
+    await savePlan("invalid.json");
+
+    const start = commandLogLength();
+    await assert.rejects(copyAll(copyOptions({ plan: "invalid.json" })), ProcessExitError);
+
+    assert.deepEqual(targetWritesSince(start), []);
+  });
+
+  it("applies only the planned actions when earlier steps make more possible", async () => {
+    await savePlan("empty-target.json", "flows,phone-numbers");
+
+    await copyAll(copyOptions({ plan: "empty-target.json" }));
+
+    // The queue needs hours that only this run created, so it was never reviewed and is left for the next plan
+    assert.equal(targetState().hoursOfOperations.length, 1);
+    assert.equal(targetState().queues.length, 0);
+    assert.ok(output.some(line => line.includes('queues "Support": would create, not in plan')));
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { readFile, writeFile } from "fs/promises";
+import { join } from "path";
+
+import { copyAll } from "../src/copy-all.js";
+import { copyPrompts } from "../src/resources/prompts/copy.js";
+import { seedInstance } from "../test-utils/connect-emulator.js";
+import { setUpScenario, tearDownScenario, copyOptions, sourceState, targetState, targetWritesSince, commandLogLength, FIXTURES } from "./helpers.js";
+
+import type { EmulatorFixture } from "../test-utils/connect-emulator.js";
+
+
+const STAGING_TARGET_CONFIG = "staging-target-config.json";
+
+
+async function writeStagingConfig() {
+  const config = JSON.parse(await readFile(join(FIXTURES, "target-config.json"), "utf-8"));
+  await writeFile(STAGING_TARGET_CONFIG, JSON.stringify({ ...config, promptStagingUri: "s3://staging-bucket/prompts/" }));
+}
+
+
+async function copyPromptsWithStaging() {
+  await copyPrompts({
+    sourceConfig: join(FIXTURES, "source-config.json"),
+    targetConfig: STAGING_TARGET_CONFIG,
+    sourceProfile: "unused",
+    targetProfile: "unused",
+    verbose: false
+  });
+}
+
+
+describe("copy-prompts", () => {
+  beforeEach(async () => {
+    await setUpScenario();
+    await writeStagingConfig();
+  });
+  afterEach(tearDownScenario);
+
+  it("stages the source audio and creates the prompt from it", async () => {
+    await copyPromptsWithStaging();
+
+    assert.deepEqual(targetState().prompts.map(p => p.Name), ["Support Welcome"]);
+
+    // Audio is compared by content hash, so a second run only matches if the staged audio was kept
+    const start = commandLogLength();
+    await copyPromptsWithStaging();
+
+    assert.deepEqual(targetWritesSince(start), []);
+  });
+
+  it("updates a prompt whose description changed", async () => {
+    await copyPromptsWithStaging();
+
+    const fixture: EmulatorFixture = JSON.parse(await readFile(join(FIXTURES, "source-instance.json"), "utf-8"));
+    fixture.described!.prompts![0]!.Description = "Played while waiting";
+    await seedInstance(fixture);
+
+    const start = commandLogLength();
+    await copyPromptsWithStaging();
+
+    assert.deepEqual(targetWritesSince(start), ["UpdatePromptCommand"]);
+  });
+
+  it("deletes a target prompt that is no longer in source with --prune", async () => {
+    await copyPromptsWithStaging();
+    sourceState().prompts.length = 0;
+
+    await copyAll(copyOptions({ targetConfig: STAGING_TARGET_CONFIG, prune: "prompts" }));
+
+    assert.deepEqual(targetState().prompts, []);
+  });
+});
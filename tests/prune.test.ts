@@ -0,0 +1,42 @@
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { readFile, writeFile } from "fs/promises";
+import { join } from "path";
+
+import { copyAll } from "../src/copy-all.js";
+import { setUpScenario, tearDownScenario, copyOptions, sourceState, targetState, FIXTURES, TARGET_INSTANCE_ID } from "./helpers.js";
+
+
+// A target-only copy of the source's hours under another name and ID
+function seedTargetHours(name: string, id: string) {
+  const hours = sourceState().hoursOfOperations[0]!;
+  const arn = `arn:aws:connect:us-east-1:123456789012:instance/${TARGET_INSTANCE_ID}/operating-hours/${id}`;
+
+  targetState().hoursOfOperations.push({
+    Summary: { ...hours.Summary, Id: id, Arn: arn, Name: name },
+    HoursOfOperation: { ...hours.HoursOfOperation, HoursOfOperationId: id, HoursOfOperationArn: arn, Name: name }
+  });
+}
+
+
+describe("copy --prune", () => {
+  beforeEach(setUpScenario);
+  afterEach(tearDownScenario);
+
+  it("applies source filters to target names through nameRules", async () => {
+    const config = JSON.parse(await readFile(join(FIXTURES, "source-config.json"), "utf-8"));
+    await writeFile("prune-source-config.json", JSON.stringify({
+      ...config,
+      nameRules: [{ match: "^DEV_", replace: "PROD_" }],
+      hoursFilters: { exclude: ["DEV_Legacy*"] }
+    }));
+
+    seedTargetHours("PROD_Legacy Hours", "10000000-0000-4000-8000-0000000000b1");
+    seedTargetHours("PROD_Old Hours", "10000000-0000-4000-8000-0000000000b2");
+
+    await copyAll(copyOptions({ sourceConfig: "prune-source-config.json", prune: "hours-of-operation" }));
+
+    const names = targetState().hoursOfOperations.map(h => h.Summary.Name).sort();
+    assert.deepEqual(names, ["Business Hours", "PROD_Legacy Hours"]);
+  });
+});
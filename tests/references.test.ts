@@ -0,0 +1,116 @@
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { readdir, readFile } from "fs/promises";
+import { join } from "path";
+
+import { ARN_FIELD_MAPPINGS, getArnFieldsForActionType, toCatalogPath } from "../src/arn-field-mapping.js";
+import { extractDependencyArnsFromFlow, findUnmappedReferences, isResourceId } from "../src/arn-utils.js";
+import { copyAll } from "../src/copy-all.js";
+import { setUpScenario, tearDownScenario, copyOptions, sourceState, targetState, FIXTURES, ProcessExitError } from "./helpers.js";
+
+import type { ContactFlow } from "@aws-sdk/client-connect";
+
+
+const ACTIONS_DIR = join(FIXTURES, "actions");
+
+interface FlowAction {
+  Identifier: string;
+  Type: string;
+  Parameters: Record<string, unknown>;
+}
+
+
+async function actionFixture(actionType: string): Promise<{ flow: ContactFlow; action: FlowAction }> {
+  const content = await readFile(join(ACTIONS_DIR, `${actionType}.json`), "utf-8");
+  const action = (JSON.parse(content).Actions as FlowAction[]).find(a => a.Type === actionType);
+  assert.ok(action, `${actionType}.json has no ${actionType} action`);
+
+  return { flow: { Content: content }, action };
+}
+
+
+// Every string below an action's Parameters, with its dot path
+function stringsIn(value: unknown, path = ""): { path: string; value: string }[] {
+  if (typeof value === "string") return [{ path, value }];
+  if (value == null || typeof value !== "object") return [];
+
+  return Object.entries(value).flatMap(([key, entry]) => stringsIn(entry, path ? `${path}.${key}` : key));
+}
+
+
+function isReference(value: string): boolean {
+  return value.startsWith("arn:aws:") || value.startsWith("s3://") || isResourceId(value);
+}
+
+
+describe("reference catalog fixtures", async () => {
+  const fixtureTypes = (await readdir(ACTIONS_DIR)).map(file => file.replace(/\.json$/, "")).sort();
+
+  it("has a fixture for every catalogued action type", () => {
+    assert.deepEqual(fixtureTypes, ARN_FIELD_MAPPINGS.map(m => m.actionType).sort());
+  });
+
+  for (const actionType of fixtureTypes) {
+    it(`extracts every catalogued ${actionType} reference`, async () => {
+      const { flow, action } = await actionFixture(actionType);
+      const strings = stringsIn(action.Parameters);
+      const populated = new Set(strings.map(s => toCatalogPath(s.path)));
+
+      for (const field of getArnFieldsForActionType(actionType)) {
+        assert.ok(populated.has(field.path), `${actionType}.json does not populate ${field.path}`);
+      }
+
+      // Some catalogued fields hold plain IDs (e.g. a Cognito app client), which are not references
+      const references = strings.filter(s => isReference(s.value)).map(s => s.value);
+      assert.deepEqual(extractDependencyArnsFromFlow(flow).sort(), [...new Set(references)].sort());
+      assert.deepEqual(findUnmappedReferences(flow), []);
+    });
+  }
+
+  it("reports a reference outside the catalogued fields", async () => {
+    const { action } = await actionFixture("TransferContactToQueue");
+    const queueArn = action.Parameters["QueueId"] as string;
+    const content = JSON.stringify({ Version: "2019-10-30", StartAction: action.Identifier, Actions: [{ ...action, Parameters: { ...action.Parameters, Fallback: { QueueArn: queueArn } } }] });
+
+    assert.deepEqual(findUnmappedReferences({ Content: content }), [
+      { actionId: action.Identifier, actionType: "TransferContactToQueue", path: "Fallback.QueueArn", value: queueArn }
+    ]);
+  });
+});
+
+
+describe("copy --strict-references", () => {
+  let output: string[] = [];
+
+  beforeEach(async () => { output = await setUpScenario(); });
+  afterEach(tearDownScenario);
+
+  // Stash a source queue ARN in a contact attribute, a field the catalog does not list
+  function addUnmappedReference(): string {
+    const flow = sourceState().flows.find(f => f.Summary.Name === "Support Inbound")!.ContactFlow;
+    const queueArn = sourceState().queues[0]!.Summary.Arn!;
+    const content = JSON.parse(flow.Content!);
+    const attributesAction = { Identifier: "20000000-0000-4000-8000-0000000000ab", Type: "UpdateContactAttributes", Parameters: { Attributes: { fallbackQueue: queueArn } }, Transitions: { NextAction: content.StartAction, Errors: [] } };
+
+    flow.Content = JSON.stringify({ ...content, StartAction: attributesAction.Identifier, Actions: [attributesAction, ...content.Actions] });
+    return queueArn;
+  }
+
+  it("copies a flow with an unmapped reference by default", async () => {
+    addUnmappedReference();
+
+    await copyAll(copyOptions());
+
+    assert.ok(targetState().flows.some(f => f.Summary.Name === "Support Inbound"));
+  });
+
+  // Ends in process.exit, so it goes last
+  it("refuses to copy a flow with an unmapped reference", async () => {
+    const queueArn = addUnmappedReference();
+
+    await assert.rejects(copyAll(copyOptions({ strictReferences: true })), ProcessExitError);
+
+    assert.ok(output.some(line => line.includes(`Unmapped reference in UpdateContactAttributes action 20000000 at Parameters.Attributes.fallbackQueue: ${queueArn}`)));
+    assert.ok(!targetState().flows.some(f => f.Summary.Name === "Support Inbound"));
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, beforeEach, afterEach, mock } from "node:test";
+import assert from "node:assert/strict";
+import { readFile, writeFile } from "fs/promises";
+import { join } from "path";
+
+import { runReport } from "../src/report.js";
+import { copyAll } from "../src/copy-all.js";
+import { seedFlowDraft } from "../test-utils/connect-emulator.js";
+import { setUpScenario, tearDownScenario, copyOptions, sourceState, FIXTURES, TARGET_INSTANCE_ID } from "./helpers.js";
+
+import type { ReportOptions } from "../src/report.js";
+
+
+function reportOptions(overrides: Partial<ReportOptions> = {}): ReportOptions {
+  return {
+    sourceConfig: join(FIXTURES, "source-config.json"),
+    targetConfig: join(FIXTURES, "target-config.json"),
+    sourceProfile: "unused",
+    targetProfile: "unused",
+    resourcesOnly: false,
+    skip: "",
+    skipOutboundFlow: false,
+    forceHierarchyRecreate: false,
+    forceStructureUpdate: false,
+    output: "text",
+    ...overrides
+  };
+}
+
+
+describe("report", () => {
+  beforeEach(setUpScenario);
+  afterEach(tearDownScenario);
+
+  it("writes only the JSON document to stdout and leaves console alone", async () => {
+    const logged: string[] = [];
+    const written: string[] = [];
+    mock.method(console, "log", (...args: unknown[]) => { logged.push(args.join(" ")); });
+    mock.method(process.stdout, "write", (chunk: string) => { written.push(chunk); return true; });
+
+    const consoleLog = console.log;
+    await runReport(reportOptions({ output: "json" }));
+
+    assert.equal(console.log, consoleLog);
+    assert.deepEqual(logged, []);
+    assert.equal(written.length, 1);
+    assert.equal(JSON.parse(written[0]!).target.instanceId, TARGET_INSTANCE_ID);
+
+    // Only that run logged to stderr
+    await runReport(reportOptions());
+    assert.ok(logged.length > 0);
+  });
+
+  it("reports the content diff and draft of a flow matched under another name", async () => {
+    const config = JSON.parse(await readFile(join(FIXTURES, "source-config.json"), "utf-8"));
+    await writeFile("renaming-source-config.json", JSON.stringify({ ...config, nameRules: [{ match: "^Support ", replace: "Main ", resourceTypes: ["flows"] }] }));
+    await copyAll(copyOptions({ sourceConfig: "renaming-source-config.json" }));
+
+    const flow = sourceState().flows.find(f => f.Summary.Name === "Support Inbound")!;
+    const content = JSON.parse(flow.ContactFlow.Content!);
+    const extraAction = { Identifier: "20000000-0000-4000-8000-0000000000ac", Type: "UpdateContactAttributes", Parameters: { Attributes: { tier: "gold" } }, Transitions: { NextAction: content.StartAction, Errors: [] } };
+    flow.ContactFlow.Content = JSON.stringify({ ...content, StartAction: extraAction.Identifier, Actions: [extraAction, ...content.Actions] });
+    seedFlowDraft(flow.Summary.Arn!, JSON.stringify(JSON.parse(flow.ContactFlow.Content), null, 2));
+
+    const written: string[] = [];
+    mock.method(process.stdout, "write", (chunk: string) => { written.push(chunk); return true; });
+    await runReport(reportOptions({ sourceConfig: "renaming-source-config.json", output: "json", includeSaved: true }));
+
+    const update = JSON.parse(written.join("")).flows.flows.update as { name: string; contentDiff?: unknown; draft?: boolean }[];
+    const entry = update.find(e => e.name === "Main Inbound");
+    assert.ok(entry?.contentDiff, "renamed flow should carry its content diff");
+    assert.equal(entry.draft, true);
+  });
+});
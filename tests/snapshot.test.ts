@@ -0,0 +1,49 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtemp, readFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { DescribeContactFlowCommand, ResourceNotFoundException } from "@aws-sdk/client-connect";
+
+import { loadSnapshot, writeSnapshot } from "../src/snapshot.js";
+import { createSnapshotClient } from "../src/connect/snapshot-client.js";
+import { FIXTURES } from "./helpers.js";
+
+import type { InstanceSnapshot } from "../src/snapshot.js";
+
+
+async function sourceFixture(): Promise<InstanceSnapshot> {
+  return JSON.parse(await readFile(join(FIXTURES, "source-instance.json"), "utf-8"));
+}
+
+
+describe("snapshot", () => {
+  it("drops renamed and deleted resources when written over an existing snapshot", async () => {
+    const snapshotDir = await mkdtemp(join(tmpdir(), "connect-copy-snapshot-"));
+    const snapshot = await sourceFixture();
+    await writeSnapshot(snapshot, snapshotDir);
+
+    const [renamed, deleted] = snapshot.flows;
+    renamed!.Summary.Name = `${renamed!.Summary.Name} v2`;
+    snapshot.flows = [renamed!];
+    await writeSnapshot(snapshot, snapshotDir);
+
+    const reloaded = await loadSnapshot(snapshotDir);
+    assert.deepEqual(reloaded.flows.map(f => f.Summary.Name), [renamed!.Summary.Name]);
+    assert.ok(!reloaded.flows.some(f => f.Summary.Id === deleted!.Summary.Id));
+  });
+
+  it("refuses drafts and versions instead of answering with published content", async () => {
+    const snapshot = await sourceFixture();
+    const client = createSnapshotClient(snapshot);
+    const flow = snapshot.flows[0]!.Summary;
+    const describe = (contactFlowId: string) => client.send(new DescribeContactFlowCommand({ InstanceId: snapshot.manifest.instanceId, ContactFlowId: contactFlowId }));
+
+    assert.equal((await describe(flow.Id!)).ContactFlow?.Id, flow.Id);
+    assert.equal((await describe(flow.Arn!)).ContactFlow?.Id, flow.Id);
+
+    for (const qualified of [`${flow.Id}:$SAVED`, `${flow.Id}:1`]) {
+      await assert.rejects(describe(qualified), ResourceNotFoundException);
+    }
+  });
+});
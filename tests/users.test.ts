@@ -0,0 +1,63 @@
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { readFile } from "fs/promises";
+import { join } from "path";
+
+import { copyAll } from "../src/copy-all.js";
+import { copyUsers } from "../src/resources/users/copy.js";
+import { describeUser } from "../src/resources/users/operations.js";
+import { createEmulatorClient, seedInstance } from "../test-utils/connect-emulator.js";
+import { setUpScenario, tearDownScenario, copyOptions, targetState, targetWritesSince, commandLogLength, FIXTURES, TARGET_INSTANCE_ID } from "./helpers.js";
+
+import type { EmulatorFixture } from "../test-utils/connect-emulator.js";
+
+
+async function copyUsersWithPasswords() {
+  await copyUsers({
+    sourceConfig: join(FIXTURES, "source-config.json"),
+    targetConfig: join(FIXTURES, "target-config.json"),
+    sourceProfile: "unused",
+    targetProfile: "unused",
+    verbose: false,
+    passwordFile: "passwords.csv"
+  });
+}
+
+
+describe("copy-users", () => {
+  beforeEach(async () => {
+    await setUpScenario();
+    // Users need their routing profile, security profiles and hierarchy group in target first
+    await copyAll(copyOptions());
+  });
+  afterEach(tearDownScenario);
+
+  it("creates a user with target profiles and writes the generated password", async () => {
+    await copyUsersWithPasswords();
+
+    const summary = targetState().users.find(u => u.Username === "support.agent");
+    assert.ok(summary, "support.agent should be created");
+
+    const user = await describeUser(createEmulatorClient("us-east-1"), TARGET_INSTANCE_ID, summary.Id!);
+    assert.equal(user.RoutingProfileId, targetState().routingProfiles[0]!.Summary.Id);
+    assert.deepEqual(user.SecurityProfileIds, [targetState().securityProfiles[0]!.Summary.Id]);
+    assert.equal(user.HierarchyGroupId, targetState().hierarchyGroups[0]!.Summary.Id);
+
+    const passwords = (await readFile("passwords.csv", "utf-8")).trim().split("\n");
+    assert.equal(passwords[0], "username,password");
+    assert.match(passwords[1] ?? "", /^support\.agent,.{20}$/);
+  });
+
+  it("updates only the fields that changed", async () => {
+    await copyUsersWithPasswords();
+
+    const fixture: EmulatorFixture = JSON.parse(await readFile(join(FIXTURES, "source-instance.json"), "utf-8"));
+    fixture.described!.users![0]!.PhoneConfig!.AfterContactWorkTimeLimit = 60;
+    await seedInstance(fixture);
+
+    const start = commandLogLength();
+    await copyUsersWithPasswords();
+
+    assert.deepEqual(targetWritesSince(start), ["UpdateUserPhoneConfigCommand"]);
+  });
+});